@@ -6,6 +6,7 @@ import { createGetDataSourcesTool } from '@/app/lib/ai/tools/get-datasources';
 import { createEditFileTool } from '@/app/lib/ai/tools/edit-file-supabase';
 import { createAddDashboardWidgetTool } from '@/app/lib/ai/tools/add-dashboard-widget';
 import { createGetDashboardsTool } from '@/app/lib/ai/tools/get-dashboards';
+import { createSetDashboardFiltersTool } from '@/app/lib/ai/tools/set-dashboard-filters';
 import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
 import { decryptApiKey } from '@/app/lib/crypto';
 
@@ -138,13 +139,26 @@ export async function POST(req: Request) {
       apiKey,
     });
 
+    // Chat corrente (solo se dell'utente): collega le modifiche alle dashboard alla chat
+    let chatId: string | null = null;
+    if (typeof body.chatId === 'string' && body.chatId) {
+      const { data: chat } = await serviceClient
+        .from('chats')
+        .select('id')
+        .eq('id', body.chatId)
+        .eq('user_id', user.id)
+        .single();
+      chatId = chat?.id ?? null;
+    }
+
     // Create tools with context
     const tools = {
       getDataSources: createGetDataSourcesTool({ userId: user.id }),
       bash: createBashTool({ userId: user.id }),
       editFile: createEditFileTool({ userId: user.id }),
       getDashboards: createGetDashboardsTool({ userId: user.id }),
-      addDashboardWidget: createAddDashboardWidgetTool({ userId: user.id }),
+      addDashboardWidget: createAddDashboardWidgetTool({ userId: user.id, chatId }),
+      setDashboardFilters: createSetDashboardFiltersTool({ userId: user.id, chatId }),
     };
 
     // Sanitize messages to remove incomplete tool calls (e.g., when user stops mid-stream)
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { getConnectionPool } from '@/app/lib/connectors';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+
+/**
+ * API endpoint per monitorare il pool di connessioni ai database
+ * GET /api/connection-pool - Ottieni statistiche del pool (solo data source dell'utente)
+ */
+export async function GET() {
+  try {
+    // Verifica autenticazione
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const serviceClient = createServiceClient();
+    const { data: ownedSources } = await serviceClient
+      .from('data_sources')
+      .select('id')
+      .eq('user_id', user.id);
+
+    const ownedIds = new Set((ownedSources || []).map((s: { id: string }) => s.id));
+    const pool = getConnectionPool();
+    // I totali del processo includono le connessioni degli altri utenti: si ricalcolano sulle data source dell'utente
+    const datasources = pool.getStats().datasources.filter(ds => ownedIds.has(ds.datasourceId));
+    const total = datasources.reduce((sum, ds) => sum + ds.total, 0);
+    const inUse = datasources.reduce((sum, ds) => sum + ds.inUse, 0);
+
+    return NextResponse.json({
+      success: true,
+      stats: {
+        total,
+        inUse,
+        available: total - inUse,
+        datasources,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[API/connection-pool] Error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to get pool stats',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
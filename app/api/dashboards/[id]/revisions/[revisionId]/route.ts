@@ -0,0 +1,122 @@
+/**
+ * API Routes per una singola revisione di una Dashboard
+ *
+ * GET - Revisione con lo snapshot completo
+ * POST - Ripristina la revisione (diventa a sua volta una nuova revisione)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import { recordRevision, toSnapshot } from '@/app/lib/dashboard-revisions';
+
+// GET - Dettaglio revisione
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('dashboard_revisions')
+      .select('id, dashboard_id, author_type, chat_id, summary, created_at, snapshot')
+      .eq('id', revisionId)
+      .eq('dashboard_id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !data) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ revision: data });
+
+  } catch (error) {
+    console.error('[API/dashboards/revisions/id] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Ripristina revisione
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data: revision } = await serviceClient
+      .from('dashboard_revisions')
+      .select('snapshot, created_at')
+      .eq('id', revisionId)
+      .eq('dashboard_id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    const { data: existing } = await serviceClient
+      .from('dashboards')
+      .select('id, name, description, widgets, filters, layout_config')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    const snapshot = toSnapshot(revision.snapshot);
+
+    const { data, error } = await serviceClient
+      .from('dashboards')
+      .update({
+        ...snapshot,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[API/dashboards/revisions/id] Restore error:', error);
+      return NextResponse.json({ error: 'Failed to restore revision' }, { status: 500 });
+    }
+
+    await recordRevision(serviceClient, {
+      dashboardId: id,
+      userId: user.id,
+      before: toSnapshot(existing),
+      after: toSnapshot(data),
+      author: 'user',
+      summary: `Restored version from ${new Date(revision.created_at).toLocaleString('en-US')}`,
+    });
+
+    return NextResponse.json({ dashboard: data });
+
+  } catch (error) {
+    console.error('[API/dashboards/revisions/id] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API Route per la cronologia di una Dashboard
+ *
+ * GET - Elenco delle revisioni (dalla più recente, senza snapshot)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+
+const MAX_REVISIONS = 100;
+
+// GET - Elenco revisioni
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('dashboard_revisions')
+      .select('id, dashboard_id, author_type, chat_id, summary, created_at')
+      .eq('dashboard_id', id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(MAX_REVISIONS);
+
+    if (error) {
+      console.error('[API/dashboards/revisions] List error:', error);
+      return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 });
+    }
+
+    return NextResponse.json({ revisions: data || [] });
+
+  } catch (error) {
+    console.error('[API/dashboards/revisions] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -8,6 +8,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import { validateFilters } from '@/app/lib/dashboard-filters';
+import { validateWidgetLayouts } from '@/app/lib/dashboard-layout';
+import { validateRefreshInterval } from '@/app/lib/auto-refresh';
+import { recordRevision, toSnapshot } from '@/app/lib/dashboard-revisions';
 
 // GET - Dettagli dashboard
 export async function GET(
@@ -54,7 +58,7 @@ export async function PUT(
   try {
     const { id } = await params;
     const body = await req.json();
-    const { name, description, widgets, layout_config } = body;
+    const { name, description, widgets, layout_config, filters } = body;
 
     const supabase = await createServerSupabaseClient();
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -63,12 +67,35 @@ export async function PUT(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    if (filters !== undefined) {
+      try {
+        validateFilters(filters);
+      } catch (err) {
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid filters' }, { status: 400 });
+      }
+    }
+
+    try {
+      validateWidgetLayouts(widgets);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid widget layout' }, { status: 400 });
+    }
+
+    try {
+      validateRefreshInterval(layout_config?.refreshInterval);
+      if (Array.isArray(widgets)) {
+        widgets.forEach((w: { id?: string; refreshInterval?: unknown }) => validateRefreshInterval(w?.refreshInterval, `refreshInterval for widget "${w?.id}"`));
+      }
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid refresh interval' }, { status: 400 });
+    }
+
     const serviceClient = createServiceClient();
 
-    // Verifica che la dashboard appartenga all'utente
+    // Verifica che la dashboard appartenga all'utente (la versione attuale serve per la cronologia)
     const { data: existing } = await serviceClient
       .from('dashboards')
-      .select('id')
+      .select('id, name, description, widgets, filters, layout_config')
       .eq('id', id)
       .eq('user_id', user.id)
       .single();
@@ -84,6 +111,7 @@ export async function PUT(
         description: description !== undefined ? description : undefined,
         widgets: widgets || undefined,
         layout_config: layout_config || undefined,
+        filters: filters || undefined,
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
@@ -96,6 +124,14 @@ export async function PUT(
       return NextResponse.json({ error: 'Failed to update dashboard' }, { status: 500 });
     }
 
+    await recordRevision(serviceClient, {
+      dashboardId: id,
+      userId: user.id,
+      before: toSnapshot(existing),
+      after: toSnapshot(data),
+      author: 'user',
+    });
+
     return NextResponse.json({ dashboard: data });
 
   } catch (error) {
@@ -0,0 +1,224 @@
+/**
+ * API Routes per le statistiche dei viewer di una Dashboard condivisa
+ *
+ * GET - Impostazioni e riepilogo per link negli ultimi ?days= giorni (default 30): aperture nel tempo,
+ *       visitatori unici, ultimo accesso, widget e referrer più frequenti.
+ *       Chiavi di sources: id del link, "default" per il link predefinito, "snapshot:<id>" per gli snapshot.
+ *       Si leggono al massimo MAX_EVENTS eventi, dai più recenti: oltre, truncated è true e counted_since
+ *       è la data dell'evento più vecchio contato (i numeri coprono solo il periodo da lì in poi)
+ * PATCH - Impostazioni: { enabled, retention_days }
+ * DELETE - Cancella tutti gli eventi registrati
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import {
+  pruneShareViews,
+  summarizeShareViews,
+  validateAnalyticsSettings,
+  DEFAULT_RETENTION_DAYS,
+  MAX_RETENTION_DAYS,
+  SHARE_ANALYTICS_COLUMNS,
+  type ShareAnalyticsSettings,
+  type ShareViewRow,
+} from '@/app/lib/share-analytics';
+
+const DEFAULT_DAYS = 30;
+const PAGE_SIZE = 1000;
+const MAX_EVENTS = 20000;
+
+function settingsResponse(settings: Partial<ShareAnalyticsSettings>) {
+  return {
+    enabled: settings.share_analytics ?? true,
+    retention_days: settings.share_analytics_retention_days ?? DEFAULT_RETENTION_DAYS,
+  };
+}
+
+function sourceKey(row: ShareViewRow): string {
+  if (row.snapshot_id) return `snapshot:${row.snapshot_id}`;
+  return row.link_id ?? 'default';
+}
+
+// GET - Statistiche per link
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const daysParam = Number(req.nextUrl.searchParams.get('days') ?? DEFAULT_DAYS);
+    if (!Number.isInteger(daysParam) || daysParam < 1 || daysParam > MAX_RETENTION_DAYS) {
+      return NextResponse.json({ error: `days must be an integer between 1 and ${MAX_RETENTION_DAYS}` }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data: dashboard } = await serviceClient
+      .from('dashboards')
+      .select(`id, widgets, ${SHARE_ANALYTICS_COLUMNS}`)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    const settings = dashboard as unknown as ShareAnalyticsSettings & { widgets?: Array<{ id: string; title?: string }> };
+    await pruneShareViews(serviceClient, id, settings.share_analytics_retention_days);
+
+    // A pagine: PostgREST limita le righe di ogni risposta
+    const since = new Date(Date.now() - daysParam * 24 * 60 * 60 * 1000).toISOString();
+    const rows: ShareViewRow[] = [];
+    while (rows.length < MAX_EVENTS) {
+      const { data, error } = await serviceClient
+        .from('share_views')
+        .select('link_id, snapshot_id, event, widget_id, visitor_hash, referrer, created_at')
+        .eq('dashboard_id', id)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .range(rows.length, rows.length + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('[API/dashboards/share/analytics] List error:', error);
+        return NextResponse.json({ error: 'Failed to fetch analytics' }, { status: 500 });
+      }
+      rows.push(...(data as ShareViewRow[] || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    const bySource = new Map<string, ShareViewRow[]>();
+    for (const row of rows) {
+      const key = sourceKey(row);
+      if (!bySource.has(key)) bySource.set(key, []);
+      bySource.get(key)!.push(row);
+    }
+
+    return NextResponse.json({
+      settings: settingsResponse(settings),
+      days: daysParam,
+      truncated: rows.length >= MAX_EVENTS,
+      counted_since: rows.length >= MAX_EVENTS ? rows[rows.length - 1].created_at : null,
+      sources: Object.fromEntries(
+        Array.from(bySource.entries()).map(([key, sourceRows]) => [key, summarizeShareViews(sourceRows, daysParam)])
+      ),
+      widgets: Object.fromEntries((settings.widgets || []).map(widget => [widget.id, widget.title || widget.id])),
+    });
+
+  } catch (error) {
+    console.error('[API/dashboards/share/analytics] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH - Impostazioni delle statistiche
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let update;
+    try {
+      update = validateAnalyticsSettings(await req.json());
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid settings' }, { status: 400 });
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('dashboards')
+      .update(update)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select(SHARE_ANALYTICS_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[API/dashboards/share/analytics] Update error:', error);
+      return NextResponse.json({ error: 'Failed to update analytics settings' }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    // Retention ridotta: gli eventi fuori periodo spariscono subito
+    if (update.share_analytics_retention_days !== undefined) {
+      await pruneShareViews(serviceClient, id, update.share_analytics_retention_days);
+    }
+
+    return NextResponse.json({ settings: settingsResponse(data as unknown as ShareAnalyticsSettings) });
+
+  } catch (error) {
+    console.error('[API/dashboards/share/analytics] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Cancella gli eventi
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Verifica che la dashboard appartenga all'utente
+    const { data: dashboard } = await serviceClient
+      .from('dashboards')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    const { error } = await serviceClient
+      .from('share_views')
+      .delete()
+      .eq('dashboard_id', id);
+
+    if (error) {
+      console.error('[API/dashboards/share/analytics] Delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete analytics' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('[API/dashboards/share/analytics] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
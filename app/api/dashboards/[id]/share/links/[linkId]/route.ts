@@ -0,0 +1,119 @@
+/**
+ * API Routes per un singolo link di condivisione
+ *
+ * PATCH - Modifica nome, password, scadenza, limite di aperture o scoping dei dati; revoked: true revoca il link
+ * DELETE - Elimina il link (e le sue statistiche)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import {
+  hashSharePassword,
+  toShareLinkSummary,
+  validateShareLinkInput,
+  SHARE_LINK_COLUMNS,
+  type ShareLink,
+} from '@/app/lib/share-links';
+
+// PATCH - Modifica o revoca link
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const { id, linkId } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    let input;
+    try {
+      input = validateShareLinkInput(body, false);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid share link' }, { status: 400 });
+    }
+
+    // Una revoca è definitiva: per riaprire l'accesso si crea un nuovo link
+    const update: Record<string, unknown> = {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.password !== undefined ? { password_hash: input.password ? await hashSharePassword(input.password) : null } : {}),
+      ...(input.expires_at !== undefined ? { expires_at: input.expires_at } : {}),
+      ...(input.max_accesses !== undefined ? { max_accesses: input.max_accesses } : {}),
+      ...(input.locked_params !== undefined ? { locked_params: input.locked_params } : {}),
+      ...(input.row_restrictions !== undefined ? { row_restrictions: input.row_restrictions } : {}),
+      ...(body.revoked === true ? { revoked_at: new Date().toISOString() } : {}),
+    };
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('dashboard_share_links')
+      .update(update)
+      .eq('id', linkId)
+      .eq('dashboard_id', id)
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .select(SHARE_LINK_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[API/dashboards/share/links/id] Update error:', error);
+      return NextResponse.json({ error: 'Failed to update share link' }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Share link not found or revoked' }, { status: 404 });
+    }
+
+    return NextResponse.json({ link: toShareLinkSummary(data as ShareLink) });
+
+  } catch (error) {
+    console.error('[API/dashboards/share/links/id] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Elimina link
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const { id, linkId } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { error } = await serviceClient
+      .from('dashboard_share_links')
+      .delete()
+      .eq('id', linkId)
+      .eq('dashboard_id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('[API/dashboards/share/links/id] Delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete share link' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('[API/dashboards/share/links/id] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
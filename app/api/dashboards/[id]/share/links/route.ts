@@ -0,0 +1,118 @@
+/**
+ * API Routes per i link di condivisione di una Dashboard
+ *
+ * GET - Elenco dei link (con stato e statistiche di accesso, senza password)
+ * POST - Crea un link con nome, password, scadenza e numero massimo di aperture opzionali,
+ *        più lo scoping dei dati: locked_params { nome: valore } e row_restrictions [{ column, operator, value }]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import {
+  hashSharePassword,
+  toShareLinkSummary,
+  validateShareLinkInput,
+  SHARE_LINK_COLUMNS,
+  type ShareLink,
+} from '@/app/lib/share-links';
+
+// GET - Elenco link
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('dashboard_share_links')
+      .select(SHARE_LINK_COLUMNS)
+      .eq('dashboard_id', id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[API/dashboards/share/links] List error:', error);
+      return NextResponse.json({ error: 'Failed to fetch share links' }, { status: 500 });
+    }
+
+    return NextResponse.json({ links: (data as ShareLink[] || []).map(toShareLinkSummary) });
+
+  } catch (error) {
+    console.error('[API/dashboards/share/links] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Crea link
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let input;
+    try {
+      input = validateShareLinkInput(await req.json(), true);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid share link' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Verifica che la dashboard appartenga all'utente
+    const { data: dashboard } = await serviceClient
+      .from('dashboards')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    const { data, error } = await serviceClient
+      .from('dashboard_share_links')
+      .insert({
+        dashboard_id: id,
+        user_id: user.id,
+        name: input.name,
+        password_hash: input.password ? await hashSharePassword(input.password) : null,
+        expires_at: input.expires_at ?? null,
+        max_accesses: input.max_accesses ?? null,
+        locked_params: input.locked_params ?? {},
+        row_restrictions: input.row_restrictions ?? [],
+      })
+      .select(SHARE_LINK_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('[API/dashboards/share/links] Create error:', error);
+      return NextResponse.json({ error: 'Failed to create share link' }, { status: 500 });
+    }
+
+    return NextResponse.json({ link: toShareLinkSummary(data as ShareLink) });
+
+  } catch (error) {
+    console.error('[API/dashboards/share/links] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
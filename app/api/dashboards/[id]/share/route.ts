@@ -1,12 +1,17 @@
 /**
  * API Routes per gestire la condivisione di una Dashboard
  * 
- * POST - Attiva/disattiva condivisione e ritorna il link
- * GET - Ottieni lo stato di condivisione corrente
+ * POST - Attiva/disattiva condivisione e ritorna il link; filters_exposed permette ai viewer di cambiare i filtri,
+ *        revoke_default_link revoca il link predefinito (sharing_uid), regenerate_default_link ne crea uno nuovo
+ *        (non con link con restrizioni attivi, vedi lib/share-links). I link con nome sono in ./links
+ * GET - Ottieni lo stato di condivisione corrente; default_link_disabled se i link con restrizioni disattivano
+ *       il link predefinito
  */
 
+import { randomUUID } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import { hasScopedShareLinks } from '@/app/lib/share-links';
 
 // GET - Ottieni stato condivisione
 export async function GET(
@@ -27,7 +32,7 @@ export async function GET(
 
     const { data, error } = await serviceClient
       .from('dashboards')
-      .select('id, is_shared, sharing_uid')
+      .select('id, is_shared, sharing_uid, filters_exposed')
       .eq('id', id)
       .eq('user_id', user.id)
       .single();
@@ -39,7 +44,9 @@ export async function GET(
 
     return NextResponse.json({ 
       is_shared: data.is_shared,
-      sharing_uid: data.sharing_uid
+      sharing_uid: data.sharing_uid,
+      filters_exposed: data.filters_exposed ?? false,
+      default_link_disabled: await hasScopedShareLinks(serviceClient, id),
     });
 
   } catch (error) {
@@ -56,7 +63,7 @@ export async function POST(
   try {
     const { id } = await params;
     const body = await req.json();
-    const { is_shared } = body;
+    const { is_shared, filters_exposed, revoke_default_link, regenerate_default_link } = body;
 
     const supabase = await createServerSupabaseClient();
     const { data: { user }, error: authError } = await supabase.auth.getUser();
@@ -79,16 +86,29 @@ export async function POST(
       return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
     }
 
+    // Un nuovo link predefinito sarebbe subito disattivato dai link con restrizioni
+    if (regenerate_default_link === true && await hasScopedShareLinks(serviceClient, id)) {
+      return NextResponse.json(
+        { error: 'Revoke the links with data restrictions before creating a default link' },
+        { status: 409 }
+      );
+    }
+
     // Aggiorna lo stato di condivisione
     const { data, error } = await serviceClient
       .from('dashboards')
       .update({
         is_shared,
+        ...(typeof filters_exposed === 'boolean' ? { filters_exposed } : {}),
+        // Chi ha il link predefinito perde l'accesso; gli altri link restano validi
+        ...(revoke_default_link === true ? { sharing_uid: null } : {}),
+        // Token nuovo: chi aveva il link revocato non rientra
+        ...(regenerate_default_link === true ? { sharing_uid: randomUUID() } : {}),
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
       .eq('user_id', user.id)
-      .select('id, is_shared, sharing_uid')
+      .select('id, is_shared, sharing_uid, filters_exposed')
       .single();
 
     if (error) {
@@ -98,7 +118,9 @@ export async function POST(
 
     return NextResponse.json({ 
       is_shared: data.is_shared,
-      sharing_uid: data.sharing_uid
+      sharing_uid: data.sharing_uid,
+      filters_exposed: data.filters_exposed ?? false,
+      default_link_disabled: await hasScopedShareLinks(serviceClient, id),
     });
 
   } catch (error) {
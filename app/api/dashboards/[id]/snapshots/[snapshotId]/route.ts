@@ -0,0 +1,45 @@
+/**
+ * API Route per un singolo snapshot
+ *
+ * DELETE - Elimina lo snapshot (il suo link smette di funzionare)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+
+// DELETE - Elimina snapshot
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; snapshotId: string }> }
+) {
+  try {
+    const { id, snapshotId } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { error } = await serviceClient
+      .from('dashboard_snapshots')
+      .delete()
+      .eq('id', snapshotId)
+      .eq('dashboard_id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('[API/dashboards/snapshots/id] Delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete snapshot' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('[API/dashboards/snapshots/id] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
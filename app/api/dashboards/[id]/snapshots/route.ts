@@ -0,0 +1,134 @@
+/**
+ * API Routes per gli snapshot di una Dashboard
+ *
+ * GET - Elenco degli snapshot (dal più recente, senza dati)
+ * POST - Crea uno snapshot: esegue tutti i widget dinamici e salva i dati ({ name } opzionale)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import {
+  captureDashboardSnapshot,
+  validateSnapshotName,
+  MAX_SNAPSHOTS_PER_DASHBOARD,
+  SNAPSHOT_SOURCE_COLUMNS,
+  SNAPSHOT_SUMMARY_COLUMNS,
+  type SnapshotSourceDashboard,
+} from '@/app/lib/dashboard-snapshots';
+
+// GET - Elenco snapshot
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('dashboard_snapshots')
+      .select(SNAPSHOT_SUMMARY_COLUMNS)
+      .eq('dashboard_id', id)
+      .eq('user_id', user.id)
+      .order('captured_at', { ascending: false });
+
+    if (error) {
+      console.error('[API/dashboards/snapshots] List error:', error);
+      return NextResponse.json({ error: 'Failed to fetch snapshots' }, { status: 500 });
+    }
+
+    return NextResponse.json({ snapshots: data || [] });
+
+  } catch (error) {
+    console.error('[API/dashboards/snapshots] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Crea snapshot
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let name;
+    try {
+      const body = await req.json().catch(() => ({}));
+      name = validateSnapshotName(body?.name);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid snapshot' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Verifica che la dashboard appartenga all'utente
+    const { data: dashboard } = await serviceClient
+      .from('dashboards')
+      .select(SNAPSHOT_SOURCE_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    const { count } = await serviceClient
+      .from('dashboard_snapshots')
+      .select('id', { count: 'exact', head: true })
+      .eq('dashboard_id', id);
+
+    if ((count ?? 0) >= MAX_SNAPSHOTS_PER_DASHBOARD) {
+      return NextResponse.json({
+        error: `A dashboard can have at most ${MAX_SNAPSHOTS_PER_DASHBOARD} snapshots: delete an old one first`,
+      }, { status: 400 });
+    }
+
+    let snapshot;
+    try {
+      snapshot = await captureDashboardSnapshot(serviceClient, dashboard as unknown as SnapshotSourceDashboard);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to capture snapshot' }, { status: 502 });
+    }
+
+    const { data, error } = await serviceClient
+      .from('dashboard_snapshots')
+      .insert({
+        dashboard_id: id,
+        user_id: user.id,
+        name: name ?? `Data as of ${snapshot.captured_at.slice(0, 10)}`,
+        content: snapshot.content,
+        captured_at: snapshot.captured_at,
+      })
+      .select(SNAPSHOT_SUMMARY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('[API/dashboards/snapshots] Create error:', error);
+      return NextResponse.json({ error: 'Failed to save snapshot' }, { status: 500 });
+    }
+
+    return NextResponse.json({ snapshot: data });
+
+  } catch (error) {
+    console.error('[API/dashboards/snapshots] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -7,6 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import { recordRevision, toSnapshot } from '@/app/lib/dashboard-revisions';
 
 // GET - Lista dashboards
 export async function GET() {
@@ -75,6 +76,14 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Failed to create dashboard' }, { status: 500 });
     }
 
+    await recordRevision(serviceClient, {
+      dashboardId: data.id,
+      userId: user.id,
+      before: null,
+      after: toSnapshot(data),
+      author: 'user',
+    });
+
     return NextResponse.json({ dashboard: data }, { status: 201 });
 
   } catch (error) {
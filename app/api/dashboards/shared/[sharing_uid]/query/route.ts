@@ -2,15 +2,20 @@
  * API Route pubblica per eseguire query di widget dinamici su dashboard condivise
  * 
  * POST - Esegue una query per un widget di una dashboard condivisa (no auth)
+ *        con filterId al posto di widgetId ritorna le opzioni di un filtro select/multiSelect,
+ *        con drillPath esegue la query del livello di drill-down del widget.
+ *        Per i link con nome serve l'access token dell'apertura (header x-share-access);
+ *        parametri bloccati e restrizioni di riga del link vengono iniettati in ogni query.
+ *        I widget caricati o aggiornati vengono registrati nelle statistiche del link
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/app/lib/supabase';
-import { decryptApiKey } from '@/app/lib/crypto';
+import { executeSharedQuery, SHARED_DASHBOARD_COLUMNS, type SharedDashboard, type SharedQueryRequest } from '@/app/lib/shared-query';
+import { resolveShareLink, shareLinkScope, verifyAccessToken, SHARE_ACCESS_HEADER } from '@/app/lib/share-links';
+import { recordShareView, SHARE_ANALYTICS_COLUMNS, type ShareAnalyticsSettings } from '@/app/lib/share-analytics';
 
-interface ExecuteQueryRequest {
-  widgetId: string;
-}
+type QueriedDashboard = SharedDashboard & ShareAnalyticsSettings & { id: string };
 
 // POST - Esegui query per widget di dashboard condivisa
 export async function POST(
@@ -19,99 +24,46 @@ export async function POST(
 ) {
   try {
     const { sharing_uid } = await params;
-    const body: ExecuteQueryRequest = await req.json();
-    const { widgetId } = body;
+    const body: SharedQueryRequest = await req.json();
 
-    if (!widgetId) {
+    if (!body.widgetId && !body.filterId) {
       return NextResponse.json({ error: 'Missing widgetId' }, { status: 400 });
     }
 
     const serviceClient = createServiceClient();
 
-    // Verifica che la dashboard sia condivisa e recupera i widget
-    const { data: dashboard, error: dashError } = await serviceClient
-      .from('dashboards')
-      .select('id, user_id, widgets')
-      .eq('sharing_uid', sharing_uid)
-      .eq('is_shared', true)
-      .single();
-
-    if (dashError || !dashboard) {
-      return NextResponse.json({ error: 'Dashboard not found or not shared' }, { status: 404 });
-    }
-
-    // Trova il widget richiesto
-    const widgets = dashboard.widgets as Array<{
-      id: string;
-      isDynamic?: boolean;
-      dataSource?: { datasourceId: string; query: string };
-    }>;
-    
-    const widget = widgets.find(w => w.id === widgetId);
-    
-    if (!widget) {
-      return NextResponse.json({ error: 'Widget not found' }, { status: 404 });
-    }
+    // Verifica che il link sia valido e recupera i widget. I link con nome richiedono l'access token
+    // rilasciato all'apertura: password e limite di aperture valgono anche per le query
+    const resolved = await resolveShareLink<QueriedDashboard>(
+      serviceClient,
+      sharing_uid,
+      `${SHARED_DASHBOARD_COLUMNS}, ${SHARE_ANALYTICS_COLUMNS}`
+    );
 
-    if (!widget.isDynamic || !widget.dataSource) {
-      return NextResponse.json({ error: 'Widget is not dynamic' }, { status: 400 });
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
     }
 
-    // Recupera la data source (deve appartenere al proprietario della dashboard)
-    const { data: dataSource, error: dsError } = await serviceClient
-      .from('data_sources')
-      .select('*')
-      .eq('id', widget.dataSource.datasourceId)
-      .eq('user_id', dashboard.user_id)
-      .single();
-
-    if (dsError || !dataSource) {
-      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    const { dashboard, link } = resolved;
+    if (link && !verifyAccessToken(link, req.headers.get(SHARE_ACCESS_HEADER))) {
+      return NextResponse.json({ error: 'Share session expired, reload the dashboard' }, { status: 401 });
     }
 
-    const config = dataSource.config || {};
-    const dbType = config.type;
-
-    // Decifra la password
-    let password: string | undefined;
-    if (config.password && typeof config.password === 'string' && config.password.length > 0) {
-      try {
-        const decrypted = decryptApiKey(config.password);
-        if (decrypted && typeof decrypted === 'string' && decrypted.length > 0) {
-          password = decrypted;
-        }
-      } catch (decryptError) {
-        console.error('[API/shared/query] Decrypt error:', decryptError);
-        return NextResponse.json({ success: false, error: 'Failed to decrypt password' });
-      }
-    }
+    const startTime = Date.now();
+    const result = await executeSharedQuery(serviceClient, dashboard, body, { ...shareLinkScope(link), signal: req.signal });
 
-    // Verifica credenziali
-    if (dbType !== 'mongodb' && dbType !== 'sqlite' && !password) {
-      return NextResponse.json({ success: false, error: 'Password not found' });
+    if ('status' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    // Esegui query
-    const startTime = Date.now();
-    let result: { success: boolean; data?: unknown[]; columns?: string[]; error?: string };
-
-    try {
-      switch (dbType) {
-        case 'postgresql':
-          result = await executePostgreSQL(config, password, widget.dataSource.query);
-          break;
-        case 'mysql':
-        case 'mariadb':
-          result = await executeMySQL(config, password, widget.dataSource.query);
-          break;
-        default:
-          result = { success: false, error: `Database type ${dbType} not supported for shared dashboards` };
-      }
-    } catch (err) {
-      result = {
-        success: false,
-        error: err instanceof Error ? err.message : 'Query execution failed',
-      };
+    if (body.widgetId) {
+      after(() => recordShareView(
+        serviceClient,
+        { dashboardId: dashboard.id, linkId: link?.id, settings: dashboard },
+        body.trigger === 'refresh' ? 'widget_refresh' : 'widget_load',
+        req.headers,
+        body.widgetId
+      ));
     }
 
     const latency = Date.now() - startTime;
@@ -119,7 +71,7 @@ export async function POST(
     return NextResponse.json({
       ...result,
       latency: `${latency}ms`,
-      executedAt: new Date().toISOString(),
+      executedAt: result.executedAt || new Date().toISOString(),
     });
 
   } catch (error) {
@@ -130,64 +82,3 @@ export async function POST(
     }, { status: 500 });
   }
 }
-
-// Execute PostgreSQL query
-async function executePostgreSQL(
-  config: Record<string, unknown>,
-  password: string | undefined,
-  query: string
-): Promise<{ success: boolean; data?: unknown[]; columns?: string[]; error?: string }> {
-  const { Client } = await import('pg');
-
-  const client = new Client({
-    host: config.host as string,
-    port: config.port as number,
-    database: config.database as string,
-    user: config.username as string,
-    password,
-    ssl: config.sslMode === 'require' || config.sslMode === 'verify-ca' || config.sslMode === 'verify-full'
-      ? { rejectUnauthorized: config.sslMode !== 'require' }
-      : false,
-    connectionTimeoutMillis: 30000,
-  });
-
-  try {
-    await client.connect();
-    const res = await client.query(query);
-    const columns = res.fields.map(f => f.name);
-    await client.end();
-    return { success: true, data: res.rows, columns };
-  } catch (err) {
-    try { await client.end(); } catch { /* ignore */ }
-    throw err;
-  }
-}
-
-// Execute MySQL / MariaDB query
-async function executeMySQL(
-  config: Record<string, unknown>,
-  password: string | undefined,
-  query: string
-): Promise<{ success: boolean; data?: unknown[]; columns?: string[]; error?: string }> {
-  const mysql = await import('mysql2/promise');
-
-  const connection = await mysql.createConnection({
-    host: config.host as string,
-    port: config.port as number,
-    database: config.database as string,
-    user: config.username as string,
-    password,
-    ssl: config.sslMode === 'require' ? {} : undefined,
-    connectTimeout: 30000,
-  });
-
-  try {
-    const [rows, fields] = await connection.query(query);
-    const columns = Array.isArray(fields) ? fields.map((f: { name: string }) => f.name) : [];
-    await connection.end();
-    return { success: true, data: rows as unknown[], columns };
-  } catch (err) {
-    try { await connection.end(); } catch { /* ignore */ }
-    throw err;
-  }
-}
@@ -1,11 +1,87 @@
 /**
  * API Route pubblica per ottenere una dashboard condivisa
- * 
- * GET - Ottieni dashboard tramite sharing_uid (pubblico, no auth)
+ *
+ * GET - Ottieni dashboard tramite il token del link (pubblico, no auth). Per i link con password serve
+ *       l'access token di una sessione già sbloccata (header x-share-access)
+ * POST - Sblocca un link con password: { password } → dashboard e access token
+ *
+ * Ogni apertura conta un accesso al link e ritorna un nuovo access token per le query dei widget.
+ * Le aperture vengono registrate nelle statistiche del link (vedi lib/share-analytics).
+ * Se il link restringe i dati, i filtri sostituiti da parametri bloccati vengono tolti e gli altri restano sui default
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/app/lib/supabase';
+import {
+  issueAccessToken,
+  recordShareAccess,
+  resolveShareLink,
+  verifyAccessToken,
+  verifySharePassword,
+  shareLinkScope,
+  SHARE_ACCESS_HEADER,
+} from '@/app/lib/share-links';
+import { viewerDashboard } from '@/app/lib/shared-query';
+import { recordShareView, SHARE_ANALYTICS_COLUMNS, type ShareAnalyticsSettings } from '@/app/lib/share-analytics';
+import type { DashboardFilter } from '@/app/lib/dashboard-filters';
+
+const DASHBOARD_COLUMNS = `id, name, description, widgets, layout_config, filters, filters_exposed, created_at, updated_at, ${SHARE_ANALYTICS_COLUMNS}`;
+
+type OpenedDashboard = { id: string; filters?: DashboardFilter[]; filters_exposed?: boolean } & ShareAnalyticsSettings;
+
+// Apertura della dashboard: password (o sessione già sbloccata), limite di aperture, conteggio
+async function openSharedDashboard(
+  req: NextRequest,
+  sharing_uid: string,
+  unlock: { password?: string; accessToken?: string | null }
+) {
+  const serviceClient = createServiceClient();
+
+  const resolved = await resolveShareLink<OpenedDashboard>(serviceClient, sharing_uid, DASHBOARD_COLUMNS);
+  if ('error' in resolved) {
+    return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+  }
+
+  // Le impostazioni delle statistiche non vanno al viewer
+  const { share_analytics, share_analytics_retention_days, ...dashboard } = resolved.dashboard;
+  const { link } = resolved;
+  const source = {
+    dashboardId: dashboard.id,
+    linkId: link?.id,
+    settings: { share_analytics, share_analytics_retention_days },
+  };
+
+  // Link predefinito: nessuna regola
+  if (!link) {
+    after(() => recordShareView(serviceClient, source, 'view', req.headers));
+    return NextResponse.json({ dashboard });
+  }
+
+  if (link.password_hash) {
+    const unlocked = unlock.password !== undefined
+      ? await verifySharePassword(unlock.password, link.password_hash)
+      : verifyAccessToken(link, unlock.accessToken ?? null);
+
+    if (!unlocked) {
+      return NextResponse.json({
+        error: unlock.password !== undefined ? 'Wrong password' : 'Password required',
+        passwordRequired: true,
+      }, { status: 401 });
+    }
+  }
+
+  const access = await recordShareAccess(serviceClient, link);
+  if ('error' in access) {
+    return NextResponse.json({ error: access.error }, { status: access.status });
+  }
+
+  after(() => recordShareView(serviceClient, source, 'view', req.headers));
+
+  return NextResponse.json({
+    dashboard: viewerDashboard(dashboard, shareLinkScope(access.link)),
+    accessToken: issueAccessToken(access.link),
+  });
+}
 
 // GET - Ottieni dashboard condivisa (pubblico)
 export async function GET(
@@ -14,22 +90,28 @@ export async function GET(
 ) {
   try {
     const { sharing_uid } = await params;
-    
-    const serviceClient = createServiceClient();
-
-    const { data, error } = await serviceClient
-      .from('dashboards')
-      .select('id, name, description, widgets, layout_config, created_at, updated_at')
-      .eq('sharing_uid', sharing_uid)
-      .eq('is_shared', true)
-      .single();
-
-    if (error || !data) {
-      console.error('[API/dashboards/shared] Get error:', error);
-      return NextResponse.json({ error: 'Dashboard not found or not shared' }, { status: 404 });
+    return await openSharedDashboard(req, sharing_uid, { accessToken: req.headers.get(SHARE_ACCESS_HEADER) });
+
+  } catch (error) {
+    console.error('[API/dashboards/shared] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Sblocca link con password
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ sharing_uid: string }> }
+) {
+  try {
+    const { sharing_uid } = await params;
+    const { password } = await req.json();
+
+    if (typeof password !== 'string' || password === '') {
+      return NextResponse.json({ error: 'Missing password' }, { status: 400 });
     }
 
-    return NextResponse.json({ dashboard: data });
+    return await openSharedDashboard(req, sharing_uid, { password });
 
   } catch (error) {
     console.error('[API/dashboards/shared] Error:', error);
@@ -0,0 +1,62 @@
+/**
+ * API Route pubblica per ottenere uno snapshot di una dashboard condivisa
+ *
+ * GET - Dashboard con i dati salvati nello snapshot (pubblico, no auth). Nessuna query sulla data source:
+ *       i widget sono già statici. Serve che la dashboard sia ancora condivisa.
+ *       Le aperture vengono registrate nelle statistiche dello snapshot
+ */
+
+import { after, NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/app/lib/supabase';
+import type { DashboardSnapshot } from '@/app/lib/dashboard-snapshots';
+import { recordShareView, SHARE_ANALYTICS_COLUMNS, type ShareAnalyticsSettings } from '@/app/lib/share-analytics';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const serviceClient = createServiceClient();
+
+    const { data } = await serviceClient
+      .from('dashboard_snapshots')
+      .select('id, name, content, captured_at, dashboard_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    const snapshot = data as Pick<DashboardSnapshot, 'id' | 'name' | 'content' | 'captured_at' | 'dashboard_id'> | null;
+
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    // Interruttore generale della condivisione: spento, anche gli snapshot non sono visibili
+    const { data: dashboard } = await serviceClient
+      .from('dashboards')
+      .select(`id, ${SHARE_ANALYTICS_COLUMNS}`)
+      .eq('id', snapshot.dashboard_id)
+      .eq('is_shared', true)
+      .maybeSingle();
+
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found or not shared' }, { status: 404 });
+    }
+
+    after(() => recordShareView(
+      serviceClient,
+      { dashboardId: snapshot.dashboard_id, snapshotId: snapshot.id, settings: dashboard as unknown as ShareAnalyticsSettings },
+      'view',
+      req.headers
+    ));
+
+    return NextResponse.json({
+      dashboard: snapshot.content,
+      snapshot: { name: snapshot.name, captured_at: snapshot.captured_at },
+    });
+
+  } catch (error) {
+    console.error('[API/dashboards/shared/snapshots] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -9,6 +9,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
 import { encryptApiKey } from '@/app/lib/crypto';
+import { getConnectionPool, getQueryCache } from '@/app/lib/connectors';
 
 // GET - Dettagli data source
 export async function GET(
@@ -113,6 +114,10 @@ export async function PUT(
       return NextResponse.json({ error: 'Failed to update data source' }, { status: 500 });
     }
 
+    // Le connessioni aperte e i risultati in cache usano la vecchia config: scartali
+    getConnectionPool().invalidate(id);
+    getQueryCache().invalidateDataSource(id);
+
     // Rimuovi password dalla risposta
     if (data.config?.password) {
       const { password, ...safeResponseConfig } = data.config;
@@ -155,6 +160,9 @@ export async function DELETE(
       return NextResponse.json({ error: 'Failed to delete data source' }, { status: 500 });
     }
 
+    getConnectionPool().invalidate(id);
+    getQueryCache().invalidateDataSource(id);
+
     return NextResponse.json({ success: true });
 
   } catch (error) {
@@ -0,0 +1,53 @@
+/**
+ * API Route per leggere lo schema di una Data Source
+ *
+ * GET - Lista tabelle (o collection) e colonne
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import { introspectSchema } from '@/app/lib/connectors';
+
+// GET - Schema data source
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data: dataSource, error } = await serviceClient
+      .from('data_sources')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error || !dataSource) {
+      return NextResponse.json({ error: 'Data source not found' }, { status: 404 });
+    }
+
+    try {
+      const tables = await introspectSchema(id, dataSource.config || {});
+      return NextResponse.json({ success: true, tables });
+    } catch (err) {
+      return NextResponse.json({
+        success: false,
+        error: err instanceof Error ? err.message : 'Failed to read schema',
+      });
+    }
+
+  } catch (error) {
+    console.error('[API/data-sources/schema] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
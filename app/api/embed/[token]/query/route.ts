@@ -0,0 +1,57 @@
+/**
+ * API Route pubblica per eseguire query di widget dinamici in embed
+ *
+ * POST - Come /api/dashboards/shared/[sharing_uid]/query, con i parametri bloccati del token
+ *        iniettati in ogni query (vincono su filtri e drill-down)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/app/lib/supabase';
+import { resolveEmbedToken } from '@/app/lib/embed-tokens';
+import { executeSharedQuery, SHARED_DASHBOARD_COLUMNS, type SharedDashboard, type SharedQueryRequest } from '@/app/lib/shared-query';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const body: SharedQueryRequest = await req.json();
+
+    if (!body.widgetId && !body.filterId) {
+      return NextResponse.json({ error: 'Missing widgetId' }, { status: 400 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    // Firma e scadenza verificate a ogni query: un token scaduto smette di funzionare anche a pagina aperta
+    const resolved = await resolveEmbedToken<SharedDashboard>(serviceClient, token, SHARED_DASHBOARD_COLUMNS);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const { dashboard, claims } = resolved;
+
+    const startTime = Date.now();
+    const result = await executeSharedQuery(serviceClient, dashboard, body, { lockedParams: claims.params, signal: req.signal });
+
+    if ('status' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const latency = Date.now() - startTime;
+
+    return NextResponse.json({
+      ...result,
+      latency: `${latency}ms`,
+      executedAt: result.executedAt || new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('[API/embed/query] Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API Route pubblica per ottenere una dashboard in embed
+ *
+ * GET - Dashboard del token di embed firmato (no auth). I filtri che corrispondono a parametri bloccati
+ *       vengono tolti; con parametri bloccati i filtri restano sui valori di default
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/app/lib/supabase';
+import { resolveEmbedToken } from '@/app/lib/embed-tokens';
+import { viewerDashboard } from '@/app/lib/shared-query';
+import type { DashboardFilter } from '@/app/lib/dashboard-filters';
+
+const DASHBOARD_COLUMNS = 'id, name, description, widgets, layout_config, filters, filters_exposed, created_at, updated_at';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const resolved = await resolveEmbedToken<{ filters?: DashboardFilter[]; filters_exposed?: boolean }>(
+      createServiceClient(),
+      token,
+      DASHBOARD_COLUMNS
+    );
+
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: resolved.status });
+    }
+
+    const { dashboard, claims } = resolved;
+
+    return NextResponse.json({ dashboard: viewerDashboard(dashboard, { lockedParams: claims.params }) });
+
+  } catch (error) {
+    console.error('[API/embed] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * API server-to-server per emettere token di embed
+ *
+ * POST - { dashboard_id, params?, expires_in? } → { token, url, expires_at }
+ *        Autenticazione: Authorization: Bearer <segreto di embed del workspace> (da Settings → embedding).
+ *        params sono i parametri bloccati, iniettati in ogni query dinamica della dashboard
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/app/lib/supabase';
+import {
+  hashEmbedSecret,
+  signEmbedToken,
+  validateEmbedParams,
+  validateEmbedTtl,
+} from '@/app/lib/embed-tokens';
+
+export async function POST(req: NextRequest) {
+  try {
+    const authorization = req.headers.get('authorization') || '';
+    const secret = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Unauthorized', hint: 'Send the workspace embed secret as Authorization: Bearer <secret>' },
+        { status: 401 }
+      );
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data: secretRow } = await serviceClient
+      .from('embed_secrets')
+      .select('id, user_id')
+      .eq('secret_hash', hashEmbedSecret(secret))
+      .maybeSingle();
+
+    if (!secretRow) {
+      return NextResponse.json({ error: 'Unauthorized', hint: 'Unknown or rotated embed secret' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const { dashboard_id } = body;
+
+    if (typeof dashboard_id !== 'string' || !dashboard_id) {
+      return NextResponse.json({ error: 'dashboard_id is required' }, { status: 400 });
+    }
+
+    let params;
+    let ttl;
+    try {
+      params = validateEmbedParams(body.params ?? {});
+      ttl = validateEmbedTtl(body.expires_in);
+    } catch (err) {
+      return NextResponse.json({ error: err instanceof Error ? err.message : 'Invalid request' }, { status: 400 });
+    }
+
+    // La dashboard deve appartenere al workspace del segreto
+    const { data: dashboard } = await serviceClient
+      .from('dashboards')
+      .select('id')
+      .eq('id', dashboard_id)
+      .eq('user_id', secretRow.user_id)
+      .maybeSingle();
+
+    if (!dashboard) {
+      return NextResponse.json({ error: 'Dashboard not found' }, { status: 404 });
+    }
+
+    const iat = Math.floor(Date.now() / 1000);
+    const token = signEmbedToken({ dashboard_id, params, iat, exp: iat + ttl }, secret, secretRow.id);
+    const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || req.nextUrl.origin;
+
+    return NextResponse.json({
+      token,
+      url: `${baseUrl}/embed/${token}`,
+      expires_at: new Date((iat + ttl) * 1000).toISOString(),
+    });
+
+  } catch (error) {
+    console.error('[API/embed/tokens] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * API Route per annullare una query in esecuzione
+ *
+ * POST - Annulla la query avviata da /api/query/execute con lo stesso queryId
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabaseClient } from '@/app/lib/supabase';
+import { cancelRunningQuery } from '@/app/lib/connectors';
+
+interface CancelQueryRequest {
+  queryId: string;
+}
+
+// POST - Annulla query
+export async function POST(req: NextRequest) {
+  try {
+    const body: CancelQueryRequest = await req.json();
+    const { queryId } = body;
+
+    if (!queryId || typeof queryId !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing queryId' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // false = la query è già terminata (o non appartiene all'utente)
+    const cancelled = cancelRunningQuery(user.id, queryId);
+
+    return NextResponse.json({ success: true, cancelled });
+
+  } catch (error) {
+    console.error('[API/query/cancel] Error:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    }, { status: 500 });
+  }
+}
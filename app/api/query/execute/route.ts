@@ -2,23 +2,32 @@
  * API Route per eseguire query dinamiche su Data Sources
  * 
  * POST - Esegue una query su una data source specifica
+ * La query viene annullata se il client si disconnette o se chiama /api/query/cancel con lo stesso queryId
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
-import { decryptApiKey } from '@/app/lib/crypto';
-import type * as mssql from 'mssql';
+import { bindParameters, executeCachedQuery, isWriteAllowed, resolveCacheTtl, trackQuery, type CachedQueryResult, type PagedQueryResult, type QueryParameter } from '@/app/lib/connectors';
+import { cacheTtlForInterval } from '@/app/lib/auto-refresh';
 
 interface ExecuteQueryRequest {
   datasourceId: string;
   query: string;
+  limit?: number; // Max righe (limitato da maxRows della data source)
+  offset?: number; // Per la pagina successiva usa nextOffset della risposta
+  queryId?: string; // Generato dal client, serve per annullare la query
+  cacheTtl?: number; // TTL della cache del widget in secondi (0 = nessuna cache)
+  refreshInterval?: number; // Intervallo di aggiornamento automatico del widget: limita il TTL della cache
+  refresh?: boolean; // Ignora la cache (solo bottone refresh)
+  parameters?: QueryParameter[]; // Parametri dichiarati dal widget (dataSource.parameters)
+  params?: Record<string, unknown>; // Valori per nome; senza valore si usa il default
 }
 
 // POST - Esegui query
 export async function POST(req: NextRequest) {
   try {
     const body: ExecuteQueryRequest = await req.json();
-    const { datasourceId, query } = body;
+    const { datasourceId, query, limit, offset, queryId, cacheTtl, refreshInterval, refresh, parameters, params } = body;
 
     if (!datasourceId || !query) {
       return NextResponse.json(
@@ -52,63 +61,31 @@ export async function POST(req: NextRequest) {
     }
 
     const config = dataSource.config || {};
-    const dbType = config.type;
 
-    // Decifra la password se presente
-    let password: string | undefined;
-    if (config.password && typeof config.password === 'string' && config.password.length > 0) {
-      try {
-        const decrypted = decryptApiKey(config.password);
-        if (decrypted && typeof decrypted === 'string' && decrypted.length > 0) {
-          password = decrypted;
-        }
-      } catch (decryptError) {
-        console.error('[API/query/execute] Decrypt error:', decryptError);
-        return NextResponse.json({
-          success: false,
-          error: 'Failed to decrypt password',
-        });
-      }
-    }
-
-    // Verifica credenziali (tranne MongoDB e SQLite che possono essere senza auth)
-    if (dbType !== 'mongodb' && dbType !== 'sqlite' && !password) {
-      return NextResponse.json({
-        success: false,
-        error: 'Password not found',
-      });
-    }
-
-    // Esegui query in base al tipo di database
+    // Esegui query tramite il connector del tipo di database (read-only salvo opt-in della data source)
     const startTime = Date.now();
-    let result: { success: boolean; data?: unknown[]; columns?: string[]; error?: string };
+    let result: { success: boolean; error?: string; cache?: CachedQueryResult['cache']; executedAt?: string } & Partial<PagedQueryResult>;
+
+    const tracked = typeof queryId === 'string' && queryId.length > 0
+      ? trackQuery(user.id, queryId, datasourceId, req.signal)
+      : null;
 
     try {
-      switch (dbType) {
-        case 'postgresql':
-          result = await executePostgreSQL(config, password, query);
-          break;
-        case 'mysql':
-        case 'mariadb':
-          result = await executeMySQL(config, password, query);
-          break;
-        case 'sqlserver':
-          result = await executeSQLServer(config, password, query);
-          break;
-        case 'mongodb':
-          result = await executeMongoDB(config, password, query);
-          break;
-        case 'sqlite':
-          result = await executeSQLite(config, query);
-          break;
-        default:
-          result = { success: false, error: `Unsupported database type: ${dbType}` };
-      }
+      const cached = await executeCachedQuery(datasourceId, config, query, {
+        readOnly: !isWriteAllowed(config),
+        limit,
+        offset,
+        signal: tracked?.signal ?? req.signal,
+        params: bindParameters(parameters, params),
+      }, { ttl: cacheTtlForInterval(resolveCacheTtl(cacheTtl), typeof refreshInterval === 'number' ? refreshInterval : 0), refresh: refresh === true });
+      result = { success: true, ...cached.result, cache: cached.cache, executedAt: cached.executedAt };
     } catch (err) {
       result = {
         success: false,
         error: err instanceof Error ? err.message : 'Query execution failed',
       };
+    } finally {
+      tracked?.untrack();
     }
 
     const latency = Date.now() - startTime;
@@ -116,7 +93,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({
       ...result,
       latency: `${latency}ms`,
-      executedAt: new Date().toISOString(),
+      executedAt: result.executedAt || new Date().toISOString(),
     });
 
   } catch (error) {
@@ -127,189 +104,3 @@ export async function POST(req: NextRequest) {
     }, { status: 500 });
   }
 }
-
-// Execute PostgreSQL query
-async function executePostgreSQL(
-  config: Record<string, unknown>,
-  password: string | undefined,
-  query: string
-): Promise<{ success: boolean; data?: unknown[]; columns?: string[]; error?: string }> {
-  const { Client } = await import('pg');
-
-  const client = new Client({
-    host: config.host as string,
-    port: config.port as number,
-    database: config.database as string,
-    user: config.username as string,
-    password,
-    ssl: config.sslMode === 'require' || config.sslMode === 'verify-ca' || config.sslMode === 'verify-full'
-      ? { rejectUnauthorized: config.sslMode !== 'require' }
-      : false,
-    connectionTimeoutMillis: 30000,
-  });
-
-  try {
-    await client.connect();
-    const res = await client.query(query);
-    const columns = res.fields.map(f => f.name);
-    await client.end();
-    return { success: true, data: res.rows, columns };
-  } catch (err) {
-    try { await client.end(); } catch { /* ignore */ }
-    throw err;
-  }
-}
-
-// Execute MySQL / MariaDB query
-async function executeMySQL(
-  config: Record<string, unknown>,
-  password: string | undefined,
-  query: string
-): Promise<{ success: boolean; data?: unknown[]; columns?: string[]; error?: string }> {
-  const mysql = await import('mysql2/promise');
-
-  const connection = await mysql.createConnection({
-    host: config.host as string,
-    port: config.port as number,
-    database: config.database as string,
-    user: config.username as string,
-    password,
-    ssl: config.sslMode === 'require' ? {} : undefined,
-    connectTimeout: 30000,
-  });
-
-  try {
-    const [rows, fields] = await connection.query(query);
-    const columns = Array.isArray(fields) ? fields.map((f: { name: string }) => f.name) : [];
-    await connection.end();
-    return { success: true, data: rows as unknown[], columns };
-  } catch (err) {
-    try { await connection.end(); } catch { /* ignore */ }
-    throw err;
-  }
-}
-
-// Execute SQL Server query
-async function executeSQLServer(
-  config: Record<string, unknown>,
-  password: string | undefined,
-  query: string
-): Promise<{ success: boolean; data?: unknown[]; columns?: string[]; error?: string }> {
-  const sql = await import('mssql');
-
-  const sqlConfig: mssql.config = {
-    server: config.host as string,
-    port: config.port as number,
-    database: config.database as string,
-    user: config.username as string,
-    password,
-    options: {
-      encrypt: config.encrypt as boolean ?? true,
-      trustServerCertificate: config.trustServerCertificate as boolean ?? false,
-      instanceName: config.instanceName as string | undefined,
-    },
-    connectionTimeout: 30000,
-    requestTimeout: 60000,
-  };
-
-  let pool: mssql.ConnectionPool | undefined;
-  try {
-    pool = await sql.connect(sqlConfig);
-    const result = await pool.request().query(query);
-    const columns = result.recordset.columns ? Object.keys(result.recordset.columns) : [];
-    await pool.close();
-    return { success: true, data: result.recordset, columns };
-  } catch (err) {
-    if (pool) try { await pool.close(); } catch { /* ignore */ }
-    throw err;
-  }
-}
-
-// Execute MongoDB query (usando aggregation pipeline o find)
-async function executeMongoDB(
-  config: Record<string, unknown>,
-  password: string | undefined,
-  queryStr: string
-): Promise<{ success: boolean; data?: unknown[]; columns?: string[]; error?: string }> {
-  const { MongoClient } = await import('mongodb');
-
-  let uri: string;
-  const host = config.host as string;
-  const port = config.port as number;
-  const database = config.database as string;
-  const username = config.username as string;
-  const authDatabase = config.authDatabase as string || 'admin';
-
-  if (username && password) {
-    uri = `mongodb://${encodeURIComponent(username)}:${encodeURIComponent(password)}@${host}:${port}/${database}?authSource=${authDatabase}`;
-  } else {
-    uri = `mongodb://${host}:${port}/${database}`;
-  }
-
-  if (config.tls) {
-    uri += uri.includes('?') ? '&tls=true' : '?tls=true';
-  }
-
-  const client = new MongoClient(uri, {
-    serverSelectionTimeoutMS: 30000,
-  });
-
-  try {
-    await client.connect();
-    
-    // Parse query (assume JSON format: {"collection": "...", "query": {...}} o aggregation)
-    let queryObj: { collection: string; query?: unknown; aggregation?: unknown[] };
-    try {
-      queryObj = JSON.parse(queryStr);
-    } catch {
-      throw new Error('MongoDB query must be valid JSON with "collection" and "query" or "aggregation" fields');
-    }
-
-    const db = client.db();
-    const collection = db.collection(queryObj.collection);
-
-    let results: unknown[];
-    if (queryObj.aggregation && Array.isArray(queryObj.aggregation)) {
-      results = await collection.aggregate(queryObj.aggregation as Record<string, unknown>[]).toArray();
-    } else {
-      results = await collection.find(queryObj.query || {}).toArray();
-    }
-
-    // Estrai colonne dal primo documento
-    const columns = results.length > 0 ? Object.keys(results[0] as Record<string, unknown>) : [];
-
-    await client.close();
-    return { success: true, data: results, columns };
-  } catch (err) {
-    try { await client.close(); } catch { /* ignore */ }
-    throw err;
-  }
-}
-
-// Execute SQLite query
-async function executeSQLite(
-  config: Record<string, unknown>,
-  query: string
-): Promise<{ success: boolean; data?: unknown[]; columns?: string[]; error?: string }> {
-  const Database = (await import('better-sqlite3')).default;
-
-  const filePath = config.filePath as string;
-
-  if (!filePath) {
-    return { success: false, error: 'File path is required for SQLite' };
-  }
-
-  try {
-    const db = new Database(filePath, { readonly: true });
-    const stmt = db.prepare(query);
-    const rows = stmt.all();
-    
-    // Estrai colonne
-    const columns = rows.length > 0 ? Object.keys(rows[0] as Record<string, unknown>) : [];
-    
-    db.close();
-    return { success: true, data: rows, columns };
-  } catch (err) {
-    throw err;
-  }
-}
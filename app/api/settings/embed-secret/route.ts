@@ -0,0 +1,122 @@
+/**
+ * API Routes per il segreto di embed del workspace
+ * Il segreto firma i token di embed e autentica /api/embed/tokens; viene mostrato solo alla generazione
+ * 
+ * GET - Verifica se il segreto è configurato
+ * POST - Genera (o ruota) il segreto: i token emessi con il precedente smettono di funzionare
+ * DELETE - Elimina il segreto (disattiva gli embed)
+ */
+
+import { NextResponse } from 'next/server';
+import { createServerSupabaseClient, createServiceClient } from '@/app/lib/supabase';
+import { encryptApiKey } from '@/app/lib/crypto';
+import { generateEmbedSecret, hashEmbedSecret } from '@/app/lib/embed-tokens';
+
+// GET - Stato del segreto
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('embed_secrets')
+      .select('created_at')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[API/settings/embed-secret] Get error:', error);
+      return NextResponse.json({ error: 'Failed to fetch embed secret' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      configured: !!data,
+      created_at: data?.created_at ?? null,
+    });
+
+  } catch (error) {
+    console.error('[API/settings/embed-secret] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Genera o ruota il segreto
+export async function POST() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+    const secret = generateEmbedSecret();
+
+    // Nuova riga = nuovo kid: i token firmati con il segreto precedente non trovano più la chiave
+    await serviceClient
+      .from('embed_secrets')
+      .delete()
+      .eq('user_id', user.id);
+
+    const { data, error } = await serviceClient
+      .from('embed_secrets')
+      .insert({
+        user_id: user.id,
+        secret_hash: hashEmbedSecret(secret),
+        encrypted_secret: encryptApiKey(secret),
+      })
+      .select('created_at')
+      .single();
+
+    if (error) {
+      console.error('[API/settings/embed-secret] Save error:', error);
+      return NextResponse.json({ error: 'Failed to generate embed secret' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      secret,
+      created_at: data.created_at,
+    });
+
+  } catch (error) {
+    console.error('[API/settings/embed-secret] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Elimina il segreto
+export async function DELETE() {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const serviceClient = createServiceClient();
+
+    const { error } = await serviceClient
+      .from('embed_secrets')
+      .delete()
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('[API/settings/embed-secret] Delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete embed secret' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('[API/settings/embed-secret] Error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -68,6 +68,13 @@ export default function AddDataSourceModal({ isOpen, onClose, onAdd, onEdit, dat
   const [authDatabase, setAuthDatabase] = useState('admin');
   const [replicaSet, setReplicaSet] = useState('');
   const [tls, setTls] = useState(false);
+  
+  // Query settings
+  const [maxConnections, setMaxConnections] = useState(''); // Non usato da SQLite
+  const [statementTimeoutSec, setStatementTimeoutSec] = useState(''); // Non usato da SQLite
+  const [allowWrites, setAllowWrites] = useState(false);
+  const [maxRows, setMaxRows] = useState('');
+  const [maxResultMb, setMaxResultMb] = useState('');
 
   // Pre-populate form when editing
   useEffect(() => {
@@ -104,6 +111,13 @@ export default function AddDataSourceModal({ isOpen, onClose, onAdd, onEdit, dat
       setAuthDatabase(dataSourceToEdit.authDatabase || 'admin');
       setReplicaSet(dataSourceToEdit.replicaSet || '');
       setTls(dataSourceToEdit.tls ?? false);
+      
+      // Query settings
+      setMaxConnections(dataSourceToEdit.maxConnections?.toString() || '');
+      setStatementTimeoutSec(dataSourceToEdit.statementTimeout !== undefined ? (dataSourceToEdit.statementTimeout / 1000).toString() : '');
+      setAllowWrites(dataSourceToEdit.allowWrites ?? false);
+      setMaxRows(dataSourceToEdit.maxRows?.toString() || '');
+      setMaxResultMb(dataSourceToEdit.maxBytes ? (dataSourceToEdit.maxBytes / (1024 * 1024)).toString() : '');
     }
   }, [dataSourceToEdit, isOpen]);
 
@@ -127,6 +141,11 @@ export default function AddDataSourceModal({ isOpen, onClose, onAdd, onEdit, dat
     setAuthDatabase('admin');
     setReplicaSet('');
     setTls(false);
+    setMaxConnections('');
+    setStatementTimeoutSec('');
+    setAllowWrites(false);
+    setMaxRows('');
+    setMaxResultMb('');
     setIsLoading(false);
   };
 
@@ -155,6 +174,16 @@ export default function AddDataSourceModal({ isOpen, onClose, onAdd, onEdit, dat
     const baseData: Omit<DataSource, 'id' | 'status' | 'createdAt'> = {
       name,
       type: selectedType.type,
+      allowWrites: allowWrites || undefined,
+      maxRows: parseInt(maxRows) || undefined,
+      maxBytes: parseFloat(maxResultMb) > 0 ? Math.round(parseFloat(maxResultMb) * 1024 * 1024) : undefined,
+      ...(selectedType.type !== 'sqlite' && {
+        maxConnections: parseInt(maxConnections) || undefined,
+        // 0 = nessun timeout
+        statementTimeout: statementTimeoutSec.trim() !== '' && parseFloat(statementTimeoutSec) >= 0
+          ? Math.round(parseFloat(statementTimeoutSec) * 1000)
+          : undefined,
+      }),
     };
 
     let finalData: Omit<DataSource, 'id' | 'status' | 'createdAt'>;
@@ -562,8 +591,47 @@ export default function AddDataSourceModal({ isOpen, onClose, onAdd, onEdit, dat
                       />
                     </>
                   )}
+
+                  {/* Query settings */}
+                  <div className="grid grid-cols-2 gap-3">
+                    <FormInput
+                      label="max connections (optional)"
+                      value={maxConnections}
+                      onChange={setMaxConnections}
+                      placeholder="5"
+                    />
+                    <FormInput
+                      label="query timeout sec (optional)"
+                      value={statementTimeoutSec}
+                      onChange={setStatementTimeoutSec}
+                      placeholder="60"
+                    />
+                  </div>
                 </>
               )}
+
+              {/* Result limits (per query) */}
+              <div className="grid grid-cols-2 gap-3">
+                <FormInput
+                  label="max rows per query (optional)"
+                  value={maxRows}
+                  onChange={setMaxRows}
+                  placeholder="10000"
+                />
+                <FormInput
+                  label="max result size MB (optional)"
+                  value={maxResultMb}
+                  onChange={setMaxResultMb}
+                  placeholder="10"
+                />
+              </div>
+
+              {/* Dashboard queries run read-only unless explicitly enabled (shared dashboards always read-only) */}
+              <FormCheckbox
+                label="allow write queries from dashboards"
+                checked={allowWrites}
+                onChange={setAllowWrites}
+              />
             </div>
 
             {/* Actions */}
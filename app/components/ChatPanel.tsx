@@ -151,7 +151,8 @@ export default function ChatPanel({
   const handleSend = (e: React.FormEvent) => {
     e.preventDefault();
     if (inputValue.trim() && canChat && !isLoading) {
-      sendMessage({ text: inputValue.trim() });
+      // chatId: le modifiche dei tool alle dashboard restano collegate alla chat (cronologia)
+      sendMessage({ text: inputValue.trim() }, { body: { chatId: currentChatId } });
       setInputValue('');
       // Reset textarea height
       setTimeout(() => {
@@ -494,7 +495,7 @@ export default function ChatPanel({
     }
   }, [messages.length, currentChatId, user, isConfigured, isLoading, generateChatTitle]);
 
-  // Rileva quando l'AI modifica una dashboard (tool call addDashboardWidget)
+  // Rileva quando l'AI modifica una dashboard (tool call addDashboardWidget o setDashboardFilters)
   useEffect(() => {
     if (!onDashboardModified || messages.length === 0) return;
     
@@ -504,9 +505,9 @@ export default function ChatPanel({
     
     const parts = lastMessage.parts || [];
     
-    // Cerca tool results di tipo addDashboardWidget
+    // Cerca tool results di tipo addDashboardWidget / setDashboardFilters
     for (const part of parts) {
-      if (part.type === 'tool-addDashboardWidget' && part.state === 'output-available') {
+      if ((part.type === 'tool-addDashboardWidget' || part.type === 'tool-setDashboardFilters') && part.state === 'output-available') {
         const output = part.output as any;
         if (output?.success && output?.dashboardId && output?.dashboardName) {
           console.log('[ChatPanel] Dashboard modified detected:', output.dashboardName);
@@ -1360,6 +1361,7 @@ function ToolStepDisplay({ part }: { part: any }) {
     'editFile': 'Edit Documentation',
     'addDashboardWidget': 'Add Dashboard Widget',
     'getDashboards': 'Get Dashboards',
+    'setDashboardFilters': 'Set Dashboard Filters',
   };
   const label = toolLabels[toolName] || toolName;
   
@@ -1370,6 +1372,7 @@ function ToolStepDisplay({ part }: { part: any }) {
     'editFile': FileEdit,
     'addDashboardWidget': Layout,
     'getDashboards': Layout,
+    'setDashboardFilters': Layout,
   };
   const Icon = toolIcons[toolName] || Terminal;
   
@@ -1,22 +1,49 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { RefreshCw, ChevronDown, Plus, Check, MessageSquare, Share2, Loader2, Edit3, Trash2, Code } from 'lucide-react';
+import { RefreshCw, ChevronDown, Plus, Check, MessageSquare, Share2, Loader2, Edit3, Trash2, Code, History, MousePointerClick, X, Maximize2, Minimize2 } from 'lucide-react';
 import { useAuth } from '../lib/auth';
-import ChartWidget from './widgets/ChartWidget';
+import ChartWidget, { type CrossFilterField } from './widgets/ChartWidget';
 import TableWidget from './widgets/TableWidget';
 import MarkdownWidget from './widgets/MarkdownWidget';
 import QueryWidget from './widgets/QueryWidget';
+import KpiWidget from './widgets/KpiWidget';
+import PivotWidget from './widgets/PivotWidget';
 import WidgetHeader from './widgets/WidgetHeader';
 import CreateDashboardModal from './CreateDashboardModal';
 import DashboardChangeNotification from './DashboardChangeNotification';
 import ShareDashboardModal from './ShareDashboardModal';
+import DashboardFilterBar from './DashboardFilterBar';
+import DashboardGrid from './DashboardGrid';
+import RefreshIntervalPicker from './RefreshIntervalPicker';
+import type { ColumnMetadata } from '../lib/connectors/types';
+import type { QueryParameter } from '../lib/connectors/parameters';
+import {
+  applyCrossFilter,
+  defaultFilterValues,
+  filterParamValues,
+  isCrossFilterTarget,
+  optionsFromRows,
+  type CrossFilter,
+  type DashboardFilter,
+  type DashboardFilterValues,
+  type FilterOption,
+} from '../lib/dashboard-filters';
+import { drillWidget, type DrillLevel } from '../lib/drill-down';
+import { applyLayouts, resolveLayouts, type LayoutItem, type WidgetLayout } from '../lib/dashboard-layout';
+import { refreshIntervalFor } from '../lib/auto-refresh';
+import { kpiFromRows, type KpiData, type KpiTemplate } from '../lib/kpi';
+import type { PivotConfig, PivotData } from '../lib/pivot';
+import type { WidgetFormatting } from '../lib/formatting';
+import { hydrateTemplate } from '../lib/widget-template';
+import { useAutoRefresh } from '../lib/useAutoRefresh';
 
 export interface Widget {
   id: string;
-  type: 'chart' | 'table' | 'markdown' | 'query';
+  type: 'chart' | 'table' | 'markdown' | 'query' | 'kpi' | 'pivot';
   title: string;
-  position: number;
+  position: number; // Ordine di lettura (dall'alto, da sinistra)
+  layout?: WidgetLayout; // Geometria sulla griglia a 12 colonne (assente nelle dashboard create prima della griglia)
   created_at?: string;
   updated_at?: string;
   
@@ -25,6 +52,7 @@ export interface Widget {
   dataSource?: {
     datasourceId: string;
     query: string;
+    parameters?: QueryParameter[]; // Placeholder della query, con tipo e valore di default
   };
   template?: {
     // Template per widget dinamici (con placeholder {{column_name}})
@@ -35,8 +63,23 @@ export interface Widget {
     };
     columns?: string[];
     rows?: unknown[][];
+    pageSize?: number; // Solo tabelle: righe per pagina (default 100)
+    formatting?: WidgetFormatting; // Solo tabelle: formati delle colonne e regole condizionali
+    kpi?: KpiTemplate; // Solo KPI: colonne del valore, del confronto e della sparkline
+    pivot?: PivotConfig; // Solo pivot: dimensioni e misure, calcolate sulle righe del risultato
   };
-  lastFetched?: string; // Timestamp dell'ultimo fetch
+  cacheTtl?: number; // Secondi di validità del risultato nella cache server (0 = sempre dal database, default 60)
+  refreshInterval?: number; // Secondi tra due aggiornamenti automatici (default: quello della dashboard, 0 = mai)
+  crossFilter?: {
+    // Solo chart: click/selezione imposta il parametro sugli altri widget dinamici che lo dichiarano
+    parameter: string;
+    field?: CrossFilterField; // Valore del punto da usare (default: label per pie, altrimenti x)
+  };
+  drillDown?: DrillLevel[]; // Solo chart dinamici: livelli sotto la query del widget (click su un punto = livello successivo)
+  lastFetched?: string; // Timestamp dell'esecuzione della query (se il risultato arriva dalla cache è quello originale)
+  cacheStatus?: 'hit' | 'stale' | 'miss'; // Provenienza del risultato dell'ultimo fetch
+  resultColumns?: ColumnMetadata[]; // Colonne tipizzate del risultato dell'ultimo fetch
+  page?: WidgetPage; // Paginazione del risultato dell'ultimo fetch
   fetchError?: string; // Errore nell'ultimo fetch (manteniamo dati vecchi + errore)
   
   data: {
@@ -49,20 +92,47 @@ export interface Widget {
     // Table
     columns?: string[];
     rows?: unknown[][];
+    formatting?: WidgetFormatting;
     // Markdown
     content?: string;
     // Query
     query?: string;
     description?: string;
     datasourceId?: string;
+    // KPI
+    kpi?: KpiData;
+    // Pivot
+    pivot?: PivotData;
   };
 }
 
+export interface WidgetPage {
+  offset: number;
+  pageSize?: number;
+  truncated: boolean;
+  totalRowsEstimate: number;
+  nextOffset: number | null;
+}
+
+export const DEFAULT_TABLE_PAGE_SIZE = 100;
+
+// Parametri per le query dei widget: valori dei filtri della dashboard, cross-filter attivo e percorsi di drill-down
+interface WidgetQueryContext {
+  params: Record<string, unknown>;
+  crossFilter: CrossFilter | null;
+  drillPaths: Record<string, string[]>;
+  refreshInterval: number; // Intervallo della dashboard (layout_config.refreshInterval)
+}
+
 export interface Dashboard {
   id: string;
   name: string;
   description?: string;
   widgets: Widget[];
+  filters?: DashboardFilter[]; // Filtri nell'header, alimentano i parametri delle query dei widget
+  layout_config?: {
+    refreshInterval?: number; // Secondi tra due aggiornamenti automatici dei widget dinamici (0 = mai)
+  };
   created_at: string;
   updated_at: string;
 }
@@ -72,6 +142,10 @@ interface DashboardCanvasProps {
   onToggleChat?: () => void;
   isJsonEditorOpen?: boolean;
   onToggleJsonEditor?: () => void;
+  isHistoryOpen?: boolean;
+  onToggleHistory?: () => void;
+  isLiveMode?: boolean; // Schermo intero per schermi a parete: niente editing, chat e pannelli
+  onToggleLiveMode?: () => void;
   modifiedDashboardId?: string | null; // Dashboard ID modificata dall'AI
   modifiedDashboardName?: string | null; // Nome dashboard modificata
   onNotificationDismiss?: () => void; // Callback quando notifica viene chiusa
@@ -84,6 +158,10 @@ export default function DashboardCanvas({
   onToggleChat,
   isJsonEditorOpen = false,
   onToggleJsonEditor,
+  isHistoryOpen = false,
+  onToggleHistory,
+  isLiveMode = false,
+  onToggleLiveMode,
   modifiedDashboardId,
   modifiedDashboardName,
   onNotificationDismiss,
@@ -107,6 +185,10 @@ export default function DashboardCanvas({
   const [hydratedWidgets, setHydratedWidgets] = useState<Widget[]>([]); // Widget con dati dinamici fetchati
   const [isHydrating, setIsHydrating] = useState(false); // Loading state per hydration
   const hydratedDashboardIdRef = useRef<string | null>(null); // Track quale dashboard è stata hydratata
+  const inFlightQueriesRef = useRef<Map<string, { queryId: string; controller: AbortController }>>(new Map()); // Query in corso per widget
+  const [filterState, setFilterState] = useState<{ dashboardId: string | null; values: DashboardFilterValues }>({ dashboardId: null, values: {} }); // Valori dei filtri (per la dashboard selezionata)
+  const [crossFilterState, setCrossFilterState] = useState<{ dashboardId: string; filter: CrossFilter } | null>(null); // Cross-filter attivo (click su un grafico)
+  const [drillState, setDrillState] = useState<{ dashboardId: string | null; paths: Record<string, string[]> }>({ dashboardId: null, paths: {} }); // Valori cliccati per widget (drill-down)
 
   const selectedDashboard = dashboards.find(d => d.id === selectedDashboardId);
   const selectedDashboardName = selectedDashboard?.name || 'Select Dashboard';
@@ -118,6 +200,30 @@ export default function DashboardCanvas({
   const widgets = useHydratedCache 
     ? hydratedWidgets 
     : (selectedDashboard?.widgets || []);
+
+  // Valori correnti dei filtri: i default della dashboard finché l'utente non li cambia
+  const filterValuesFor = (dashboard: Dashboard | undefined): DashboardFilterValues => {
+    if (!dashboard) return {};
+    return filterState.dashboardId === dashboard.id ? filterState.values : defaultFilterValues(dashboard.filters);
+  };
+
+  const crossFilterFor = (dashboard: Dashboard | undefined): CrossFilter | null => {
+    return dashboard && crossFilterState?.dashboardId === dashboard.id ? crossFilterState.filter : null;
+  };
+
+  const drillPathsFor = (dashboard: Dashboard | undefined): Record<string, string[]> => {
+    return dashboard && drillState.dashboardId === dashboard.id ? drillState.paths : {};
+  };
+
+  const queryContextFor = (dashboard: Dashboard | undefined): WidgetQueryContext => ({
+    params: filterParamValues(dashboard?.filters, filterValuesFor(dashboard)),
+    crossFilter: crossFilterFor(dashboard),
+    drillPaths: drillPathsFor(dashboard),
+    refreshInterval: dashboard?.layout_config?.refreshInterval ?? 0,
+  });
+
+  const activeCrossFilter = crossFilterFor(selectedDashboard);
+  const activeDrillPaths = drillPathsFor(selectedDashboard);
   
   // Tronca descrizione a max 10 parole
   const truncateDescription = (text: string | undefined) => {
@@ -140,6 +246,10 @@ export default function DashboardCanvas({
         return !!(widget.data.content && widget.data.content !== 'Loading...');
       case 'query':
         return !!widget.data.query;
+      case 'kpi':
+        return !!widget.data.kpi;
+      case 'pivot':
+        return !!widget.data.pivot;
       default:
         return true;
     }
@@ -347,94 +457,97 @@ export default function DashboardCanvas({
     }
   };
 
-  // Sostituisce placeholder {{column_name}} con valori reali
-  const replacePlaceholders = (template: unknown, data: Record<string, unknown>[], widgetType: 'chart' | 'table' | 'markdown' | 'query'): unknown => {
-    if (!data || data.length === 0) return template;
-    
-    const templateStr = JSON.stringify(template);
-    
-    // Caso speciale: {{*}} per tabelle (converte oggetti in array di array)
-    if (templateStr.includes('"{{*}}"')) {
-      // Estrai le colonne dal template
-      const templateObj = template as { columns?: string[]; rows?: string };
-      const columns = templateObj.columns || Object.keys(data[0]);
-      
-      // Converti ogni row in array secondo l'ordine delle colonne
-      const rows = data.map(row => 
-        columns.map(col => row[col])
-      );
-      
-      return {
-        ...templateObj,
-        columns,
-        rows,
-      };
-    }
-    
-    // Trova tutti i placeholder {{column_name}}
-    const placeholderRegex = /\{\{([^}]+)\}\}/g;
-    let result = templateStr;
-    
-    // Sostituisci ogni placeholder
-    const matches = templateStr.match(placeholderRegex);
-    if (matches) {
-      // Rimuovi duplicati (lo stesso placeholder può apparire più volte)
-      const uniqueMatches = [...new Set(matches)];
-      
-      for (const match of uniqueMatches) {
-        const columnName = match.replace(/\{\{|\}\}/g, '').trim();
-        
-        if (widgetType === 'markdown') {
-          // Per markdown: usa il primo valore (query dovrebbe ritornare 1 riga)
-          const value = data[0]?.[columnName];
-          // Sostituisci il placeholder con il valore (può essere stringa, numero, etc)
-          const valueStr = value !== null && value !== undefined ? String(value) : '';
-          // Escape dei backslash e quotes per JSON (il placeholder è DENTRO una stringa JSON)
-          const escapedValue = valueStr.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
-          // Per markdown, il placeholder è DENTRO una stringa, non è un valore JSON separato
-          // Quindi sostituiamo {{column}} direttamente, non "{{column}}"
-          result = result.split(match).join(escapedValue);
-        } else {
-          // Per chart/table: usa array di tutti i valori
-          const columnValues = data.map(row => row[columnName]);
-          // Sostituisci "{{column}}" (come valore JSON) con l'array
-          result = result.replace(`"${match}"`, JSON.stringify(columnValues));
-        }
-      }
-    }
-    
-    return JSON.parse(result);
+  // Annulla la query in corso di un widget: interrompe la fetch e la query sul database
+  const cancelWidgetQuery = (widgetId: string) => {
+    const inFlight = inFlightQueriesRef.current.get(widgetId);
+    if (!inFlight) return;
+
+    inFlightQueriesRef.current.delete(widgetId);
+    inFlight.controller.abort();
+    // keepalive: la richiesta parte anche se la pagina si sta chiudendo
+    fetch('/api/query/cancel', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ queryId: inFlight.queryId }),
+      keepalive: true,
+    }).catch(() => { /* la query terminerà comunque per statement timeout */ });
   };
 
-  // Fetcha dati per un singolo widget dinamico
-  const fetchWidgetData = async (widget: Widget): Promise<Widget> => {
+  const cancelAllWidgetQueries = () => {
+    [...inFlightQueriesRef.current.keys()].forEach(cancelWidgetQuery);
+  };
+
+  // Fetcha dati per un singolo widget dinamico (le tabelle vengono caricate una pagina alla volta).
+  // refresh=true ignora la cache del server e riesegue la query; context porta i valori dei filtri e il cross-filter
+  const fetchWidgetData = async (
+    widget: Widget,
+    context: WidgetQueryContext,
+    offset: number = 0,
+    refresh: boolean = false
+  ): Promise<Widget> => {
     if (!widget.isDynamic || !widget.dataSource) {
       return widget;
     }
 
+    const pageSize = widget.type === 'table'
+      ? widget.template?.pageSize || DEFAULT_TABLE_PAGE_SIZE
+      : undefined;
+
+    // Query e template del livello di drill-down corrente (il widget salvato resta invariato)
+    const drill = drillWidget(widget, context.drillPaths[widget.id]);
+    const target = drill.widget;
+
+    // Una nuova richiesta per lo stesso widget sostituisce quella in corso
+    cancelWidgetQuery(widget.id);
+    const inFlight = { queryId: crypto.randomUUID(), controller: new AbortController() };
+    inFlightQueriesRef.current.set(widget.id, inFlight);
+
     try {
       const response = await fetch('/api/query/execute', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          datasourceId: widget.dataSource.datasourceId,
-          query: widget.dataSource.query,
+          datasourceId: target.dataSource!.datasourceId,
+          query: target.dataSource!.query,
+          parameters: target.dataSource!.parameters,
+          params: { ...applyCrossFilter(target, context.params, context.crossFilter), ...drill.params },
+          limit: pageSize,
+          offset,
+          queryId: inFlight.queryId,
+          cacheTtl: widget.cacheTtl,
+          refreshInterval: refreshIntervalFor(widget, context.refreshInterval),
+          refresh,
         }),
+        signal: inFlight.controller.signal,
       });
 
       const result = await response.json();
 
       if (result.success && result.data) {
-        // Hydrata il template con i dati
-        const hydratedData = widget.template 
-          ? replacePlaceholders(widget.template, result.data as Record<string, unknown>[], widget.type)
-          : widget.data;
+        // Hydrata il template con i dati (i KPI leggono le colonne indicate in template.kpi, le pivot tengono tutte le righe)
+        const rows = result.data as Record<string, unknown>[];
+        const hydratedData = widget.type === 'kpi' && target.template?.kpi
+          ? { kpi: kpiFromRows(target.template.kpi, rows) }
+          : widget.type === 'pivot' && target.template?.pivot
+            ? { pivot: { ...target.template.pivot, records: rows } }
+          : target.template
+            ? hydrateTemplate(target.template, rows, widget.type)
+            : widget.data;
 
         return {
           ...widget,
           data: hydratedData as Widget['data'],
           lastFetched: result.executedAt || new Date().toISOString(),
+          cacheStatus: result.cache,
+          resultColumns: result.columns,
           fetchError: undefined,
+          page: {
+            offset: result.offset ?? offset,
+            pageSize,
+            truncated: !!result.truncated,
+            totalRowsEstimate: result.totalRowsEstimate ?? result.data.length,
+            nextOffset: result.nextOffset ?? null,
+          },
         };
       } else {
         // Errore nella query - mantieni dati vecchi
@@ -445,16 +558,29 @@ export default function DashboardCanvas({
         };
       }
     } catch (error) {
+      // Annullata (cambio dashboard o nuova richiesta): nessun errore da mostrare
+      if (inFlight.controller.signal.aborted) {
+        return widget;
+      }
       console.error('[DashboardCanvas] Error fetching widget data:', widget.id, error);
       return {
         ...widget,
         fetchError: error instanceof Error ? error.message : 'Unknown error',
       };
+    } finally {
+      if (inFlightQueriesRef.current.get(widget.id) === inFlight) {
+        inFlightQueriesRef.current.delete(widget.id);
+      }
     }
   };
 
-  // Hydrata tutti i widget dinamici
-  const hydrateWidgets = async (widgets: Widget[], dashboardId: string) => {
+  // Hydrata tutti i widget dinamici (di default con i filtri correnti della dashboard)
+  const hydrateWidgets = async (
+    widgets: Widget[],
+    dashboardId: string,
+    refresh: boolean = false,
+    context: WidgetQueryContext = queryContextFor(dashboards.find(d => d.id === dashboardId))
+  ) => {
     const dynamicWidgets = widgets.filter(w => w.isDynamic);
     
     if (dynamicWidgets.length === 0) {
@@ -469,7 +595,7 @@ export default function DashboardCanvas({
     try {
       // Fetcha in parallelo tutti i widget dinamici
       const hydratedPromises = widgets.map(widget => 
-        widget.isDynamic ? fetchWidgetData(widget) : Promise.resolve(widget)
+        widget.isDynamic ? fetchWidgetData(widget, context, 0, refresh) : Promise.resolve(widget)
       );
 
       const hydrated = await Promise.all(hydratedPromises);
@@ -498,17 +624,75 @@ export default function DashboardCanvas({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedDashboard?.id]); // Triggera solo quando cambia dashboard, non quando cambia il numero di widget
 
-  // NESSUN auto-refresh! L'utente controlla quando refreshare
-  // I dati rimangono finché:
-  // - L'utente non cambia dashboard
-  // - L'utente non clicca manualmente il bottone refresh
+  // Cambio dashboard o uscita dalla pagina: le query ancora in corso non servono più
+  useEffect(() => {
+    return () => cancelAllWidgetQueries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedDashboard?.id]);
+
+  // Aggiornamento automatico dei widget con un intervallo (widget o dashboard, vedi auto-refresh.ts).
+  // Non scavalca la cache: il server la limita all'intervallo del widget. Le tabelle restano sulla pagina corrente
+  const dashboardRefreshInterval = selectedDashboard?.layout_config?.refreshInterval ?? 0;
+  const refreshIntervals = Object.fromEntries(
+    (selectedDashboard?.widgets || [])
+      .map(w => [w.id, refreshIntervalFor(w, dashboardRefreshInterval)] as const)
+      .filter(([, interval]) => interval > 0)
+  );
+
+  const autoRefreshWidgets = async (widgetIds: string[]): Promise<string[]> => {
+    if (!selectedDashboard) return [];
+    const dashboardId = selectedDashboard.id;
+    const context = queryContextFor(selectedDashboard);
+
+    const refreshed = await Promise.all(
+      selectedDashboard.widgets
+        .filter(w => widgetIds.includes(w.id))
+        .map(widget => fetchWidgetData(widget, context, hydratedWidgets.find(h => h.id === widget.id)?.page?.offset ?? 0))
+    );
+
+    // La dashboard è cambiata durante l'aggiornamento: i risultati non servono più
+    if (hydratedDashboardIdRef.current === dashboardId) {
+      setHydratedWidgets(prev => prev.map(w => refreshed.find(r => r.id === w.id) ?? w));
+    }
+    return refreshed.filter(w => w.fetchError).map(w => w.id);
+  };
+
+  const autoRefresh = useAutoRefresh({
+    intervals: refreshIntervals,
+    onRefresh: autoRefreshWidgets,
+    enabled: useHydratedCache && !isHydrating && !isRefreshing,
+  });
 
-  // Handler per refresh manuale
+  // Intervallo della dashboard, salvato in layout_config
+  const handleRefreshIntervalChange = async (refreshInterval: number) => {
+    if (!selectedDashboard) return;
+
+    const layoutConfig = { ...selectedDashboard.layout_config, refreshInterval };
+    setDashboards(prev => prev.map(d => d.id === selectedDashboard.id ? { ...d, layout_config: layoutConfig } : d));
+
+    try {
+      const response = await fetch(`/api/dashboards/${selectedDashboard.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ layout_config: layoutConfig }),
+      });
+
+      if (!response.ok) {
+        console.error('[DashboardCanvas] Failed to save refresh interval:', response.status);
+        fetchDashboards();
+      }
+    } catch (error) {
+      console.error('[DashboardCanvas] Error saving refresh interval:', error);
+      fetchDashboards();
+    }
+  };
+
+  // Handler per refresh manuale (scavalca la cache dei risultati sul server)
   const handleRefreshData = async () => {
     if (!selectedDashboard?.widgets || !selectedDashboard.id) return;
     
     setIsRefreshing(true);
-    await hydrateWidgets(selectedDashboard.widgets, selectedDashboard.id);
+    await hydrateWidgets(selectedDashboard.widgets, selectedDashboard.id, true);
     setIsRefreshing(false);
   };
 
@@ -519,7 +703,7 @@ export default function DashboardCanvas({
     const widget = selectedDashboard.widgets.find(w => w.id === widgetId);
     if (!widget || !widget.isDynamic) return;
 
-    const hydratedWidget = await fetchWidgetData(widget);
+    const hydratedWidget = await fetchWidgetData(widget, queryContextFor(selectedDashboard), 0, true);
     
     // Aggiorna solo questo widget
     setHydratedWidgets(prev => 
@@ -527,6 +711,279 @@ export default function DashboardCanvas({
     );
   };
 
+  // Handler per cambio pagina di una tabella dinamica
+  const handleWidgetPageChange = async (widgetId: string, offset: number) => {
+    if (!selectedDashboard) return;
+
+    const widget = selectedDashboard.widgets.find(w => w.id === widgetId);
+    if (!widget || !widget.isDynamic) return;
+
+    const hydratedWidget = await fetchWidgetData(widget, queryContextFor(selectedDashboard), offset);
+    setHydratedWidgets(prev => 
+      prev.map(w => w.id === widgetId ? hydratedWidget : w)
+    );
+  };
+
+  // Cambio filtri: riesegue le query di tutti i widget con i nuovi valori
+  const handleFiltersChange = async (values: DashboardFilterValues) => {
+    if (!selectedDashboard) return;
+
+    setFilterState({ dashboardId: selectedDashboard.id, values });
+    await hydrateWidgets(selectedDashboard.widgets, selectedDashboard.id, false, {
+      ...queryContextFor(selectedDashboard),
+      params: filterParamValues(selectedDashboard.filters, values),
+    });
+  };
+
+  // Cross-filter: click o selezione su un grafico (lista vuota = annulla).
+  // Vengono rieseguiti solo i widget toccati dal vecchio o dal nuovo cross-filter
+  const applyChartSelection = async (sourceWidget: Widget, values: string[]) => {
+    if (!selectedDashboard || !sourceWidget.crossFilter) return;
+
+    const previous = activeCrossFilter;
+    const next: CrossFilter | null = values.length > 0
+      ? { sourceWidgetId: sourceWidget.id, parameter: sourceWidget.crossFilter.parameter, values }
+      : null;
+    if (!next && !previous) return;
+
+    setCrossFilterState(next ? { dashboardId: selectedDashboard.id, filter: next } : null);
+
+    const context = { ...queryContextFor(selectedDashboard), crossFilter: next };
+    const affected = selectedDashboard.widgets.filter(w => {
+      const target = drillWidget(w, activeDrillPaths[w.id]).widget;
+      return isCrossFilterTarget(target, previous) || isCrossFilterTarget(target, next);
+    });
+    const refreshed = await Promise.all(affected.map(widget => fetchWidgetData(widget, context)));
+
+    setHydratedWidgets(prev => prev.map(w => refreshed.find(r => r.id === w.id) ?? w));
+  };
+
+  const clearCrossFilter = () => {
+    const source = selectedDashboard?.widgets.find(w => w.id === activeCrossFilter?.sourceWidgetId);
+    if (source) applyChartSelection(source, []);
+    else setCrossFilterState(null);
+  };
+
+  // Drill-down: path = valori cliccati, dal livello iniziale (lista vuota = livello iniziale)
+  const setDrillPath = async (widgetId: string, path: string[]) => {
+    if (!selectedDashboard) return;
+
+    const widget = selectedDashboard.widgets.find(w => w.id === widgetId);
+    if (!widget?.isDynamic || !widget.drillDown || path.length > widget.drillDown.length) return;
+
+    const paths = { ...activeDrillPaths, [widgetId]: path };
+    setDrillState({ dashboardId: selectedDashboard.id, paths });
+
+    const hydratedWidget = await fetchWidgetData(widget, { ...queryContextFor(selectedDashboard), drillPaths: paths });
+    setHydratedWidgets(prev => prev.map(w => w.id === widgetId ? hydratedWidget : w));
+  };
+
+  // Props di ChartWidget per il drill-down: click sui punti fino all'ultimo livello e breadcrumb per risalire
+  const drillPropsFor = (widget: Widget) => {
+    const levels = widget.drillDown;
+    if (!widget.isDynamic || !levels?.length) return {};
+
+    const path = activeDrillPaths[widget.id] || [];
+    return {
+      onDrillDown: path.length < levels.length ? (value: string) => setDrillPath(widget.id, [...path, value]) : undefined,
+      drillField: levels[path.length]?.field,
+      breadcrumb: {
+        path,
+        levels: levels.map((level, i) => level.label || `Level ${i + 1}`),
+        onNavigate: (depth: number) => setDrillPath(widget.id, path.slice(0, depth)),
+      },
+    };
+  };
+
+  // Opzioni dei filtri select/multiSelect dalla loro query
+  const loadFilterOptions = async (filter: DashboardFilter): Promise<FilterOption[]> => {
+    if (!filter.options) return [];
+
+    const response = await fetch('/api/query/execute', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        datasourceId: filter.options.datasourceId,
+        query: filter.options.query,
+        limit: 1000,
+      }),
+    });
+    const result = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load options');
+    }
+    return optionsFromRows(result.data || []);
+  };
+
+  // Drag/resize nella griglia: salva la geometria di tutti i widget, position segue l'ordine di lettura
+  const handleLayoutChange = async (items: LayoutItem[]) => {
+    if (!selectedDashboard) return;
+
+    const updatedWidgets = applyLayouts(selectedDashboard.widgets, items);
+
+    // Aggiornamento immediato (senza ricaricare i dati dei widget)
+    setDashboards(prev => prev.map(d => d.id === selectedDashboard.id ? { ...d, widgets: updatedWidgets } : d));
+    setHydratedWidgets(prev => applyLayouts(prev, items));
+
+    try {
+      const response = await fetch(`/api/dashboards/${selectedDashboard.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ widgets: updatedWidgets }),
+      });
+
+      if (!response.ok) {
+        console.error('[DashboardCanvas] Failed to save layout:', response.status);
+        fetchDashboards();
+      }
+    } catch (error) {
+      console.error('[DashboardCanvas] Error saving layout:', error);
+      fetchDashboards();
+    }
+  };
+
+  // Contenuto di un widget nella griglia
+  const renderWidget = (widget: Widget, dashboardId: string) => {
+    // Per widget dinamici senza dati, mostra solo header con placeholder
+    const isPopulated = isDynamicWidgetPopulated(widget);
+
+    if (widget.isDynamic && !isPopulated) {
+      return (
+        <div 
+          className="rounded-xl p-4 h-full"
+          style={{ 
+            background: 'var(--bg-secondary)',
+            border: '1px solid var(--border-subtle)'
+          }}
+        >
+          <WidgetHeader 
+            title={widget.title}
+            updatedAt={widget.lastFetched || widget.updated_at}
+            onDelete={() => handleDeleteWidget(widget.id)}
+            isDeleting={widgetToDelete === widget.id}
+            readOnly={isLiveMode}
+            isDynamic={widget.isDynamic}
+            onRefresh={handleRefreshData}
+            isRefreshing={isRefreshing || isHydrating}
+            fetchError={widget.fetchError}
+          />
+          {/* Placeholder per dati non ancora caricati */}
+          <div 
+            className="text-xs py-2"
+            style={{ color: 'var(--text-muted)' }}
+          >
+            {isHydrating ? 'Loading data...' : 'Click refresh to load data'}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="h-full">
+        {widget.type === 'chart' && (widget.data.plotlyConfig || widget.isDynamic) && (
+        <ChartWidget
+          title={widget.title}
+          plotlyConfig={widget.data.plotlyConfig || { data: [], layout: {} }}
+          updatedAt={widget.lastFetched || widget.updated_at}
+          isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+          onDelete={() => handleDeleteWidget(widget.id)}
+          isDeleting={widgetToDelete === widget.id}
+          readOnly={isLiveMode}
+          isDynamic={widget.isDynamic}
+          onRefresh={handleRefreshData}
+          isRefreshing={isRefreshing || isHydrating}
+          fetchError={widget.fetchError}
+          isTruncated={widget.page?.truncated}
+          onPointsSelected={widget.isDynamic && widget.crossFilter ? (values) => applyChartSelection(widget, values) : undefined}
+          crossFilterField={widget.crossFilter?.field}
+          {...drillPropsFor(widget)}
+        />
+      )}
+      {widget.type === 'table' && ((widget.data.columns && widget.data.rows) || widget.isDynamic) && (
+        <TableWidget
+          title={widget.title}
+          columns={widget.data.columns || []}
+          rows={widget.data.rows || []}
+          formatting={(widget.isDynamic ? widget.template : widget.data)?.formatting}
+          resultColumns={widget.resultColumns}
+          updatedAt={widget.lastFetched || widget.updated_at}
+          isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+          onDelete={() => handleDeleteWidget(widget.id)}
+          isDeleting={widgetToDelete === widget.id}
+          readOnly={isLiveMode}
+          isDynamic={widget.isDynamic}
+          onRefresh={handleRefreshData}
+          isRefreshing={isRefreshing || isHydrating}
+          fetchError={widget.fetchError}
+          page={widget.page}
+          onPageChange={(offset) => handleWidgetPageChange(widget.id, offset)}
+        />
+      )}
+      {widget.type === 'markdown' && (widget.data.content || widget.isDynamic) && (
+        <MarkdownWidget
+          title={widget.title}
+          content={widget.data.content || 'Loading...'}
+          updatedAt={widget.lastFetched || widget.updated_at}
+          isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+          onDelete={() => handleDeleteWidget(widget.id)}
+          isDeleting={widgetToDelete === widget.id}
+          readOnly={isLiveMode}
+          widgetId={widget.id}
+          dashboardId={dashboardId}
+          onUpdate={fetchDashboards}
+          isDynamic={widget.isDynamic}
+          onRefresh={handleRefreshData}
+          isRefreshing={isRefreshing || isHydrating}
+          fetchError={widget.fetchError}
+        />
+      )}
+      {widget.type === 'kpi' && (widget.data.kpi || widget.isDynamic) && (
+        <KpiWidget
+          title={widget.title}
+          kpi={widget.data.kpi}
+          updatedAt={widget.lastFetched || widget.updated_at}
+          isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+          onDelete={() => handleDeleteWidget(widget.id)}
+          isDeleting={widgetToDelete === widget.id}
+          readOnly={isLiveMode}
+          isDynamic={widget.isDynamic}
+          onRefresh={handleRefreshData}
+          isRefreshing={isRefreshing || isHydrating}
+          fetchError={widget.fetchError}
+        />
+      )}
+      {widget.type === 'pivot' && (widget.data.pivot || widget.isDynamic) && (
+        <PivotWidget
+          title={widget.title}
+          pivot={widget.data.pivot}
+          updatedAt={widget.lastFetched || widget.updated_at}
+          isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+          onDelete={() => handleDeleteWidget(widget.id)}
+          isDeleting={widgetToDelete === widget.id}
+          readOnly={isLiveMode}
+          isDynamic={widget.isDynamic}
+          onRefresh={handleRefreshData}
+          isRefreshing={isRefreshing || isHydrating}
+          fetchError={widget.fetchError}
+          isTruncated={widget.page?.truncated}
+        />
+      )}
+      {widget.type === 'query' && widget.data.query && (
+        <QueryWidget
+          title={widget.title}
+          query={widget.data.query}
+          description={widget.data.description}
+          updatedAt={widget.updated_at}
+          onDelete={() => handleDeleteWidget(widget.id)}
+          isDeleting={widgetToDelete === widget.id}
+          readOnly={isLiveMode}
+        />
+      )}
+      </div>
+    );
+  };
+
   return (
     <div className="flex-1 flex flex-col overflow-hidden relative">
       {/* Top bar with dashboard selector and refresh */}
@@ -658,6 +1115,34 @@ export default function DashboardCanvas({
           )}
           </div>
           
+          {/* Cross-filter attivo */}
+          {activeCrossFilter && (
+            <div
+              className="flex items-center gap-1.5 pl-2 pr-1 py-1 rounded-full text-xs"
+              style={{
+                background: 'rgba(59, 130, 246, 0.1)',
+                border: '1px solid rgba(59, 130, 246, 0.3)',
+                color: '#3b82f6'
+              }}
+              title={`Filtered by ${selectedDashboard?.widgets.find(w => w.id === activeCrossFilter.sourceWidgetId)?.title ?? 'chart'}`}
+            >
+              <MousePointerClick size={12} />
+              <span className="max-w-[240px] truncate">
+                {activeCrossFilter.parameter}: {activeCrossFilter.values.slice(0, 3).join(', ')}
+                {activeCrossFilter.values.length > 3 && ` +${activeCrossFilter.values.length - 3}`}
+              </span>
+              <button
+                onClick={clearCrossFilter}
+                className="p-0.5 rounded-full transition-colors"
+                onMouseEnter={(e) => e.currentTarget.style.background = 'rgba(59, 130, 246, 0.2)'}
+                onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+                title="Clear cross-filter"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          )}
+
           {/* Dashboard Description */}
           {selectedDashboard?.description && (
             <p 
@@ -669,7 +1154,7 @@ export default function DashboardCanvas({
           )}
           
           {/* Edit Dashboard Button */}
-          {selectedDashboard && (
+          {selectedDashboard && !isLiveMode && (
             <button
               onClick={() => setEditingDashboard(selectedDashboard)}
               className="p-1.5 rounded-lg transition-colors"
@@ -696,7 +1181,7 @@ export default function DashboardCanvas({
         {/* Right buttons */}
         <div className="flex items-center gap-2">
           {/* Share button */}
-          {selectedDashboard && (
+          {selectedDashboard && !isLiveMode && (
             <button
               onClick={() => setShowShareModal(true)}
               className="p-1.5 rounded-lg transition-colors"
@@ -724,7 +1209,7 @@ export default function DashboardCanvas({
           )}
 
           {/* JSON Editor toggle button */}
-          {onToggleJsonEditor && selectedDashboard && (
+          {onToggleJsonEditor && selectedDashboard && !isLiveMode && (
             <button
               onClick={onToggleJsonEditor}
               className="p-1.5 rounded-lg transition-colors"
@@ -747,6 +1232,41 @@ export default function DashboardCanvas({
             </button>
           )}
 
+          {/* History toggle button */}
+          {onToggleHistory && selectedDashboard && !isLiveMode && (
+            <button
+              onClick={onToggleHistory}
+              className="p-1.5 rounded-lg transition-colors"
+              style={{
+                background: 'var(--bg-tertiary)',
+                border: '1px solid var(--border-subtle)',
+                color: isHistoryOpen ? 'var(--accent-primary)' : 'var(--text-tertiary)'
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.borderColor = 'var(--border-default)';
+                if (!isHistoryOpen) e.currentTarget.style.color = 'var(--text-secondary)';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.borderColor = 'var(--border-subtle)';
+                if (!isHistoryOpen) e.currentTarget.style.color = 'var(--text-tertiary)';
+              }}
+              title={isHistoryOpen ? 'Close version history' : 'Open version history'}
+            >
+              <History size={14} />
+            </button>
+          )}
+
+          {/* Auto-refresh interval */}
+          {selectedDashboard && (
+            <RefreshIntervalPicker
+              value={dashboardRefreshInterval}
+              onChange={isLiveMode ? undefined : handleRefreshIntervalChange}
+              isActive={Object.keys(refreshIntervals).length > 0}
+              isPaused={autoRefresh.isPaused}
+              failingCount={autoRefresh.failingWidgetIds.length}
+            />
+          )}
+
           {/* Refresh data button */}
           <button
             onClick={handleRefreshData}
@@ -773,8 +1293,32 @@ export default function DashboardCanvas({
             <RefreshCw size={14} className={isRefreshing ? 'animate-spin' : ''} />
           </button>
 
+          {/* Live mode toggle button */}
+          {onToggleLiveMode && selectedDashboard && (
+            <button
+              onClick={onToggleLiveMode}
+              className="p-1.5 rounded-lg transition-colors"
+              style={{
+                background: 'var(--bg-tertiary)',
+                border: '1px solid var(--border-subtle)',
+                color: isLiveMode ? 'var(--accent-primary)' : 'var(--text-tertiary)'
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.borderColor = 'var(--border-default)';
+                if (!isLiveMode) e.currentTarget.style.color = 'var(--text-secondary)';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.borderColor = 'var(--border-subtle)';
+                if (!isLiveMode) e.currentTarget.style.color = 'var(--text-tertiary)';
+              }}
+              title={isLiveMode ? 'Exit live mode (Esc)' : 'Live mode (fullscreen)'}
+            >
+              {isLiveMode ? <Minimize2 size={14} /> : <Maximize2 size={14} />}
+            </button>
+          )}
+
           {/* Chat toggle button */}
-          {onToggleChat && (
+          {onToggleChat && !isLiveMode && (
             <button
               onClick={onToggleChat}
               className="p-1.5 rounded-lg transition-colors"
@@ -799,6 +1343,17 @@ export default function DashboardCanvas({
         </div>
       </div>
 
+      {/* Dashboard filters */}
+      {selectedDashboard?.filters && selectedDashboard.filters.length > 0 && (
+        <DashboardFilterBar
+          key={selectedDashboard.id}
+          filters={selectedDashboard.filters}
+          values={filterValuesFor(selectedDashboard)}
+          onChange={handleFiltersChange}
+          loadOptions={loadFilterOptions}
+        />
+      )}
+
       {/* Canvas content */}
       <div className="flex-1 overflow-auto p-4">
         {isLoading ? (
@@ -857,105 +1412,12 @@ export default function DashboardCanvas({
             </p>
           </div>
         ) : (
-          <div className="space-y-4 max-w-6xl mx-auto">
-            {[...widgets]
-              .sort((a, b) => a.position - b.position)
-              .map((widget) => {
-                // Altezza minima solo per chart (grafici hanno bisogno di spazio)
-                const minHeightClass = widget.type === 'chart' ? 'min-h-[300px]' : '';
-                
-                // Per widget dinamici senza dati, mostra solo header con placeholder
-                const isPopulated = isDynamicWidgetPopulated(widget);
-                
-                if (widget.isDynamic && !isPopulated) {
-                  return (
-                    <div 
-                      key={widget.id}
-                      className="rounded-xl p-4"
-                      style={{ 
-                        background: 'var(--bg-secondary)',
-                        border: '1px solid var(--border-subtle)'
-                      }}
-                    >
-                      <WidgetHeader 
-                        title={widget.title}
-                        updatedAt={widget.lastFetched || widget.updated_at}
-                        onDelete={() => handleDeleteWidget(widget.id)}
-                        isDeleting={widgetToDelete === widget.id}
-                        isDynamic={widget.isDynamic}
-                        onRefresh={handleRefreshData}
-                        isRefreshing={isRefreshing || isHydrating}
-                        fetchError={widget.fetchError}
-                      />
-                      {/* Placeholder per dati non ancora caricati */}
-                      <div 
-                        className="text-xs py-2"
-                        style={{ color: 'var(--text-muted)' }}
-                      >
-                        {isHydrating ? 'Loading data...' : 'Click refresh to load data'}
-                      </div>
-                    </div>
-                  );
-                }
-                
-                return (
-                  <div key={widget.id} className={minHeightClass}>
-                    {widget.type === 'chart' && (widget.data.plotlyConfig || widget.isDynamic) && (
-                    <ChartWidget
-                      title={widget.title}
-                      plotlyConfig={widget.data.plotlyConfig || { data: [], layout: {} }}
-                      updatedAt={widget.lastFetched || widget.updated_at}
-                      onDelete={() => handleDeleteWidget(widget.id)}
-                      isDeleting={widgetToDelete === widget.id}
-                      isDynamic={widget.isDynamic}
-                      onRefresh={handleRefreshData}
-                      isRefreshing={isRefreshing || isHydrating}
-                      fetchError={widget.fetchError}
-                    />
-                  )}
-                  {widget.type === 'table' && ((widget.data.columns && widget.data.rows) || widget.isDynamic) && (
-                    <TableWidget
-                      title={widget.title}
-                      columns={widget.data.columns || []}
-                      rows={widget.data.rows || []}
-                      updatedAt={widget.lastFetched || widget.updated_at}
-                      onDelete={() => handleDeleteWidget(widget.id)}
-                      isDeleting={widgetToDelete === widget.id}
-                      isDynamic={widget.isDynamic}
-                      onRefresh={handleRefreshData}
-                      isRefreshing={isRefreshing || isHydrating}
-                      fetchError={widget.fetchError}
-                    />
-                  )}
-                  {widget.type === 'markdown' && (widget.data.content || widget.isDynamic) && (
-                    <MarkdownWidget
-                      title={widget.title}
-                      content={widget.data.content || 'Loading...'}
-                      updatedAt={widget.lastFetched || widget.updated_at}
-                      onDelete={() => handleDeleteWidget(widget.id)}
-                      isDeleting={widgetToDelete === widget.id}
-                      widgetId={widget.id}
-                      dashboardId={selectedDashboard.id}
-                      onUpdate={fetchDashboards}
-                      isDynamic={widget.isDynamic}
-                      onRefresh={handleRefreshData}
-                      isRefreshing={isRefreshing || isHydrating}
-                      fetchError={widget.fetchError}
-                    />
-                  )}
-                  {widget.type === 'query' && widget.data.query && (
-                    <QueryWidget
-                      title={widget.title}
-                      query={widget.data.query}
-                      description={widget.data.description}
-                      updatedAt={widget.updated_at}
-                      onDelete={() => handleDeleteWidget(widget.id)}
-                      isDeleting={widgetToDelete === widget.id}
-                    />
-                  )}
-                  </div>
-                );
-              })}
+          <div className="max-w-6xl mx-auto">
+            <DashboardGrid
+              items={resolveLayouts(widgets)}
+              renderItem={(id) => renderWidget(widgets.find(w => w.id === id)!, selectedDashboard.id)}
+              onLayoutChange={isLiveMode ? undefined : handleLayoutChange}
+            />
           </div>
         )}
       </div>
@@ -0,0 +1,274 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ChevronDown, Filter, Lock, Loader2 } from 'lucide-react';
+import {
+  DATE_RANGE_PRESETS,
+  resolveDateRange,
+  type DashboardFilter,
+  type DashboardFilterValue,
+  type DashboardFilterValues,
+  type DateRangePreset,
+  type DateRangeValue,
+  type FilterOption,
+} from '../lib/dashboard-filters';
+
+interface DashboardFilterBarProps {
+  filters: DashboardFilter[];
+  values: DashboardFilterValues;
+  onChange: (values: DashboardFilterValues) => void;
+  loadOptions: (filter: DashboardFilter) => Promise<FilterOption[]>; // Opzioni di select/multiSelect
+  locked?: boolean; // Dashboard condivisa con filtri bloccati: valori visibili ma non modificabili
+}
+
+const controlStyle = {
+  background: 'var(--bg-tertiary)',
+  border: '1px solid var(--border-subtle)',
+  color: 'var(--text-primary)',
+};
+
+const controlClass = 'px-2 py-1 rounded-lg text-xs outline-none transition-colors';
+
+// Testo del valore di un filtro (usato anche per i filtri bloccati)
+function describeValue(filter: DashboardFilter, value: DashboardFilterValue): string {
+  if (value === null || value === undefined) return 'All';
+
+  if (filter.type === 'dateRange' && typeof value === 'object' && !Array.isArray(value)) {
+    if (value.preset) return DATE_RANGE_PRESETS[value.preset] ?? value.preset;
+    const { from, to } = resolveDateRange(value);
+    return from || to ? `${from ?? '…'} → ${to ?? '…'}` : 'All';
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0 ? 'All' : value.join(', ');
+  }
+  return value === '' ? 'All' : String(value);
+}
+
+function DateRangeControl({ value, onChange }: {
+  value: DateRangeValue | null;
+  onChange: (value: DateRangeValue | null) => void;
+}) {
+  const mode = value?.preset ?? (value?.from || value?.to ? 'custom' : '');
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={mode}
+        onChange={(e) => {
+          const next = e.target.value;
+          if (next === '') onChange(null);
+          else if (next === 'custom') onChange(resolveDateRange(value ?? { preset: 'last30Days' }));
+          else onChange({ preset: next as DateRangePreset });
+        }}
+        className={`${controlClass} cursor-pointer`}
+        style={controlStyle}
+      >
+        <option value="">All time</option>
+        {Object.entries(DATE_RANGE_PRESETS).map(([preset, label]) => (
+          <option key={preset} value={preset}>{label}</option>
+        ))}
+        <option value="custom">Custom…</option>
+      </select>
+      {mode === 'custom' && (
+        <>
+          <input
+            type="date"
+            value={value?.from ?? ''}
+            onChange={(e) => onChange({ from: e.target.value || undefined, to: value?.to })}
+            className={controlClass}
+            style={controlStyle}
+          />
+          <span className="text-xs" style={{ color: 'var(--text-muted)' }}>→</span>
+          <input
+            type="date"
+            value={value?.to ?? ''}
+            onChange={(e) => onChange({ from: value?.from, to: e.target.value || undefined })}
+            className={controlClass}
+            style={controlStyle}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+function MultiSelectControl({ value, options, onChange }: {
+  value: string[];
+  options: FilterOption[];
+  onChange: (value: string[]) => void;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggle = (option: string) => {
+    onChange(value.includes(option) ? value.filter(v => v !== option) : [...value, option]);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`${controlClass} flex items-center gap-1`}
+        style={controlStyle}
+      >
+        {value.length === 0 ? 'All' : `${value.length} selected`}
+        <ChevronDown size={12} style={{ color: 'var(--text-muted)' }} />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div
+            className="absolute left-0 top-full mt-1 min-w-[180px] max-h-64 overflow-auto py-1 rounded-lg shadow-xl z-50"
+            style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-default)' }}
+          >
+            {options.length === 0 && (
+              <p className="px-3 py-2 text-xs" style={{ color: 'var(--text-muted)' }}>No options</p>
+            )}
+            {options.map(option => (
+              <label
+                key={option.value}
+                className="flex items-center gap-2 px-3 py-1.5 text-xs cursor-pointer"
+                style={{ color: 'var(--text-primary)' }}
+                onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-hover)'}
+                onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+              >
+                <input
+                  type="checkbox"
+                  checked={value.includes(option.value)}
+                  onChange={() => toggle(option.value)}
+                />
+                <span className="truncate">{option.label}</span>
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Testo libero: applicato con Invio o quando il campo perde il focus, non a ogni tasto
+function TextControl({ value, onChange }: { value: string; onChange: (value: string | null) => void }) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const apply = () => {
+    if (draft !== value) onChange(draft === '' ? null : draft);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      placeholder="All"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={apply}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') apply();
+      }}
+      className={`${controlClass} w-36`}
+      style={controlStyle}
+    />
+  );
+}
+
+/**
+ * Barra dei filtri della dashboard (header di DashboardCanvas e dashboard condivise)
+ */
+export default function DashboardFilterBar({ filters, values, onChange, loadOptions, locked = false }: DashboardFilterBarProps) {
+  const [options, setOptions] = useState<Record<string, FilterOption[]>>({});
+  const [optionErrors, setOptionErrors] = useState<Record<string, string>>({});
+
+  // Carica le opzioni dei filtri select/multiSelect (non servono se i filtri sono bloccati)
+  useEffect(() => {
+    if (locked) return;
+    let cancelled = false;
+
+    filters
+      .filter(filter => filter.type === 'select' || filter.type === 'multiSelect')
+      .forEach(filter => {
+        loadOptions(filter)
+          .then(loaded => {
+            if (!cancelled) setOptions(prev => ({ ...prev, [filter.id]: loaded }));
+          })
+          .catch(err => {
+            if (!cancelled) setOptionErrors(prev => ({ ...prev, [filter.id]: err instanceof Error ? err.message : 'Failed to load options' }));
+          });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // Le opzioni dipendono solo dalle definizioni dei filtri
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [JSON.stringify(filters), locked]);
+
+  if (filters.length === 0) return null;
+
+  const setValue = (filterId: string, value: DashboardFilterValue) => {
+    onChange({ ...values, [filterId]: value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 pb-2">
+      <Filter size={12} style={{ color: 'var(--text-muted)' }} />
+      {filters.map(filter => {
+        const value = values[filter.id] ?? null;
+        const filterOptions = options[filter.id];
+
+        return (
+          <div key={filter.id} className="flex items-center gap-1.5">
+            <span className="text-xs" style={{ color: 'var(--text-muted)' }}>{filter.label}</span>
+
+            {locked ? (
+              <span
+                className={`${controlClass} flex items-center gap-1`}
+                style={{ ...controlStyle, color: 'var(--text-secondary)' }}
+                title="Filter locked by the dashboard owner"
+              >
+                <Lock size={10} />
+                {describeValue(filter, value)}
+              </span>
+            ) : filter.type === 'dateRange' ? (
+              <DateRangeControl
+                value={value && typeof value === 'object' && !Array.isArray(value) ? value : null}
+                onChange={(next) => setValue(filter.id, next)}
+              />
+            ) : filter.type === 'text' ? (
+              <TextControl
+                value={typeof value === 'string' ? value : ''}
+                onChange={(next) => setValue(filter.id, next)}
+              />
+            ) : optionErrors[filter.id] ? (
+              <span className="text-xs" style={{ color: '#ef4444' }} title={optionErrors[filter.id]}>
+                Options unavailable
+              </span>
+            ) : !filterOptions ? (
+              <Loader2 size={12} className="animate-spin" style={{ color: 'var(--text-muted)' }} />
+            ) : filter.type === 'multiSelect' ? (
+              <MultiSelectControl
+                value={Array.isArray(value) ? value : []}
+                options={filterOptions}
+                onChange={(next) => setValue(filter.id, next.length > 0 ? next : null)}
+              />
+            ) : (
+              <select
+                value={typeof value === 'string' ? value : ''}
+                onChange={(e) => setValue(filter.id, e.target.value === '' ? null : e.target.value)}
+                className={`${controlClass} cursor-pointer`}
+                style={controlStyle}
+              >
+                <option value="">All</option>
+                {filterOptions.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
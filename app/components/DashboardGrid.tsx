@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect, useRef, type ReactNode } from 'react';
+import { GripHorizontal } from 'lucide-react';
+import {
+  GRID_COLUMNS,
+  GRID_GAP,
+  GRID_ROW_HEIGHT,
+  MIN_WIDGET_SIZE,
+  columnsForWidth,
+  layoutForColumns,
+  moveWidget,
+  type LayoutItem,
+  type WidgetLayout,
+} from '../lib/dashboard-layout';
+
+interface DashboardGridProps {
+  items: LayoutItem[]; // Layout a 12 colonne (resolveLayouts)
+  renderItem: (id: string) => ReactNode;
+  onLayoutChange?: (items: LayoutItem[]) => void; // Se assente la griglia è in sola lettura
+}
+
+// Operazione in corso: spostamento o resize di un widget, con il punto di partenza del puntatore
+interface Interaction {
+  id: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: WidgetLayout;
+}
+
+/**
+ * Griglia dei widget della dashboard (DashboardCanvas e dashare).
+ * Sposta i widget trascinando la maniglia in alto, ridimensiona dall'angolo in basso a destra.
+ * Con meno di 12 colonne (schermi stretti) il layout è ricalcolato e non modificabile
+ */
+export default function DashboardGrid({ items, renderItem, onLayoutChange }: DashboardGridProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [interaction, setInteraction] = useState<Interaction | null>(null);
+  const [preview, setPreview] = useState<LayoutItem[] | null>(null); // Layout durante il trascinamento
+  const previewRef = useRef<LayoutItem[] | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = width > 0 ? columnsForWidth(width) : GRID_COLUMNS;
+  const editable = !!onLayoutChange && columns === GRID_COLUMNS;
+  const layout = preview ?? layoutForColumns(items, columns);
+
+  // Spostamento del puntatore → celle della griglia
+  useEffect(() => {
+    if (!interaction) return;
+
+    const cellWidth = (width - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS + GRID_GAP;
+    const cellHeight = GRID_ROW_HEIGHT + GRID_GAP;
+
+    const handleMove = (e: PointerEvent) => {
+      const dx = Math.round((e.clientX - interaction.startX) / cellWidth);
+      const dy = Math.round((e.clientY - interaction.startY) / cellHeight);
+      const { origin } = interaction;
+      const next = interaction.mode === 'move'
+        ? { ...origin, x: origin.x + dx, y: origin.y + dy }
+        : {
+            ...origin,
+            w: Math.min(Math.max(origin.w + dx, MIN_WIDGET_SIZE.w), GRID_COLUMNS - origin.x),
+            h: Math.max(origin.h + dy, MIN_WIDGET_SIZE.h),
+          };
+      previewRef.current = moveWidget(items, interaction.id, next);
+      setPreview(previewRef.current);
+    };
+
+    const handleUp = () => {
+      const latest = previewRef.current;
+      const changed = latest && latest.some(item => {
+        const before = items.find(i => i.id === item.id)?.layout;
+        return !before || before.x !== item.layout.x || before.y !== item.layout.y || before.w !== item.layout.w || before.h !== item.layout.h;
+      });
+      if (changed && latest) onLayoutChange?.(latest);
+      previewRef.current = null;
+      setInteraction(null);
+      setPreview(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+    };
+  }, [interaction, items, width, onLayoutChange]);
+
+  const startInteraction = (e: React.PointerEvent, id: string, mode: Interaction['mode']) => {
+    const item = items.find(i => i.id === id);
+    if (!editable || !item) return;
+    e.preventDefault();
+    setInteraction({ id, mode, startX: e.clientX, startY: e.clientY, origin: item.layout });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="grid"
+      style={{
+        gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+        gridAutoRows: `${GRID_ROW_HEIGHT}px`,
+        gap: `${GRID_GAP}px`,
+        userSelect: interaction ? 'none' : undefined,
+      }}
+    >
+      {layout.map(({ id, layout: { x, y, w, h } }) => {
+        const isActive = interaction?.id === id;
+
+        return (
+          <div
+            key={id}
+            className="relative group min-w-0 min-h-0"
+            style={{
+              gridColumn: `${x + 1} / span ${w}`,
+              gridRow: `${y + 1} / span ${h}`,
+              opacity: isActive ? 0.85 : 1,
+              zIndex: isActive ? 10 : undefined,
+              outline: isActive ? '2px dashed var(--border-default)' : undefined,
+              borderRadius: '0.75rem',
+            }}
+          >
+            <div className="h-full overflow-hidden">
+              {renderItem(id)}
+            </div>
+
+            {editable && (
+              <>
+                {/* Maniglia per spostare */}
+                <div
+                  onPointerDown={(e) => startInteraction(e, id, 'move')}
+                  className="absolute top-0 left-1/2 -translate-x-1/2 px-2 rounded-b opacity-0 group-hover:opacity-100 transition-opacity cursor-move"
+                  style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)', touchAction: 'none' }}
+                  title="Drag to move"
+                >
+                  <GripHorizontal size={14} />
+                </div>
+
+                {/* Maniglia per ridimensionare */}
+                <div
+                  onPointerDown={(e) => startInteraction(e, id, 'resize')}
+                  className="absolute bottom-0 right-0 w-4 h-4 opacity-0 group-hover:opacity-100 transition-opacity cursor-se-resize"
+                  style={{
+                    borderRight: '2px solid var(--text-muted)',
+                    borderBottom: '2px solid var(--text-muted)',
+                    borderBottomRightRadius: '0.75rem',
+                    touchAction: 'none',
+                  }}
+                  title="Drag to resize"
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
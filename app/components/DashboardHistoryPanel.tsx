@@ -0,0 +1,404 @@
+'use client';
+
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { History, Bot, User, RotateCcw, AlertCircle, Loader2, MessageSquare, Plus, Minus, Pencil } from 'lucide-react';
+import {
+  diffDashboards,
+  toSnapshot,
+  type DashboardDiff,
+  type DashboardRevision,
+  type DashboardSnapshot,
+} from '../lib/dashboard-revisions';
+import type { Widget } from './DashboardCanvas';
+
+interface Dashboard {
+  id: string;
+  name: string;
+  description?: string;
+  widgets: Widget[];
+  filters?: unknown[];
+}
+
+interface DashboardHistoryPanelProps {
+  width: number;
+  onWidthChange: (width: number) => void;
+  minWidth?: number;
+  maxWidth?: number;
+  dashboard: Dashboard | null;
+  dashboardVersion?: number; // Ricarica le revisioni quando la dashboard viene salvata
+  onRestore: () => void;
+}
+
+const CHANGE_STYLE = {
+  added: { icon: Plus, color: '#22c55e', label: 'Added' },
+  removed: { icon: Minus, color: '#ef4444', label: 'Removed' },
+  modified: { icon: Pencil, color: '#f59e0b', label: 'Modified' },
+} as const;
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('it-IT', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Cronologia della dashboard: elenco delle revisioni, diff a livello di widget e ripristino.
+ * Con una revisione selezionata il diff è verso la versione attuale, con due è tra le due (dalla più vecchia)
+ */
+export default function DashboardHistoryPanel({
+  width,
+  onWidthChange,
+  minWidth = 320,
+  maxWidth = 800,
+  dashboard,
+  dashboardVersion = 0,
+  onRestore,
+}: DashboardHistoryPanelProps) {
+  const [isResizing, setIsResizing] = useState(false);
+  const [revisions, setRevisions] = useState<DashboardRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [diff, setDiff] = useState<DashboardDiff | null>(null);
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [confirmRestoreId, setConfirmRestoreId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Snapshot già scaricati (le revisioni sono immutabili)
+  const snapshotsRef = useRef(new Map<string, DashboardSnapshot>());
+
+  const dashboardId = dashboard?.id;
+
+  // Carica le revisioni
+  useEffect(() => {
+    if (!dashboardId) {
+      setRevisions([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetch(`/api/dashboards/${dashboardId}/revisions`)
+      .then(async response => {
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || 'Failed to load history');
+        if (!cancelled) setRevisions(data.revisions || []);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dashboardId, dashboardVersion]);
+
+  // Cambiando dashboard si azzera la selezione
+  useEffect(() => {
+    setSelectedIds([]);
+    setConfirmRestoreId(null);
+  }, [dashboardId]);
+
+  const loadSnapshot = useCallback(async (revisionId: string): Promise<DashboardSnapshot> => {
+    const cached = snapshotsRef.current.get(revisionId);
+    if (cached) return cached;
+
+    const response = await fetch(`/api/dashboards/${dashboardId}/revisions/${revisionId}`);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || 'Failed to load revision');
+
+    const snapshot = toSnapshot(data.revision.snapshot);
+    snapshotsRef.current.set(revisionId, snapshot);
+    return snapshot;
+  }, [dashboardId]);
+
+  // Diff delle revisioni selezionate
+  useEffect(() => {
+    if (selectedIds.length === 0 || !dashboard) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsDiffLoading(true);
+
+    // Dalla più vecchia alla più recente (l'elenco è dalla più recente)
+    const ordered = [...selectedIds].sort(
+      (a, b) => revisions.findIndex(r => r.id === b) - revisions.findIndex(r => r.id === a)
+    );
+
+    Promise.all(ordered.map(loadSnapshot))
+      .then(([before, after]) => {
+        if (!cancelled) setDiff(diffDashboards(before, after ?? toSnapshot(dashboard)));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load revision');
+      })
+      .finally(() => {
+        if (!cancelled) setIsDiffLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedIds, revisions, dashboard, loadSnapshot]);
+
+  // Gestione resize
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    setIsResizing(true);
+  };
+
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!isResizing) return;
+
+      const newWidth = window.innerWidth - e.clientX;
+      if (newWidth >= minWidth && newWidth <= maxWidth) {
+        onWidthChange(newWidth);
+      }
+    };
+
+    const handleMouseUp = () => {
+      setIsResizing(false);
+    };
+
+    if (isResizing) {
+      document.addEventListener('mousemove', handleMouseMove);
+      document.addEventListener('mouseup', handleMouseUp);
+    }
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isResizing, minWidth, maxWidth, onWidthChange]);
+
+  // Selezione per il confronto: al massimo due revisioni, la terza sostituisce la prima
+  const toggleSelected = (revisionId: string) => {
+    setSelectedIds(prev => prev.includes(revisionId)
+      ? prev.filter(id => id !== revisionId)
+      : [...prev, revisionId].slice(-2));
+  };
+
+  const handleRestore = async (revisionId: string) => {
+    if (!dashboardId) return;
+
+    setRestoringId(revisionId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/revisions/${revisionId}`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to restore revision');
+      }
+
+      setSelectedIds([]);
+      // Il parent ricarica la dashboard (e con dashboardVersion anche le revisioni)
+      onRestore();
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+      setConfirmRestoreId(null);
+    }
+  };
+
+  const hasDiff = diff && (diff.fields.length > 0 || diff.widgets.length > 0);
+
+  return (
+    <div
+      className="h-full flex border-l"
+      style={{
+        width: `${width}px`,
+        background: 'var(--bg-primary)',
+        borderColor: 'var(--border-subtle)',
+      }}
+    >
+      {/* Resize Handle */}
+      <div
+        className="w-1 cursor-col-resize hover:bg-blue-500/50 transition-colors"
+        onMouseDown={handleMouseDown}
+        style={{
+          background: isResizing ? 'rgba(59, 130, 246, 0.5)' : 'transparent'
+        }}
+      />
+
+      {/* Panel Content */}
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Header */}
+        <div
+          className="flex items-center justify-between px-4 py-3 border-b"
+          style={{ borderColor: 'var(--border-subtle)' }}
+        >
+          <div className="flex items-center gap-2">
+            <History size={18} style={{ color: 'var(--accent-primary)' }} />
+            <h2
+              className="text-sm font-semibold"
+              style={{ color: 'var(--text-primary)' }}
+            >
+              Version History
+            </h2>
+          </div>
+        </div>
+
+        {!dashboard ? (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+              Select a dashboard to see its history
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col overflow-hidden p-4 gap-3">
+            {error && (
+              <div
+                className="p-3 rounded-lg flex items-start gap-2 text-xs"
+                style={{
+                  background: 'rgba(239, 68, 68, 0.1)',
+                  border: '1px solid rgba(239, 68, 68, 0.3)',
+                  color: '#ef4444'
+                }}
+              >
+                <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {/* Diff */}
+            <div
+              className="p-3 rounded-lg text-xs max-h-[40%] overflow-y-auto"
+              style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-subtle)' }}
+            >
+              {selectedIds.length === 0 ? (
+                <p style={{ color: 'var(--text-muted)' }}>
+                  Select a version to compare it with the current dashboard, or two versions to compare them.
+                </p>
+              ) : isDiffLoading ? (
+                <div className="flex items-center gap-2" style={{ color: 'var(--text-muted)' }}>
+                  <Loader2 size={14} className="animate-spin" />
+                  Loading changes...
+                </div>
+              ) : !hasDiff ? (
+                <p style={{ color: 'var(--text-muted)' }}>No differences</p>
+              ) : (
+                <div className="space-y-1.5">
+                  <p className="font-medium" style={{ color: 'var(--text-secondary)' }}>
+                    {selectedIds.length === 1 ? 'Changes since this version' : 'Changes between the selected versions'}
+                  </p>
+                  {diff!.fields.map(field => (
+                    <div key={field} className="flex items-center gap-2" style={{ color: 'var(--text-secondary)' }}>
+                      <Pencil size={12} style={{ color: CHANGE_STYLE.modified.color }} />
+                      Dashboard {field}
+                    </div>
+                  ))}
+                  {diff!.widgets.map(change => {
+                    const { icon: Icon, color, label } = CHANGE_STYLE[change.change];
+                    return (
+                      <div key={change.widgetId} className="flex items-start gap-2" style={{ color: 'var(--text-secondary)' }}>
+                        <Icon size={12} className="shrink-0 mt-0.5" style={{ color }} />
+                        <span>
+                          {label} <span style={{ color: 'var(--text-primary)' }}>{change.title}</span>
+                          {change.fields.length > 0 && (
+                            <span style={{ color: 'var(--text-muted)' }}> ({change.fields.join(', ')})</span>
+                          )}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            {/* Revisioni */}
+            <div className="flex-1 overflow-y-auto space-y-1.5">
+              {isLoading && revisions.length === 0 ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 size={18} className="animate-spin" style={{ color: 'var(--text-muted)' }} />
+                </div>
+              ) : revisions.length === 0 ? (
+                <p className="text-xs text-center py-8" style={{ color: 'var(--text-muted)' }}>
+                  No saved versions yet
+                </p>
+              ) : (
+                revisions.map((revision, index) => {
+                  const isSelected = selectedIds.includes(revision.id);
+                  const isCurrent = index === 0;
+
+                  return (
+                    <div
+                      key={revision.id}
+                      onClick={() => toggleSelected(revision.id)}
+                      className="p-2.5 rounded-lg cursor-pointer transition-colors"
+                      style={{
+                        background: isSelected ? 'var(--accent-primary-alpha)' : 'var(--bg-secondary)',
+                        border: `1px solid ${isSelected ? 'var(--accent-primary)' : 'var(--border-subtle)'}`,
+                      }}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-1.5 text-xs" style={{ color: 'var(--text-secondary)' }}>
+                          {revision.author_type === 'ai' ? <Bot size={12} /> : <User size={12} />}
+                          <span className="font-medium">{revision.author_type === 'ai' ? 'AI' : 'You'}</span>
+                          {revision.chat_id && (
+                            <span title={`Chat ${revision.chat_id}`}>
+                              <MessageSquare size={11} style={{ color: 'var(--text-muted)' }} />
+                            </span>
+                          )}
+                          <span style={{ color: 'var(--text-muted)', fontSize: '10px' }}>
+                            {formatDate(revision.created_at)}
+                          </span>
+                        </div>
+
+                        {isCurrent ? (
+                          <span className="text-xs" style={{ color: 'var(--text-muted)', fontSize: '10px' }}>
+                            Current
+                          </span>
+                        ) : (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (confirmRestoreId === revision.id) {
+                                handleRestore(revision.id);
+                              } else {
+                                setConfirmRestoreId(revision.id);
+                              }
+                            }}
+                            disabled={restoringId !== null}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors"
+                            style={{
+                              background: confirmRestoreId === revision.id ? 'var(--accent-primary)' : 'var(--bg-tertiary)',
+                              color: confirmRestoreId === revision.id ? 'white' : 'var(--text-secondary)',
+                            }}
+                            title="Restore this version"
+                          >
+                            {restoringId === revision.id
+                              ? <Loader2 size={12} className="animate-spin" />
+                              : <RotateCcw size={12} />}
+                            {confirmRestoreId === revision.id ? 'Confirm' : 'Restore'}
+                          </button>
+                        )}
+                      </div>
+                      <p className="mt-1 text-xs break-words" style={{ color: 'var(--text-primary)' }}>
+                        {revision.summary}
+                      </p>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
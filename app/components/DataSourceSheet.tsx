@@ -48,6 +48,13 @@ export interface DataSource {
   replicaSet?: string;
   tls?: boolean;
   
+  // Query settings (server-side)
+  maxConnections?: number;
+  statementTimeout?: number; // ms
+  allowWrites?: boolean;
+  maxRows?: number;
+  maxBytes?: number;
+  
   // Documentation files
   documentation?: Documentation[];
 }
@@ -366,6 +373,36 @@ export default function DataSourceSheet({ dataSource, onClose, onDelete, onTestC
             </div>
           </div>
 
+          {/* Query Settings */}
+          <div className="mb-6">
+            <h3 
+              className="text-sm font-medium mb-3"
+              style={{ color: 'var(--text-primary)' }}
+            >
+              query settings
+            </h3>
+            <div 
+              className="rounded-xl overflow-hidden"
+              style={{ 
+                background: 'var(--bg-secondary)',
+                border: '1px solid var(--border-subtle)'
+              }}
+            >
+              {dataSource.type !== 'sqlite' && (
+                <>
+                  <DetailRow label="max connections" value={(dataSource.maxConnections || 5).toString()} />
+                  <DetailRow
+                    label="query timeout"
+                    value={dataSource.statementTimeout === 0 ? 'none' : `${(dataSource.statementTimeout ?? 60000) / 1000}s`}
+                  />
+                </>
+              )}
+              <DetailRow label="max rows per query" value={(dataSource.maxRows || 10000).toLocaleString()} />
+              <DetailRow label="max result size" value={`${Math.round((dataSource.maxBytes || 10 * 1024 * 1024) / (1024 * 1024))} MB`} />
+              <DetailRow label="write access" value={dataSource.allowWrites ? 'enabled' : 'read-only'} isLast />
+            </div>
+          </div>
+
           {/* Connection String Preview */}
           <div className="mb-6">
             <h3 
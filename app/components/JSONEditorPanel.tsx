@@ -8,6 +8,7 @@ interface Dashboard {
   name: string;
   description?: string;
   widgets: any[];
+  filters?: unknown[];
   created_at: string;
   updated_at: string;
 }
@@ -134,11 +135,13 @@ export default function JSONEditorPanel({
           description: parsedJson.description,
           widgets: parsedJson.widgets,
           layout_config: parsedJson.layout_config,
+          filters: parsedJson.filters,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to save dashboard');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save dashboard');
       }
 
       const formatted = JSON.stringify(parsedJson, null, 2);
@@ -151,7 +154,7 @@ export default function JSONEditorPanel({
       onSave();
     } catch (error) {
       console.error('Error saving dashboard:', error);
-      setValidationError('Failed to save dashboard');
+      setValidationError(error instanceof Error ? error.message : 'Failed to save dashboard');
     } finally {
       setIsSaving(false);
     }
@@ -0,0 +1,72 @@
+'use client';
+
+import { Timer, Pause, AlertCircle } from 'lucide-react';
+import { REFRESH_INTERVALS, formatRefreshInterval } from '../lib/auto-refresh';
+
+interface RefreshIntervalPickerProps {
+  value: number; // Intervallo della dashboard in secondi (0 = off)
+  onChange?: (seconds: number) => void; // Se assente è solo un indicatore (dashboard condivise)
+  isActive: boolean; // Almeno un widget si aggiorna da solo (anche con intervallo del widget)
+  isPaused?: boolean; // Scheda nascosta
+  failingCount?: number; // Widget in backoff dopo errori
+}
+
+/**
+ * Intervallo di aggiornamento automatico nell'header della dashboard, con lo stato dello scheduler
+ */
+export default function RefreshIntervalPicker({
+  value,
+  onChange,
+  isActive,
+  isPaused = false,
+  failingCount = 0,
+}: RefreshIntervalPickerProps) {
+  if (!onChange && !isActive) return null;
+
+  const status = !isActive
+    ? 'Auto-refresh off'
+    : isPaused
+      ? 'Auto-refresh paused while the tab is hidden'
+      : failingCount > 0
+        ? `Auto-refresh on, retrying ${failingCount} widget(s) with a longer interval after errors`
+        : value > 0 ? `Auto-refresh every ${formatRefreshInterval(value)}` : 'Auto-refresh on for some widgets';
+
+  const color = failingCount > 0 ? '#f59e0b' : isActive ? 'var(--accent-primary)' : 'var(--text-tertiary)';
+  const Icon = isPaused ? Pause : failingCount > 0 ? AlertCircle : Timer;
+
+  // Valori proposti, più quello salvato se non è tra questi (es. impostato dal JSON editor)
+  const options = [...new Set([...Object.keys(REFRESH_INTERVALS).map(Number), value])].sort((a, b) => a - b);
+
+  return (
+    <div
+      className="flex items-center gap-1 pl-1.5 pr-1 py-1 rounded-lg text-xs"
+      style={{
+        background: 'var(--bg-tertiary)',
+        border: '1px solid var(--border-subtle)',
+        color,
+      }}
+      title={status}
+    >
+      <Icon size={14} />
+      {onChange ? (
+        <select
+          value={value}
+          onChange={(e) => onChange(Number(e.target.value))}
+          className="bg-transparent outline-none text-xs cursor-pointer"
+          style={{ color: 'var(--text-secondary)' }}
+          aria-label="Auto-refresh interval"
+        >
+          {options.map(seconds => (
+            <option key={seconds} value={seconds}>
+              {formatRefreshInterval(seconds)}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <span style={{ color: 'var(--text-secondary)' }}>
+          {value > 0 ? formatRefreshInterval(value) : 'Live'}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Copy, Check, Share2, Loader2 } from 'lucide-react';
+import { X, Copy, Check, Share2, Loader2, Plus, Lock, Trash2, Ban, Filter, Camera, BarChart3, RefreshCw } from 'lucide-react';
+import type { ShareLinkStatus, ShareLinkSummary } from '../lib/share-links';
+import type { DashboardSnapshotSummary } from '../lib/dashboard-snapshots';
+import type { ShareViewSummary } from '../lib/share-analytics';
+import { RESTRICTION_OPERATORS, type RestrictionOperator, type RestrictionValue } from '../lib/connectors/restrictions';
 
 interface ShareDashboardModalProps {
   isOpen: boolean;
@@ -10,6 +14,111 @@ interface ShareDashboardModalProps {
   dashboardName: string;
 }
 
+const STATUS_STYLE: Record<ShareLinkStatus, { label: string; color: string }> = {
+  active: { label: 'Active', color: '#22c55e' },
+  revoked: { label: 'Revoked', color: '#ef4444' },
+  expired: { label: 'Expired', color: '#f59e0b' },
+  exhausted: { label: 'Limit reached', color: '#f59e0b' },
+};
+
+// Link predefinito (dashboards.sharing_uid): nessuna regola, revocabile e rigenerabile.
+// Disattivato dal server finché esistono link con restrizioni non revocati
+const DEFAULT_LINK_ID = 'default';
+
+const DISABLED_STYLE = { label: 'Disabled', color: '#f59e0b' };
+
+// Scoping dei dati del link: restrizione su una colonna del risultato o parametro bloccato delle query
+interface ScopeDraft {
+  kind: 'column' | 'parameter';
+  name: string;
+  operator: RestrictionOperator;
+  value: string;
+}
+
+interface LinkDraft {
+  name: string;
+  password: string;
+  expiresAt: string;
+  maxAccesses: string;
+  scope: ScopeDraft[];
+}
+
+const EMPTY_DRAFT: LinkDraft = { name: '', password: '', expiresAt: '', maxAccesses: '', scope: [] };
+
+const EMPTY_SCOPE: ScopeDraft = { kind: 'column', name: '', operator: '=', value: '' };
+
+// Valore scritto dall'utente: numeri e true/false tipizzati, testo tra apici sempre testo
+function parseScopeValue(text: string): RestrictionValue {
+  const value = text.trim();
+  const quoted = value.match(/^(['"])([\s\S]*)\1$/);
+  if (quoted) return quoted[2];
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+// Liste separate da virgole (le virgole tra apici fanno parte del valore)
+function parseScopeList(text: string): RestrictionValue[] {
+  return (text.match(/'[^']*'|"[^"]*"|[^,]+/g) || [])
+    .map(item => item.trim())
+    .filter(item => item !== '')
+    .map(parseScopeValue);
+}
+
+function formatScopeValue(value: unknown): string {
+  if (Array.isArray(value)) return `(${value.map(formatScopeValue).join(', ')})`;
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+// Parametri bloccati e restrizioni di riga per il body della richiesta
+function scopeBody(scope: ScopeDraft[]) {
+  const rows = scope.filter(row => row.name.trim() !== '');
+  return {
+    locked_params: Object.fromEntries(rows
+      .filter(row => row.kind === 'parameter')
+      .map(row => {
+        const values = parseScopeList(row.value);
+        return [row.name.trim(), values.length > 1 ? values : parseScopeValue(row.value)];
+      })),
+    row_restrictions: rows
+      .filter(row => row.kind === 'column')
+      .map(row => ({
+        column: row.name.trim(),
+        operator: row.operator,
+        value: row.operator === 'in' || row.operator === 'not in' ? parseScopeList(row.value) : parseScopeValue(row.value),
+      })),
+  };
+}
+
+function formatLinkScope(link: ShareLinkSummary): string[] {
+  return [
+    ...(link.row_restrictions || []).map(r => `${r.column} ${r.operator} ${formatScopeValue(r.value)}`),
+    ...Object.entries(link.locked_params || {}).map(([name, value]) => `${name} = ${formatScopeValue(value)}`),
+  ];
+}
+
+// Statistiche dei viewer (GET /api/dashboards/[id]/share/analytics)
+interface ShareAnalytics {
+  settings: { enabled: boolean; retention_days: number };
+  days: number;
+  truncated: boolean; // Troppi eventi: contati solo quelli da counted_since in poi
+  counted_since: string | null;
+  sources: Record<string, ShareViewSummary>; // id del link, "default" o "snapshot:<id>"
+  widgets: Record<string, string>; // Titoli dei widget
+}
+
+const RETENTION_OPTIONS = [30, 90, 180, 365];
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('it-IT', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
 export default function ShareDashboardModal({
   isOpen,
   onClose,
@@ -18,8 +127,22 @@ export default function ShareDashboardModal({
 }: ShareDashboardModalProps) {
   const [isShared, setIsShared] = useState(false);
   const [sharingUid, setSharingUid] = useState<string | null>(null);
+  const [defaultLinkDisabled, setDefaultLinkDisabled] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [isCopied, setIsCopied] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [filtersExposed, setFiltersExposed] = useState(false); // I viewer possono cambiare i filtri della dashboard
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [draft, setDraft] = useState<LinkDraft | null>(null); // Form del nuovo link
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null);
+  const [busyLinkId, setBusyLinkId] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<DashboardSnapshotSummary[]>([]);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<ShareAnalytics | null>(null);
+  const [statsOpenId, setStatsOpenId] = useState<string | null>(null); // Link con le statistiche aperte
 
   // Carica lo stato di condivisione corrente
   useEffect(() => {
@@ -29,15 +152,47 @@ export default function ShareDashboardModal({
   }, [isOpen, dashboardId]);
 
   const fetchSharingStatus = async () => {
+    try {
+      const [statusResponse, linksResponse, snapshotsResponse, analyticsResponse] = await Promise.all([
+        fetch(`/api/dashboards/${dashboardId}/share`),
+        fetch(`/api/dashboards/${dashboardId}/share/links`),
+        fetch(`/api/dashboards/${dashboardId}/snapshots`),
+        fetch(`/api/dashboards/${dashboardId}/share/analytics`),
+      ]);
+      if (statusResponse.ok) {
+        const data = await statusResponse.json();
+        setIsShared(data.is_shared);
+        setSharingUid(data.sharing_uid);
+        setFiltersExposed(data.filters_exposed);
+        setDefaultLinkDisabled(data.default_link_disabled);
+      }
+      if (linksResponse.ok) {
+        const data = await linksResponse.json();
+        setLinks(data.links || []);
+      }
+      if (snapshotsResponse.ok) {
+        const data = await snapshotsResponse.json();
+        setSnapshots(data.snapshots || []);
+      }
+      if (analyticsResponse.ok) {
+        setAnalytics(await analyticsResponse.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch sharing status:', error);
+    }
+  };
+
+  // Link predefinito: creare o revocare un link con restrizioni lo disattiva o lo riattiva
+  const reloadDefaultLink = async () => {
     try {
       const response = await fetch(`/api/dashboards/${dashboardId}/share`);
       if (response.ok) {
         const data = await response.json();
-        setIsShared(data.is_shared);
         setSharingUid(data.sharing_uid);
+        setDefaultLinkDisabled(data.default_link_disabled);
       }
     } catch (error) {
-      console.error('Failed to fetch sharing status:', error);
+      console.error('Failed to fetch default link:', error);
     }
   };
 
@@ -62,21 +217,392 @@ export default function ShareDashboardModal({
     }
   };
 
-  const getShareLink = () => {
-    if (!sharingUid) return '';
-    return `${window.location.origin}/dashare/${sharingUid}`;
+  const toggleFiltersExposed = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_shared: isShared, filters_exposed: !filtersExposed }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setFiltersExposed(data.filters_exposed);
+      }
+    } catch (error) {
+      console.error('Failed to update filter sharing:', error);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const copyToClipboard = async () => {
+  const getShareLink = (token: string) => `${window.location.origin}/dashare/${token}`;
+
+  const copyToClipboard = async (copyId: string, value: string, asLink = true) => {
     try {
-      await navigator.clipboard.writeText(getShareLink());
-      setIsCopied(true);
-      setTimeout(() => setIsCopied(false), 2000);
+      await navigator.clipboard.writeText(asLink ? getShareLink(value) : value);
+      setCopiedId(copyId);
+      setTimeout(() => setCopiedId(null), 2000);
     } catch (error) {
       console.error('Failed to copy:', error);
     }
   };
 
+  const createLink = async () => {
+    if (!draft) return;
+    setIsCreating(true);
+    setDraftError(null);
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/share/links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          password: draft.password || null,
+          // Il link vale fino alla fine del giorno scelto
+          expires_at: draft.expiresAt ? new Date(`${draft.expiresAt}T23:59:59`).toISOString() : null,
+          max_accesses: draft.maxAccesses ? Number(draft.maxAccesses) : null,
+          ...scopeBody(draft.scope),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setDraftError(data.error || 'Failed to create link');
+        return;
+      }
+      setLinks(prev => [...prev, data.link]);
+      setDraft(null);
+      reloadDefaultLink();
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      setDraftError('Failed to create link');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Revoca: i link con nome restano in elenco con le statistiche, il link predefinito sparisce
+  const revokeLink = async (linkId: string) => {
+    setBusyLinkId(linkId);
+    try {
+      if (linkId === DEFAULT_LINK_ID) {
+        const response = await fetch(`/api/dashboards/${dashboardId}/share`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ is_shared: isShared, revoke_default_link: true }),
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setSharingUid(data.sharing_uid);
+        }
+      } else {
+        const response = await fetch(`/api/dashboards/${dashboardId}/share/links/${linkId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ revoked: true }),
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setLinks(prev => prev.map(link => link.id === linkId ? data.link : link));
+          reloadDefaultLink();
+        }
+      }
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+    } finally {
+      setBusyLinkId(null);
+      setConfirmRevokeId(null);
+    }
+  };
+
+  // Nuovo link predefinito dopo una revoca (token diverso)
+  const regenerateDefaultLink = async () => {
+    setBusyLinkId(DEFAULT_LINK_ID);
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_shared: isShared, regenerate_default_link: true }),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setSharingUid(data.sharing_uid);
+        setDefaultLinkDisabled(data.default_link_disabled);
+      }
+    } catch (error) {
+      console.error('Failed to regenerate default link:', error);
+    } finally {
+      setBusyLinkId(null);
+    }
+  };
+
+  const deleteLink = async (linkId: string) => {
+    setBusyLinkId(linkId);
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/share/links/${linkId}`, { method: 'DELETE' });
+      if (response.ok) {
+        setLinks(prev => prev.filter(link => link.id !== linkId));
+      }
+    } catch (error) {
+      console.error('Failed to delete share link:', error);
+    } finally {
+      setBusyLinkId(null);
+    }
+  };
+
+  // Snapshot: il server esegue ora tutti i widget e salva i dati (può richiedere qualche secondo)
+  const captureSnapshot = async () => {
+    setIsCapturing(true);
+    setSnapshotError(null);
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/snapshots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: snapshotName.trim() || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setSnapshotError(data.error || 'Failed to capture snapshot');
+        return;
+      }
+      setSnapshots(prev => [data.snapshot, ...prev]);
+      setSnapshotName('');
+    } catch (error) {
+      console.error('Failed to capture snapshot:', error);
+      setSnapshotError('Failed to capture snapshot');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const deleteSnapshot = async (snapshotId: string) => {
+    setBusyLinkId(snapshotId);
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/snapshots/${snapshotId}`, { method: 'DELETE' });
+      if (response.ok) {
+        setSnapshots(prev => prev.filter(snapshot => snapshot.id !== snapshotId));
+      }
+    } catch (error) {
+      console.error('Failed to delete snapshot:', error);
+    } finally {
+      setBusyLinkId(null);
+    }
+  };
+
+  const updateAnalyticsSettings = async (settings: Partial<ShareAnalytics['settings']>) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/share/analytics`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setAnalytics(prev => prev ? { ...prev, settings: data.settings } : prev);
+      }
+    } catch (error) {
+      console.error('Failed to update analytics settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const clearAnalytics = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/dashboards/${dashboardId}/share/analytics`, { method: 'DELETE' });
+      if (response.ok) {
+        setAnalytics(prev => prev ? { ...prev, sources: {} } : prev);
+      }
+    } catch (error) {
+      console.error('Failed to clear analytics:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderStatsButton = (statsKey: string) => (
+    <button
+      onClick={() => setStatsOpenId(statsOpenId === statsKey ? null : statsKey)}
+      className="p-1 rounded transition-colors"
+      style={{
+        background: 'var(--bg-tertiary)',
+        color: statsOpenId === statsKey ? 'var(--accent-primary)' : 'var(--text-muted)'
+      }}
+      title="Viewer analytics"
+    >
+      <BarChart3 size={14} />
+    </button>
+  );
+
+  // Aperture nel tempo, visitatori unici, ultimo accesso, widget e referrer più frequenti
+  const renderStats = (statsKey: string) => {
+    if (statsOpenId !== statsKey || !analytics) return null;
+
+    // Troppi eventi nel periodo: i numeri non coprono tutti i giorni
+    const truncatedNotice = analytics.truncated && (
+      <p className="text-xs px-2 py-1 rounded" style={{ background: 'rgba(251, 191, 36, 0.1)', color: '#fbbf24' }}>
+        Too many events to count them all: figures only cover the period
+        {analytics.counted_since ? ` since ${formatDate(analytics.counted_since)}` : ' shown'}, not the last {analytics.days} days.
+      </p>
+    );
+
+    const stats = analytics.sources[statsKey];
+    if (!stats) {
+      return (
+        <div className="mt-2 flex flex-col gap-2">
+          {truncatedNotice}
+          <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+            No views in the last {analytics.days} days
+          </p>
+        </div>
+      );
+    }
+
+    const maxViews = Math.max(1, ...stats.daily.map(day => day.views));
+
+    return (
+      <div className="mt-2 pt-2 border-t flex flex-col gap-2" style={{ borderColor: 'var(--border-subtle)' }}>
+        {truncatedNotice}
+        <p className="text-xs" style={{ color: 'var(--text-secondary)' }}>
+          {stats.views} {stats.views === 1 ? 'view' : 'views'} · {stats.unique_visitors} unique {stats.unique_visitors === 1 ? 'visitor' : 'visitors'}
+          {' · '}{stats.widget_loads} widget loads · {stats.widget_refreshes} refreshes
+          {stats.last_access && ` · last access ${formatDate(stats.last_access)}`}
+        </p>
+        <div className="flex items-end gap-px h-10" title={`Views per day, last ${analytics.days} days`}>
+          {stats.daily.map(day => (
+            <div
+              key={day.date}
+              className="flex-1 rounded-sm"
+              style={{
+                height: `${Math.max(day.views / maxViews * 100, 4)}%`,
+                background: day.views > 0 ? 'var(--accent-primary)' : 'var(--bg-tertiary)'
+              }}
+              title={`${day.date}: ${day.views} views, ${day.unique_visitors} unique`}
+            />
+          ))}
+        </div>
+        {stats.top_widgets.length > 0 && (
+          <p className="text-xs truncate" style={{ color: 'var(--text-muted)' }}>
+            Widgets: {stats.top_widgets.map(w => `${analytics.widgets[w.widget_id] || w.widget_id} (${w.count})`).join(', ')}
+          </p>
+        )}
+        {stats.top_referrers.length > 0 && (
+          <p className="text-xs truncate" style={{ color: 'var(--text-muted)' }}>
+            Referrers: {stats.top_referrers.map(r => `${r.referrer} (${r.count})`).join(', ')}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderLinkRow = (link: {
+    id: string;
+    name: string;
+    token: string;
+    status: ShareLinkStatus;
+    hasPassword?: boolean;
+    details: string[];
+    scope?: string[];
+    statsKey: string;
+    disabled?: boolean; // Link predefinito disattivato dai link con restrizioni
+  }) => {
+    const statusStyle = link.disabled ? DISABLED_STYLE : STATUS_STYLE[link.status];
+    const isActive = link.status === 'active' && !link.disabled;
+    // Il link predefinito non resta in elenco: si revoca anche da disattivato
+    const canRevoke = isActive || link.id === DEFAULT_LINK_ID;
+    const isBusy = busyLinkId === link.id;
+
+    return (
+      <div 
+        key={link.id}
+        className="p-2 rounded-lg"
+        style={{ 
+          background: 'var(--bg-secondary)',
+          border: '1px solid var(--border-subtle)',
+          opacity: isActive ? 1 : 0.7
+        }}
+      >
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+            {link.name}
+          </span>
+          {link.hasPassword && (
+            <span title="Password protected">
+              <Lock size={12} style={{ color: 'var(--text-muted)' }} />
+            </span>
+          )}
+          <span className="text-xs" style={{ color: statusStyle.color, fontSize: '10px' }}>
+            {statusStyle.label}
+          </span>
+          <div className="flex-1" />
+          {renderStatsButton(link.statsKey)}
+          {isActive && (
+            <button
+              onClick={() => copyToClipboard(link.id, link.token)}
+              className="p-1 rounded transition-colors"
+              style={{
+                background: copiedId === link.id ? 'rgba(34, 197, 94, 0.1)' : 'var(--bg-tertiary)',
+                color: copiedId === link.id ? '#22c55e' : 'var(--text-muted)'
+              }}
+              title="Copy link"
+            >
+              {copiedId === link.id ? <Check size={14} /> : <Copy size={14} />}
+            </button>
+          )}
+          {canRevoke ? (
+            <button
+              onClick={() => confirmRevokeId === link.id ? revokeLink(link.id) : setConfirmRevokeId(link.id)}
+              disabled={isBusy}
+              className="flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors"
+              style={{
+                background: confirmRevokeId === link.id ? '#ef4444' : 'var(--bg-tertiary)',
+                color: confirmRevokeId === link.id ? 'white' : 'var(--text-secondary)',
+              }}
+              title="Revoke this link"
+            >
+              {isBusy ? <Loader2 size={12} className="animate-spin" /> : <Ban size={12} />}
+              {confirmRevokeId === link.id ? 'Confirm' : 'Revoke'}
+            </button>
+          ) : (
+            <button
+              onClick={() => deleteLink(link.id)}
+              disabled={isBusy}
+              className="p-1 rounded transition-colors"
+              style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)' }}
+              title="Delete link"
+            >
+              {isBusy ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+            </button>
+          )}
+        </div>
+        {isActive && (
+          <input
+            type="text"
+            value={getShareLink(link.token)}
+            readOnly
+            className="w-full mt-1 bg-transparent text-xs outline-none"
+            style={{ color: 'var(--text-secondary)' }}
+          />
+        )}
+        <p className="mt-1 text-xs" style={{ color: 'var(--text-muted)' }}>
+          {link.details.join(' · ')}
+        </p>
+        {link.scope && link.scope.length > 0 && (
+          <p className="mt-1 flex items-center gap-1 text-xs" style={{ color: 'var(--text-secondary)' }}>
+            <Filter size={10} />
+            {link.scope.join(' AND ')}
+          </p>
+        )}
+        {renderStats(link.statsKey)}
+      </div>
+    );
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -89,7 +615,7 @@ export default function ShareDashboardModal({
       
       {/* Modal */}
       <div 
-        className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50 w-[480px] rounded-lg p-6"
+        className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50 w-[560px] max-h-[85vh] overflow-y-auto rounded-lg p-6"
         style={{ 
           background: 'var(--bg-primary)',
           border: '1px solid var(--border-default)',
@@ -154,7 +680,7 @@ export default function ShareDashboardModal({
               className="text-xs"
               style={{ color: 'var(--text-muted)' }}
             >
-              Anyone with the link can view this dashboard
+              Anyone with an active link can view this dashboard
             </p>
           </div>
           <button
@@ -183,50 +709,408 @@ export default function ShareDashboardModal({
           </button>
         </div>
 
-        {/* Share Link */}
-        {isShared && sharingUid && (
+        {/* Link di condivisione: predefinito e link con nome (password, scadenza, limite di aperture) */}
+        {isShared && (
           <div>
+            <div className="flex items-center justify-between mb-2">
+              <label 
+                className="text-xs font-medium"
+                style={{ color: 'var(--text-secondary)' }}
+              >
+                Share links
+              </label>
+              {!draft && (
+                <button
+                  onClick={() => { setDraft(EMPTY_DRAFT); setDraftError(null); }}
+                  className="flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors"
+                  style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}
+                >
+                  <Plus size={12} />
+                  New link
+                </button>
+              )}
+            </div>
+
+            {/* Nuovo link */}
+            {draft && (
+              <div 
+                className="p-3 rounded-lg mb-2 flex flex-col gap-2"
+                style={{ 
+                  background: 'var(--bg-secondary)',
+                  border: '1px solid var(--border-subtle)'
+                }}
+              >
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Link name (e.g. Board meeting)"
+                  autoFocus
+                  className="px-2 py-1.5 rounded text-sm outline-none"
+                  style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                />
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    type="password"
+                    value={draft.password}
+                    onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+                    placeholder="Password (optional)"
+                    autoComplete="new-password"
+                    className="px-2 py-1.5 rounded text-xs outline-none"
+                    style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                  />
+                  <input
+                    type="date"
+                    value={draft.expiresAt}
+                    onChange={(e) => setDraft({ ...draft, expiresAt: e.target.value })}
+                    title="Expires on (optional)"
+                    className="px-2 py-1.5 rounded text-xs outline-none"
+                    style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={draft.maxAccesses}
+                    onChange={(e) => setDraft({ ...draft, maxAccesses: e.target.value })}
+                    placeholder="Max opens"
+                    className="px-2 py-1.5 rounded text-xs outline-none"
+                    style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                  />
+                </div>
+
+                {/* Scoping dei dati: applicato lato server a ogni query dei widget */}
+                {draft.scope.map((row, index) => {
+                  const updateRow = (changes: Partial<ScopeDraft>) => setDraft({
+                    ...draft,
+                    scope: draft.scope.map((r, i) => i === index ? { ...r, ...changes } : r),
+                  });
+                  const isList = row.operator === 'in' || row.operator === 'not in';
+
+                  return (
+                    <div key={index} className="flex items-center gap-2">
+                      <select
+                        value={row.kind}
+                        onChange={(e) => updateRow({ kind: e.target.value as ScopeDraft['kind'], operator: '=' })}
+                        title="Column: filters the rows returned by each widget query. Parameter: locks a query parameter"
+                        className="px-1 py-1.5 rounded text-xs outline-none"
+                        style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                      >
+                        <option value="column">Column</option>
+                        <option value="parameter">Parameter</option>
+                      </select>
+                      <input
+                        type="text"
+                        value={row.name}
+                        onChange={(e) => updateRow({ name: e.target.value })}
+                        placeholder={row.kind === 'column' ? 'region' : 'customer_id'}
+                        className="flex-1 min-w-0 px-2 py-1.5 rounded text-xs outline-none"
+                        style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                      />
+                      {row.kind === 'column' ? (
+                        <select
+                          value={row.operator}
+                          onChange={(e) => updateRow({ operator: e.target.value as RestrictionOperator })}
+                          className="px-1 py-1.5 rounded text-xs outline-none"
+                          style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                        >
+                          {RESTRICTION_OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+                        </select>
+                      ) : (
+                        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>=</span>
+                      )}
+                      <input
+                        type="text"
+                        value={row.value}
+                        onChange={(e) => updateRow({ value: e.target.value })}
+                        placeholder={isList ? 'North, South' : 'North'}
+                        className="flex-1 min-w-0 px-2 py-1.5 rounded text-xs outline-none"
+                        style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                      />
+                      <button
+                        onClick={() => setDraft({ ...draft, scope: draft.scope.filter((_, i) => i !== index) })}
+                        className="p-1 rounded"
+                        style={{ color: 'var(--text-muted)' }}
+                        title="Remove restriction"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() => setDraft({ ...draft, scope: [...draft.scope, EMPTY_SCOPE] })}
+                  className="self-start flex items-center gap-1 text-xs"
+                  style={{ color: 'var(--text-secondary)' }}
+                  title="Viewers of this link only see the matching rows; their filters stay on the defaults"
+                >
+                  <Filter size={12} />
+                  Restrict data
+                </button>
+                {draftError && (
+                  <p className="text-xs" style={{ color: '#ef4444' }}>{draftError}</p>
+                )}
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="px-2 py-1 rounded text-xs"
+                    style={{ color: 'var(--text-muted)' }}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={createLink}
+                    disabled={isCreating || !draft.name.trim()}
+                    className="flex items-center gap-1 px-3 py-1 rounded text-xs disabled:opacity-50"
+                    style={{ background: 'var(--accent-primary)', color: 'white' }}
+                  >
+                    {isCreating && <Loader2 size={12} className="animate-spin" />}
+                    Create link
+                  </button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-2">
+              {sharingUid && renderLinkRow({
+                id: DEFAULT_LINK_ID,
+                name: 'Default link',
+                token: sharingUid,
+                status: 'active',
+                details: [defaultLinkDisabled ? 'Disabled while links with data restrictions are active' : 'No restrictions'],
+                statsKey: DEFAULT_LINK_ID,
+                disabled: defaultLinkDisabled,
+              })}
+              {links.map(link => renderLinkRow({
+                id: link.id,
+                name: link.name,
+                token: link.token,
+                status: link.status,
+                hasPassword: link.has_password,
+                details: [
+                  link.max_accesses !== null
+                    ? `${link.access_count} / ${link.max_accesses} opens`
+                    : `${link.access_count} ${link.access_count === 1 ? 'open' : 'opens'}`,
+                  link.last_accessed_at ? `last ${formatDate(link.last_accessed_at)}` : 'never opened',
+                  ...(link.expires_at ? [`${link.status === 'expired' ? 'expired' : 'expires'} ${formatDate(link.expires_at)}`] : []),
+                ],
+                scope: formatLinkScope(link),
+                statsKey: link.id,
+              }))}
+              {!sharingUid && links.length === 0 && !draft && (
+                <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                  No share links yet
+                </p>
+              )}
+              {!sharingUid && !defaultLinkDisabled && (
+                <button
+                  onClick={regenerateDefaultLink}
+                  disabled={busyLinkId === DEFAULT_LINK_ID}
+                  className="self-start flex items-center gap-1 text-xs disabled:opacity-50"
+                  style={{ color: 'var(--text-secondary)' }}
+                  title="Create a new default link without restrictions (the revoked one stays revoked)"
+                >
+                  {busyLinkId === DEFAULT_LINK_ID ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                  New default link
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Snapshot: dati congelati, il link non interroga mai la data source */}
+        {isShared && (
+          <div className="mt-4">
             <label 
-              className="text-xs font-medium mb-2 block"
+              className="block text-xs font-medium mb-2"
               style={{ color: 'var(--text-secondary)' }}
             >
-              Share link
+              Snapshots
             </label>
-            <div 
-              className="flex items-center gap-2 p-2 rounded-lg"
-              style={{ 
-                background: 'var(--bg-secondary)',
-                border: '1px solid var(--border-subtle)'
-              }}
-            >
+            <div className="flex gap-2 mb-2">
               <input
                 type="text"
-                value={getShareLink()}
-                readOnly
-                className="flex-1 bg-transparent text-sm outline-none"
-                style={{ color: 'var(--text-primary)' }}
+                value={snapshotName}
+                onChange={(e) => setSnapshotName(e.target.value)}
+                placeholder="Snapshot name (e.g. September close)"
+                className="flex-1 min-w-0 px-2 py-1.5 rounded text-xs outline-none"
+                style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-subtle)', color: 'var(--text-primary)' }}
               />
               <button
-                onClick={copyToClipboard}
-                className="p-1.5 rounded transition-colors"
+                onClick={captureSnapshot}
+                disabled={isCapturing}
+                className="flex items-center gap-1 px-2 py-1 rounded text-xs disabled:opacity-50"
+                style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}
+                title="Run every widget now and freeze the results"
+              >
+                {isCapturing ? <Loader2 size={12} className="animate-spin" /> : <Camera size={12} />}
+                Take snapshot
+              </button>
+            </div>
+            {snapshotError && (
+              <p className="text-xs mb-2" style={{ color: '#ef4444' }}>{snapshotError}</p>
+            )}
+            <div className="flex flex-col gap-2">
+              {snapshots.map(snapshot => {
+                const copyId = `snapshot:${snapshot.id}`;
+                return (
+                  <div
+                    key={snapshot.id}
+                    className="p-2 rounded-lg"
+                    style={{ background: 'var(--bg-secondary)', border: '1px solid var(--border-subtle)' }}
+                  >
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate" style={{ color: 'var(--text-primary)' }}>
+                          {snapshot.name}
+                        </p>
+                        <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                          Data as of {formatDate(snapshot.captured_at)}
+                        </p>
+                      </div>
+                      {renderStatsButton(`snapshot:${snapshot.id}`)}
+                      <button
+                        onClick={() => copyToClipboard(copyId, `snapshot/${snapshot.token}`)}
+                        className="p-1 rounded transition-colors"
+                        style={{
+                          background: copiedId === copyId ? 'rgba(34, 197, 94, 0.1)' : 'var(--bg-tertiary)',
+                          color: copiedId === copyId ? '#22c55e' : 'var(--text-muted)'
+                        }}
+                        title="Copy snapshot link"
+                      >
+                        {copiedId === copyId ? <Check size={14} /> : <Copy size={14} />}
+                      </button>
+                      <button
+                        onClick={() => deleteSnapshot(snapshot.id)}
+                        disabled={busyLinkId === snapshot.id}
+                        className="p-1 rounded transition-colors"
+                        style={{ background: 'var(--bg-tertiary)', color: 'var(--text-muted)' }}
+                        title="Delete snapshot (its link stops working)"
+                      >
+                        {busyLinkId === snapshot.id ? <Loader2 size={14} className="animate-spin" /> : <Trash2 size={14} />}
+                      </button>
+                    </div>
+                    {renderStats(`snapshot:${snapshot.id}`)}
+                  </div>
+                );
+              })}
+              {snapshots.length === 0 && (
+                <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                  No snapshots yet
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Filtri della dashboard: modificabili dai viewer o bloccati sui valori di default */}
+        {isShared && (
+          <div 
+            className="flex items-center justify-between p-3 rounded-lg mt-4"
+            style={{ 
+              background: 'var(--bg-secondary)',
+              border: '1px solid var(--border-subtle)'
+            }}
+          >
+            <div>
+              <p 
+                className="text-sm font-medium mb-1"
+                style={{ color: 'var(--text-primary)' }}
+              >
+                Viewers can change filters
+              </p>
+              <p 
+                className="text-xs"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                {filtersExposed
+                  ? 'Viewers can pick their own filter values'
+                  : 'Filters are locked to their default values'}
+              </p>
+            </div>
+            <button
+              onClick={toggleFiltersExposed}
+              disabled={isLoading}
+              className="relative w-11 h-6 rounded-full transition-colors"
+              style={{ 
+                background: filtersExposed ? 'var(--accent-primary)' : 'var(--bg-tertiary)',
+                border: '1px solid var(--border-default)'
+              }}
+            >
+              <div
+                className="absolute top-1 w-4 h-4 rounded-full bg-white transition-transform"
                 style={{
-                  background: isCopied ? 'rgba(34, 197, 94, 0.1)' : 'var(--bg-tertiary)',
-                  color: isCopied ? '#22c55e' : 'var(--text-muted)'
+                  transform: filtersExposed ? 'translateX(22px)' : 'translateX(2px)'
                 }}
-                onMouseEnter={(e) => {
-                  if (!isCopied) {
-                    e.currentTarget.style.background = 'var(--bg-hover)';
-                    e.currentTarget.style.color = 'var(--text-primary)';
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (!isCopied) {
-                    e.currentTarget.style.background = 'var(--bg-tertiary)';
-                    e.currentTarget.style.color = 'var(--text-muted)';
-                  }
+              />
+            </button>
+          </div>
+        )}
+
+        {/* Statistiche dei viewer: raccolta e retention */}
+        {isShared && analytics && (
+          <div 
+            className="p-3 rounded-lg mt-4"
+            style={{ 
+              background: 'var(--bg-secondary)',
+              border: '1px solid var(--border-subtle)'
+            }}
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <p 
+                  className="text-sm font-medium mb-1"
+                  style={{ color: 'var(--text-primary)' }}
+                >
+                  Viewer analytics
+                </p>
+                <p 
+                  className="text-xs"
+                  style={{ color: 'var(--text-muted)' }}
+                >
+                  {analytics.settings.enabled
+                    ? 'Views are recorded with hashed IPs (Do Not Track is respected)'
+                    : 'Views are not recorded'}
+                </p>
+              </div>
+              <button
+                onClick={() => updateAnalyticsSettings({ enabled: !analytics.settings.enabled })}
+                disabled={isLoading}
+                className="relative w-11 h-6 rounded-full transition-colors"
+                style={{ 
+                  background: analytics.settings.enabled ? 'var(--accent-primary)' : 'var(--bg-tertiary)',
+                  border: '1px solid var(--border-default)'
                 }}
               >
-                {isCopied ? <Check size={16} /> : <Copy size={16} />}
+                <div
+                  className="absolute top-1 w-4 h-4 rounded-full bg-white transition-transform"
+                  style={{
+                    transform: analytics.settings.enabled ? 'translateX(22px)' : 'translateX(2px)'
+                  }}
+                />
+              </button>
+            </div>
+            <div className="flex items-center justify-between mt-2 text-xs" style={{ color: 'var(--text-muted)' }}>
+              <label className="flex items-center gap-2">
+                Keep data for
+                <select
+                  value={analytics.settings.retention_days}
+                  onChange={(e) => updateAnalyticsSettings({ retention_days: Number(e.target.value) })}
+                  disabled={isLoading}
+                  className="px-1 py-0.5 rounded text-xs outline-none"
+                  style={{ background: 'var(--bg-tertiary)', color: 'var(--text-primary)' }}
+                >
+                  {Array.from(new Set([...RETENTION_OPTIONS, analytics.settings.retention_days]))
+                    .sort((a, b) => a - b)
+                    .map(days => <option key={days} value={days}>{days} days</option>)}
+                </select>
+              </label>
+              <button
+                onClick={clearAnalytics}
+                disabled={isLoading || Object.keys(analytics.sources).length === 0}
+                className="px-2 py-0.5 rounded text-xs disabled:opacity-50"
+                style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}
+              >
+                Clear data
               </button>
             </div>
           </div>
@@ -242,9 +1126,28 @@ export default function ShareDashboardModal({
               color: '#eab308'
             }}
           >
-            Enable public sharing to generate a shareable link
+            Enable public sharing to create share links
           </div>
         )}
+
+        {/* Embed: il token firmato non dipende dalla condivisione pubblica */}
+        <div 
+          className="flex items-center justify-between gap-2 mt-4 pt-4 text-xs"
+          style={{ borderTop: '1px solid var(--border-subtle)', color: 'var(--text-muted)' }}
+        >
+          <span>
+            Embed with a signed token (Settings → embedding). Dashboard id:
+          </span>
+          <button
+            onClick={() => copyToClipboard('dashboard-id', dashboardId, false)}
+            className="flex items-center gap-1 px-2 py-0.5 rounded font-mono"
+            style={{ background: 'var(--bg-tertiary)', color: copiedId === 'dashboard-id' ? '#22c55e' : 'var(--text-secondary)' }}
+            title="Copy dashboard id"
+          >
+            {dashboardId.slice(0, 8)}…
+            {copiedId === 'dashboard-id' ? <Check size={12} /> : <Copy size={12} />}
+          </button>
+        </div>
       </div>
     </>
   );
@@ -0,0 +1,793 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { ArrowRight, Loader2, AlertCircle, Maximize2, Minimize2, Lock, Camera } from 'lucide-react';
+import ChartWidget from './widgets/ChartWidget';
+import TableWidget from './widgets/TableWidget';
+import MarkdownWidget from './widgets/MarkdownWidget';
+import QueryWidget from './widgets/QueryWidget';
+import KpiWidget from './widgets/KpiWidget';
+import PivotWidget from './widgets/PivotWidget';
+import DashboardFilterBar from './DashboardFilterBar';
+import DashboardGrid from './DashboardGrid';
+import RefreshIntervalPicker from './RefreshIntervalPicker';
+import type { ColumnMetadata } from '../lib/connectors/types';
+import {
+  defaultFilterValues,
+  optionsFromRows,
+  type DashboardFilter,
+  type DashboardFilterValues,
+  type FilterOption,
+} from '../lib/dashboard-filters';
+import { drillWidget, type DrillLevel } from '../lib/drill-down';
+import { resolveLayouts, type WidgetLayout } from '../lib/dashboard-layout';
+import { refreshIntervalFor } from '../lib/auto-refresh';
+import { useAutoRefresh } from '../lib/useAutoRefresh';
+import { useLiveMode } from '../lib/useLiveMode';
+import { kpiFromRows, type KpiData, type KpiTemplate } from '../lib/kpi';
+import type { PivotConfig, PivotData } from '../lib/pivot';
+import type { WidgetFormatting } from '../lib/formatting';
+import { hydrateTemplate } from '../lib/widget-template';
+
+interface Widget {
+  id: string;
+  type: 'chart' | 'table' | 'markdown' | 'query' | 'kpi' | 'pivot';
+  title: string;
+  position: number;
+  layout?: WidgetLayout;
+  created_at?: string;
+  updated_at?: string;
+  
+  // Dynamic widget fields
+  isDynamic?: boolean;
+  dataSource?: {
+    datasourceId: string;
+    query: string;
+  };
+  template?: {
+    chartType?: string;
+    plotlyConfig?: {
+      data: Plotly.Data[];
+      layout?: Partial<Plotly.Layout>;
+    };
+    columns?: string[];
+    rows?: unknown[][];
+    content?: string;
+    pageSize?: number;
+    formatting?: WidgetFormatting;
+    kpi?: KpiTemplate;
+    pivot?: PivotConfig;
+  };
+  cacheTtl?: number;
+  refreshInterval?: number;
+  drillDown?: DrillLevel[];
+  lastFetched?: string;
+  cacheStatus?: 'hit' | 'stale' | 'miss';
+  resultColumns?: ColumnMetadata[];
+  fetchError?: string;
+  page?: {
+    offset: number;
+    pageSize?: number;
+    truncated: boolean;
+    totalRowsEstimate: number;
+    nextOffset: number | null;
+  };
+  
+  data: {
+    // Chart
+    chartType?: string;
+    plotlyConfig?: {
+      data: Plotly.Data[];
+      layout?: Partial<Plotly.Layout>;
+    };
+    // Table
+    columns?: string[];
+    rows?: unknown[][];
+    formatting?: WidgetFormatting;
+    // Markdown
+    content?: string;
+    // Query
+    query?: string;
+    description?: string;
+    datasourceId?: string;
+    // KPI
+    kpi?: KpiData;
+    // Pivot
+    pivot?: PivotData;
+  };
+}
+
+interface Dashboard {
+  id: string;
+  name: string;
+  description?: string;
+  widgets: Widget[];
+  filters?: DashboardFilter[];
+  filters_exposed?: boolean; // Se false i filtri restano sui valori di default
+  layout_config?: {
+    refreshInterval?: number;
+  };
+  created_at: string;
+  updated_at: string;
+}
+
+const DEFAULT_TABLE_PAGE_SIZE = 100;
+
+// Header dell'access token rilasciato all'apertura del link (SHARE_ACCESS_HEADER in lib/share-links, solo server)
+const SHARE_ACCESS_HEADER = 'x-share-access';
+
+// Pagina da cui il viewer ha aperto il link, per le statistiche (SHARE_REFERRER_HEADER in lib/share-analytics)
+const SHARE_REFERRER_HEADER = 'x-share-referrer';
+
+const referrerHeaders = (): Record<string, string> =>
+  document.referrer ? { [SHARE_REFERRER_HEADER]: document.referrer } : {};
+
+// Endpoint delle query e access token della sessione (null per il link predefinito e per gli embed).
+// Senza queryUrl (snapshot) nessuna query: i widget arrivano già con i dati
+interface ShareAccess {
+  queryUrl?: string;
+  token: string | null;
+}
+
+// Snapshot: dati congelati all'istante di acquisizione
+interface SnapshotInfo {
+  name: string;
+  captured_at: string;
+}
+
+const shareHeaders = (share: ShareAccess): Record<string, string> =>
+  share.token ? { [SHARE_ACCESS_HEADER]: share.token } : {};
+
+// Fetcha dati per un singolo widget dinamico (usa endpoint pubblico per dashboard condivise).
+// filters sono i valori scelti dal viewer: il server li usa solo se il proprietario ha reso i filtri modificabili.
+// drillPath sono i punti cliccati nel chart: il server esegue la query salvata del livello corrispondente.
+// trigger distingue gli aggiornamenti automatici nelle statistiche del proprietario
+const fetchWidgetData = async (
+  widget: Widget,
+  share: ShareAccess,
+  filters: DashboardFilterValues,
+  offset: number = 0,
+  drillPath: string[] = [],
+  trigger: 'load' | 'refresh' = 'load'
+): Promise<Widget> => {
+  if (!widget.isDynamic || !widget.dataSource || !share.queryUrl) {
+    return widget;
+  }
+
+  const pageSize = widget.type === 'table'
+    ? widget.template?.pageSize || DEFAULT_TABLE_PAGE_SIZE
+    : undefined;
+
+  try {
+    // Usa l'endpoint pubblico specifico per dashboard condivise
+    const response = await fetch(share.queryUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...shareHeaders(share) },
+      body: JSON.stringify({
+        widgetId: widget.id,
+        filters,
+        drillPath,
+        limit: pageSize,
+        offset,
+        trigger,
+      }),
+    });
+
+    const result = await response.json();
+
+    if (result.success && result.data) {
+      const template = drillWidget(widget, drillPath).widget.template;
+      const rows = result.data as Record<string, unknown>[];
+      const hydratedData = widget.type === 'kpi' && template?.kpi
+        ? { kpi: kpiFromRows(template.kpi, rows) }
+        : widget.type === 'pivot' && template?.pivot
+          ? { pivot: { ...template.pivot, records: rows } }
+        : template
+          ? hydrateTemplate(template, rows, widget.type)
+          : widget.data;
+
+      return {
+        ...widget,
+        data: hydratedData as Widget['data'],
+        lastFetched: result.executedAt || new Date().toISOString(),
+        cacheStatus: result.cache,
+        resultColumns: result.columns,
+        fetchError: undefined,
+        page: {
+          offset: result.offset ?? offset,
+          pageSize,
+          truncated: !!result.truncated,
+          totalRowsEstimate: result.totalRowsEstimate ?? result.data.length,
+          nextOffset: result.nextOffset ?? null,
+        },
+      };
+    } else {
+      console.error('[Dashare] Query failed for', widget.id, ':', result.error);
+      return {
+        ...widget,
+        fetchError: result.error || 'Failed to fetch data',
+      };
+    }
+  } catch (error) {
+    console.error('[Dashare] Error fetching widget data:', widget.id, error);
+    return {
+      ...widget,
+      fetchError: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+};
+
+// Hydrata tutti i widget dinamici
+const hydrateWidgets = async (
+  widgets: Widget[],
+  share: ShareAccess,
+  filters: DashboardFilterValues,
+  drillPaths: Record<string, string[]> = {}
+): Promise<Widget[]> => {
+  const hydratedPromises = widgets.map(widget => 
+    widget.isDynamic ? fetchWidgetData(widget, share, filters, 0, drillPaths[widget.id]) : Promise.resolve(widget)
+  );
+  return Promise.all(hydratedPromises);
+};
+
+// Opzioni di un filtro select/multiSelect (la query è quella salvata nella dashboard)
+const fetchFilterOptions = async (filter: DashboardFilter, share: ShareAccess): Promise<FilterOption[]> => {
+  if (!share.queryUrl) return [];
+
+  const response = await fetch(share.queryUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...shareHeaders(share) },
+    body: JSON.stringify({ filterId: filter.id }),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to load options');
+  }
+  return optionsFromRows(result.data || []);
+};
+
+interface SharedDashboardViewProps {
+  dashboardUrl: string; // GET della dashboard, POST { password } per sbloccare un link con password
+  queryUrl?: string; // Assente per gli snapshot
+  accessStorageKey?: string; // Dove conservare l'access token: sopravvive al reload, la password non serve di nuovo
+  embedded?: boolean; // Dentro un iframe: senza header e barra della dashboard
+}
+
+/**
+ * Dashboard in sola lettura per viewer anonimi: link condivisi (/dashare), snapshot (/dashare/snapshot) ed embed (/embed)
+ */
+export default function SharedDashboardView({
+  dashboardUrl,
+  queryUrl,
+  accessStorageKey,
+  embedded = false,
+}: SharedDashboardViewProps) {
+  const [dashboard, setDashboard] = useState<Dashboard | null>(null);
+  const [hydratedWidgets, setHydratedWidgets] = useState<Widget[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isHydrating, setIsHydrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filterValues, setFilterValues] = useState<DashboardFilterValues>({});
+  const [drillPaths, setDrillPaths] = useState<Record<string, string[]>>({});
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<{ error: string | null } | null>(null); // Link con password
+  const [password, setPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [snapshot, setSnapshot] = useState<SnapshotInfo | null>(null);
+  const { isLiveMode, toggleLiveMode } = useLiveMode();
+
+  // Apertura del link (GET o sblocco con password): ogni apertura rilascia un nuovo access token
+  const openDashboard = useCallback(async (response: Response) => {
+    console.log('[Dashare] Response status:', response.status);
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      if (response.status === 401 && body.passwordRequired) {
+        if (accessStorageKey) sessionStorage.removeItem(accessStorageKey);
+        setPasswordPrompt({ error: body.error === 'Wrong password' ? body.error : null });
+      } else if (response.status === 404) {
+        setError('Dashboard not found or no longer shared');
+      } else if (response.status === 410) {
+        setError(body.error || 'This link is no longer valid');
+      } else {
+        setError('Failed to load dashboard');
+      }
+      setIsLoading(false);
+      return;
+    }
+
+    const data = await response.json();
+    console.log('[Dashare] Dashboard loaded:', data.dashboard?.name);
+    console.log('[Dashare] Widgets count:', data.dashboard?.widgets?.length);
+
+    const share: ShareAccess = { queryUrl, token: data.accessToken ?? null };
+    if (share.token && accessStorageKey) {
+      sessionStorage.setItem(accessStorageKey, share.token);
+    }
+    setAccessToken(share.token);
+    setPasswordPrompt(null);
+
+    setDashboard(data.dashboard);
+    setSnapshot(data.snapshot ?? null);
+    const initialFilters = defaultFilterValues(data.dashboard?.filters);
+    setFilterValues(initialFilters);
+    
+    // Hydrata i widget dinamici
+    if (data.dashboard?.widgets?.length > 0) {
+      const hasDynamic = data.dashboard.widgets.some((w: Widget) => w.isDynamic);
+      console.log('[Dashare] Has dynamic widgets:', hasDynamic);
+      
+      if (hasDynamic && queryUrl) {
+        setIsHydrating(true);
+        const hydrated = await hydrateWidgets(data.dashboard.widgets, share, initialFilters);
+        setHydratedWidgets(hydrated);
+        setIsHydrating(false);
+      } else {
+        setHydratedWidgets(data.dashboard.widgets);
+      }
+    }
+    
+    setIsLoading(false);
+  }, [queryUrl, accessStorageKey]);
+
+  const fetchSharedDashboard = useCallback(async () => {
+    try {
+      console.log('[Dashare] Fetching dashboard:', dashboardUrl);
+      const storedToken = accessStorageKey ? sessionStorage.getItem(accessStorageKey) : null;
+      const response = await fetch(dashboardUrl, {
+        headers: { ...shareHeaders({ queryUrl, token: storedToken }), ...referrerHeaders() },
+      });
+      await openDashboard(response);
+    } catch (err) {
+      console.error('[Dashare] Error fetching shared dashboard:', err);
+      setError('Failed to load dashboard');
+      setIsLoading(false);
+    }
+  }, [dashboardUrl, queryUrl, accessStorageKey, openDashboard]);
+
+  // Sblocco di un link con password
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    setIsUnlocking(true);
+    try {
+      const response = await fetch(dashboardUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...referrerHeaders() },
+        body: JSON.stringify({ password }),
+      });
+      await openDashboard(response);
+      setPassword('');
+    } catch (err) {
+      console.error('[Dashare] Error unlocking shared dashboard:', err);
+      setError('Failed to load dashboard');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const share: ShareAccess = { queryUrl, token: accessToken };
+
+  useEffect(() => {
+    fetchSharedDashboard();
+  }, [fetchSharedDashboard]);
+
+  // Cambio pagina di una tabella dinamica
+  const handleWidgetPageChange = async (widgetId: string, offset: number) => {
+    const widget = dashboard?.widgets.find(w => w.id === widgetId);
+    if (!widget) return;
+
+    const hydratedWidget = await fetchWidgetData(widget, share, filterValues, offset, drillPaths[widgetId]);
+    setHydratedWidgets(prev => prev.map(w => w.id === widgetId ? hydratedWidget : w));
+  };
+
+  // Cambio filtri (solo se modificabili): riesegue le query di tutti i widget
+  const handleFiltersChange = async (values: DashboardFilterValues) => {
+    if (!dashboard) return;
+
+    setFilterValues(values);
+    setIsHydrating(true);
+    const hydrated = await hydrateWidgets(dashboard.widgets, share, values, drillPaths);
+    setHydratedWidgets(hydrated);
+    setIsHydrating(false);
+  };
+
+  // Drill-down di un chart: path = punti cliccati dal livello iniziale
+  const setDrillPath = async (widget: Widget, path: string[]) => {
+    setDrillPaths(prev => ({ ...prev, [widget.id]: path }));
+    const hydratedWidget = await fetchWidgetData(widget, share, filterValues, 0, path);
+    setHydratedWidgets(prev => prev.map(w => w.id === widget.id ? hydratedWidget : w));
+  };
+
+  // Aggiornamento automatico con gli intervalli del proprietario. Il server non permette di scavalcare
+  // la cache, ma la limita all'intervallo del widget: ogni ciclo riceve dati nuovi
+  const dashboardRefreshInterval = dashboard?.layout_config?.refreshInterval ?? 0;
+  const refreshIntervals = Object.fromEntries(
+    (dashboard?.widgets || [])
+      .map(w => [w.id, refreshIntervalFor(w, dashboardRefreshInterval)] as const)
+      .filter(([, interval]) => interval > 0)
+  );
+
+  const autoRefresh = useAutoRefresh({
+    intervals: refreshIntervals,
+    onRefresh: async (widgetIds) => {
+      const refreshed = await Promise.all(
+        (dashboard?.widgets || [])
+          .filter(w => widgetIds.includes(w.id))
+          .map(widget => fetchWidgetData(
+            widget,
+            share,
+            filterValues,
+            hydratedWidgets.find(h => h.id === widget.id)?.page?.offset ?? 0,
+            drillPaths[widget.id],
+            'refresh'
+          ))
+      );
+      setHydratedWidgets(prev => prev.map(w => refreshed.find(r => r.id === w.id) ?? w));
+      return refreshed.filter(w => w.fetchError).map(w => w.id);
+    },
+    enabled: hydratedWidgets.length > 0 && !isHydrating,
+  });
+
+  // Props di ChartWidget per il drill-down
+  const drillPropsFor = (widget: Widget) => {
+    const source = dashboard?.widgets.find(w => w.id === widget.id);
+    const levels = source?.drillDown;
+    if (!source?.isDynamic || !levels?.length) return {};
+
+    const path = drillPaths[widget.id] || [];
+    return {
+      onDrillDown: path.length < levels.length ? (value: string) => setDrillPath(source, [...path, value]) : undefined,
+      drillField: levels[path.length]?.field,
+      breadcrumb: {
+        path,
+        levels: levels.map((level, i) => level.label || `Level ${i + 1}`),
+        onNavigate: (depth: number) => setDrillPath(source, path.slice(0, depth)),
+      },
+    };
+  };
+  
+  // Usa i widget hydratati se disponibili
+  const widgets = hydratedWidgets.length > 0 ? hydratedWidgets : (dashboard?.widgets || []);
+
+  const truncateDescription = (text: string | undefined) => {
+    if (!text) return '';
+    const words = text.split(' ');
+    if (words.length <= 10) return text;
+    return words.slice(0, 10).join(' ') + '...';
+  };
+
+  // Contenuto di un widget nella griglia (sola lettura)
+  const renderWidget = (widget: Widget, dashboardId: string) => {
+    return (
+      <div className="h-full">
+        {widget.type === 'chart' && (widget.data.plotlyConfig || widget.isDynamic) && (
+          <ChartWidget
+            title={widget.title}
+            plotlyConfig={widget.data.plotlyConfig || { data: [], layout: {} }}
+            updatedAt={widget.lastFetched || widget.updated_at}
+            isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+            readOnly={true}
+            isTruncated={widget.page?.truncated}
+            {...drillPropsFor(widget)}
+          />
+        )}
+        {widget.type === 'table' && ((widget.data.columns && widget.data.rows) || widget.isDynamic) && (
+          <TableWidget
+            title={widget.title}
+            columns={widget.data.columns || []}
+            rows={widget.data.rows || []}
+            formatting={(widget.isDynamic ? widget.template : widget.data)?.formatting}
+            resultColumns={widget.resultColumns}
+            updatedAt={widget.lastFetched || widget.updated_at}
+            isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+            readOnly={true}
+            page={widget.page}
+            onPageChange={(offset) => handleWidgetPageChange(widget.id, offset)}
+          />
+        )}
+        {widget.type === 'markdown' && (widget.data.content || widget.isDynamic) && (
+          <MarkdownWidget
+            title={widget.title}
+            content={widget.data.content || 'Loading...'}
+            updatedAt={widget.lastFetched || widget.updated_at}
+            isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+            readOnly={true}
+            widgetId={widget.id}
+            dashboardId={dashboardId}
+          />
+        )}
+        {widget.type === 'kpi' && (widget.data.kpi || widget.isDynamic) && (
+          <KpiWidget
+            title={widget.title}
+            kpi={widget.data.kpi}
+            updatedAt={widget.lastFetched || widget.updated_at}
+            isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+            readOnly={true}
+          />
+        )}
+        {widget.type === 'pivot' && (widget.data.pivot || widget.isDynamic) && (
+          <PivotWidget
+            title={widget.title}
+            pivot={widget.data.pivot}
+            updatedAt={widget.lastFetched || widget.updated_at}
+            isCached={widget.cacheStatus === 'hit' || widget.cacheStatus === 'stale'}
+            isTruncated={widget.page?.truncated}
+            readOnly={true}
+          />
+        )}
+        {widget.type === 'query' && widget.data.query && (
+          <QueryWidget
+            title={widget.title}
+            query={widget.data.query}
+            description={widget.data.description}
+            updatedAt={widget.updated_at}
+            readOnly={true}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-screen overflow-hidden">
+      {/* Public Header */}
+      {!isLiveMode && !embedded && (
+        <header 
+          className="flex items-center justify-between px-4 border-b select-none"
+          style={{ 
+            height: 'var(--topbar-height)',
+            background: 'var(--bg-secondary)',
+            borderColor: 'var(--border-subtle)'
+          }}
+        >
+          {/* Left section - Brand */}
+          <div className="flex items-center gap-3">
+            <span 
+              className="font-semibold text-sm tracking-tight"
+              style={{ color: 'var(--text-primary)' }}
+            >
+              Vetrinae
+            </span>
+          </div>
+
+          {/* Right section - Get Started Button */}
+          <Link
+            href="/"
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm transition-colors"
+            style={{ 
+              background: 'var(--accent-primary)',
+              color: 'white'
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.opacity = '0.9';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.opacity = '1';
+            }}
+          >
+            get started
+            <ArrowRight size={14} />
+          </Link>
+        </header>
+      )}
+
+      {/* Main Content */}
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="flex flex-col items-center gap-3">
+              <Loader2 size={32} className="animate-spin" style={{ color: 'var(--text-muted)' }} />
+              <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+                Loading shared dashboard...
+              </p>
+            </div>
+          </div>
+        ) : passwordPrompt ? (
+          <div className="flex items-center justify-center h-full">
+            <form onSubmit={handleUnlock} className="flex flex-col items-center gap-3 w-full max-w-xs text-center">
+              <Lock size={32} style={{ color: 'var(--text-muted)' }} />
+              <p className="text-base" style={{ color: 'var(--text-primary)' }}>
+                This dashboard is password protected
+              </p>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoFocus
+                className="w-full px-3 py-2 rounded-lg text-sm outline-none"
+                style={{
+                  background: 'var(--bg-secondary)',
+                  border: '1px solid var(--border-subtle)',
+                  color: 'var(--text-primary)'
+                }}
+              />
+              {passwordPrompt.error && (
+                <p className="text-xs" style={{ color: '#ef4444' }}>
+                  {passwordPrompt.error}
+                </p>
+              )}
+              <button
+                type="submit"
+                disabled={!password || isUnlocking}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm disabled:opacity-50"
+                style={{ background: 'var(--accent-primary)', color: 'white' }}
+              >
+                {isUnlocking && <Loader2 size={14} className="animate-spin" />}
+                View dashboard
+              </button>
+            </form>
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center h-full">
+            <div className="flex flex-col items-center gap-3 max-w-md text-center">
+              <AlertCircle size={48} className="text-gray-500" />
+              <div>
+                <p className="text-base mb-2 text-white">
+                  {error}
+                </p>
+                <p className="text-sm text-gray-400">
+                  The dashboard you&apos;re looking for might have been deleted or is no longer being shared.
+                </p>
+              </div>
+              {!embedded && (
+                <Link
+                  href="/"
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm transition-colors mt-4 bg-gray-800 text-white border border-gray-600 hover:bg-gray-700"
+                >
+                  Go to Vetrinae
+                  <ArrowRight size={16} />
+                </Link>
+              )}
+            </div>
+          </div>
+        ) : dashboard ? (
+          <>
+            {/* Dashboard Header (non negli embed: il titolo lo mette la pagina che ospita l'iframe) */}
+            {!embedded && (
+              <div className="flex items-center justify-between px-4 py-3 border-b" style={{ borderColor: 'var(--border-subtle)' }}>
+                <div className="flex items-center gap-3">
+                  <h1 
+                    className="text-base font-semibold"
+                    style={{ color: 'var(--text-primary)' }}
+                  >
+                    {dashboard.name}
+                  </h1>
+                  {dashboard.description && (
+                    <p 
+                      className="text-xs"
+                      style={{ color: 'var(--text-muted)' }}
+                    >
+                      {truncateDescription(dashboard.description)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <RefreshIntervalPicker
+                    value={dashboardRefreshInterval}
+                    isActive={Object.keys(refreshIntervals).length > 0}
+                    isPaused={autoRefresh.isPaused}
+                    failingCount={autoRefresh.failingWidgetIds.length}
+                  />
+                  {!isLiveMode && (
+                    <div 
+                      className="px-2 py-1 rounded text-xs"
+                      style={{ 
+                        background: 'rgba(59, 130, 246, 0.1)',
+                        color: '#3b82f6'
+                      }}
+                    >
+                      Read-only
+                    </div>
+                  )}
+                  <button
+                    onClick={toggleLiveMode}
+                    className="p-1.5 rounded-lg transition-colors"
+                    style={{
+                      background: 'var(--bg-tertiary)',
+                      border: '1px solid var(--border-subtle)',
+                      color: isLiveMode ? 'var(--accent-primary)' : 'var(--text-tertiary)'
+                    }}
+                    title={isLiveMode ? 'Exit live mode (Esc)' : 'Live mode (fullscreen)'}
+                  >
+                    {isLiveMode ? <Minimize2 size={14} /> : <Maximize2 size={14} />}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Snapshot: i dati non sono live */}
+            {snapshot && (
+              <div
+                className="flex items-center gap-2 px-4 py-2 border-b text-xs"
+                style={{
+                  background: 'rgba(245, 158, 11, 0.1)',
+                  borderColor: 'var(--border-subtle)',
+                  color: '#f59e0b'
+                }}
+              >
+                <Camera size={14} />
+                <span>
+                  Data as of {new Date(snapshot.captured_at).toLocaleString('it-IT', {
+                    day: '2-digit',
+                    month: 'short',
+                    year: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </span>
+                <span style={{ color: 'var(--text-muted)' }}>
+                  · {snapshot.name} · static snapshot, not live data
+                </span>
+              </div>
+            )}
+
+            {/* Dashboard filters */}
+            {dashboard.filters && dashboard.filters.length > 0 && (
+              <div className="pt-2 border-b" style={{ borderColor: 'var(--border-subtle)' }}>
+                <DashboardFilterBar
+                  filters={dashboard.filters}
+                  values={filterValues}
+                  onChange={handleFiltersChange}
+                  loadOptions={(filter) => fetchFilterOptions(filter, share)}
+                  locked={!dashboard.filters_exposed}
+                />
+              </div>
+            )}
+
+            {/* Dashboard Content */}
+            <div className="flex-1 overflow-auto p-4">
+              {isHydrating ? (
+                <div className="flex items-center justify-center h-full">
+                  <div className="flex flex-col items-center gap-3">
+                    <Loader2 size={32} className="animate-spin" style={{ color: 'var(--text-muted)' }} />
+                    <p className="text-sm" style={{ color: 'var(--text-muted)' }}>
+                      Loading data...
+                    </p>
+                  </div>
+                </div>
+              ) : widgets.length === 0 ? (
+                <div className="flex items-center justify-center h-full">
+                  <p style={{ color: 'var(--text-muted)' }}>
+                    This dashboard is empty
+                  </p>
+                </div>
+              ) : (
+                <div className="max-w-6xl mx-auto">
+                  <DashboardGrid
+                    items={resolveLayouts(widgets)}
+                    renderItem={(id) => renderWidget(widgets.find(w => w.id === id)!, dashboard.id)}
+                  />
+                </div>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center justify-center h-full">
+            <div className="flex flex-col items-center gap-3 max-w-md text-center">
+              <AlertCircle size={48} className="text-gray-500" />
+              <div>
+                <p className="text-base mb-2 text-white">
+                  Something went wrong
+                </p>
+                <p className="text-sm text-gray-400">
+                  Unable to load the dashboard. Please try refreshing the page.
+                </p>
+              </div>
+              <button
+                onClick={() => window.location.reload()}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm transition-colors mt-4 bg-gray-800 text-white border border-gray-600 hover:bg-gray-700"
+              >
+                Refresh page
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
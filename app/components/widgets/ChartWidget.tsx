@@ -1,11 +1,25 @@
 'use client';
 
 import dynamic from 'next/dynamic';
-import WidgetHeader from './WidgetHeader';
+import WidgetHeader, { type DrillBreadcrumb } from './WidgetHeader';
 
 // Importa Plotly dinamicamente per evitare problemi SSR
 const Plot = dynamic(() => import('react-plotly.js'), { ssr: false });
 
+export type CrossFilterField = 'x' | 'y' | 'label' | 'customdata';
+
+// Valori dei punti cliccati/selezionati: il campo indicato, altrimenti label (pie) o x
+function pointValues(points: readonly Plotly.PlotDatum[], field?: CrossFilterField): string[] {
+  const values = points
+    .map(point => {
+      const datum = point as Plotly.PlotDatum & { label?: unknown };
+      const value = field ? datum[field] : datum.label ?? datum.x;
+      return value === null || value === undefined ? null : String(value);
+    })
+    .filter((value): value is string => value !== null);
+  return [...new Set(values)];
+}
+
 interface ChartWidgetProps {
   title: string;
   plotlyConfig: {
@@ -20,6 +34,13 @@ interface ChartWidgetProps {
   onRefresh?: () => void;
   isRefreshing?: boolean;
   fetchError?: string;
+  isTruncated?: boolean;
+  isCached?: boolean;
+  onPointsSelected?: (values: string[]) => void; // Cross-filter: click o selezione (lista vuota = selezione annullata)
+  crossFilterField?: CrossFilterField;
+  onDrillDown?: (value: string) => void; // Drill-down: click su un punto (ha la precedenza sul cross-filter)
+  drillField?: CrossFilterField;
+  breadcrumb?: DrillBreadcrumb;
 }
 
 export default function ChartWidget({ 
@@ -32,8 +53,24 @@ export default function ChartWidget({
   isDynamic,
   onRefresh,
   isRefreshing,
-  fetchError
+  fetchError,
+  isTruncated,
+  isCached,
+  onPointsSelected,
+  crossFilterField,
+  onDrillDown,
+  drillField,
+  breadcrumb,
 }: ChartWidgetProps) {
+  const handleClick = (event: Readonly<Plotly.PlotMouseEvent>) => {
+    if (onDrillDown) {
+      const [value] = pointValues(event.points.slice(0, 1), drillField);
+      if (value !== undefined) onDrillDown(value);
+    } else if (onPointsSelected) {
+      onPointsSelected(pointValues(event.points, crossFilterField));
+    }
+  };
+
   return (
     <div 
       className="rounded-xl p-4 h-full flex flex-col"
@@ -52,6 +89,9 @@ export default function ChartWidget({
         onRefresh={onRefresh}
         isRefreshing={isRefreshing}
         fetchError={fetchError}
+        isTruncated={isTruncated}
+        isCached={isCached}
+        breadcrumb={breadcrumb}
       />
       <div className="flex-1 min-h-0">
         <Plot
@@ -62,14 +102,22 @@ export default function ChartWidget({
             paper_bgcolor: 'transparent',
             plot_bgcolor: 'transparent',
             font: { color: 'var(--text-primary)' },
+            // Con il cross-filter il trascinamento seleziona i punti invece di zoomare
+            ...(onPointsSelected ? { dragmode: 'select' as const, clickmode: 'event' as const } : {}),
             ...plotlyConfig.layout,
           }}
           config={{
             responsive: true,
             displayModeBar: false,
           }}
-          style={{ width: '100%', height: '100%' }}
+          style={{ width: '100%', height: '100%', cursor: onPointsSelected || onDrillDown ? 'pointer' : undefined }}
           useResizeHandler={true}
+          onClick={onPointsSelected || onDrillDown ? handleClick : undefined}
+          onSelected={onPointsSelected ? (event) => {
+            // La selezione box/lasso vuota arriva senza evento
+            if (event?.points?.length) onPointsSelected(pointValues(event.points, crossFilterField));
+          } : undefined}
+          onDeselect={onPointsSelected ? () => onPointsSelected([]) : undefined}
         />
       </div>
     </div>
@@ -0,0 +1,30 @@
+'use client';
+
+import { ArrowUp, ArrowDown, ArrowRight, CheckCircle2, AlertTriangle, XCircle, Circle } from 'lucide-react';
+import type { CellStyle, RuleIcon } from '../../lib/formatting';
+
+const ICONS: Record<RuleIcon, typeof ArrowUp> = {
+  up: ArrowUp,
+  down: ArrowDown,
+  flat: ArrowRight,
+  check: CheckCircle2,
+  warning: AlertTriangle,
+  cross: XCircle,
+  dot: Circle,
+};
+
+/**
+ * Icona di una regola di formattazione condizionale (threshold con icon, iconSet)
+ */
+export default function ConditionalIcon({ icon, size = 12 }: { icon: NonNullable<CellStyle['icon']>; size?: number }) {
+  const Icon = ICONS[icon.name];
+  return (
+    <Icon
+      size={size}
+      className="inline-block shrink-0"
+      style={{ color: icon.color || 'currentColor' }}
+      fill={icon.name === 'dot' ? 'currentColor' : 'none'}
+      aria-hidden="true"
+    />
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import WidgetHeader from './WidgetHeader';
+import ConditionalIcon from './ConditionalIcon';
+import { formatKpiValue, kpiDelta, type KpiData } from '../../lib/kpi';
+import { valueStyle } from '../../lib/formatting';
+
+interface KpiWidgetProps {
+  title: string;
+  kpi?: KpiData;
+  updatedAt?: string;
+  onDelete?: () => void;
+  isDeleting?: boolean;
+  readOnly?: boolean;
+  isDynamic?: boolean;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+  fetchError?: string;
+  isCached?: boolean;
+}
+
+const SENTIMENT_COLORS = {
+  good: '#22c55e',
+  bad: '#ef4444',
+  neutral: 'var(--text-muted)',
+} as const;
+
+const SPARKLINE_WIDTH = 100;
+const SPARKLINE_HEIGHT = 28;
+
+// Sparkline in SVG (viewBox fisso, si adatta alla larghezza del widget). Colori in style: accettano le variabili CSS
+function Sparkline({ values, color }: { values: number[]; color: string }) {
+  if (values.length < 2) return null;
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = values.map((value, i) => {
+    const x = (i / (values.length - 1)) * SPARKLINE_WIDTH;
+    const y = SPARKLINE_HEIGHT - ((value - min) / range) * (SPARKLINE_HEIGHT - 2) - 1;
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-8"
+      aria-hidden="true"
+    >
+      <polygon
+        points={`0,${SPARKLINE_HEIGHT} ${points.join(' ')} ${SPARKLINE_WIDTH},${SPARKLINE_HEIGHT}`}
+        style={{ fill: color, opacity: 0.12 }}
+      />
+      <polyline
+        points={points.join(' ')}
+        fill="none"
+        style={{ stroke: color }}
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+export default function KpiWidget({
+  title,
+  kpi,
+  updatedAt,
+  onDelete,
+  isDeleting,
+  readOnly = false,
+  isDynamic,
+  onRefresh,
+  isRefreshing,
+  fetchError,
+  isCached,
+}: KpiWidgetProps) {
+  const delta = kpi ? kpiDelta(kpi) : null;
+  const deltaColor = SENTIMENT_COLORS[delta?.sentiment ?? 'neutral'];
+  const DeltaIcon = delta?.direction === 'up' ? TrendingUp : delta?.direction === 'down' ? TrendingDown : Minus;
+  const ruleStyle = kpi ? valueStyle(kpi.rules, kpi.value) : null;
+  const comparisonLabel = kpi?.comparisonLabel ?? (kpi?.comparisonType === 'target' ? 'vs target' : 'vs previous');
+
+  // Delta in percentuale se calcolabile, altrimenti come differenza nel formato del KPI
+  const deltaText = delta
+    ? delta.ratio !== null
+      ? `${delta.ratio > 0 ? '+' : ''}${formatKpiValue(delta.ratio, { format: 'percent', decimals: 1 })}`
+      : `${delta.difference > 0 ? '+' : ''}${formatKpiValue(delta.difference, kpi)}`
+    : null;
+
+  return (
+    <div
+      className="rounded-xl p-4 h-full flex flex-col"
+      style={{
+        background: 'var(--bg-secondary)',
+        border: '1px solid var(--border-subtle)'
+      }}
+    >
+      <WidgetHeader
+        title={title}
+        updatedAt={updatedAt}
+        onDelete={onDelete}
+        isDeleting={isDeleting}
+        readOnly={readOnly}
+        isDynamic={isDynamic}
+        onRefresh={onRefresh}
+        isRefreshing={isRefreshing}
+        fetchError={fetchError}
+        isCached={isCached}
+      />
+
+      <div className="flex-1 flex flex-col justify-center min-h-0">
+        <div
+          className="flex items-center gap-2 text-3xl font-semibold tracking-tight min-w-0"
+          style={{ color: ruleStyle?.color || 'var(--text-primary)' }}
+          title={kpi?.value !== null && kpi?.value !== undefined ? String(kpi.value) : undefined}
+        >
+          {ruleStyle?.icon && <ConditionalIcon icon={ruleStyle.icon} size={20} />}
+          <span
+            className="truncate rounded"
+            style={ruleStyle?.background ? { background: ruleStyle.background, padding: '0 0.25em' } : undefined}
+          >
+            {formatKpiValue(kpi?.value, kpi)}
+          </span>
+        </div>
+
+        {delta && deltaText && (
+          <div className="flex items-center gap-1.5 mt-1 text-xs">
+            <span className="flex items-center gap-0.5 font-medium" style={{ color: deltaColor }}>
+              <DeltaIcon size={12} />
+              {deltaText}
+            </span>
+            <span style={{ color: 'var(--text-muted)' }}>
+              {comparisonLabel} ({formatKpiValue(kpi?.comparison, kpi)})
+            </span>
+          </div>
+        )}
+      </div>
+
+      {kpi?.sparkline && kpi.sparkline.length > 1 && (
+        <div className="mt-2">
+          <Sparkline values={kpi.sparkline} color={delta ? deltaColor : 'var(--accent-primary)'} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ interface MarkdownWidgetProps {
   onRefresh?: () => void;
   isRefreshing?: boolean;
   fetchError?: string;
+  isCached?: boolean;
 }
 
 export default function MarkdownWidget({ 
@@ -35,7 +36,8 @@ export default function MarkdownWidget({
   isDynamic,
   onRefresh,
   isRefreshing,
-  fetchError
+  fetchError,
+  isCached = false
 }: MarkdownWidgetProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(content);
@@ -158,6 +160,7 @@ export default function MarkdownWidget({
             <span 
               className="text-xs"
               style={{ color: 'var(--text-muted)' }}
+              title={isCached ? 'Cached result: the query ran at this time' : undefined}
             >
               {new Date(updatedAt).toLocaleString('en-US', {
                 month: 'short',
@@ -166,6 +169,7 @@ export default function MarkdownWidget({
                 minute: '2-digit',
                 hour12: false,
               })}
+              {isCached && ' · cached'}
             </span>
           )}
           
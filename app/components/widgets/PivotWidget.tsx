@@ -0,0 +1,242 @@
+'use client';
+
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import WidgetHeader from './WidgetHeader';
+import { buildPivot, measureLabel, pivotTotals, PIVOT_TOTAL_KEY, type PivotData, type PivotNode } from '../../lib/pivot';
+import { formatValue, DEFAULT_LOCALE, type FormatSpec } from '../../lib/formatting';
+
+interface PivotWidgetProps {
+  title: string;
+  pivot?: PivotData;
+  updatedAt?: string;
+  onDelete?: () => void;
+  isDeleting?: boolean;
+  readOnly?: boolean;
+  isDynamic?: boolean;
+  onRefresh?: () => void;
+  isRefreshing?: boolean;
+  fetchError?: string;
+  isTruncated?: boolean;
+  isCached?: boolean;
+}
+
+const DEFAULT_MEASURE_FORMAT: FormatSpec = { type: 'number' };
+
+const cellBorder = '1px solid var(--border-subtle)';
+
+export default function PivotWidget({
+  title,
+  pivot,
+  updatedAt,
+  onDelete,
+  isDeleting,
+  readOnly = false,
+  isDynamic,
+  onRefresh,
+  isRefreshing,
+  fetchError,
+  isTruncated,
+  isCached,
+}: PivotWidgetProps) {
+  // Gruppi chiusi, per percorso (i gruppi nuovi dopo un refresh sono aperti)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const result = useMemo(() => (pivot ? buildPivot(pivot, pivot.records) : null), [pivot]);
+
+  const toggleGroup = (path: string[]) => {
+    const key = JSON.stringify(path);
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const header = (
+    <WidgetHeader
+      title={title}
+      updatedAt={updatedAt}
+      onDelete={onDelete}
+      isDeleting={isDeleting}
+      readOnly={readOnly}
+      isDynamic={isDynamic}
+      onRefresh={onRefresh}
+      isRefreshing={isRefreshing}
+      fetchError={fetchError}
+      isTruncated={isTruncated}
+      isCached={isCached}
+    />
+  );
+
+  if (!pivot || !result || pivot.records.length === 0) {
+    return (
+      <div
+        className="rounded-xl p-4 h-full flex flex-col"
+        style={{ background: 'var(--bg-secondary)', border: cellBorder }}
+      >
+        {header}
+        <div className="flex-1 flex items-center justify-center text-sm" style={{ color: 'var(--text-muted)' }}>
+          {pivot ? 'No data' : 'Loading...'}
+        </div>
+      </div>
+    );
+  }
+
+  const { columnKeys, root } = result;
+  const measures = pivot.measures;
+  const columnDepth = pivot.columns.length;
+  const { subtotals: showSubtotals, grandTotals: showGrandTotals } = pivotTotals(pivot, isTruncated);
+  // Senza dimensioni di colonna l'unica colonna coincide già con il totale di riga
+  const showTotalColumn = showGrandTotals && columnDepth > 0;
+  const showMeasureRow = measures.length > 1 || columnDepth === 0;
+  const headerRows = columnDepth + (showMeasureRow ? 1 : 0);
+
+  const dataKeys = [
+    ...columnKeys.map(key => JSON.stringify(key)),
+    ...(showTotalColumn ? [PIVOT_TOTAL_KEY] : []),
+  ];
+
+  // Intestazioni di colonna: un livello per dimensione, i valori uguali e contigui sono uniti
+  const columnHeaderRow = (level: number) => {
+    const groups: Array<{ label: string; span: number }> = [];
+    columnKeys.forEach((key, i) => {
+      const previous = columnKeys[i - 1];
+      const sameGroup = previous && key.slice(0, level + 1).every((value, j) => value === previous[j]);
+      if (sameGroup) groups[groups.length - 1].span++;
+      else groups.push({ label: key[level], span: 1 });
+    });
+    return groups;
+  };
+
+  const valueCells = (node: PivotNode, visible: boolean, emphasis: boolean) =>
+    dataKeys.map(key =>
+      measures.map((measure, m) => (
+        <td
+          key={`${key}-${m}`}
+          className="px-3 py-1.5 text-right tabular-nums whitespace-nowrap"
+          style={{
+            color: 'var(--text-primary)',
+            fontWeight: emphasis || key === PIVOT_TOTAL_KEY ? 600 : undefined,
+            borderLeft: m === 0 ? cellBorder : undefined,
+          }}
+        >
+          {visible ? formatValue(node.cells.get(key)?.[m], measure.format ?? DEFAULT_MEASURE_FORMAT, pivot.locale || DEFAULT_LOCALE) : ''}
+        </td>
+      ))
+    );
+
+  // Righe del corpo: i gruppi chiusi nascondono i figli e mostrano sempre il loro subtotale
+  const renderNode = (node: PivotNode): React.ReactNode => {
+    const depth = node.path.length;
+    const isGroup = depth < pivot.rows.length;
+    const isCollapsed = collapsed.has(JSON.stringify(node.path));
+
+    return (
+      <Fragment key={JSON.stringify(node.path)}>
+        <tr style={{ borderTop: cellBorder, background: isGroup ? 'var(--bg-tertiary)' : undefined }}>
+          <td
+            className="py-1.5 pr-3 whitespace-nowrap"
+            style={{ color: 'var(--text-primary)', paddingLeft: 12 + (depth - 1) * 16, fontWeight: isGroup ? 500 : undefined }}
+          >
+            {isGroup ? (
+              <button
+                onClick={() => toggleGroup(node.path)}
+                className="inline-flex items-center gap-1"
+                aria-expanded={!isCollapsed}
+              >
+                {isCollapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+                {node.path[depth - 1]}
+              </button>
+            ) : (
+              node.path[depth - 1]
+            )}
+          </td>
+          {valueCells(node, !isGroup || showSubtotals || isCollapsed, isGroup)}
+        </tr>
+        {isGroup && !isCollapsed && node.children.map(renderNode)}
+      </Fragment>
+    );
+  };
+
+  return (
+    <div
+      className="rounded-xl p-4 h-full flex flex-col"
+      style={{ background: 'var(--bg-secondary)', border: cellBorder }}
+    >
+      {header}
+      {isTruncated && (
+        <p className="text-xs mb-2 px-2 py-1 rounded" style={{ background: 'rgba(251, 191, 36, 0.1)', color: '#fbbf24' }}>
+          Result truncated: values cover only the loaded rows, totals are hidden. Aggregate in the query to see the full data.
+        </p>
+      )}
+      <div className="overflow-auto flex-1">
+        <table className="w-full text-sm">
+          <thead>
+            {Array.from({ length: headerRows }, (_, level) => (
+              <tr key={level}>
+                {level === 0 && (
+                  <th
+                    rowSpan={headerRows}
+                    className="text-left align-bottom px-3 py-2 font-medium whitespace-nowrap"
+                    style={{ color: 'var(--text-secondary)', borderBottom: cellBorder }}
+                  >
+                    {pivot.rows.join(' / ')}
+                  </th>
+                )}
+                {level < columnDepth ? (
+                  <>
+                    {columnHeaderRow(level).map((group, i) => (
+                      <th
+                        key={i}
+                        colSpan={group.span * measures.length}
+                        className="text-center px-3 py-2 font-medium whitespace-nowrap"
+                        style={{ color: 'var(--text-secondary)', borderLeft: cellBorder, borderBottom: cellBorder }}
+                      >
+                        {group.label}
+                      </th>
+                    ))}
+                    {level === 0 && showTotalColumn && (
+                      <th
+                        rowSpan={columnDepth}
+                        colSpan={measures.length}
+                        className="text-center px-3 py-2 font-semibold"
+                        style={{ color: 'var(--text-secondary)', borderLeft: cellBorder, borderBottom: cellBorder }}
+                      >
+                        Total
+                      </th>
+                    )}
+                  </>
+                ) : (
+                  dataKeys.map(key =>
+                    measures.map((measure, m) => (
+                      <th
+                        key={`${key}-${m}`}
+                        className="text-right px-3 py-2 font-medium whitespace-nowrap"
+                        style={{ color: 'var(--text-secondary)', borderLeft: m === 0 ? cellBorder : undefined, borderBottom: cellBorder }}
+                      >
+                        {measureLabel(measure, pivot)}
+                      </th>
+                    ))
+                  )
+                )}
+              </tr>
+            ))}
+          </thead>
+          <tbody>
+            {root.children.map(renderNode)}
+            {showGrandTotals && (
+              <tr style={{ borderTop: '2px solid var(--border-subtle)' }}>
+                <td className="px-3 py-1.5 font-semibold" style={{ color: 'var(--text-primary)' }}>
+                  Total
+                </td>
+                {valueCells(root, true, true)}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
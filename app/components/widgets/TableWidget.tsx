@@ -1,11 +1,26 @@
 'use client';
 
+import { useMemo, useRef, useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, ArrowUp, ArrowDown, Search, Filter, Download, X } from 'lucide-react';
 import WidgetHeader from './WidgetHeader';
+import ConditionalIcon from './ConditionalIcon';
+import {
+  applyTableView,
+  isTableViewActive,
+  nextSort,
+  EMPTY_TABLE_VIEW,
+  type TableView,
+} from '../../lib/table-view';
+import { downloadTable, type TableExportFormat } from '../../lib/table-export';
+import { cellStyler, formatValue, DEFAULT_LOCALE, type WidgetFormatting } from '../../lib/formatting';
+import type { ColumnMetadata } from '../../lib/connectors/types';
 
 interface TableWidgetProps {
   title: string;
   columns: string[];
   rows: unknown[][];
+  formatting?: WidgetFormatting; // Formati delle colonne e regole condizionali
+  resultColumns?: ColumnMetadata[]; // Tipi delle colonne (tabelle dinamiche): i numeri troppo grandi arrivano come stringhe
   updatedAt?: string;
   onDelete?: () => void;
   isDeleting?: boolean;
@@ -14,12 +29,33 @@ interface TableWidgetProps {
   onRefresh?: () => void;
   isRefreshing?: boolean;
   fetchError?: string;
+  isCached?: boolean;
+  // Paginazione server-side (solo tabelle dinamiche)
+  page?: {
+    offset: number;
+    pageSize?: number;
+    truncated: boolean;
+    totalRowsEstimate: number;
+    nextOffset: number | null;
+  };
+  onPageChange?: (offset: number) => void;
 }
 
+// Oltre questa soglia il corpo della tabella è virtualizzato: solo le righe visibili sono nel DOM
+const VIRTUALIZE_AFTER = 200;
+const ROW_HEIGHT = 37; // px: py-2 + text-sm + bordo (le celle non vanno a capo)
+const OVERSCAN = 10;
+
+// Colonne allineate a destra: con un formato numerico o, senza formato, con un tipo numerico
+const NUMERIC_FORMATS = ['number', 'currency', 'percent', 'compact'];
+const NUMERIC_TYPES = ['integer', 'decimal'];
+
 export default function TableWidget({ 
   title, 
   columns, 
   rows, 
+  formatting,
+  resultColumns,
   updatedAt, 
   onDelete, 
   isDeleting, 
@@ -27,8 +63,57 @@ export default function TableWidget({
   isDynamic,
   onRefresh,
   isRefreshing,
-  fetchError
+  fetchError,
+  isCached,
+  page,
+  onPageChange
 }: TableWidgetProps) {
+  const showPagination = !!page && !!onPageChange && (page.offset > 0 || page.nextOffset !== null);
+  const pageSize = page?.pageSize || rows.length;
+
+  // Vista del viewer (non salvata)
+  const [view, setView] = useState<TableView>(EMPTY_TABLE_VIEW);
+  const [showFilters, setShowFilters] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const visibleRows = useMemo(() => applyTableView(rows, view), [rows, view]);
+  const isViewActive = isTableViewActive(view);
+
+  // Formati e regole condizionali: min e max di scale e barre sono calcolati su tutte le righe caricate
+  const locale = formatting?.locale || DEFAULT_LOCALE;
+  const columnFormats = columns.map(col => formatting?.columns?.[col]);
+  const numericColumns = columns.map((col, i) => columnFormats[i]
+    ? NUMERIC_FORMATS.includes(columnFormats[i]?.type ?? '')
+    : NUMERIC_TYPES.includes(resultColumns?.find(c => c.name === col)?.type ?? ''));
+  const styleCell = useMemo(() => cellStyler(formatting?.rules, columns, rows), [formatting?.rules, columns, rows]);
+
+  // Virtualizzazione: finestra di righe in base allo scroll del contenitore
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const isVirtualized = visibleRows.length > VIRTUALIZE_AFTER;
+  const firstRow = isVirtualized ? Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN) : 0;
+  const lastRow = isVirtualized
+    ? Math.min(visibleRows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN)
+    : visibleRows.length;
+
+  const setFilter = (column: number, expression: string) => {
+    setView(prev => ({ ...prev, filters: { ...prev.filters, [column]: expression } }));
+  };
+
+  const handleExport = (format: TableExportFormat) => {
+    setIsExportOpen(false);
+    downloadTable(format, title, columns, visibleRows);
+  };
+
   return (
     <div 
       className="rounded-xl p-4 h-full flex flex-col"
@@ -47,44 +132,279 @@ export default function TableWidget({
         onRefresh={onRefresh}
         isRefreshing={isRefreshing}
         fetchError={fetchError}
+        isCached={isCached}
       />
-      <div className="overflow-auto flex-1">
+
+      {/* Toolbar: ricerca, filtri di colonna, export della vista */}
+      {columns.length > 0 && (
+        <div className="flex items-center gap-1 mb-2 text-xs">
+          <div
+            className="flex items-center gap-1.5 px-2 py-1 rounded flex-1 min-w-0 max-w-56"
+            style={{ background: 'var(--bg-tertiary)', border: '1px solid var(--border-subtle)' }}
+          >
+            <Search size={12} style={{ color: 'var(--text-muted)' }} />
+            <input
+              value={view.search}
+              onChange={(e) => setView(prev => ({ ...prev, search: e.target.value }))}
+              placeholder="Search..."
+              className="bg-transparent outline-none flex-1 min-w-0"
+              style={{ color: 'var(--text-primary)' }}
+              aria-label="Search rows"
+            />
+          </div>
+          <ToolbarButton
+            onClick={() => setShowFilters(prev => !prev)}
+            isActive={showFilters || Object.values(view.filters).some(f => f.trim() !== '')}
+            title="Column filters (text, or >100, <=5, =value, !=value)"
+          >
+            <Filter size={14} />
+          </ToolbarButton>
+          {isViewActive && (
+            <ToolbarButton onClick={() => setView(EMPTY_TABLE_VIEW)} title="Reset sorting, filters and search">
+              <X size={14} />
+            </ToolbarButton>
+          )}
+          <span className="flex-1" />
+          {isViewActive && (
+            <span style={{ color: 'var(--text-muted)' }}>
+              {visibleRows.length.toLocaleString()} of {rows.length.toLocaleString()}
+            </span>
+          )}
+          <div className="relative">
+            <ToolbarButton
+              onClick={() => setIsExportOpen(prev => !prev)}
+              isActive={isExportOpen}
+              title={page && showPagination ? 'Export the current page' : 'Export the current view'}
+            >
+              <Download size={14} />
+            </ToolbarButton>
+            {isExportOpen && (
+              <div
+                className="absolute right-0 top-full mt-1 z-20 rounded-lg py-1 min-w-28"
+                style={{ background: 'var(--bg-elevated)', border: '1px solid var(--border-subtle)' }}
+                onMouseLeave={() => setIsExportOpen(false)}
+              >
+                {(['csv', 'xlsx'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className="block w-full text-left px-3 py-1.5 transition-colors"
+                    style={{ color: 'var(--text-secondary)' }}
+                    onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--bg-hover)'; }}
+                    onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; }}
+                  >
+                    Export {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        className="overflow-auto flex-1"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
         <table className="w-full text-sm">
-          <thead>
+          <thead className="sticky top-0 z-10" style={{ background: 'var(--bg-secondary)' }}>
             <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
-              {columns.map((col, i) => (
-                <th 
-                  key={i}
-                  className="text-left px-3 py-2 font-medium"
-                  style={{ color: 'var(--text-secondary)' }}
-                >
-                  {col}
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {rows.map((row, i) => (
-              <tr 
-                key={i}
-                style={{ 
-                  borderBottom: i === rows.length - 1 ? 'none' : '1px solid var(--border-subtle)'
-                }}
-              >
-                {row.map((cell, j) => (
-                  <td 
-                    key={j}
-                    className="px-3 py-2"
-                    style={{ color: 'var(--text-primary)' }}
+              {columns.map((col, i) => {
+                const direction = view.sort?.column === i ? view.sort.direction : null;
+                return (
+                  <th 
+                    key={i}
+                    className={`${numericColumns[i] ? 'text-right' : 'text-left'} px-3 py-2 font-medium whitespace-nowrap`}
+                    style={{ color: 'var(--text-secondary)' }}
+                    aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : undefined}
                   >
-                    {String(cell)}
-                  </td>
+                    <button
+                      onClick={() => setView(prev => ({ ...prev, sort: nextSort(prev.sort, i) }))}
+                      className="inline-flex items-center gap-1"
+                      title="Sort"
+                    >
+                      {col}
+                      {direction === 'asc' && <ArrowUp size={12} />}
+                      {direction === 'desc' && <ArrowDown size={12} />}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+            {showFilters && (
+              <tr style={{ borderBottom: '1px solid var(--border-subtle)' }}>
+                {columns.map((col, i) => (
+                  <th key={i} className="px-2 py-1 font-normal">
+                    <input
+                      value={view.filters[i] || ''}
+                      onChange={(e) => setFilter(i, e.target.value)}
+                      placeholder="Filter"
+                      className="w-full min-w-16 px-1.5 py-0.5 rounded text-xs outline-none"
+                      style={{
+                        background: 'var(--bg-tertiary)',
+                        border: '1px solid var(--border-subtle)',
+                        color: 'var(--text-primary)'
+                      }}
+                      aria-label={`Filter ${col}`}
+                    />
+                  </th>
                 ))}
               </tr>
-            ))}
+            )}
+          </thead>
+          <tbody>
+            {firstRow > 0 && (
+              <tr aria-hidden="true" style={{ height: firstRow * ROW_HEIGHT }} />
+            )}
+            {visibleRows.slice(firstRow, lastRow).map((row, i) => {
+              const index = firstRow + i;
+              return (
+                <tr 
+                  key={index}
+                  style={{ 
+                    height: isVirtualized ? ROW_HEIGHT : undefined,
+                    borderBottom: index === visibleRows.length - 1 ? 'none' : '1px solid var(--border-subtle)'
+                  }}
+                >
+                  {row.map((cell, j) => {
+                    const style = styleCell(row, j);
+                    const isNumeric = numericColumns[j];
+                    return (
+                      <td 
+                        key={j}
+                        className={`px-3 py-2${isVirtualized ? ' whitespace-nowrap' : ''}${isNumeric ? ' text-right tabular-nums' : ''}${style?.bar ? ' relative' : ''}`}
+                        style={{ color: style?.color || 'var(--text-primary)', background: style?.background }}
+                      >
+                        {style?.bar && (
+                          <div
+                            aria-hidden="true"
+                            className="absolute left-0 top-1 bottom-1 rounded-r"
+                            style={{ width: `${style.bar.ratio * 100}%`, background: style.bar.color, opacity: 0.25 }}
+                          />
+                        )}
+                        <span className={`relative${style?.icon ? ' inline-flex items-center gap-1' : ''}`}>
+                          {style?.icon && <ConditionalIcon icon={style.icon} />}
+                          {formatValue(cell, columnFormats[j], locale)}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {lastRow < visibleRows.length && (
+              <tr aria-hidden="true" style={{ height: (visibleRows.length - lastRow) * ROW_HEIGHT }} />
+            )}
           </tbody>
         </table>
+        {rows.length > 0 && visibleRows.length === 0 && (
+          <div className="py-6 text-center text-xs" style={{ color: 'var(--text-muted)' }}>
+            No rows match the current filters
+          </div>
+        )}
       </div>
+
+      {/* Pagination */}
+      {showPagination && page && onPageChange && (
+        <div 
+          className="flex items-center justify-between pt-3 mt-2 text-xs"
+          style={{ borderTop: '1px solid var(--border-subtle)', color: 'var(--text-muted)' }}
+        >
+          <span title={isViewActive ? 'Sorting, filters and search apply to the current page' : undefined}>
+            rows {rows.length > 0 ? page.offset + 1 : 0}–{page.offset + rows.length} of{' '}
+            {page.truncated ? '~' : ''}{page.totalRowsEstimate.toLocaleString()}
+          </span>
+          <div className="flex items-center gap-1">
+            <PageButton
+              onClick={() => onPageChange(Math.max(0, page.offset - pageSize))}
+              disabled={page.offset === 0 || isRefreshing}
+              title="Previous page"
+            >
+              <ChevronLeft size={14} />
+            </PageButton>
+            <PageButton
+              onClick={() => page.nextOffset !== null && onPageChange(page.nextOffset)}
+              disabled={page.nextOffset === null || isRefreshing}
+              title="Next page"
+            >
+              <ChevronRight size={14} />
+            </PageButton>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
+
+function ToolbarButton({
+  onClick,
+  isActive = false,
+  title,
+  children
+}: {
+  onClick: () => void;
+  isActive?: boolean;
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className="p-1 rounded transition-colors"
+      style={{
+        color: isActive ? 'var(--accent-primary)' : 'var(--text-tertiary)',
+        background: isActive ? 'var(--bg-hover)' : 'transparent'
+      }}
+      onMouseEnter={(e) => {
+        e.currentTarget.style.color = 'var(--text-primary)';
+        e.currentTarget.style.background = 'var(--bg-hover)';
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.color = isActive ? 'var(--accent-primary)' : 'var(--text-tertiary)';
+        e.currentTarget.style.background = isActive ? 'var(--bg-hover)' : 'transparent';
+      }}
+      title={title}
+    >
+      {children}
+    </button>
+  );
+}
+
+function PageButton({ 
+  onClick, 
+  disabled, 
+  title, 
+  children 
+}: { 
+  onClick: () => void; 
+  disabled?: boolean; 
+  title: string; 
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="p-1 rounded transition-colors"
+      style={{ 
+        color: disabled ? 'var(--text-muted)' : 'var(--text-tertiary)',
+        cursor: disabled ? 'not-allowed' : 'pointer',
+        opacity: disabled ? 0.5 : 1
+      }}
+      onMouseEnter={(e) => {
+        if (!disabled) {
+          e.currentTarget.style.color = 'var(--text-primary)';
+          e.currentTarget.style.background = 'var(--bg-hover)';
+        }
+      }}
+      onMouseLeave={(e) => {
+        e.currentTarget.style.color = disabled ? 'var(--text-muted)' : 'var(--text-tertiary)';
+        e.currentTarget.style.background = 'transparent';
+      }}
+      title={title}
+    >
+      {children}
+    </button>
+  );
+}
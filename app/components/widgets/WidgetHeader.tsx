@@ -1,6 +1,13 @@
 'use client';
 
-import { Trash2, RefreshCw, AlertCircle, Zap } from 'lucide-react';
+import { Trash2, RefreshCw, AlertCircle, Zap, ChevronRight } from 'lucide-react';
+
+// Percorso di drill-down di un chart dinamico
+export interface DrillBreadcrumb {
+  path: string[]; // Valori cliccati, dal livello più alto
+  levels: string[]; // Nome di ogni livello sotto quello iniziale
+  onNavigate: (depth: number) => void; // Torna al livello indicato (0 = iniziale)
+}
 
 interface WidgetHeaderProps {
   title: string;
@@ -12,6 +19,9 @@ interface WidgetHeaderProps {
   onRefresh?: () => void;
   isRefreshing?: boolean;
   fetchError?: string;
+  isTruncated?: boolean; // Il risultato della query è stato tagliato dal limite di righe
+  isCached?: boolean; // Il risultato arriva dalla cache del server: updatedAt è l'ora di esecuzione della query
+  breadcrumb?: DrillBreadcrumb;
 }
 
 export default function WidgetHeader({ 
@@ -23,7 +33,10 @@ export default function WidgetHeader({
   isDynamic = false,
   onRefresh,
   isRefreshing = false,
-  fetchError
+  fetchError,
+  isTruncated = false,
+  isCached = false,
+  breadcrumb
 }: WidgetHeaderProps) {
   const formatDate = (dateString?: string) => {
     if (!dateString) return null;
@@ -79,13 +92,28 @@ export default function WidgetHeader({
             </div>
           )}
           
+          {/* Truncated result indicator */}
+          {isTruncated && (
+            <div 
+              className="flex items-center px-1.5 py-0.5 rounded"
+              style={{ 
+                background: 'rgba(251, 191, 36, 0.1)',
+                color: '#fbbf24'
+              }}
+              title="The query returned more rows than the data source limit: only the first rows are shown"
+            >
+              <span className="text-xs">partial data</span>
+            </div>
+          )}
+          
           {/* Timestamp */}
           {updatedAt && (
             <span 
               className="text-xs"
               style={{ color: 'var(--text-muted)' }}
+              title={isCached ? 'Cached result: the query ran at this time' : undefined}
             >
-              {formatDate(updatedAt)}
+              {formatDate(updatedAt)}{isCached && ' · cached'}
             </span>
           )}
           
@@ -146,6 +174,35 @@ export default function WidgetHeader({
         </div>
       </div>
       
+      {/* Drill-down breadcrumb */}
+      {breadcrumb && (
+        <div className="flex flex-wrap items-center gap-1 -mt-2 mb-3 text-xs" style={{ color: 'var(--text-muted)' }}>
+          {['All', ...breadcrumb.path].map((crumb, depth) => {
+            const isCurrent = depth === breadcrumb.path.length;
+            return (
+              <span key={depth} className="flex items-center gap-1">
+                {depth > 0 && <ChevronRight size={10} />}
+                {isCurrent ? (
+                  <span style={{ color: 'var(--text-secondary)' }}>{crumb}</span>
+                ) : (
+                  <button
+                    onClick={() => breadcrumb.onNavigate(depth)}
+                    className="hover:underline"
+                    style={{ color: '#3b82f6' }}
+                    title={depth > 0 ? breadcrumb.levels[depth - 1] : undefined}
+                  >
+                    {crumb}
+                  </button>
+                )}
+              </span>
+            );
+          })}
+          {breadcrumb.path.length < breadcrumb.levels.length && (
+            <span className="ml-1 italic">· click a point for {breadcrumb.levels[breadcrumb.path.length]}</span>
+          )}
+        </div>
+      )}
+
       {/* Full error message */}
       {fetchError && (
         <div 
@@ -0,0 +1,12 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import SharedDashboardView from '../../../components/SharedDashboardView';
+
+// Snapshot: i dati arrivano con la dashboard, nessun endpoint di query
+export default function SharedSnapshotPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  return <SharedDashboardView dashboardUrl={`/api/dashboards/shared/snapshots/${token}`} />;
+}
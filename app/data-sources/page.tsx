@@ -80,6 +80,11 @@ function mapDbToDataSource(dbSource: {
     authDatabase: config.authDatabase as string,
     replicaSet: config.replicaSet as string,
     tls: config.tls as boolean,
+    maxConnections: config.maxConnections as number | undefined,
+    statementTimeout: config.statementTimeout as number | undefined,
+    allowWrites: config.allowWrites as boolean | undefined,
+    maxRows: config.maxRows as number | undefined,
+    maxBytes: config.maxBytes as number | undefined,
     status,
     lastSync,
     createdAt: new Date(dbSource.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
@@ -166,6 +171,11 @@ export default function DataSourcesPage() {
             authDatabase: newSource.authDatabase,
             replicaSet: newSource.replicaSet,
             tls: newSource.tls,
+            maxConnections: newSource.maxConnections,
+            statementTimeout: newSource.statementTimeout,
+            allowWrites: newSource.allowWrites,
+            maxRows: newSource.maxRows,
+            maxBytes: newSource.maxBytes,
           },
         }),
       });
@@ -202,6 +212,11 @@ export default function DataSourcesPage() {
             authDatabase: updatedSource.authDatabase,
             replicaSet: updatedSource.replicaSet,
             tls: updatedSource.tls,
+            maxConnections: updatedSource.maxConnections,
+            statementTimeout: updatedSource.statementTimeout,
+            allowWrites: updatedSource.allowWrites,
+            maxRows: updatedSource.maxRows,
+            maxBytes: updatedSource.maxBytes,
           },
         }),
       });
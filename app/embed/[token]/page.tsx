@@ -0,0 +1,18 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import SharedDashboardView from '../../components/SharedDashboardView';
+
+// Dashboard dentro un iframe di un'app esterna: il token firmato porta dashboard e parametri bloccati
+export default function EmbeddedDashboardPage() {
+  const params = useParams();
+  const token = params.token as string;
+
+  return (
+    <SharedDashboardView
+      dashboardUrl={`/api/embed/${token}`}
+      queryUrl={`/api/embed/${token}/query`}
+      embedded
+    />
+  );
+}
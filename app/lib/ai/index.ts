@@ -99,6 +99,13 @@ Widget types:
 
 **Important**: Don't create multiple dashboards for the same topic. Ask user which to use if multiple exist.
 
+### 6. setDashboardFilters
+Define the filter controls in a dashboard header (date range, select/multi select from a query, free text).
+
+**Use this when users want to slice the same dashboard differently** (e.g. "this quarter vs last quarter", "by region")
+instead of rewriting every widget. Filter values feed the query parameters of dynamic widgets by name,
+so create the widgets with matching dataSource.parameters.
+
 ## Workflow
 
 1. **Discovery First**: When a user asks about their data, **start by calling getDataSources** to see what databases are available
@@ -2,6 +2,15 @@ import { tool } from 'ai';
 import { z } from 'zod';
 import { createServiceClient } from '@/app/lib/supabase';
 import { randomUUID } from 'crypto';
+import { bindParameters, executeQuery, PARAMETER_TYPES, type BoundParameter, type ColumnMetadata, type ParameterType } from '@/app/lib/connectors';
+import { validateDrillDown } from '@/app/lib/drill-down';
+import { MIN_REFRESH_INTERVAL, validateRefreshInterval } from '@/app/lib/auto-refresh';
+import { KPI_FORMATS, validateKpi, type KpiFormat } from '@/app/lib/kpi';
+import { PIVOT_AGGREGATIONS, validatePivot, type PivotAggregation } from '@/app/lib/pivot';
+import { FORMAT_TYPES, RULE_ICONS, RULE_OPERATORS, validateFormatting, type FormatType, type RuleIcon, type RuleOperator } from '@/app/lib/formatting';
+import { TEMPLATE_PIPES, validateWidgetTemplate } from '@/app/lib/widget-template';
+import { recordRevision, toSnapshot } from '@/app/lib/dashboard-revisions';
+import { applyLayouts, placeWidget, resolveLayouts, DEFAULT_WIDGET_SIZE, GRID_COLUMNS } from '@/app/lib/dashboard-layout';
 
 /**
  * Add/Update Dashboard Widget Tool - Permette all'AI di aggiungere o modificare widget
@@ -10,12 +19,13 @@ import { randomUUID } from 'crypto';
  * - Aggiunge nuovi widget a dashboard esistenti
  * - Modifica widget esistenti per ID
  * - Crea automaticamente una nuova dashboard se non esiste
- * - Gestisce il position automaticamente
+ * - Colloca il widget sulla griglia a 12 colonne (con indicazioni opzionali di posizione e dimensione)
  * - Supporta tutti i tipi di widget Plotly
  */
 
 export interface AddDashboardWidgetContext {
   userId: string;
+  chatId?: string | null; // Chat da cui parte la modifica (cronologia della dashboard)
 }
 
 // Error types
@@ -27,9 +37,139 @@ type AddWidgetError =
 
 // Result type
 type AddWidgetResult = 
-  | { success: true; message: string; dashboardId: string; dashboardName: string; widgetId: string; widgetTitle: string }
+  | {
+      success: true;
+      message: string;
+      dashboardId: string;
+      dashboardName: string;
+      widgetId: string;
+      widgetTitle: string;
+      resultColumns?: ColumnMetadata[]; // Colonne tipizzate della query (solo widget dinamici)
+      queryWarning?: string; // La query di anteprima è fallita
+    }
   | { success: false; error: AddWidgetError };
 
+/**
+ * Esegue la query del widget con una sola riga per restituire all'AI le colonne tipizzate
+ * (es. per impostare xaxis.type = 'date' sulle colonne timestamp)
+ */
+async function previewQueryColumns(
+  userId: string,
+  datasourceId: string,
+  query: string,
+  params: BoundParameter[]
+): Promise<{ columns?: ColumnMetadata[]; error?: string }> {
+  const serviceClient = createServiceClient();
+  const { data: dataSource, error } = await serviceClient
+    .from('data_sources')
+    .select('config')
+    .eq('id', datasourceId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !dataSource) {
+    return { error: 'Data source not found' };
+  }
+
+  try {
+    const result = await executeQuery(datasourceId, dataSource.config || {}, query, { readOnly: true, limit: 1, params });
+    return { columns: result.columns };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Query execution failed' };
+  }
+}
+
+// Parametri tipizzati di una query (dataSource e livelli di drill-down)
+const parametersSchema = z.array(z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).describe('Parameter name (letters, digits, underscores)'),
+  type: z.enum(PARAMETER_TYPES as [ParameterType, ...ParameterType[]]).describe('Value type: date as "YYYY-MM-DD", timestamp as ISO 8601'),
+  multiple: z.boolean().optional().describe('List of values (multi-select filters). PostgreSQL: col = ANY($1) | MySQL: col IN (?) | SQL Server: col IN (SELECT value FROM OPENJSON(@name)) | SQLite: col IN (SELECT value FROM json_each(@name)) | MongoDB: {"$in": "$$name"}'),
+  default: z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(z.union([z.string(), z.number(), z.boolean()]))]).describe('Value used when the dashboard does not provide one'),
+}));
+
+// Formato di un valore (colonne delle tabelle, misure delle pivot)
+const formatSpecSchema = z.object({
+  type: z.enum(FORMAT_TYPES as [FormatType, ...FormatType[]]).optional().describe('number (default), currency, percent (fraction), compact, date, datetime, time, text'),
+  decimals: z.number().int().min(0).max(6).optional().describe('Decimal digits (default 2, 1 for percent and compact)'),
+  currency: z.string().regex(/^[A-Z]{3}$/).optional().describe('ISO 4217 code for type=currency (default EUR)'),
+  thousands: z.boolean().optional().describe('Thousands separator (default true)'),
+  pattern: z.string().optional().describe('Dates only: e.g. "dd/MM/yyyy", "MMM yyyy", "dd/MM HH:mm" (default: locale day/month/year, e.g. 31/12/2025)'),
+  prefix: z.string().optional(),
+  suffix: z.string().optional(),
+});
+
+// Regole di formattazione condizionale
+const ruleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('threshold'),
+    column: z.string(),
+    operator: z.enum(RULE_OPERATORS as [RuleOperator, ...RuleOperator[]]),
+    value: z.union([z.number(), z.string()]),
+    value2: z.number().optional().describe('Upper bound for between (inclusive)'),
+    color: z.string().optional().describe('Text colour, e.g. "#ef4444"'),
+    background: z.string().optional().describe('Background, e.g. "rgba(239, 68, 68, 0.15)"'),
+    icon: z.enum(RULE_ICONS as [RuleIcon, ...RuleIcon[]]).optional(),
+    row: z.boolean().optional().describe('Colour the whole row'),
+  }),
+  z.object({
+    type: z.literal('colorScale'),
+    column: z.string(),
+    colors: z.array(z.string().regex(/^#[0-9a-fA-F]{6}$/)).min(2).max(3).describe('2 or 3 colours from min to max, e.g. ["#ef4444", "#f59e0b", "#22c55e"]'),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('dataBar'),
+    column: z.string(),
+    color: z.string().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('iconSet'),
+    column: z.string(),
+    thresholds: z.tuple([z.number(), z.number()]).describe('Below the first: low, from the second: high'),
+    style: z.enum(['arrows', 'traffic']).optional(),
+    higherIsBetter: z.boolean().optional(),
+  }),
+]);
+
+// Formattazione delle tabelle (template.formatting e data.formatting)
+const formattingSchema = z.object({
+  locale: z.string().optional().describe('BCP 47 locale (default it-IT)'),
+  columns: z.record(z.string(), formatSpecSchema).optional().describe('Table column header → format'),
+  rules: z.array(ruleSchema).optional().describe('Conditional formatting, applied in order (later rules win)'),
+});
+
+// Aspetto dei KPI (template.kpi e data.kpi)
+const kpiSchema = z.object({
+  format: z.enum(KPI_FORMATS as [KpiFormat, ...KpiFormat[]]).optional().describe('number (default), currency, percent (value is a fraction), compact (1.2K, 3.4M)'),
+  currency: z.string().regex(/^[A-Z]{3}$/).optional().describe('ISO 4217 code for format=currency (default EUR)'),
+  decimals: z.number().int().min(0).max(6).optional().describe('Decimal digits (default 0, 1 for percent and compact)'),
+  comparisonType: z.enum(['previous', 'target']).optional().describe('What the comparison value is (default previous)'),
+  comparisonLabel: z.string().optional().describe('Text next to the delta (e.g. "vs last month")'),
+  higherIsBetter: z.boolean().optional().describe('false if a decrease is good (costs, churn): the delta turns green when it goes down (default true)'),
+  locale: z.string().optional().describe('BCP 47 locale (default it-IT)'),
+  rules: z.array(ruleSchema).optional().describe('threshold and iconSet rules on the value (column is ignored, use "value")'),
+});
+
+// Configurazione delle pivot (template.pivot e data.pivot)
+const pivotAggregationSchema = z.enum(PIVOT_AGGREGATIONS as [PivotAggregation, ...PivotAggregation[]]);
+const pivotSchema = z.object({
+  rows: z.array(z.string()).min(1).describe('Row dimensions (column names), outermost first'),
+  columns: z.array(z.string()).describe('Column dimensions (column names), outermost first. [] for a single value column'),
+  measures: z.array(z.object({
+    field: z.string().describe('Column aggregated'),
+    aggregation: pivotAggregationSchema.optional().describe('Overrides the table aggregation for this measure'),
+    label: z.string().optional().describe('Header (default "<aggregation> of <field>")'),
+    format: formatSpecSchema.optional().describe('Value format (default: number with 2 decimals)'),
+  })).min(1),
+  aggregation: pivotAggregationSchema.optional().describe('Aggregation of the measures (default sum)'),
+  subtotals: z.boolean().optional().describe('Subtotal on every row group (default true)'),
+  grandTotals: z.boolean().optional().describe('Total row and total column (default true)'),
+  locale: z.string().optional().describe('BCP 47 locale (default it-IT)'),
+});
+
 // Factory function per creare il tool con contesto
 export function createAddDashboardWidgetTool(context: AddDashboardWidgetContext) {
   return tool({
@@ -55,6 +195,25 @@ DYNAMIC WIDGETS (data fetched live from data sources):
 - Set isDynamic=true, provide dataSource (datasourceId + query), and template with {{column_name}} placeholders
 - Data refreshes automatically when dashboard opens
 - Shown with lightning icon ⚡
+- Queries run in READ-ONLY mode: use only SELECT/WITH statements (MongoDB: no $out/$merge stages)
+- The result includes resultColumns with the logical type of each column (integer, decimal, text, boolean, date, timestamp, json, binary): use it to check placeholders and set Plotly axis types (e.g. xaxis.type = "date" for date/timestamp columns), then update the widget if needed
+- Results are cached on the server for cacheTtl seconds (default 60). Use a higher cacheTtl for slow-changing data, 0 for real-time data
+- refreshInterval (seconds, 0 = off, min ${MIN_REFRESH_INTERVAL}) re-runs the query automatically while the dashboard is open, e.g. 30 or 60 for operations screens. Without it the widget uses the dashboard interval, set by the user in the dashboard header
+- NEVER concatenate values into the query: declare dataSource.parameters (name, type, default) and use the database placeholder. Values are bound by the driver
+  PostgreSQL: $1, $2 (declaration order) | MySQL/MariaDB: ? (one per parameter, declaration order) | SQL Server: @name | SQLite: ? or @name | MongoDB: "$$name" as a JSON string value
+  Example: query "SELECT day, SUM(amount) AS total FROM sales WHERE day >= $1 GROUP BY day", parameters [{ name: "from", type: "date", default: "2025-01-01" }]
+- Dashboard filters (setDashboardFilters) fill parameters with the same name: <id> for text/select/multiSelect, <id>_from and <id>_to for dateRange
+- Drill-down (dynamic charts only): drillDown lists the levels below the widget query (e.g. year → quarter → month). Clicking a point runs the next level query with the clicked value in its parameter; a breadcrumb steps back up. Values accumulate: the month level receives both year and quarter parameters if it declares them
+  Example: query "SELECT year, SUM(amount) AS total FROM sales GROUP BY year", drillDown [{ parameter: "year", label: "Quarter", query: "SELECT quarter, SUM(amount) AS total FROM sales WHERE year = $1 GROUP BY quarter", parameters: [{ name: "year", type: "integer", default: null }] }, { parameter: "quarter", label: "Month", query: "... WHERE year = $1 AND quarter = $2 ...", parameters: [{ name: "year", ... }, { name: "quarter", ... }] }]
+  Use ONE drillable widget instead of one widget per aggregation level
+- Cross-filter (dynamic charts only): set crossFilter.parameter and clicking/selecting points fills that parameter in every other dynamic widget that declares it (declare it with multiple=true to accept box/lasso selections of several points)
+
+LAYOUT (12-column grid, rows of 40px):
+- Without layout new widgets go after the last one: next to it if there is room, otherwise below. Default size is full width
+- layout.w sets the width (6 = half, 4 = third): two consecutive widgets with w=6 end up side by side
+- layout.x + layout.y place the widget exactly there; the widgets in the way move down
+- On update, layout moves/resizes the widget; without layout it stays where the user put it
+- getDashboards returns the current layout of every widget
 
 **1. chart (Plotly charts)**
 
@@ -97,12 +256,24 @@ Example DYNAMIC table:
   }
 }
 
+Formatting (template.formatting for dynamic tables, data.formatting for static ones), keyed by the table column headers:
+- locale: default it-IT (1.234,56 €, 31/12/2025). Without a format, decimals are rounded to 2 digits and ISO dates/timestamps are shown in the locale format
+- columns: { "Revenue": { type: "currency", currency: "EUR" }, "Share": { type: "percent" }, "Day": { type: "date", pattern: "dd MMM yyyy" } }
+  types: ${FORMAT_TYPES.join(', ')}; decimals, thousands (separator, default true), prefix, suffix
+- rules (evaluated on the raw values, later rules win):
+  { type: "threshold", column: "Margin", operator: "<", value: 0, color: "#ef4444", icon: "warning" } (operators ${RULE_OPERATORS.join(' ')}; between uses value and value2; row: true colours the whole row)
+  { type: "colorScale", column: "Revenue", colors: ["#ef4444", "#f59e0b", "#22c55e"] }
+  { type: "dataBar", column: "Orders", color: "#3b82f6" }
+  { type: "iconSet", column: "Growth", thresholds: [0, 0.05], style: "arrows" }
+  icons: ${RULE_ICONS.join(', ')}
+Viewers can sort, filter, search and export tables themselves: no need to create variants for that.
+
 **3. markdown** - Text notes and summaries
 
 STATIC: Provide content with markdown text directly
-DYNAMIC: Set isDynamic=true, provide dataSource and template.content with {{column_name}} placeholders
+DYNAMIC: Set isDynamic=true, provide dataSource and template.content using the template language (see "Template language" below)
 
-Example DYNAMIC markdown:
+Example DYNAMIC markdown (single row):
 {
   isDynamic: true,
   dataSource: {
@@ -110,18 +281,74 @@ Example DYNAMIC markdown:
     query: "SELECT current_date as date, SUM(amount) as total, COUNT(*) as orders FROM sales WHERE date = CURRENT_DATE"
   },
   template: {
-    content: "# Daily Report {{date}}\\n\\n**Total Sales:** {{total}}€\\n**Orders:** {{orders}}"
+    content: "# Daily Report {{date | date:\\"dd/MM/yyyy\\"}}\\n\\n**Total Sales:** {{total | currency:\\"EUR\\"}}\\n**Orders:** {{orders | number:0}}"
   }
 }
 
-Note: Query should return a SINGLE ROW for markdown (use aggregations or LIMIT 1)
+Example DYNAMIC markdown (list and conditional):
+  template: {
+    content: "## Top customers\\n{{#each rows limit:10}}{{@number}}. **{{name}}**: {{revenue | currency}}\\n{{else}}No sales yet{{/each}}\\n\\nRevenue is {{#if rows.0.growth > 0}}up {{rows.0.growth | percent}}{{else}}down{{/if}} vs last month"
+  }
+
+Note: plain {{column}} in markdown reads the FIRST row; use {{#each rows}} to list several rows
+
+**4. kpi** - Big number with comparison delta and sparkline (use this instead of markdown for single metrics)
 
-**4. query** - DEPRECATED! Use dynamic chart/table instead!
+STATIC: Provide data.kpi with value (number), optional comparison (number) and sparkline (array of numbers)
+DYNAMIC: Set isDynamic=true, provide dataSource and template.kpi with the COLUMN NAMES (no placeholders): value, comparison, sparkline
+- value and comparison are read from the LAST row; sparkline uses that column from all rows. For a sparkline return one row per period in chronological order
+- comparison is the previous period (comparisonType "previous") or a target (comparisonType "target")
+- format: ${KPI_FORMATS.join(', ')} (percent expects a fraction: 0.25 = 25%), currency (ISO code, default EUR), decimals
+- higherIsBetter=false colours a decrease green (e.g. costs, churn, response time)
+- locale (default it-IT) and rules (threshold and iconSet on the value, see table formatting) are optional
+- Default size is 3 columns x 4 rows: four KPIs side by side
+
+Example DYNAMIC kpi:
+{
+  isDynamic: true,
+  dataSource: {
+    datasourceId: "uuid-here",
+    query: "SELECT month, SUM(amount) AS revenue, LAG(SUM(amount)) OVER (ORDER BY month) AS previous FROM sales GROUP BY month ORDER BY month"
+  },
+  template: {
+    kpi: { value: "revenue", comparison: "previous", sparkline: "revenue", format: "currency", currency: "EUR", comparisonLabel: "vs last month" }
+  }
+}
+
+**5. pivot** - Crosstab with aggregation, subtotals, grand totals and collapsible row groups (e.g. revenue by product x month)
+
+The pivot is computed in the browser over the raw rows: do NOT aggregate in SQL, return one row per record (or pre-aggregated at the finest grain)
+- rows: row dimensions, outermost first (e.g. ["region", "product"]: products grouped under regions, collapsible)
+- columns: column dimensions (e.g. ["month"]), [] for no column split
+- measures: [{ field, aggregation?, label? }]; aggregation is ${PIVOT_AGGREGATIONS.join(', ')} (default sum, or the table-level aggregation)
+- measures accept format (see table formatting, default number with 2 decimals); locale defaults to it-IT
+- subtotals (default true) and grandTotals (default true). Subtotals and totals aggregate the underlying rows (avg is a true average)
+- Uses the whole query result (not paginated, up to the data source row limit): keep the dimensions low-cardinality
+STATIC: data.pivot with the configuration and records (array of objects keyed by column name)
+DYNAMIC: Set isDynamic=true, provide dataSource and template.pivot with the configuration (column names, no placeholders)
+
+Example DYNAMIC pivot:
+{
+  isDynamic: true,
+  dataSource: {
+    datasourceId: "uuid-here",
+    query: "SELECT p.name AS product, to_char(o.created_at, 'YYYY-MM') AS month, o.amount FROM orders o JOIN products p ON p.id = o.product_id"
+  },
+  template: {
+    pivot: { rows: ["product"], columns: ["month"], measures: [{ field: "amount", label: "Revenue" }], aggregation: "sum" }
+  }
+}
+
+**6. query** - DEPRECATED! Use dynamic chart/table instead!
    This type is deprecated. For live data, use isDynamic=true on chart/table widgets.
 
-**Placeholder Syntax:**
-- {{column_name}} gets replaced with array of all values from that column
+**Template language:**
+- "{{column_name}}" as a whole string in chart/table templates gets replaced with the array of all values from that column ("{{column | pipe}}" formats each value)
 - {{*}} for tables auto-maps all rows
+- Anywhere else (markdown content, chart titles, ...): {{column}} is the value in the first row, {{rows.0.column}} / {{rows.last.column}} index rows, {{rowCount}} counts them
+- Pipes, chainable: ${TEMPLATE_PIPES.join(', ')}. Arguments after a colon, comma-separated: {{revenue | currency:"USD",0}}, {{day | date:"dd/MM"}}, {{name | truncate:20 | upper}}, {{delta | percent | sign}}, {{note | default:"n/a"}}. Formats use the it-IT locale
+- Loops: {{#each rows}}...{{/each}} (optional limit:N and {{else}} when empty); inside, columns of the current row, {{this}}, {{@index}} (0-based), {{@number}} (1-based), {{@first}}, {{@last}}, {{../column}} for the outer scope
+- Conditionals: {{#if value}}, {{#if growth > 0}} (==, !=, >, >=, <, <=; literals: numbers, "strings", true, false, null), {{else}}, {{/if}}; {{#unless value}}...{{/unless}}
 - Column names must match SQL query results exactly
 
 **Adding vs Updating:**
@@ -140,7 +367,7 @@ Always ask user which dashboard to use if multiple suitable ones exist!
       widgetId: z.string().optional().describe('Widget ID to update. If provided, updates existing widget. If omitted, creates new widget.'),
       dashboardName: z.string().optional().describe('Name for new dashboard (only used if dashboardId is not provided). Default: "AI Dashboard"'),
       dashboardDescription: z.string().optional().describe('Brief description for new dashboard (3-5 words, e.g., "Sales performance overview"). Only used if creating new dashboard.'),
-      widgetType: z.enum(['chart', 'table', 'markdown', 'query']).describe('Type of widget: chart, table, markdown, or query (query is deprecated, use dynamic chart/table instead)'),
+      widgetType: z.enum(['chart', 'table', 'markdown', 'kpi', 'pivot', 'query']).describe('Type of widget: chart, table, markdown, kpi, pivot, or query (query is deprecated, use dynamic chart/table instead)'),
       title: z.string().describe('Widget title (e.g., "Monthly Revenue (Live)", "Top Products")'),
       
       // Dynamic widget fields
@@ -148,7 +375,28 @@ Always ask user which dashboard to use if multiple suitable ones exist!
       dataSource: z.object({
         datasourceId: z.string().uuid().describe('Data source ID to query'),
         query: z.string().describe('SQL query to execute (for SQL databases) or JSON for MongoDB'),
+        parameters: parametersSchema.optional().describe('Typed parameters bound to the query placeholders (see description)'),
       }).optional().describe('Data source configuration for dynamic widgets. Required if isDynamic=true'),
+      cacheTtl: z.number().int().min(0).optional().describe('Dynamic widgets only: seconds the query result is cached on the server (default 60, 0 = always query the data source)'),
+      refreshInterval: z.number().int().min(0).optional().describe(`Dynamic widgets only: seconds between automatic refreshes while the dashboard is open (0 = off, min ${MIN_REFRESH_INTERVAL}; default: the dashboard interval)`),
+      crossFilter: z.object({
+        parameter: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).describe('Parameter set on the other widgets when the user clicks or selects points'),
+        field: z.enum(['x', 'y', 'label', 'customdata']).optional().describe('Point value to use (default: label for pie charts, x otherwise)'),
+      }).optional().describe('Dynamic charts only: clicking a point filters the other widgets of the dashboard'),
+      drillDown: z.array(z.object({
+        parameter: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).describe('Parameter receiving the value of the point clicked in the level above'),
+        label: z.string().optional().describe('Level name shown in the breadcrumb (e.g. "Quarter")'),
+        query: z.string().describe('Query of this level'),
+        parameters: parametersSchema.describe('Parameters of this level query: its own parameter and those of the levels above it that the query uses'),
+        template: z.unknown().optional().describe('Template of this level (default: the widget template)'),
+        field: z.enum(['x', 'y', 'label', 'customdata']).optional().describe('Value of the clicked point (default: label for pie charts, x otherwise)'),
+      })).optional().describe('Dynamic charts only: levels below the widget query, entered by clicking a point (see description)'),
+      layout: z.object({
+        x: z.number().int().min(0).max(GRID_COLUMNS - 1).optional().describe('Column (0-11)'),
+        y: z.number().int().min(0).optional().describe('Row (0 = top)'),
+        w: z.number().int().min(1).max(GRID_COLUMNS).optional().describe('Width in columns (12 = full width, 6 = half, 4 = third)'),
+        h: z.number().int().min(1).optional().describe('Height in rows of 40px (default: 8 for charts, 9 for tables, 5 for markdown, 4 for kpi, 10 for pivot)'),
+      }).optional().describe('Placement hint on the 12-column grid (see description)'),
       template: z.object({
         // Chart template with placeholders
         plotlyConfig: z.object({
@@ -158,8 +406,18 @@ Always ask user which dashboard to use if multiple suitable ones exist!
         // Table template with placeholders
         columns: z.array(z.string()).optional(),
         rows: z.unknown().optional(), // Can be "{{*}}" or array with placeholders
+        pageSize: z.number().int().positive().optional().describe('Tables only: rows per page (default 100). Large results are paginated server-side'),
+        formatting: formattingSchema.optional().describe('Tables only: column formats and conditional formatting'),
         // Markdown template with placeholders
         content: z.string().optional(),
+        // KPI template: column names
+        kpi: kpiSchema.extend({
+          value: z.string().describe('Column with the value shown (last row)'),
+          comparison: z.string().optional().describe('Column with the comparison value (last row)'),
+          sparkline: z.string().optional().describe('Column plotted as sparkline (all rows, in order)'),
+        }).optional(),
+        // Pivot template: dimensions and measures (column names)
+        pivot: pivotSchema.optional(),
       }).optional().describe('Template with {{column_name}} placeholders for dynamic widgets. Required if isDynamic=true'),
       
       // Static widget data (for non-dynamic widgets)
@@ -172,15 +430,26 @@ Always ask user which dashboard to use if multiple suitable ones exist!
         // Table data
         columns: z.array(z.string()).optional(),
         rows: z.array(z.array(z.unknown())).optional(),
+        formatting: formattingSchema.optional().describe('Column formats and conditional formatting'),
         // Markdown data
         content: z.string().optional(),
+        // KPI data
+        kpi: kpiSchema.extend({
+          value: z.number().nullable().describe('Value shown'),
+          comparison: z.number().nullable().optional().describe('Previous period or target value'),
+          sparkline: z.array(z.number()).optional().describe('Series plotted as sparkline, in chronological order'),
+        }).optional(),
+        // Pivot data
+        pivot: pivotSchema.extend({
+          records: z.array(z.record(z.string(), z.unknown())).describe('Rows as objects keyed by column name'),
+        }).optional(),
         // Query data (deprecated)
         query: z.string().optional(),
         description: z.string().optional(),
         datasourceId: z.string().uuid().optional(),
       }).optional().describe('Widget data for static widgets. For dynamic widgets, use template instead'),
     }),
-    execute: async ({ dashboardId, widgetId, dashboardName, dashboardDescription, widgetType, title, isDynamic, dataSource, template, data }): Promise<AddWidgetResult> => {
+    execute: async ({ dashboardId, widgetId, dashboardName, dashboardDescription, widgetType, title, isDynamic, dataSource, cacheTtl, refreshInterval, crossFilter, drillDown, layout, template, data }): Promise<AddWidgetResult> => {
       try {
         const serviceClient = createServiceClient();
         let targetDashboardId = dashboardId;
@@ -199,6 +468,48 @@ Always ask user which dashboard to use if multiple suitable ones exist!
             };
           }
 
+          try {
+            bindParameters(dataSource.parameters);
+          } catch (err) {
+            return {
+              success: false,
+              error: {
+                type: 'INVALID_WIDGET_DATA',
+                message: err instanceof Error ? err.message : 'Invalid dataSource.parameters',
+                hint: 'Each parameter needs a unique name, a type and a default value of that type',
+              },
+            };
+          }
+
+          try {
+            validateRefreshInterval(refreshInterval);
+          } catch (err) {
+            return {
+              success: false,
+              error: {
+                type: 'INVALID_WIDGET_DATA',
+                message: err instanceof Error ? err.message : 'Invalid refreshInterval',
+                hint: `Use 0 to disable or at least ${MIN_REFRESH_INTERVAL} seconds`,
+              },
+            };
+          }
+
+          if (drillDown) {
+            try {
+              validateDrillDown(drillDown);
+              drillDown.forEach(level => bindParameters(level.parameters));
+            } catch (err) {
+              return {
+                success: false,
+                error: {
+                  type: 'INVALID_WIDGET_DATA',
+                  message: err instanceof Error ? err.message : 'Invalid drillDown',
+                  hint: 'Each level needs a unique parameter, a query and parameters declaring that parameter',
+                },
+              };
+            }
+          }
+
           if (!template) {
             return {
               success: false,
@@ -210,6 +521,21 @@ Always ask user which dashboard to use if multiple suitable ones exist!
             };
           }
 
+          // Sintassi dei template (anche quelli dei livelli di drill-down)
+          try {
+            validateWidgetTemplate(template);
+            drillDown?.forEach((level, i) => validateWidgetTemplate(level.template, `drillDown[${i}].template`));
+          } catch (err) {
+            return {
+              success: false,
+              error: {
+                type: 'INVALID_WIDGET_DATA',
+                message: err instanceof Error ? err.message : 'Invalid template',
+                hint: 'Check the template syntax: {{column | pipe:"arg"}}, {{#each rows}}...{{/each}}, {{#if value > 0}}...{{else}}...{{/if}}',
+              },
+            };
+          }
+
           if (widgetType === 'chart' && !template.plotlyConfig) {
             return {
               success: false,
@@ -232,6 +558,51 @@ Always ask user which dashboard to use if multiple suitable ones exist!
             };
           }
 
+          if (widgetType === 'table' && template.formatting) {
+            try {
+              validateFormatting(template.formatting, template.columns);
+            } catch (err) {
+              return {
+                success: false,
+                error: {
+                  type: 'INVALID_WIDGET_DATA',
+                  message: err instanceof Error ? err.message : 'Invalid template.formatting',
+                  hint: 'Example: formatting: { columns: { "Revenue": { type: "currency" } }, rules: [{ type: "threshold", column: "Revenue", operator: "<", value: 0, color: "#ef4444" }] }',
+                },
+              };
+            }
+          }
+
+          if (widgetType === 'kpi') {
+            try {
+              validateKpi(template.kpi, true);
+            } catch (err) {
+              return {
+                success: false,
+                error: {
+                  type: 'INVALID_WIDGET_DATA',
+                  message: err instanceof Error ? err.message : 'Invalid template.kpi',
+                  hint: 'Example: template: { kpi: { value: "revenue", comparison: "previous", format: "currency" } }',
+                },
+              };
+            }
+          }
+
+          if (widgetType === 'pivot') {
+            try {
+              validatePivot(template.pivot, true);
+            } catch (err) {
+              return {
+                success: false,
+                error: {
+                  type: 'INVALID_WIDGET_DATA',
+                  message: err instanceof Error ? err.message : 'Invalid template.pivot',
+                  hint: 'Example: template: { pivot: { rows: ["product"], columns: ["month"], measures: [{ field: "amount" }] } }',
+                },
+              };
+            }
+          }
+
           if (widgetType === 'markdown' && !template.content) {
             return {
               success: false,
@@ -268,6 +639,51 @@ Always ask user which dashboard to use if multiple suitable ones exist!
             };
           }
 
+          if (widgetType === 'table' && data.formatting) {
+            try {
+              validateFormatting(data.formatting, data.columns);
+            } catch (err) {
+              return {
+                success: false,
+                error: {
+                  type: 'INVALID_WIDGET_DATA',
+                  message: err instanceof Error ? err.message : 'Invalid data.formatting',
+                  hint: 'Example: formatting: { columns: { "Revenue": { type: "currency" } }, rules: [{ type: "dataBar", column: "Revenue" }] }',
+                },
+              };
+            }
+          }
+
+          if (widgetType === 'kpi') {
+            try {
+              validateKpi(data.kpi, false);
+            } catch (err) {
+              return {
+                success: false,
+                error: {
+                  type: 'INVALID_WIDGET_DATA',
+                  message: err instanceof Error ? err.message : 'Invalid data.kpi',
+                  hint: 'Example: data: { kpi: { value: 1250, comparison: 1100, format: "number" } }',
+                },
+              };
+            }
+          }
+
+          if (widgetType === 'pivot') {
+            try {
+              validatePivot(data.pivot, false);
+            } catch (err) {
+              return {
+                success: false,
+                error: {
+                  type: 'INVALID_WIDGET_DATA',
+                  message: err instanceof Error ? err.message : 'Invalid data.pivot',
+                  hint: 'Example: data: { pivot: { rows: ["product"], columns: ["month"], measures: [{ field: "amount" }], records: [{ product: "A", month: "2024-01", amount: 10 }] } }',
+                },
+              };
+            }
+          }
+
           if (widgetType === 'markdown' && !data.content) {
             return {
               success: false,
@@ -291,6 +707,8 @@ Always ask user which dashboard to use if multiple suitable ones exist!
           }
         }
 
+        let isNewDashboard = false;
+
         // Se non è fornito dashboardId, crea una nuova dashboard
         if (!targetDashboardId) {
           console.log('[ADD_DASHBOARD_WIDGET] Creating new dashboard');
@@ -323,6 +741,7 @@ Always ask user which dashboard to use if multiple suitable ones exist!
 
           targetDashboardId = newDashboard.id;
           targetDashboardName = newDashboard.name;
+          isNewDashboard = true;
           console.log('[ADD_DASHBOARD_WIDGET] Created dashboard:', targetDashboardId);
         }
 
@@ -376,12 +795,17 @@ Always ask user which dashboard to use if multiple suitable ones exist!
             type: widgetType,
             title,
             position: existingWidget.position,
+            ...(existingWidget.layout ? { layout: existingWidget.layout } : {}),
             created_at: existingWidget.created_at || new Date().toISOString(), // Mantieni created_at esistente
             updated_at: new Date().toISOString(), // Aggiorna timestamp
             ...(isDynamic ? {
               isDynamic: true,
               dataSource,
               template,
+              ...(cacheTtl !== undefined ? { cacheTtl } : {}),
+              ...(refreshInterval !== undefined ? { refreshInterval } : {}),
+              ...(crossFilter && widgetType === 'chart' ? { crossFilter } : {}),
+              ...(drillDown?.length && widgetType === 'chart' ? { drillDown } : {}),
               data: {}, // Empty data for dynamic widgets (will be populated on fetch)
             } : {
               isDynamic: false,
@@ -412,6 +836,10 @@ Always ask user which dashboard to use if multiple suitable ones exist!
               isDynamic: true,
               dataSource,
               template,
+              ...(cacheTtl !== undefined ? { cacheTtl } : {}),
+              ...(refreshInterval !== undefined ? { refreshInterval } : {}),
+              ...(crossFilter && widgetType === 'chart' ? { crossFilter } : {}),
+              ...(drillDown?.length && widgetType === 'chart' ? { drillDown } : {}),
               data: {}, // Empty data for dynamic widgets (will be populated on fetch)
             } : {
               isDynamic: false,
@@ -424,6 +852,15 @@ Always ask user which dashboard to use if multiple suitable ones exist!
           console.log('[ADD_DASHBOARD_WIDGET] Creating new widget:', widgetIdToUse, isDynamic ? '(dynamic)' : '(static)');
         }
 
+        // Colloca sulla griglia il nuovo widget (o quello aggiornato, se ci sono indicazioni); gli altri restano dove sono
+        if (!isUpdate || layout) {
+          const current = resolveLayouts(updatedWidgets);
+          const size = isUpdate
+            ? current.find(item => item.id === widgetIdToUse)!.layout
+            : DEFAULT_WIDGET_SIZE[widgetType];
+          updatedWidgets = applyLayouts(updatedWidgets, placeWidget(current, widgetIdToUse, size, layout));
+        }
+
         // Aggiorna la dashboard
         const { error: updateError } = await serviceClient
           .from('dashboards')
@@ -448,11 +885,25 @@ Always ask user which dashboard to use if multiple suitable ones exist!
 
         console.log(`[ADD_DASHBOARD_WIDGET] Widget ${isUpdate ? 'updated' : 'added'} successfully:`, widgetIdToUse);
 
+        await recordRevision(serviceClient, {
+          dashboardId: dashboard.id,
+          userId: context.userId,
+          before: isNewDashboard ? null : toSnapshot(dashboard),
+          after: toSnapshot({ ...dashboard, widgets: updatedWidgets }),
+          author: 'ai',
+          chatId: context.chatId,
+        });
+
         // Type guard - questo non dovrebbe mai accadere data la logica sopra
         if (!targetDashboardId) {
           throw new Error('targetDashboardId is undefined after dashboard creation/retrieval');
         }
 
+        // Anteprima della query: colonne e tipi per correggere il template se serve
+        const preview = isDynamic && dataSource
+          ? await previewQueryColumns(context.userId, dataSource.datasourceId, dataSource.query, bindParameters(dataSource.parameters))
+          : undefined;
+
         return {
           success: true,
           message: isUpdate 
@@ -462,6 +913,8 @@ Always ask user which dashboard to use if multiple suitable ones exist!
           dashboardName: targetDashboardName,
           widgetId: widgetIdToUse,
           widgetTitle: title,
+          ...(preview?.columns ? { resultColumns: preview.columns } : {}),
+          ...(preview?.error ? { queryWarning: `The widget was saved but its query failed: ${preview.error}` } : {}),
         };
 
       } catch (error) {
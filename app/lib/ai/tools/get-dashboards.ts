@@ -1,6 +1,10 @@
 import { tool } from 'ai';
 import { z } from 'zod';
 import { createServiceClient } from '@/app/lib/supabase';
+import { resolveLayouts, type WidgetLayout } from '@/app/lib/dashboard-layout';
+import type { QueryParameter } from '@/app/lib/connectors';
+import type { DashboardFilter } from '@/app/lib/dashboard-filters';
+import type { DrillLevel } from '@/app/lib/drill-down';
 
 /**
  * Get Dashboards Tool - Permette all'AI di vedere le dashboard dell'utente
@@ -30,7 +34,13 @@ type GetDashboardsResult =
           type: string;
           title: string;
           position: number;
+          layout: WidgetLayout; // Geometria sulla griglia a 12 colonne
+          parameters?: string[]; // Nomi dei parametri della query (widget dinamici)
+          drillDown?: string[]; // Parametri dei livelli di drill-down (chart dinamici)
+          refreshInterval?: number; // Secondi tra due aggiornamenti automatici (se impostato sul widget)
         }>;
+        refreshInterval: number; // Intervallo della dashboard (0 = nessun aggiornamento automatico)
+        filters: Array<{ id: string; label: string; type: string }>;
         createdAt: string;
         updatedAt: string;
       }>;
@@ -62,7 +72,8 @@ If suitable dashboard exists, ASK the user which to use.
 
 Returns:
 - Dashboard ID, name, and description
-- List of widgets (id, type, title, position) - use widgetId to update existing ones
+- List of widgets (id, type, title, position, layout on the 12-column grid, query parameter names) - use widgetId to update existing ones
+- Dashboard filters (id, label, type) - set them with setDashboardFilters
 - Number of widgets and their types
 - Creation and update timestamps
 
@@ -95,6 +106,7 @@ This helps you make informed decisions about where to add/update visualizations.
         const dashboardList = (dashboards || []).map((dashboard: any) => {
           const widgets = dashboard.widgets || [];
           const widgetTypes = [...new Set(widgets.map((w: any) => w.type))];
+          const layouts = resolveLayouts(widgets);
 
           return {
             id: dashboard.id,
@@ -107,7 +119,17 @@ This helps you make informed decisions about where to add/update visualizations.
               type: w.type,
               title: w.title,
               position: w.position,
+              layout: layouts.find(item => item.id === w.id)!.layout,
+              ...(w.dataSource?.parameters?.length
+                ? { parameters: w.dataSource.parameters.map((p: QueryParameter) => p.name) }
+                : {}),
+              ...(w.drillDown?.length
+                ? { drillDown: w.drillDown.map((l: DrillLevel) => l.parameter) }
+                : {}),
+              ...(w.refreshInterval !== undefined ? { refreshInterval: w.refreshInterval } : {}),
             })),
+            refreshInterval: dashboard.layout_config?.refreshInterval ?? 0,
+            filters: (dashboard.filters || []).map((f: DashboardFilter) => ({ id: f.id, label: f.label, type: f.type })),
             createdAt: dashboard.created_at,
             updatedAt: dashboard.updated_at,
           };
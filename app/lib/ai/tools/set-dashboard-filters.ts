@@ -0,0 +1,168 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { createServiceClient } from '@/app/lib/supabase';
+import { DATE_RANGE_PRESETS, validateFilters, type DateRangePreset } from '@/app/lib/dashboard-filters';
+import { recordRevision, toSnapshot } from '@/app/lib/dashboard-revisions';
+
+/**
+ * Set Dashboard Filters Tool - Permette all'AI di definire i filtri di una dashboard
+ *
+ * Capabilities:
+ * - Sostituisce i filtri della dashboard (date range, select/multi select da query, testo libero)
+ * - I valori dei filtri alimentano i parametri delle query dei widget dinamici per nome
+ */
+
+export interface SetDashboardFiltersContext {
+  userId: string;
+  chatId?: string | null; // Chat da cui parte la modifica (cronologia della dashboard)
+}
+
+// Result type
+type SetDashboardFiltersResult =
+  | {
+      success: true;
+      message: string;
+      dashboardId: string;
+      dashboardName: string;
+      filterIds: string[];
+    }
+  | {
+      success: false;
+      error: {
+        type: 'DASHBOARD_NOT_FOUND' | 'INVALID_FILTERS' | 'DATABASE_ERROR' | 'EXECUTION_ERROR';
+        message: string;
+        details?: string;
+      };
+    };
+
+const PRESETS = Object.keys(DATE_RANGE_PRESETS) as [DateRangePreset, ...DateRangePreset[]];
+
+// Factory function per creare il tool con contesto
+export function createSetDashboardFiltersTool(context: SetDashboardFiltersContext) {
+  return tool({
+    description: `Set the filter controls shown in a dashboard header. Replaces all existing filters of the dashboard.
+
+Filters let users change the slice of data (e.g. this quarter vs last quarter) without rewriting widgets.
+Each filter feeds the query parameters of DYNAMIC widgets (addDashboardWidget dataSource.parameters) by name:
+- text: parameter named <id> (type text)
+- select: parameter named <id> (any type; options come from a query)
+- multiSelect: parameter named <id> with multiple=true
+- dateRange: parameters named <id>_from and <id>_to (type date, both inclusive)
+
+When a filter is empty the widget uses the parameter default, so give every parameter a default meaning "no filter"
+(e.g. a very old date for <id>_from, or write the query as ($1 IS NULL OR region = $1) with default null).
+
+select/multiSelect options come from options.query: first column = value, second column (optional) = label.
+Example: { id: "region", label: "Region", type: "select", options: { datasourceId: "uuid", query: "SELECT DISTINCT region FROM sales ORDER BY 1" } }
+
+dateRange default can be a relative preset (${PRESETS.join(', ')}) recomputed every time the dashboard opens,
+or fixed dates { from: "YYYY-MM-DD", to: "YYYY-MM-DD" }.
+Example: { id: "period", label: "Period", type: "dateRange", default: { preset: "thisQuarter" } }
+and a widget query "... WHERE day BETWEEN $1 AND $2" with parameters [{ name: "period_from", type: "date", default: "1900-01-01" }, { name: "period_to", type: "date", default: "2999-12-31" }]
+
+Always call getDashboards first to get the dashboard ID and its current filters.`,
+    inputSchema: z.object({
+      dashboardId: z.string().uuid().describe('Dashboard ID'),
+      filters: z.array(z.object({
+        id: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/).describe('Filter id = parameter name used by widget queries'),
+        label: z.string().describe('Label shown in the dashboard header'),
+        type: z.enum(['dateRange', 'select', 'multiSelect', 'text']),
+        default: z.union([
+          z.string(),
+          z.array(z.string()),
+          z.object({
+            preset: z.enum(PRESETS).optional(),
+            from: z.string().optional(),
+            to: z.string().optional(),
+          }),
+          z.null(),
+        ]).optional().describe('Initial value: string (text/select), array of strings (multiSelect), { preset } or { from, to } (dateRange)'),
+        options: z.object({
+          datasourceId: z.string().uuid(),
+          query: z.string().describe('Query returning the options: first column = value, second = label'),
+        }).optional().describe('Required for select and multiSelect'),
+      })).describe('All filters of the dashboard, in display order. Empty array removes all filters'),
+    }),
+    execute: async ({ dashboardId, filters }): Promise<SetDashboardFiltersResult> => {
+      try {
+        try {
+          validateFilters(filters);
+        } catch (err) {
+          return {
+            success: false,
+            error: {
+              type: 'INVALID_FILTERS',
+              message: err instanceof Error ? err.message : 'Invalid filters',
+            },
+          };
+        }
+
+        const serviceClient = createServiceClient();
+
+        // Versione attuale (per la cronologia)
+        const { data: existing } = await serviceClient
+          .from('dashboards')
+          .select('name, description, widgets, filters, layout_config')
+          .eq('id', dashboardId)
+          .eq('user_id', context.userId)
+          .single();
+
+        const { data: dashboard, error } = await serviceClient
+          .from('dashboards')
+          .update({
+            filters,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', dashboardId)
+          .eq('user_id', context.userId)
+          .select('id, name, description, widgets, filters, layout_config')
+          .single();
+
+        if (error || !dashboard) {
+          console.error('[SET_DASHBOARD_FILTERS] Update error:', error);
+          return {
+            success: false,
+            error: error && error.code !== 'PGRST116'
+              ? { type: 'DATABASE_ERROR', message: 'Failed to update dashboard filters', details: error.message }
+              : { type: 'DASHBOARD_NOT_FOUND', message: `Dashboard with ID '${dashboardId}' not found or doesn't belong to this user` },
+          };
+        }
+
+        console.log('[SET_DASHBOARD_FILTERS] Filters updated:', dashboardId, filters.map(f => f.id));
+
+        await recordRevision(serviceClient, {
+          dashboardId,
+          userId: context.userId,
+          before: existing ? toSnapshot(existing) : null,
+          after: toSnapshot(dashboard),
+          author: 'ai',
+          chatId: context.chatId,
+        });
+
+        return {
+          success: true,
+          message: filters.length === 0
+            ? `Filters removed from dashboard '${dashboard.name}'`
+            : `Dashboard '${dashboard.name}' now has ${filters.length} filter(s)`,
+          dashboardId: dashboard.id,
+          dashboardName: dashboard.name,
+          filterIds: filters.map(f => f.id),
+        };
+
+      } catch (error) {
+        console.error('[SET_DASHBOARD_FILTERS] Execution error:', error);
+        return {
+          success: false,
+          error: {
+            type: 'EXECUTION_ERROR',
+            message: 'Failed to update dashboard filters',
+            details: error instanceof Error ? error.message : 'Unknown error',
+          },
+        };
+      }
+    },
+  });
+}
+
+// Export type per uso esterno
+export type SetDashboardFiltersTool = ReturnType<typeof createSetDashboardFiltersTool>;
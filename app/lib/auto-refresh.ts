@@ -0,0 +1,80 @@
+/**
+ * Aggiornamento automatico dei widget dinamici
+ *
+ * L'intervallo (in secondi) si imposta per dashboard in layout_config.refreshInterval e per widget
+ * in widget.refreshInterval, che vince su quello della dashboard (0 = mai). Senza intervallo i dati
+ * si aggiornano solo al caricamento e con il bottone refresh.
+ *
+ * Gli aggiornamenti si fermano quando la scheda non è visibile e ripartono appena torna visibile.
+ * Dopo un errore l'intervallo del widget raddoppia a ogni tentativo fallito, fino a MAX_BACKOFF,
+ * e torna normale al primo aggiornamento riuscito.
+ *
+ * Usato da useAutoRefresh (DashboardCanvas, dashare), dal tool AI e dalle route delle query (proprietario e
+ * dashboard condivise), che limitano la cache dei widget all'intervallo: ogni ciclo vede dati nuovi senza
+ * scavalcare la cache, i viewer condividono la query.
+ */
+
+// Intervalli proposti nell'interfaccia (secondi → etichetta)
+export const REFRESH_INTERVALS: Record<number, string> = {
+  0: 'Off',
+  30: '30s',
+  60: '1m',
+  300: '5m',
+  900: '15m',
+  1800: '30m',
+  3600: '1h',
+};
+
+export const MIN_REFRESH_INTERVAL = 10; // Secondi
+export const MAX_BACKOFF = 3600; // Secondi: tetto dell'intervallo dopo errori ripetuti
+
+interface RefreshableWidget {
+  isDynamic?: boolean;
+  refreshInterval?: number;
+}
+
+/**
+ * Intervallo effettivo di un widget in secondi (0 = nessun aggiornamento automatico)
+ */
+export function refreshIntervalFor(widget: RefreshableWidget, dashboardInterval: number = 0): number {
+  if (!widget.isDynamic) return 0;
+  const interval = widget.refreshInterval ?? dashboardInterval;
+  return interval > 0 ? Math.max(interval, MIN_REFRESH_INTERVAL) : 0;
+}
+
+/**
+ * TTL della cache per un widget con aggiornamento automatico: al massimo metà dell'intervallo. Con lo
+ * stale-while-revalidate un risultato resta servibile per due TTL, così nessun ciclo riceve dati più vecchi
+ * dell'intervallo e gli aggiornamenti automatici non devono scavalcare la cache
+ */
+export function cacheTtlForInterval(cacheTtl: number, interval: number): number {
+  return interval > 0 && cacheTtl > 0 ? Math.min(cacheTtl, Math.floor(interval / 2)) : cacheTtl;
+}
+
+/**
+ * Attesa prima del prossimo aggiornamento dopo `failures` errori consecutivi (secondi)
+ */
+export function nextRefreshDelay(interval: number, failures: number = 0): number {
+  if (failures === 0) return interval;
+  return Math.min(interval * 2 ** failures, Math.max(interval, MAX_BACKOFF));
+}
+
+/**
+ * Etichetta breve di un intervallo (es. "5m", "90s")
+ */
+export function formatRefreshInterval(seconds: number): string {
+  if (REFRESH_INTERVALS[seconds]) return REFRESH_INTERVALS[seconds];
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+/**
+ * Valida un intervallo (salvataggio dashboard e tool AI). Lancia un errore se non valido
+ */
+export function validateRefreshInterval(value: unknown, label: string = 'refreshInterval'): void {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || (value > 0 && value < MIN_REFRESH_INTERVAL)) {
+    throw new Error(`Invalid ${label}: use 0 (off) or an integer number of seconds >= ${MIN_REFRESH_INTERVAL}`);
+  }
+}
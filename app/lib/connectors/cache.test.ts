@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { cacheKey, normalizeQuery } from './cache';
+
+const key = (query: string) => cacheKey({ datasourceId: 'ds-1', query, params: { limit: 100 } });
+
+describe('cacheKey', () => {
+  it('distingue un commento chiuso dall\'a capo da uno che prosegue', () => {
+    // Nella prima query ", b" è codice, nella seconda fa parte del commento
+    expect(key('SELECT a -- note\n, b FROM t')).not.toBe(key('SELECT a -- note , b FROM t'));
+  });
+
+  it('ignora spazi ripetuti, indentazione e ; finali', () => {
+    expect(key('SELECT a,  b\n    FROM t;')).toBe(key('SELECT a, b\nFROM t'));
+    expect(normalizeQuery("  SELECT  'x  y'  \r\n  FROM t ; ")).toBe("SELECT 'x  y'\nFROM t");
+  });
+});
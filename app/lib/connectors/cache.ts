@@ -0,0 +1,281 @@
+import { createHash } from 'crypto';
+import type { PagedQueryResult } from './types';
+
+/**
+ * Cache dei risultati delle query dei widget dinamici
+ *
+ * Ogni apertura di una dashboard (privata o condivisa) rieseguiva tutte le query sul database di origine.
+ * I risultati vengono tenuti in memoria per la TTL del widget; scaduta la TTL, per un'altra TTL
+ * il risultato viene ancora servito (stale) mentre la query viene rieseguita in background.
+ * Richieste contemporanee per la stessa chiave condividono un'unica esecuzione.
+ */
+
+export interface QueryCacheKeyParts {
+  datasourceId: string;
+  query: string;
+  params?: Record<string, unknown>; // Tutto ciò che cambia il risultato oltre alla query (limit, offset, ...)
+}
+
+export interface CachedQueryResult {
+  result: PagedQueryResult;
+  executedAt: string; // Quando la query è stata eseguita sul database
+  cache: 'miss' | 'hit' | 'stale';
+}
+
+interface CacheEntry {
+  datasourceId: string;
+  result: PagedQueryResult;
+  executedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+  size: number;
+}
+
+const MAX_ENTRIES = 500;
+const MAX_TOTAL_BYTES = 50 * 1024 * 1024; // 50 MB
+
+/**
+ * Normalizza la query per la chiave: spazi ripetuti e ; finali non cambiano il risultato.
+ * Gli a capo restano (chiudono i commenti --, quindi cambiano la query), il contenuto delle stringhe
+ * non viene toccato; le query MongoDB vengono riserializzate.
+ */
+export function normalizeQuery(query: string): string {
+  const trimmed = query.trim();
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.stringify(JSON.parse(trimmed));
+    } catch {
+      // Non è JSON: trattala come SQL
+    }
+  }
+
+  let normalized = '';
+  let quote: string | null = null;
+  let pendingSpace: ' ' | '\n' | null = null;
+
+  for (const char of trimmed) {
+    if (quote) {
+      normalized += char;
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      // Una sequenza di spazi con un a capo diventa un a capo
+      pendingSpace = char === '\n' || char === '\r' || pendingSpace === '\n' ? '\n' : ' ';
+      continue;
+    }
+    if (pendingSpace && normalized.length > 0) normalized += pendingSpace;
+    pendingSpace = null;
+    if (char === '\'' || char === '"' || char === '`') quote = char;
+    normalized += char;
+  }
+
+  return normalized.replace(/(\s*;)+$/, '');
+}
+
+// Chiave della cache: data source, query normalizzata e parametri in ordine di nome
+export function cacheKey({ datasourceId, query, params }: QueryCacheKeyParts): string {
+  const sortedParams = Object.fromEntries(
+    Object.entries(params || {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+  return createHash('sha256')
+    .update(JSON.stringify([datasourceId, normalizeQuery(query), sortedParams]))
+    .digest('hex');
+}
+
+function resultSize(result: PagedQueryResult): number {
+  try {
+    return JSON.stringify(result).length;
+  } catch {
+    return MAX_TOTAL_BYTES; // Non serializzabile: non entra in cache
+  }
+}
+
+// Esecuzione condivisa tra le richieste che aspettano la stessa chiave
+interface InFlightQuery {
+  promise: Promise<CacheEntry>;
+  controller: AbortController;
+  waiters: number; // Richieste ancora in attesa: quando arriva a 0 la query viene annullata
+  pinned: boolean; // Aggiornamento in background o richiesta senza signal: non va annullata
+}
+
+class QueryResultCache {
+  private entries: Map<string, CacheEntry> = new Map(); // Ordine di inserimento = ordine LRU
+  private inFlight: Map<string, InFlightQuery> = new Map();
+  private invalidatedAt: Map<string, number> = new Map(); // Per data source: scarta risultati di query partite prima
+  private totalBytes = 0;
+
+  /**
+   * Ritorna il risultato dalla cache o esegue run().
+   * ttlSeconds <= 0 disabilita la cache; refresh=true scarta il risultato in cache e riesegue la query.
+   * signal annulla l'attesa di questa richiesta: la query viene annullata solo se nessun altro la sta aspettando.
+   */
+  async getOrExecute(
+    parts: QueryCacheKeyParts,
+    ttlSeconds: number,
+    run: (signal: AbortSignal) => Promise<PagedQueryResult>,
+    { refresh = false, signal }: { refresh?: boolean; signal?: AbortSignal } = {}
+  ): Promise<CachedQueryResult> {
+    if (ttlSeconds <= 0) {
+      const result = await run(signal ?? new AbortController().signal);
+      return { result, executedAt: new Date().toISOString(), cache: 'miss' };
+    }
+
+    const key = cacheKey(parts);
+    const ttl = ttlSeconds * 1000;
+
+    if (refresh) {
+      this.delete(key);
+    }
+
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (entry && now < entry.freshUntil) {
+      this.touch(key, entry);
+      return { result: entry.result, executedAt: new Date(entry.executedAt).toISOString(), cache: 'hit' };
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.touch(key, entry);
+      // Stale-while-revalidate: rispondi subito, aggiorna in background
+      const flight = this.revalidate(key, parts.datasourceId, ttl, run);
+      flight.pinned = true;
+      flight.promise.catch(err => {
+        console.error(`[QUERY CACHE] Background refresh failed for data source ${parts.datasourceId}:`, err);
+      });
+      return { result: entry.result, executedAt: new Date(entry.executedAt).toISOString(), cache: 'stale' };
+    }
+
+    const fresh = await this.waitFor(this.revalidate(key, parts.datasourceId, ttl, run), signal);
+    return { result: fresh.result, executedAt: new Date(fresh.executedAt).toISOString(), cache: 'miss' };
+  }
+
+  /**
+   * Scarta tutti i risultati di una data source (es. dopo modifica o eliminazione)
+   */
+  invalidateDataSource(datasourceId: string): void {
+    this.invalidatedAt.set(datasourceId, Date.now());
+    for (const [key, entry] of this.entries) {
+      if (entry.datasourceId === datasourceId) this.delete(key);
+    }
+  }
+
+  /**
+   * Ottieni statistiche della cache
+   */
+  getStats(): { entries: number; totalBytes: number; inFlight: number } {
+    return {
+      entries: this.entries.size,
+      totalBytes: this.totalBytes,
+      inFlight: this.inFlight.size,
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  // Esegue la query una sola volta per chiave, anche con più richieste contemporanee
+  private revalidate(
+    key: string,
+    datasourceId: string,
+    ttl: number,
+    run: (signal: AbortSignal) => Promise<PagedQueryResult>
+  ): InFlightQuery {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const promise = run(controller.signal)
+      .then(result => {
+        const executedAt = Date.now();
+        const entry: CacheEntry = {
+          datasourceId,
+          result,
+          executedAt,
+          freshUntil: executedAt + ttl,
+          staleUntil: executedAt + 2 * ttl,
+          size: resultSize(result),
+        };
+        // La data source è stata modificata mentre la query era in corso: il risultato non va in cache
+        if ((this.invalidatedAt.get(datasourceId) ?? 0) < startedAt) {
+          this.store(key, entry);
+        }
+        return entry;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    const flight: InFlightQuery = { promise, controller, waiters: 0, pinned: false };
+    this.inFlight.set(key, flight);
+    return flight;
+  }
+
+  private waitFor(flight: InFlightQuery, signal?: AbortSignal): Promise<CacheEntry> {
+    if (!signal) {
+      flight.pinned = true;
+      return flight.promise;
+    }
+    if (signal.aborted) {
+      return Promise.reject(new Error('Query cancelled'));
+    }
+
+    flight.waiters++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        flight.waiters--;
+        if (flight.waiters === 0 && !flight.pinned) {
+          flight.controller.abort(signal.reason);
+        }
+        reject(new Error('Query cancelled'));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      flight.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private store(key: string, entry: CacheEntry): void {
+    this.delete(key);
+    if (entry.size > MAX_TOTAL_BYTES / 10) return; // Risultati troppo grandi non vengono tenuti
+
+    this.entries.set(key, entry);
+    this.totalBytes += entry.size;
+
+    // Eviction LRU: le prime chiavi della Map sono quelle usate meno di recente
+    for (const [oldestKey] of this.entries) {
+      if (this.entries.size <= MAX_ENTRIES && this.totalBytes <= MAX_TOTAL_BYTES) break;
+      this.delete(oldestKey);
+    }
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+  }
+}
+
+// Singleton instance
+let globalCache: QueryResultCache | null = null;
+
+export function getQueryCache(): QueryResultCache {
+  if (!globalCache) {
+    globalCache = new QueryResultCache();
+  }
+  return globalCache;
+}
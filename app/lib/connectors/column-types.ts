@@ -0,0 +1,127 @@
+/**
+ * Normalizzazione dei tipi di colonna
+ *
+ * Ogni driver descrive le colonne a modo suo (OID di pg, codici numerici di mysql2,
+ * nomi di tipo di mssql, tipi dichiarati di SQLite): qui tutto diventa un LogicalType
+ */
+
+import type { ColumnMetadata, LogicalType } from './types';
+
+const INTEGER_TYPES = [
+  'int', 'integer', 'smallint', 'tinyint', 'mediumint', 'bigint',
+  'int2', 'int4', 'int8', 'serial', 'smallserial', 'bigserial', 'oid', 'year', 'long',
+];
+const DECIMAL_TYPES = [
+  'decimal', 'numeric', 'newdecimal', 'real', 'float', 'float4', 'float8',
+  'double', 'double precision', 'money', 'smallmoney', 'decimal128',
+];
+const BOOLEAN_TYPES = ['bool', 'boolean', 'bit'];
+const TIMESTAMP_TYPES = [
+  'timestamp', 'timestamptz', 'timestamp with time zone', 'timestamp without time zone',
+  'datetime', 'datetime2', 'datetimeoffset', 'smalldatetime',
+];
+const JSON_TYPES = ['json', 'jsonb'];
+const BINARY_TYPES = [
+  'bytea', 'blob', 'tinyblob', 'mediumblob', 'longblob', 'binary', 'varbinary', 'image', 'geometry',
+];
+
+/**
+ * Tipo logico a partire dal nome del tipo nativo (case-insensitive, parametri ignorati: varchar(255) → varchar)
+ */
+export function logicalTypeFromNative(nativeType: string): LogicalType {
+  const name = nativeType.toLowerCase().replace(/\(.*\)/, '').trim();
+
+  if (name.startsWith('_') || name.endsWith('[]')) return 'json'; // Array PostgreSQL
+  if (INTEGER_TYPES.includes(name)) return 'integer';
+  if (DECIMAL_TYPES.includes(name)) return 'decimal';
+  if (BOOLEAN_TYPES.includes(name)) return 'boolean';
+  if (name === 'date' || name === 'newdate') return 'date';
+  if (TIMESTAMP_TYPES.includes(name)) return 'timestamp';
+  if (JSON_TYPES.includes(name)) return 'json';
+  if (BINARY_TYPES.includes(name)) return 'binary';
+  return 'text';
+}
+
+/**
+ * Tipo logico di un tipo dichiarato SQLite, con le regole di affinità
+ * (https://www.sqlite.org/datatype3.html#determination_of_column_affinity)
+ */
+export function logicalTypeFromSqliteDeclared(declared: string): LogicalType {
+  const name = declared.toUpperCase();
+
+  if (name.includes('INT')) return 'integer';
+  if (name.includes('BOOL')) return 'boolean';
+  if (name.includes('DATETIME') || name.includes('TIMESTAMP')) return 'timestamp';
+  if (name === 'DATE') return 'date';
+  if (name.includes('JSON')) return 'json';
+  if (name.includes('CHAR') || name.includes('CLOB') || name.includes('TEXT')) return 'text';
+  if (name.includes('BLOB') || name === '') return 'binary';
+  return 'decimal'; // REAL, FLOAT, DOUBLE, NUMERIC, DECIMAL
+}
+
+// Tipo di un valore JavaScript, per i database senza metadati (MongoDB, espressioni SQLite)
+function describeValue(value: unknown): { type: LogicalType; nativeType: string } {
+  if (typeof value === 'bigint') return { type: 'integer', nativeType: 'bigint' };
+  if (typeof value === 'number') return { type: Number.isInteger(value) ? 'integer' : 'decimal', nativeType: 'number' };
+  if (typeof value === 'boolean') return { type: 'boolean', nativeType: 'boolean' };
+  if (typeof value === 'string') return { type: 'text', nativeType: 'string' };
+  if (value instanceof Date) return { type: 'timestamp', nativeType: 'date' };
+  if (value instanceof Uint8Array) return { type: 'binary', nativeType: 'buffer' };
+
+  // Tipi BSON (ObjectId, Decimal128, Long, Binary, ...)
+  const bsonType = (value as { _bsontype?: string })?._bsontype;
+  if (bsonType) {
+    const nativeType = bsonType.charAt(0).toLowerCase() + bsonType.slice(1);
+    if (bsonType === 'Decimal128' || bsonType === 'Double') return { type: 'decimal', nativeType };
+    if (bsonType === 'Long' || bsonType === 'Int32') return { type: 'integer', nativeType };
+    if (bsonType === 'Binary') return { type: 'binary', nativeType };
+    return { type: 'text', nativeType };
+  }
+
+  return { type: 'json', nativeType: Array.isArray(value) ? 'array' : 'object' };
+}
+
+/**
+ * Ricava le colonne dalle righe: unione delle chiavi di tutte le righe (non solo della prima),
+ * tipo dal primo valore non nullo (integer diventa decimal se compare un valore non intero)
+ */
+export function inferColumnsFromRows(rows: unknown[]): ColumnMetadata[] {
+  const columns = new Map<string, ColumnMetadata>();
+  const seen = new Map<string, number>(); // Valori non nulli visti per colonna
+
+  rows.forEach((row, index) => {
+    if (!row || typeof row !== 'object') return;
+    const record = row as Record<string, unknown>;
+
+    for (const [name, value] of Object.entries(record)) {
+      let column = columns.get(name);
+      if (!column) {
+        // Colonna assente nelle righe precedenti: per quelle righe è null
+        column = { name, type: 'text', nativeType: 'null', nullable: index > 0 };
+        columns.set(name, column);
+      }
+
+      if (value === null || value === undefined) {
+        column.nullable = true;
+        continue;
+      }
+
+      const described = describeValue(value);
+      const count = seen.get(name) ?? 0;
+      if (count === 0) {
+        column.type = described.type;
+        column.nativeType = described.nativeType;
+      } else if (column.type === 'integer' && described.type === 'decimal') {
+        column.type = 'decimal';
+      }
+      seen.set(name, count + 1);
+    }
+
+    // Colonne già viste ma assenti in questa riga
+    for (const column of columns.values()) {
+      if (!(column.name in record)) column.nullable = true;
+    }
+  });
+
+  return [...columns.values()];
+}
@@ -0,0 +1,236 @@
+/**
+ * Connector dei database
+ *
+ * Usato da /api/query/execute, dalle query delle dashboard condivise e dal test connessione:
+ * per aggiungere un nuovo database basta implementare un Connector e registrarlo in ./registry.ts
+ */
+
+import type { ConnectOptions, DatabaseType, DataSourceConfig, IntrospectedTable, PagedQueryResult, Connector } from './types';
+import { getConnector, resolvePassword, resolveStatementTimeout } from './registry';
+import { getConnectionPool } from './pool';
+import { assertReadOnlyQuery } from './readonly';
+import { getQueryCache, type CachedQueryResult } from './cache';
+import { serializeRows } from './serialize';
+import { parameterCacheKey, type BoundParameter } from './parameters';
+
+export type { ColumnMetadata, Connector, ConnectOptions, DatabaseType, DataSourceConfig, ExecuteOptions, IntrospectedTable, LogicalType, PagedQueryResult, QueryResult } from './types';
+export { getConnector, resolvePassword, resolveStatementTimeout } from './registry';
+export { getConnectionPool, destroyConnectionPool } from './pool';
+export { findWriteStatement, assertReadOnlyQuery } from './readonly';
+export { trackQuery, cancelRunningQuery } from './running';
+export { getQueryCache, normalizeQuery, type CachedQueryResult } from './cache';
+export { logicalTypeFromNative } from './column-types';
+export { serializeRows, serializeValue } from './serialize';
+export { bindParameters, PARAMETER_TYPES, type BoundParameter, type ParameterType, type ParameterValue, type QueryParameter } from './parameters';
+export { applyRowRestrictions, validateRowRestrictions, RESTRICTION_OPERATORS, type RestrictionOperator, type RestrictionValue, type RowRestriction } from './restrictions';
+
+/**
+ * Apre una connessione dedicata (fuori dal pool), esegue fn e chiude sempre la connessione
+ */
+export async function withConnection<T>(
+  config: DataSourceConfig,
+  options: Omit<ConnectOptions, 'statementTimeout'>,
+  fn: (connector: Connector, client: unknown) => Promise<T>
+): Promise<T> {
+  const connector = getConnector(config.type);
+  if (!connector) {
+    throw new Error(`Unsupported database type: ${config.type}`);
+  }
+
+  const password = resolvePassword(config, connector);
+  const client = await connector.connect(config, password, {
+    ...options,
+    statementTimeout: resolveStatementTimeout(config),
+  });
+
+  try {
+    return await fn(connector, client);
+  } finally {
+    try { await connector.close(client); } catch { /* ignore */ }
+  }
+}
+
+/**
+ * Prende una connessione dal pool della data source, esegue fn e la rilascia.
+ * Dopo un errore la connessione viene scartata invece di tornare nel pool.
+ */
+export async function withPooledConnection<T>(
+  datasourceId: string,
+  config: DataSourceConfig,
+  fn: (connector: Connector, client: unknown) => Promise<T>
+): Promise<T> {
+  const lease = await getConnectionPool().acquire(datasourceId, config);
+
+  try {
+    const result = await fn(lease.connector, lease.client);
+    await lease.release();
+    return result;
+  } catch (err) {
+    await lease.release(true);
+    throw err;
+  }
+}
+
+export interface QueryOptions {
+  readOnly: boolean;
+  limit?: number; // Righe richieste dal client (non può superare maxRows della data source)
+  offset?: number;
+  signal?: AbortSignal; // Annulla la query (client disconnesso o /api/query/cancel)
+  params?: BoundParameter[]; // Valori dei placeholder della query (vedi ./parameters.ts)
+}
+
+const DEFAULT_MAX_ROWS = 10000;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024; // 10 MB
+
+function positiveInt(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? parseInt(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? Math.floor(n) : undefined;
+}
+
+/**
+ * Limiti effettivi: quelli della data source, eventualmente ridotti dalla richiesta
+ */
+export function resolveResultLimits(config: DataSourceConfig, options: Pick<QueryOptions, 'limit' | 'offset'>) {
+  const maxRowsForSource = positiveInt(config.maxRows) ?? DEFAULT_MAX_ROWS;
+  const requested = positiveInt(options.limit);
+
+  return {
+    maxRows: requested ? Math.min(requested, maxRowsForSource) : maxRowsForSource,
+    maxBytes: positiveInt(config.maxBytes) ?? DEFAULT_MAX_BYTES,
+    offset: positiveInt(options.offset) ?? 0,
+  };
+}
+
+// Dimensione approssimativa della riga nel JSON di risposta (righe già serializzate)
+function rowSize(row: unknown): number {
+  return JSON.stringify(row)?.length ?? 0;
+}
+
+/**
+ * Esegue una query sulla data source.
+ * In modalità readOnly la query viene prima classificata e poi eseguita in una transazione di sola lettura.
+ * Il risultato è limitato a maxRows righe / maxBytes byte: oltre, truncated=true e nextOffset punta alla pagina successiva.
+ * Se options.signal scatta, la query viene annullata sul server e la connessione scartata.
+ */
+export async function executeQuery(
+  datasourceId: string,
+  config: DataSourceConfig,
+  query: string,
+  options: QueryOptions
+): Promise<PagedQueryResult> {
+  const { signal, params } = options;
+
+  if (options.readOnly) {
+    assertReadOnlyQuery(query, config.type as DatabaseType);
+  }
+
+  const { maxRows, maxBytes, offset } = resolveResultLimits(config, options);
+
+  if (signal?.aborted) {
+    throw new Error('Query cancelled');
+  }
+
+  return withPooledConnection(datasourceId, config, async (connector, client) => {
+    // Driver senza supporto per AbortSignal: la cancellazione parte da una sessione separata
+    const onAbort = () => {
+      if (!connector.cancel) return;
+      Promise.resolve()
+        .then(() => connector.cancel!(client, config, resolvePassword(config, connector)))
+        .catch(err => console.error('[CONNECTORS] Failed to cancel query:', err));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let result;
+    try {
+      result = await connector.execute(client, query, { readOnly: options.readOnly, offset, maxRows, signal, params });
+    } catch (err) {
+      if (signal?.aborted) throw new Error('Query cancelled');
+      throw err;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    // Annullata mentre terminava: la cancellazione potrebbe arrivare sulla prossima query, la connessione va scartata
+    if (signal?.aborted) {
+      throw new Error('Query cancelled');
+    }
+
+    // Wire format uguale per tutti i database (vedi ./serialize.ts), poi taglia per numero di righe e per dimensione
+    const rows = serializeRows(result.data.slice(0, maxRows), result.columns);
+    const data: unknown[] = [];
+    let bytes = 0;
+    for (const row of rows) {
+      bytes += rowSize(row);
+      if (bytes > maxBytes && data.length > 0) break;
+      data.push(row);
+    }
+
+    const truncated = result.data.length > data.length;
+    let totalRowsEstimate = offset + data.length;
+
+    if (truncated) {
+      const estimate = await connector.estimateRowCount?.(client, query, params).catch(() => undefined);
+      totalRowsEstimate = Math.max(estimate ?? 0, offset + data.length + 1);
+    }
+
+    return {
+      data,
+      columns: result.columns,
+      truncated,
+      totalRowsEstimate,
+      offset,
+      nextOffset: truncated ? offset + data.length : null,
+    };
+  });
+}
+
+export interface CacheOptions {
+  ttl: number; // Secondi, 0 = nessuna cache
+  refresh?: boolean; // Ignora il risultato in cache e riesegui la query (bottone refresh del widget)
+}
+
+export const DEFAULT_CACHE_TTL = 60; // Secondi, se il widget non specifica cacheTtl
+
+/**
+ * Come executeQuery, ma passando dalla cache dei risultati.
+ * Le query eseguite con scritture abilitate non vengono mai messe in cache.
+ */
+export function executeCachedQuery(
+  datasourceId: string,
+  config: DataSourceConfig,
+  query: string,
+  options: QueryOptions,
+  cacheOptions: CacheOptions
+): Promise<CachedQueryResult> {
+  const { maxRows, offset } = resolveResultLimits(config, options);
+  const ttl = options.readOnly ? cacheOptions.ttl : 0;
+
+  return getQueryCache().getOrExecute(
+    { datasourceId, query, params: { maxRows, offset, params: parameterCacheKey(options.params ?? []) } },
+    ttl,
+    (signal) => executeQuery(datasourceId, config, query, { ...options, signal }),
+    { refresh: cacheOptions.refresh, signal: options.signal }
+  );
+}
+
+// TTL della cache per un widget: cacheTtl in secondi, 0 disabilita la cache
+export function resolveCacheTtl(cacheTtl: unknown): number {
+  return typeof cacheTtl === 'number' && Number.isFinite(cacheTtl) && cacheTtl >= 0
+    ? Math.floor(cacheTtl)
+    : DEFAULT_CACHE_TTL;
+}
+
+// Le data source sono in sola lettura a meno che il proprietario non abiliti le scritture
+export function isWriteAllowed(config: DataSourceConfig): boolean {
+  return config.allowWrites === true;
+}
+
+// Testa la connessione (sempre con una connessione nuova) e ritorna un messaggio con la versione del server
+export function testConnection(config: DataSourceConfig): Promise<string> {
+  return withConnection(config, { connectTimeout: 10000 }, (connector, client) => connector.test(client));
+}
+
+// Legge tabelle e colonne della data source
+export function introspectSchema(datasourceId: string, config: DataSourceConfig): Promise<IntrospectedTable[]> {
+  return withPooledConnection(datasourceId, config, (connector, client) => connector.introspect(client));
+}
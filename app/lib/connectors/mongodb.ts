@@ -0,0 +1,160 @@
+/**
+ * Connector MongoDB (driver: mongodb)
+ *
+ * Le query sono JSON: {"collection": "...", "query": {...}} oppure
+ * {"collection": "...", "aggregation": [...]}
+ */
+
+import type { MongoClient } from 'mongodb';
+import type { Connector } from './types';
+import { inferColumnsFromRows } from './column-types';
+import { mapParameterValue, type BoundParameter } from './parameters';
+
+interface MongoQuery {
+  collection: string;
+  query?: unknown;
+  aggregation?: unknown[];
+}
+
+// maxTimeMS da applicare alle operazioni di ogni client (MongoDB non ha un timeout di sessione)
+const statementTimeouts = new WeakMap<MongoClient, number>();
+
+export function parseMongoQuery(queryStr: string): MongoQuery {
+  try {
+    return JSON.parse(queryStr);
+  } catch {
+    throw new Error('MongoDB query must be valid JSON with "collection" and "query" or "aggregation" fields');
+  }
+}
+
+/**
+ * Sostituisce i valori "$$nome" con il valore tipizzato del parametro (date e timestamp come Date).
+ * Solo le stringhe identiche al placeholder di un parametro dichiarato: "$$NOW" e simili restano variabili di aggregazione
+ */
+function substituteParameters(value: unknown, params: Map<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    return value.startsWith('$$') && params.has(value.slice(2)) ? params.get(value.slice(2)) : value;
+  }
+  if (Array.isArray(value)) return value.map(item => substituteParameters(item, params));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, substituteParameters(nested, params)])
+    );
+  }
+  return value;
+}
+
+function parseQueryWithParameters(queryStr: string, params: BoundParameter[] = []): MongoQuery {
+  const queryObj = parseMongoQuery(queryStr);
+  if (params.length === 0) return queryObj;
+
+  const values = new Map(params.map(({ name, type, value }): [string, unknown] => [
+    name,
+    mapParameterValue(value, item => (type === 'date' && typeof item === 'string' ? new Date(`${item}T00:00:00Z`) : item)),
+  ]));
+  return substituteParameters(queryObj, values) as MongoQuery;
+}
+
+export const mongodbConnector: Connector<MongoClient> = {
+  label: 'MongoDB',
+  requiresPassword: false,
+
+  async connect(config, password, { connectTimeout, statementTimeout }) {
+    const { MongoClient } = await import('mongodb');
+
+    let uri: string;
+    const host = config.host as string;
+    const port = config.port as number;
+    const database = config.database as string;
+    const username = config.username as string;
+    const authDatabase = config.authDatabase as string || 'admin';
+
+    if (username && password) {
+      uri = `mongodb://${encodeURIComponent(username)}:${encodeURIComponent(password)}@${host}:${port}/${database}?authSource=${authDatabase}`;
+    } else {
+      uri = `mongodb://${host}:${port}/${database}`;
+    }
+
+    if (config.tls) {
+      uri += uri.includes('?') ? '&tls=true' : '?tls=true';
+    }
+
+    const client = new MongoClient(uri, {
+      serverSelectionTimeoutMS: connectTimeout,
+    });
+
+    try {
+      await client.connect();
+      if (statementTimeout > 0) statementTimeouts.set(client, statementTimeout);
+      return client;
+    } catch (err) {
+      try { await client.close(); } catch { /* ignore */ }
+      throw err;
+    }
+  },
+
+  async test(client) {
+    const info = await client.db().admin().serverInfo();
+    return `Connected to MongoDB ${info.version}`;
+  },
+
+  async execute(client, queryStr, { offset, maxRows, signal, params }) {
+    const queryObj = parseQueryWithParameters(queryStr, params);
+    const collection = client.db().collection(queryObj.collection);
+    const options = { maxTimeMS: statementTimeouts.get(client), signal };
+
+    let results: unknown[];
+    const isAggregation = !!queryObj.aggregation && Array.isArray(queryObj.aggregation);
+    if (isAggregation) {
+      const stages = queryObj.aggregation as Record<string, unknown>[];
+      const lastStage = stages[stages.length - 1] || {};
+      // $out e $merge devono essere l'ultimo stage: in quel caso non si pagina
+      const pipeline = '$out' in lastStage || '$merge' in lastStage
+        ? stages
+        : [...stages, ...(offset > 0 ? [{ $skip: offset }] : []), { $limit: maxRows + 1 }];
+      results = await collection.aggregate(pipeline, options).toArray();
+    } else {
+      results = await collection.find(queryObj.query || {}, options).skip(offset).limit(maxRows + 1).toArray();
+    }
+
+    // MongoDB non ha uno schema: colonne e tipi vengono dai documenti ritornati.
+    // Senza risultati, per una find usiamo un documento campione della collection
+    let sample = results;
+    if (results.length === 0 && !isAggregation) {
+      const doc = await collection.findOne({}, options);
+      sample = doc ? [doc] : [];
+    }
+    return { data: results, columns: inferColumnsFromRows(sample) };
+  },
+
+  async estimateRowCount(client, queryStr, params) {
+    const queryObj = parseQueryWithParameters(queryStr, params);
+    if (queryObj.aggregation) return undefined;
+    const collection = client.db().collection(queryObj.collection);
+    const filter = (queryObj.query || {}) as Record<string, unknown>;
+    return Object.keys(filter).length === 0
+      ? collection.estimatedDocumentCount()
+      : collection.countDocuments(filter, { maxTimeMS: 5000 });
+  },
+
+  async introspect(client) {
+    // MongoDB non ha uno schema: campioniamo un documento per collection
+    const db = client.db();
+    const collections = await db.listCollections({}, { nameOnly: true }).toArray();
+
+    return Promise.all(collections.map(async ({ name }) => {
+      const sample = await db.collection(name).findOne();
+      const columns = sample
+        ? Object.entries(sample).map(([key, value]) => ({
+            name: key,
+            type: value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value,
+          }))
+        : [];
+      return { name, columns };
+    }));
+  },
+
+  async close(client) {
+    await client.close();
+  },
+};
@@ -0,0 +1,193 @@
+/**
+ * Connector MySQL / MariaDB (driver: mysql2)
+ */
+
+import type { Connection, FieldPacket } from 'mysql2/promise';
+import type { ColumnMetadata, Connector, LogicalType } from './types';
+import { groupColumnsByTable, isWrappableSelect, trimTrailingSemicolons } from './utils';
+import { formatUtcTimestamp, mapParameterValue, type BoundParameter } from './parameters';
+
+const ER_DUP_FIELDNAME = 1060;
+const NOT_NULL_FLAG = 1;
+const BINARY_CHARSET = 63; // Charset "binary": BLOB/VARBINARY invece di TEXT/VARCHAR
+
+// Codici di tipo del protocollo MySQL (mysql2/lib/constants/types.js)
+const FIELD_TYPES: Record<number, { nativeType: string; type: LogicalType }> = {
+  0x00: { nativeType: 'decimal', type: 'decimal' },
+  0x01: { nativeType: 'tinyint', type: 'integer' },
+  0x02: { nativeType: 'smallint', type: 'integer' },
+  0x03: { nativeType: 'int', type: 'integer' },
+  0x04: { nativeType: 'float', type: 'decimal' },
+  0x05: { nativeType: 'double', type: 'decimal' },
+  0x07: { nativeType: 'timestamp', type: 'timestamp' },
+  0x08: { nativeType: 'bigint', type: 'integer' },
+  0x09: { nativeType: 'mediumint', type: 'integer' },
+  0x0a: { nativeType: 'date', type: 'date' },
+  0x0b: { nativeType: 'time', type: 'text' },
+  0x0c: { nativeType: 'datetime', type: 'timestamp' },
+  0x0d: { nativeType: 'year', type: 'integer' },
+  0x0e: { nativeType: 'date', type: 'date' },
+  0x0f: { nativeType: 'varchar', type: 'text' },
+  0x10: { nativeType: 'bit', type: 'boolean' },
+  0xf5: { nativeType: 'json', type: 'json' },
+  0xf6: { nativeType: 'decimal', type: 'decimal' },
+  0xf7: { nativeType: 'enum', type: 'text' },
+  0xf8: { nativeType: 'set', type: 'text' },
+  0xf9: { nativeType: 'tinytext', type: 'text' },
+  0xfa: { nativeType: 'mediumtext', type: 'text' },
+  0xfb: { nativeType: 'longtext', type: 'text' },
+  0xfc: { nativeType: 'text', type: 'text' },
+  0xfd: { nativeType: 'varchar', type: 'text' },
+  0xfe: { nativeType: 'char', type: 'text' },
+  0xff: { nativeType: 'geometry', type: 'binary' },
+};
+
+const BINARY_NATIVE_TYPES: Record<string, string> = {
+  tinytext: 'tinyblob', mediumtext: 'mediumblob', longtext: 'longblob', text: 'blob', varchar: 'varbinary', char: 'binary',
+};
+
+// Valori per i ? (la sessione è in UTC, MySQL non accetta il formato ISO con Z)
+function parameterValues(params: BoundParameter[]): unknown[] {
+  return params.map(p => mapParameterValue(p.value, item => (item instanceof Date ? formatUtcTimestamp(item) : item)));
+}
+
+function describeFields(fields: unknown): ColumnMetadata[] {
+  if (!Array.isArray(fields)) return [];
+
+  return (fields as FieldPacket[]).map(field => {
+    const code = field.columnType ?? field.type ?? 0xfd;
+    let { nativeType, type } = FIELD_TYPES[code] ?? { nativeType: `type:${code}`, type: 'text' as LogicalType };
+
+    if (field.characterSet === BINARY_CHARSET && BINARY_NATIVE_TYPES[nativeType]) {
+      nativeType = BINARY_NATIVE_TYPES[nativeType];
+      type = 'binary';
+    }
+    // TINYINT(1) è il BOOLEAN di MySQL
+    if (nativeType === 'tinyint' && field.columnLength === 1) {
+      type = 'boolean';
+    }
+    // BIT(n) con n > 1 è un campo di bit, non un booleano
+    if (nativeType === 'bit' && (field.columnLength ?? 1) > 1) {
+      type = 'binary';
+    }
+
+    return {
+      name: field.name,
+      type,
+      nativeType,
+      nullable: typeof field.flags === 'number' ? (field.flags & NOT_NULL_FLAG) === 0 : undefined,
+    };
+  });
+}
+
+export const mysqlConnector: Connector<Connection> = {
+  label: 'MySQL',
+  requiresPassword: true,
+
+  async connect(config, password, { connectTimeout, statementTimeout }) {
+    const mysql = await import('mysql2/promise');
+
+    const connection = await mysql.createConnection({
+      host: config.host as string,
+      port: config.port as number,
+      database: config.database as string,
+      user: config.username as string,
+      password,
+      ssl: config.sslMode === 'require' ? {} : undefined,
+      connectTimeout,
+      // Date come testo (normalizzate da ./serialize.ts) e BIGINT come stringa solo oltre 2^53
+      dateStrings: true,
+      supportBigNumbers: true,
+    });
+
+    // Errori su connessioni inattive nel pool (es. wait_timeout del server)
+    connection.on('error', (err) => console.error('[CONNECTORS/mysql] Connection error:', err.message));
+
+    try {
+      // TIMESTAMP viene convertito nel fuso della sessione: in UTC è coerente con gli altri database
+      await connection.query(`SET time_zone = '+00:00'`);
+
+      // MySQL limita le SELECT in ms (max_execution_time), MariaDB tutte le statement in secondi (max_statement_time)
+      if (statementTimeout > 0) {
+        if (config.type === 'mariadb') {
+          await connection.query(`SET SESSION max_statement_time = ${statementTimeout / 1000}`);
+        } else {
+          await connection.query(`SET SESSION max_execution_time = ${statementTimeout}`);
+        }
+      }
+    } catch (err) {
+      try { await connection.end(); } catch { /* ignore */ }
+      throw err;
+    }
+
+    return connection;
+  },
+
+  async test(connection) {
+    const [rows] = await connection.query('SELECT VERSION() as version');
+    const version = (rows as Array<{version: string}>)[0]?.version || 'MySQL';
+    return `Connected to MySQL ${version}`;
+  },
+
+  async execute(connection, query, { readOnly, offset, maxRows, params = [] }) {
+    // Con parametri si passa dal protocollo prepared (binding lato server), altrimenti query semplice.
+    // Il protocollo prepared non espande le liste per IN (?): in quel caso l'escape lo fa il driver
+    const values = parameterValues(params);
+    const hasList = params.some(p => Array.isArray(p.value));
+    const run = (sql: string) => {
+      if (values.length === 0) return connection.query(sql);
+      return hasList ? connection.query(sql, values) : connection.execute(sql, values);
+    };
+
+    if (readOnly) {
+      await connection.query('START TRANSACTION READ ONLY');
+    }
+
+    try {
+      if (isWrappableSelect(query, 'mysql')) {
+        try {
+          const [rows, fields] = await run(
+            `SELECT * FROM (\n${trimTrailingSemicolons(query)}\n) AS _vetrinae_page LIMIT ${maxRows + 1} OFFSET ${offset}`
+          );
+          return { data: rows as unknown[], columns: describeFields(fields) };
+        } catch (err) {
+          // Una tabella derivata non ammette colonne con lo stesso nome: ripiega sulla query originale
+          if ((err as { errno?: number }).errno !== ER_DUP_FIELDNAME) throw err;
+        }
+      }
+
+      const [rows, fields] = await run(query);
+      const data = Array.isArray(rows) ? (rows as unknown[]).slice(offset, offset + maxRows + 1) : [];
+      return { data, columns: describeFields(fields) };
+    } finally {
+      if (readOnly) {
+        await connection.query('ROLLBACK').catch(() => { /* connessione già scartata */ });
+      }
+    }
+  },
+
+  async cancel(connection, config, password) {
+    // KILL QUERY interrompe la statement ma lascia aperta la connessione
+    const canceller = await this.connect(config, password, { connectTimeout: 10000, statementTimeout: 0 });
+    try {
+      await canceller.query(`KILL QUERY ${Number(connection.threadId)}`);
+    } finally {
+      await canceller.end().catch(() => { /* ignore */ });
+    }
+  },
+
+  async introspect(connection) {
+    const [rows] = await connection.query(`
+      SELECT table_schema AS table_schema, table_name AS table_name,
+             column_name AS column_name, data_type AS data_type
+      FROM information_schema.columns
+      WHERE table_schema = DATABASE()
+      ORDER BY table_name, ordinal_position
+    `);
+    return groupColumnsByTable(rows as Parameters<typeof groupColumnsByTable>[0]);
+  },
+
+  async close(connection) {
+    await connection.end();
+  },
+};
@@ -0,0 +1,173 @@
+/**
+ * Parametri delle query dei widget dinamici
+ *
+ * Il widget dichiara i parametri in dataSource.parameters (nome, tipo, default) e la query usa
+ * i placeholder del database, nell'ordine della dichiarazione dove sono posizionali:
+ *
+ *   PostgreSQL       $1, $2, ...
+ *   MySQL / MariaDB  ?          (uno per parametro, nell'ordine di dichiarazione)
+ *   SQL Server       @nome
+ *   SQLite           ? oppure @nome / :nome / $nome
+ *   MongoDB          "$$nome" come valore stringa nel JSON (sostituito con il valore tipizzato)
+ *
+ * Un parametro multiple=true riceve una lista di valori (es. filtro a selezione multipla della dashboard):
+ *
+ *   PostgreSQL       array:  col = ANY($1)
+ *   MySQL / MariaDB  lista:  col IN (?)
+ *   SQL Server       JSON:   col IN (SELECT value FROM OPENJSON(@nome))
+ *   SQLite           JSON:   col IN (SELECT value FROM json_each(@nome))
+ *   MongoDB          array:  {"$in": "$$nome"}
+ *
+ * I valori non vengono mai concatenati nella query: passano dal binding del driver.
+ */
+
+import type { LogicalType } from './types';
+
+export type ParameterType = Extract<LogicalType, 'text' | 'integer' | 'decimal' | 'boolean' | 'date' | 'timestamp'>;
+
+export const PARAMETER_TYPES: ParameterType[] = ['text', 'integer', 'decimal', 'boolean', 'date', 'timestamp'];
+
+// Dichiarazione salvata nel widget
+export interface QueryParameter {
+  name: string;
+  type: ParameterType;
+  multiple?: boolean; // Lista di valori del tipo dichiarato
+  default?: unknown;
+}
+
+export type ParameterValue = string | number | boolean | Date;
+
+/**
+ * Parametro pronto per il driver.
+ * date → "YYYY-MM-DD", timestamp → Date; ogni connector lo converte nel formato del suo database
+ */
+export interface BoundParameter {
+  name: string;
+  type: ParameterType;
+  multiple?: boolean;
+  value: ParameterValue | ParameterValue[] | null;
+}
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}$/;
+
+function coerceValue(param: QueryParameter, raw: unknown): ParameterValue | null {
+  if (raw === null) return null;
+
+  const invalid = () => new Error(`Invalid value for parameter "${param.name}": expected ${param.type}`);
+
+  switch (param.type) {
+    case 'text':
+      if (typeof raw === 'object') throw invalid();
+      return String(raw);
+
+    case 'integer': {
+      if (typeof raw === 'number' && Number.isInteger(raw)) return raw;
+      if (typeof raw === 'string' && /^-?\d+$/.test(raw.trim())) {
+        const n = Number(raw);
+        // Oltre 2^53 resta stringa: i driver la passano al database senza perdere cifre
+        return Number.isSafeInteger(n) ? n : raw.trim();
+      }
+      throw invalid();
+    }
+
+    case 'decimal': {
+      const n = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      if (typeof n === 'number' && Number.isFinite(n)) return n;
+      throw invalid();
+    }
+
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (raw === 'true' || raw === 1 || raw === '1') return true;
+      if (raw === 'false' || raw === 0 || raw === '0') return false;
+      throw invalid();
+
+    case 'date':
+      if (typeof raw === 'string' && DATE_VALUE.test(raw) && !Number.isNaN(Date.parse(raw))) return raw;
+      throw invalid();
+
+    case 'timestamp': {
+      const date = typeof raw === 'string' || typeof raw === 'number' ? new Date(raw) : raw;
+      if (date instanceof Date && !Number.isNaN(date.getTime())) return date;
+      throw invalid();
+    }
+
+    default:
+      throw new Error(`Unsupported type for parameter "${param.name}"`);
+  }
+}
+
+/**
+ * Valida le dichiarazioni e associa i valori (per nome) ai parametri.
+ * Un valore assente usa il default; senza default la query non può essere eseguita.
+ * I valori per parametri non dichiarati vengono ignorati.
+ */
+export function bindParameters(declared: unknown, values: Record<string, unknown> = {}): BoundParameter[] {
+  if (declared === undefined || declared === null) return [];
+  if (!Array.isArray(declared)) {
+    throw new Error('dataSource.parameters must be an array');
+  }
+
+  const seen = new Set<string>();
+
+  return declared.map((param: QueryParameter) => {
+    if (!param || typeof param.name !== 'string' || !PARAMETER_NAME.test(param.name)) {
+      throw new Error(`Invalid parameter name "${param?.name}": use letters, digits and underscores`);
+    }
+    if (!PARAMETER_TYPES.includes(param.type)) {
+      throw new Error(`Invalid type for parameter "${param.name}": use one of ${PARAMETER_TYPES.join(', ')}`);
+    }
+    if (seen.has(param.name)) {
+      throw new Error(`Duplicate parameter "${param.name}"`);
+    }
+    seen.add(param.name);
+
+    const raw = Object.prototype.hasOwnProperty.call(values, param.name) ? values[param.name] : param.default;
+    if (raw === undefined) {
+      throw new Error(`Missing value for parameter "${param.name}"`);
+    }
+
+    if (!param.multiple) {
+      return { name: param.name, type: param.type, value: coerceValue(param, raw) };
+    }
+
+    // Lista: un valore singolo diventa una lista di un elemento, null resta null
+    if (raw === null) return { name: param.name, type: param.type, multiple: true, value: null };
+    const items = (Array.isArray(raw) ? raw : [raw]).map(item => {
+      const value = coerceValue(param, item);
+      if (value === null) throw new Error(`Invalid value for parameter "${param.name}": list items cannot be null`);
+      return value;
+    });
+    return { name: param.name, type: param.type, multiple: true, value: items };
+  });
+}
+
+/**
+ * Converte il valore (o ogni elemento della lista) nel formato del driver
+ */
+export function mapParameterValue<T>(value: BoundParameter['value'], fn: (item: ParameterValue) => T): T | T[] | null {
+  if (value === null) return null;
+  return Array.isArray(value) ? value.map(fn) : fn(value);
+}
+
+// Valori in forma serializzabile, per la chiave della cache
+export function parameterCacheKey(params: BoundParameter[]): Record<string, unknown> {
+  return Object.fromEntries(params.map(p => [
+    p.name,
+    mapParameterValue(p.value, item => (item instanceof Date ? item.toISOString() : item)),
+  ]));
+}
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, '0');
+}
+
+/**
+ * Timestamp come "YYYY-MM-DD HH:MM:SS[.mmm]" in UTC, per i database che non accettano il formato ISO con Z
+ */
+export function formatUtcTimestamp(date: Date): string {
+  const base = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  return date.getUTCMilliseconds() > 0 ? `${base}.${pad(date.getUTCMilliseconds(), 3)}` : base;
+}
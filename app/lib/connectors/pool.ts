@@ -0,0 +1,346 @@
+import { createHash } from 'crypto';
+import type { Connector, DataSourceConfig } from './types';
+import { getConnector, resolvePassword, resolveStatementTimeout } from './registry';
+
+/**
+ * Pool di connessioni persistenti per data source
+ *
+ * Invece di aprire una connessione (TCP + TLS + auth) per ogni query, riutilizziamo quelle esistenti.
+ * Ogni data source ha il suo pool, identificato da datasourceId + hash della config:
+ * se la config cambia (es. PUT /api/data-sources/[id]) il vecchio pool viene scartato.
+ */
+
+interface PooledConnection {
+  client: unknown;
+  lastUsed: number;
+  inUse: boolean;
+}
+
+interface DataSourcePool {
+  datasourceId: string;
+  configHash: string;
+  connector: Connector;
+  config: DataSourceConfig;
+  maxConnections: number;
+  connections: PooledConnection[];
+  opening: number; // Connessioni in fase di apertura
+  waiters: Array<() => void>; // Richieste in attesa di una connessione libera
+  retired: boolean; // Invalidato: le connessioni vengono chiuse al rilascio
+}
+
+export interface PooledLease {
+  connector: Connector;
+  client: unknown;
+  /**
+   * Restituisce la connessione al pool.
+   * Con discard=true la connessione viene chiusa (es. dopo un errore, lo stato della sessione non è affidabile)
+   */
+  release(discard?: boolean): Promise<void>;
+}
+
+export interface DataSourcePoolStats {
+  datasourceId: string;
+  type: string;
+  total: number;
+  inUse: number;
+  available: number;
+  waiting: number;
+  maxConnections: number;
+}
+
+const DEFAULT_MAX_CONNECTIONS = 5;
+
+// Campi della config che non influenzano la connessione
+const NON_CONNECTION_FIELDS = ['lastTest'];
+
+function hashConfig(config: DataSourceConfig): string {
+  const relevant = Object.fromEntries(
+    Object.entries(config)
+      .filter(([key]) => !NON_CONNECTION_FIELDS.includes(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+  );
+  return createHash('sha256').update(JSON.stringify(relevant)).digest('hex');
+}
+
+class ConnectionPoolManager {
+  private pools: Map<string, DataSourcePool> = new Map();
+  private readonly maxIdleTime = 5 * 60 * 1000; // 5 minuti
+  private readonly acquireTimeout = 30 * 1000; // Attesa massima per una connessione libera
+  private readonly connectTimeout = 30 * 1000;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor() {
+    // Avvia pulizia periodica ogni minuto
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupIdleConnections();
+    }, 60 * 1000);
+    // Non tenere vivo il processo solo per la pulizia
+    this.cleanupInterval.unref?.();
+  }
+
+  /**
+   * Ottieni una connessione dal pool della data source o aprine una nuova
+   */
+  async acquire(datasourceId: string, config: DataSourceConfig): Promise<PooledLease> {
+    const deadline = Date.now() + this.acquireTimeout;
+
+    while (true) {
+      const pool = this.getOrCreatePool(datasourceId, config);
+
+      // Cerca una connessione libera
+      const idle = pool.connections.find(c => !c.inUse);
+      if (idle) {
+        idle.inUse = true;
+        idle.lastUsed = Date.now();
+        return this.createLease(pool, idle);
+      }
+
+      // Nessuna connessione libera: aprine una nuova se non abbiamo raggiunto il limite
+      if (pool.connections.length + pool.opening < pool.maxConnections) {
+        return this.openConnection(pool);
+      }
+
+      // Limite raggiunto: aspetta che una connessione venga rilasciata
+      await this.waitForRelease(pool, deadline);
+    }
+  }
+
+  /**
+   * Scarta il pool di una data source (es. dopo modifica o eliminazione).
+   * Le connessioni libere vengono chiuse subito, quelle in uso al rilascio.
+   */
+  invalidate(datasourceId: string): void {
+    const pool = this.pools.get(datasourceId);
+    if (!pool) return;
+
+    console.log(`[CONNECTION POOL] Invalidating pool for data source: ${datasourceId}`);
+    this.retirePool(pool);
+  }
+
+  /**
+   * Ottieni statistiche del pool
+   */
+  getStats(): { total: number; inUse: number; available: number; datasources: DataSourcePoolStats[] } {
+    const datasources: DataSourcePoolStats[] = [];
+    let total = 0;
+    let inUse = 0;
+
+    for (const pool of this.pools.values()) {
+      const poolInUse = pool.connections.filter(c => c.inUse).length;
+      datasources.push({
+        datasourceId: pool.datasourceId,
+        type: pool.config.type as string,
+        total: pool.connections.length,
+        inUse: poolInUse,
+        available: pool.connections.length - poolInUse,
+        waiting: pool.waiters.length,
+        maxConnections: pool.maxConnections,
+      });
+      total += pool.connections.length;
+      inUse += poolInUse;
+    }
+
+    return {
+      total,
+      inUse,
+      available: total - inUse,
+      datasources,
+    };
+  }
+
+  /**
+   * Chiudi tutte le connessioni e pulisci il pool
+   */
+  async destroy(): Promise<void> {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+
+    console.log('[CONNECTION POOL] Closing all connections...');
+    const pools = [...this.pools.values()];
+    this.pools.clear();
+
+    await Promise.all(pools.flatMap(pool => {
+      pool.retired = true;
+      pool.waiters.splice(0).forEach(wake => wake());
+      return pool.connections.splice(0).map(conn => this.closeConnection(pool, conn));
+    }));
+    console.log('[CONNECTION POOL] All connections closed');
+  }
+
+  private getOrCreatePool(datasourceId: string, config: DataSourceConfig): DataSourcePool {
+    const configHash = hashConfig(config);
+    const existing = this.pools.get(datasourceId);
+
+    if (existing && existing.configHash === configHash) {
+      return existing;
+    }
+
+    // Config cambiata (password, host, ...): il vecchio pool non è più valido
+    if (existing) {
+      console.log(`[CONNECTION POOL] Config changed for data source ${datasourceId}, replacing pool`);
+      this.retirePool(existing);
+    }
+
+    const connector = getConnector(config.type);
+    if (!connector) {
+      throw new Error(`Unsupported database type: ${config.type}`);
+    }
+
+    const maxConnections = typeof config.maxConnections === 'number' && config.maxConnections > 0
+      ? Math.floor(config.maxConnections)
+      : DEFAULT_MAX_CONNECTIONS;
+
+    const pool: DataSourcePool = {
+      datasourceId,
+      configHash,
+      connector,
+      config,
+      maxConnections,
+      connections: [],
+      opening: 0,
+      waiters: [],
+      retired: false,
+    };
+    this.pools.set(datasourceId, pool);
+    return pool;
+  }
+
+  private async openConnection(pool: DataSourcePool): Promise<PooledLease> {
+    let client: unknown;
+    pool.opening++;
+    try {
+      const password = resolvePassword(pool.config, pool.connector);
+      client = await pool.connector.connect(pool.config, password, {
+        connectTimeout: this.connectTimeout,
+        statementTimeout: resolveStatementTimeout(pool.config),
+      });
+    } catch (err) {
+      pool.opening--;
+      // Apertura fallita: si è liberato un posto, sveglia chi aspetta
+      pool.waiters.shift()?.();
+      throw err;
+    }
+    pool.opening--;
+
+    const conn: PooledConnection = { client, lastUsed: Date.now(), inUse: true };
+    pool.connections.push(conn);
+    console.log(`[CONNECTION POOL] Opened connection for ${pool.datasourceId}. Pool size: ${pool.connections.length}/${pool.maxConnections}`);
+    return this.createLease(pool, conn);
+  }
+
+  private createLease(pool: DataSourcePool, conn: PooledConnection): PooledLease {
+    let released = false;
+
+    return {
+      connector: pool.connector,
+      client: conn.client,
+      release: async (discard = false) => {
+        if (released) return;
+        released = true;
+
+        conn.inUse = false;
+        conn.lastUsed = Date.now();
+
+        if (discard || pool.retired) {
+          this.removeConnection(pool, conn);
+          await this.closeConnection(pool, conn);
+        }
+
+        pool.waiters.shift()?.();
+      },
+    };
+  }
+
+  private waitForRelease(pool: DataSourcePool, deadline: number): Promise<void> {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return Promise.reject(new Error(`Connection pool exhausted (max ${pool.maxConnections} connections). Try again later.`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        const index = pool.waiters.indexOf(wake);
+        if (index !== -1) pool.waiters.splice(index, 1);
+        reject(new Error(`Connection pool exhausted (max ${pool.maxConnections} connections). Try again later.`));
+      }, remaining);
+      pool.waiters.push(wake);
+    });
+  }
+
+  private retirePool(pool: DataSourcePool): void {
+    pool.retired = true;
+    if (this.pools.get(pool.datasourceId) === pool) {
+      this.pools.delete(pool.datasourceId);
+    }
+
+    for (const conn of pool.connections.filter(c => !c.inUse)) {
+      this.removeConnection(pool, conn);
+      this.closeConnection(pool, conn);
+    }
+
+    // Chi aspettava riprova sul nuovo pool
+    pool.waiters.splice(0).forEach(wake => wake());
+  }
+
+  private removeConnection(pool: DataSourcePool, conn: PooledConnection): void {
+    const index = pool.connections.indexOf(conn);
+    if (index !== -1) pool.connections.splice(index, 1);
+  }
+
+  private async closeConnection(pool: DataSourcePool, conn: PooledConnection): Promise<void> {
+    try {
+      await pool.connector.close(conn.client);
+    } catch (error) {
+      console.error(`[CONNECTION POOL] Error closing connection for ${pool.datasourceId}:`, error);
+    }
+  }
+
+  /**
+   * Chiude le connessioni inutilizzate da troppo tempo
+   */
+  private async cleanupIdleConnections(): Promise<void> {
+    const now = Date.now();
+    let closed = 0;
+
+    for (const pool of [...this.pools.values()]) {
+      const idle = pool.connections.filter(c => !c.inUse && (now - c.lastUsed) > this.maxIdleTime);
+
+      for (const conn of idle) {
+        this.removeConnection(pool, conn);
+        await this.closeConnection(pool, conn);
+        closed++;
+      }
+
+      if (pool.connections.length === 0 && pool.opening === 0 && pool.waiters.length === 0) {
+        this.pools.delete(pool.datasourceId);
+      }
+    }
+
+    if (closed > 0) {
+      console.log(`[CONNECTION POOL] Closed ${closed} idle connection(s). Pools: ${this.pools.size}`);
+    }
+  }
+}
+
+// Singleton instance
+let globalPool: ConnectionPoolManager | null = null;
+
+export function getConnectionPool(): ConnectionPoolManager {
+  if (!globalPool) {
+    globalPool = new ConnectionPoolManager();
+  }
+  return globalPool;
+}
+
+export async function destroyConnectionPool(): Promise<void> {
+  if (globalPool) {
+    await globalPool.destroy();
+    globalPool = null;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Connector PostgreSQL (driver: pg)
+ */
+
+import type { Client, FieldDef } from 'pg';
+import type { ColumnMetadata, Connector } from './types';
+import { groupColumnsByTable, isWrappableSelect, trimTrailingSemicolons } from './utils';
+import { logicalTypeFromNative } from './column-types';
+import { mapParameterValue, type BoundParameter } from './parameters';
+
+// OID dei tipi built-in più comuni (pg_type): gli altri vengono risolti con una query su pg_type
+const TYPE_NAMES: Record<number, string> = {
+  16: 'bool', 17: 'bytea', 18: 'char', 19: 'name', 20: 'int8', 21: 'int2', 23: 'int4', 25: 'text', 26: 'oid',
+  114: 'json', 700: 'float4', 701: 'float8', 790: 'money', 1042: 'bpchar', 1043: 'varchar',
+  1082: 'date', 1083: 'time', 1114: 'timestamp', 1184: 'timestamptz', 1186: 'interval', 1266: 'timetz',
+  1700: 'numeric', 2950: 'uuid', 3802: 'jsonb',
+};
+
+// date e timestamp senza fuso: pg li convertirebbe in Date nel fuso del server Node.
+// Li lasciamo come testo, ./serialize.ts li normalizza (timestamp letti come UTC)
+const RAW_STRING_TYPES = [1082, 1114];
+
+// Valori per $1, $2, ...: i timestamp in ISO con Z (un timestamp senza fuso ne prende l'ora UTC), le liste come array
+function parameterValues(params: BoundParameter[] = []): unknown[] {
+  return params.map(p => mapParameterValue(p.value, item => (item instanceof Date ? item.toISOString() : item)));
+}
+
+/**
+ * Metadati delle colonne: tipo dall'OID, nullable da pg_attribute quando la colonna viene da una tabella
+ */
+async function describeFields(client: Client, fields: FieldDef[]): Promise<ColumnMetadata[]> {
+  const unknownOids = [...new Set(fields.map(f => f.dataTypeID).filter(oid => !TYPE_NAMES[oid]))];
+  const tableColumns = fields.filter(f => f.tableID);
+
+  const typeNames = new Map<number, string>();
+  const notNull = new Set<string>();
+
+  if (unknownOids.length > 0) {
+    const res = await client.query('SELECT oid, typname FROM pg_type WHERE oid = ANY($1::oid[])', [unknownOids]);
+    res.rows.forEach((row: { oid: number; typname: string }) => typeNames.set(Number(row.oid), row.typname));
+  }
+
+  if (tableColumns.length > 0) {
+    const res = await client.query(
+      `SELECT attrelid, attnum FROM pg_attribute
+       WHERE attnotnull AND (attrelid, attnum) IN (SELECT * FROM unnest($1::oid[], $2::int2[]))`,
+      [tableColumns.map(f => f.tableID), tableColumns.map(f => f.columnID)]
+    );
+    res.rows.forEach((row: { attrelid: number; attnum: number }) => notNull.add(`${row.attrelid}:${row.attnum}`));
+  }
+
+  return fields.map(field => {
+    const nativeType = TYPE_NAMES[field.dataTypeID] ?? typeNames.get(field.dataTypeID) ?? `oid:${field.dataTypeID}`;
+    return {
+      name: field.name,
+      type: logicalTypeFromNative(nativeType),
+      nativeType,
+      // Colonne calcolate (tableID = 0): PostgreSQL non dice se possono essere null
+      nullable: field.tableID ? !notNull.has(`${field.tableID}:${field.columnID}`) : undefined,
+    };
+  });
+}
+
+export const postgresqlConnector: Connector<Client> = {
+  label: 'PostgreSQL',
+  requiresPassword: true,
+
+  async connect(config, password, { connectTimeout, statementTimeout }) {
+    const { Client, types } = await import('pg');
+
+    const client = new Client({
+      host: config.host as string,
+      port: config.port as number,
+      database: config.database as string,
+      user: config.username as string,
+      password,
+      ssl: config.sslMode === 'require' || config.sslMode === 'verify-ca' || config.sslMode === 'verify-full'
+        ? { rejectUnauthorized: config.sslMode !== 'require' }
+        : false,
+      connectionTimeoutMillis: connectTimeout,
+      statement_timeout: statementTimeout || false,
+      types: {
+        getTypeParser: ((oid: number, format?: 'text' | 'binary') => RAW_STRING_TYPES.includes(oid)
+          ? (value: string) => value
+          : types.getTypeParser(oid, format)) as typeof types.getTypeParser,
+      },
+    });
+
+    // Le connessioni restano aperte nel pool: un errore su una connessione inattiva non deve far crashare il processo
+    client.on('error', (err) => console.error('[CONNECTORS/postgresql] Connection error:', err.message));
+
+    try {
+      await client.connect();
+      return client;
+    } catch (err) {
+      try { await client.end(); } catch { /* ignore */ }
+      throw err;
+    }
+  },
+
+  async test(client) {
+    const res = await client.query('SELECT version()');
+    const version = res.rows[0]?.version?.split(' ').slice(0, 2).join(' ') || 'PostgreSQL';
+    return `Connected to ${version}`;
+  },
+
+  async execute(client, query, { readOnly, offset, maxRows, params }) {
+    const values = parameterValues(params);
+
+    const run = async () => {
+      // Le SELECT vengono paginate dal database, il resto viene tagliato in memoria
+      if (isWrappableSelect(query, 'postgresql')) {
+        const res = await client.query(
+          `SELECT * FROM (\n${trimTrailingSemicolons(query)}\n) AS _vetrinae_page LIMIT ${maxRows + 1} OFFSET ${offset}`,
+          values
+        );
+        return { data: res.rows, columns: await describeFields(client, res.fields) };
+      }
+      const res = await client.query(query, values);
+      return { data: (res.rows ?? []).slice(offset, offset + maxRows + 1), columns: await describeFields(client, res.fields ?? []) };
+    };
+
+    if (!readOnly) {
+      return run();
+    }
+
+    await client.query('BEGIN');
+    try {
+      await client.query('SET TRANSACTION READ ONLY');
+      return await run();
+    } finally {
+      await client.query('ROLLBACK').catch(() => { /* connessione già scartata */ });
+    }
+  },
+
+  async estimateRowCount(client, query, params) {
+    if (!isWrappableSelect(query, 'postgresql')) return undefined;
+    // Stima del planner: non esegue la query
+    const res = await client.query(`EXPLAIN (FORMAT JSON) ${trimTrailingSemicolons(query)}`, parameterValues(params));
+    const plan = res.rows[0]?.['QUERY PLAN']?.[0]?.Plan;
+    return typeof plan?.['Plan Rows'] === 'number' ? plan['Plan Rows'] : undefined;
+  },
+
+  async cancel(client, config, password) {
+    // Il backend che esegue la query è occupato: la cancellazione parte da una connessione separata
+    const pid = (client as Client & { processID: number | null }).processID;
+    if (!pid) return;
+
+    const canceller = await this.connect(config, password, { connectTimeout: 10000, statementTimeout: 10000 });
+    try {
+      await canceller.query('SELECT pg_cancel_backend($1)', [pid]);
+    } finally {
+      await canceller.end().catch(() => { /* ignore */ });
+    }
+  },
+
+  async introspect(client) {
+    const res = await client.query(`
+      SELECT table_schema, table_name, column_name, data_type
+      FROM information_schema.columns
+      WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+      ORDER BY table_schema, table_name, ordinal_position
+    `);
+    return groupColumnsByTable(res.rows);
+  },
+
+  async close(client) {
+    await client.end();
+  },
+};
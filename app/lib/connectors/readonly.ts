@@ -0,0 +1,90 @@
+/**
+ * Classificazione delle query per la modalità sola lettura
+ *
+ * Primo livello di difesa: rifiuta DDL/DML prima di toccare il database.
+ * Il secondo livello sono le transazioni read-only aperte dai connector
+ * (una funzione che scrive dentro una SELECT passa la classificazione ma non la transazione).
+ */
+
+import type { DatabaseType } from './types';
+import { stripSqlLiterals } from './utils';
+
+// Una statement read-only deve iniziare con una di queste keyword
+const READ_ONLY_STARTS = ['SELECT', 'WITH', 'SHOW', 'EXPLAIN', 'DESCRIBE', 'DESC', 'VALUES', 'TABLE'];
+
+// Keyword che non possono comparire neanche dentro una query di lettura
+// (CTE che modificano dati, SELECT INTO, EXPLAIN ANALYZE, ...)
+const FORBIDDEN_KEYWORDS = [
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'INTO',
+  'CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'RENAME',
+  'GRANT', 'REVOKE', 'EXEC', 'EXECUTE', 'CALL', 'ANALYZE',
+];
+
+// Stage di aggregazione MongoDB che scrivono su una collection
+const MONGO_WRITE_STAGES = ['$out', '$merge'];
+
+function findMongoWriteStage(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findMongoWriteStage(item);
+      if (found) return found;
+    }
+  } else if (value && typeof value === 'object') {
+    for (const [key, nested] of Object.entries(value)) {
+      if (MONGO_WRITE_STAGES.includes(key)) return key;
+      const found = findMongoWriteStage(nested);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Ritorna il motivo per cui la query non è read-only, o undefined se è sicura
+ */
+export function findWriteStatement(query: string, dbType: DatabaseType): string | undefined {
+  if (dbType === 'mongodb') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(query);
+    } catch {
+      return undefined; // Il connector segnalerà il JSON non valido
+    }
+    const stage = findMongoWriteStage(parsed);
+    return stage ? `aggregation stage ${stage}` : undefined;
+  }
+
+  const statements = stripSqlLiterals(query, dbType)
+    .split(';')
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+  if (statements.length === 0) {
+    return 'empty query';
+  }
+
+  for (const statement of statements) {
+    const firstKeyword = statement.match(/^\(*\s*([A-Za-z]+)/)?.[1]?.toUpperCase();
+    if (!firstKeyword || !READ_ONLY_STARTS.includes(firstKeyword)) {
+      return `${firstKeyword || 'unknown'} statement`;
+    }
+
+    const words = statement.toUpperCase().match(/\b[A-Z_]+\b/g) || [];
+    const forbidden = words.find(word => FORBIDDEN_KEYWORDS.includes(word));
+    if (forbidden) {
+      return `${forbidden} keyword`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Lancia un errore se la query può modificare dati o schema
+ */
+export function assertReadOnlyQuery(query: string, dbType: DatabaseType): void {
+  const reason = findWriteStatement(query, dbType);
+  if (reason) {
+    throw new Error(`Query rejected in read-only mode (${reason}). Only SELECT, WITH, SHOW and EXPLAIN statements are allowed.`);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Registry dei tipi di database supportati
+ *
+ * Per aggiungere un nuovo database basta implementare un Connector e registrarlo qui
+ */
+
+import { decryptApiKey } from '@/app/lib/crypto';
+import type { Connector, DatabaseType, DataSourceConfig } from './types';
+import { postgresqlConnector } from './postgresql';
+import { mysqlConnector } from './mysql';
+import { sqlserverConnector } from './sqlserver';
+import { mongodbConnector } from './mongodb';
+import { sqliteConnector } from './sqlite';
+
+const connectors: Record<DatabaseType, Connector> = {
+  postgresql: postgresqlConnector,
+  mysql: mysqlConnector,
+  mariadb: { ...mysqlConnector, label: 'MariaDB' },
+  sqlserver: sqlserverConnector,
+  mongodb: mongodbConnector,
+  sqlite: sqliteConnector,
+};
+
+export function getConnector(type: unknown): Connector | undefined {
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(connectors, type)) {
+    return undefined;
+  }
+  return connectors[type as DatabaseType];
+}
+
+/**
+ * Decifra la password salvata nella config e verifica che ci sia quando il database la richiede
+ */
+export function resolvePassword(config: DataSourceConfig, connector: Connector): string | undefined {
+  let password: string | undefined;
+
+  if (config.password && typeof config.password === 'string' && config.password.length > 0) {
+    try {
+      const decrypted = decryptApiKey(config.password);
+      if (decrypted && typeof decrypted === 'string' && decrypted.length > 0) {
+        password = decrypted;
+      }
+    } catch (decryptError) {
+      console.error('[CONNECTORS] Decrypt error:', decryptError);
+      throw new Error('Failed to decrypt password. Please re-save the data source with your password.');
+    }
+  }
+
+  if (connector.requiresPassword && !password) {
+    throw new Error('Password not found. Please edit the data source and re-enter your password.');
+  }
+
+  return password;
+}
+
+const DEFAULT_STATEMENT_TIMEOUT = 60 * 1000; // 60 secondi
+
+/**
+ * Timeout delle query in ms (config.statementTimeout). 0 disabilita il limite
+ */
+export function resolveStatementTimeout(config: DataSourceConfig): number {
+  const value = typeof config.statementTimeout === 'string' ? parseInt(config.statementTimeout) : config.statementTimeout;
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : DEFAULT_STATEMENT_TIMEOUT;
+}
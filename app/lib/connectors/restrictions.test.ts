@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { applyRowRestrictions, type RowRestriction } from './restrictions';
+
+const northOnly: RowRestriction[] = [{ column: 'region', operator: '=', value: 'north' }];
+
+function mongoQuery(aggregation: unknown[]): string {
+  return JSON.stringify({ collection: 'orders', aggregation });
+}
+
+describe('applyRowRestrictions (MongoDB)', () => {
+  it('mette il $match dello scoping in testa alla pipeline', () => {
+    const { query, params } = applyRowRestrictions('mongodb', mongoQuery([{ $group: { _id: '$region' } }]), [], northOnly);
+
+    expect(JSON.parse(query).aggregation).toEqual([
+      { $match: { $and: [{ region: { $eq: '$$__scope_0' } }] } },
+      { $group: { _id: '$region' } },
+    ]);
+    expect(params).toEqual([{ name: '__scope_0', type: 'text', value: 'north' }]);
+  });
+
+  it('rifiuta $unionWith: riporterebbe le righe fuori dallo scoping', () => {
+    // Il $match in testa filtra solo "orders": la stessa collection riletta da $unionWith non sarebbe filtrata
+    const query = mongoQuery([{ $unionWith: { coll: 'orders', pipeline: [{ $match: { region: 'south' } }] } }]);
+
+    expect(() => applyRowRestrictions('mongodb', query, [], northOnly)).toThrow('$unionWith');
+  });
+
+  it('rifiuta gli stage che leggono altri documenti, anche annidati', () => {
+    const lookup = { $lookup: { from: 'orders', localField: 'customer', foreignField: 'customer', as: 'all' } };
+
+    expect(() => applyRowRestrictions('mongodb', mongoQuery([lookup]), [], northOnly)).toThrow('$lookup');
+    expect(() => applyRowRestrictions('mongodb', mongoQuery([{ $graphLookup: {} }]), [], northOnly)).toThrow('$graphLookup');
+    expect(() => applyRowRestrictions('mongodb', mongoQuery([{ $facet: { all: [{ $unionWith: 'orders' }] } }]), [], northOnly)).toThrow('$facet');
+  });
+
+  it('lascia la query invariata senza restrizioni', () => {
+    const query = mongoQuery([{ $unionWith: 'archive' }]);
+
+    expect(applyRowRestrictions('mongodb', query, [], [])).toEqual({ query, params: [] });
+  });
+});
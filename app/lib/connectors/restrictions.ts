@@ -0,0 +1,247 @@
+/**
+ * Restrizioni di riga per i viewer delle dashboard condivise
+ *
+ * Una restrizione (colonna, operatore, valore) viene iniettata lato server nella query salvata del widget:
+ *
+ *   SQL      SELECT * FROM (<query>) AS _vetrinae_scope WHERE "colonna" = $n AND ...
+ *            (filtra le righe ritornate dalla query: la colonna è una colonna del risultato)
+ *   MongoDB  aggregation: stage {"$match": {...}} in testa alla pipeline
+ *            find: {"$and": [<query>, {...}]}
+ *            (filtra i documenti della collection: la colonna è un campo del documento)
+ *            Le pipeline con stage che leggono altri documenti dopo il $match ($unionWith, $lookup,
+ *            $graphLookup, $facet) vengono rifiutate: porterebbero nel risultato righe fuori dallo scoping
+ *
+ * I valori passano come parametri aggiuntivi (__scope_0, __scope_1, ...) con i placeholder del database,
+ * mai concatenati nella query. Vedi ./parameters.ts per i placeholder e le liste.
+ */
+
+import type { DatabaseType } from './types';
+import type { BoundParameter, ParameterType } from './parameters';
+import { isWrappableSelect, stripSqlLiterals, trimTrailingSemicolons } from './utils';
+
+export type RestrictionOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'not in';
+
+export const RESTRICTION_OPERATORS: RestrictionOperator[] = ['=', '!=', '>', '>=', '<', '<=', 'in', 'not in'];
+
+export type RestrictionValue = string | number | boolean;
+
+export interface RowRestriction {
+  column: string;
+  operator: RestrictionOperator;
+  value: RestrictionValue | RestrictionValue[]; // Lista per in / not in
+}
+
+const SCOPE_PARAM_PREFIX = '__scope_';
+const MAX_COLUMN_LENGTH = 128;
+
+// Stage che leggono documenti non filtrati dal $match in testa (anche annidati, es. $lookup dentro $facet)
+const MONGO_UNSCOPED_STAGES = new Set(['$unionWith', '$lookup', '$graphLookup', '$facet']);
+
+const MONGO_OPERATORS: Record<RestrictionOperator, string> = {
+  '=': '$eq', '!=': '$ne', '>': '$gt', '>=': '$gte', '<': '$lt', '<=': '$lte', 'in': '$in', 'not in': '$nin',
+};
+
+function isListOperator(operator: RestrictionOperator): boolean {
+  return operator === 'in' || operator === 'not in';
+}
+
+function parameterType(value: RestrictionValue): ParameterType {
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'decimal';
+  return 'text';
+}
+
+function isRestrictionValue(value: unknown): value is RestrictionValue {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Valida le restrizioni (link di condivisione). Lancia un errore con il primo problema
+ */
+export function validateRowRestrictions(restrictions: unknown): RowRestriction[] {
+  if (!Array.isArray(restrictions)) {
+    throw new Error('restrictions must be an array');
+  }
+
+  for (const restriction of restrictions as RowRestriction[]) {
+    const { column, operator, value } = restriction || {};
+    if (typeof column !== 'string' || column.trim() === '' || column.length > MAX_COLUMN_LENGTH) {
+      throw new Error('Each restriction requires a column name');
+    }
+    if (!RESTRICTION_OPERATORS.includes(operator)) {
+      throw new Error(`Invalid operator for restriction on "${column}": use one of ${RESTRICTION_OPERATORS.join(', ')}`);
+    }
+    if (isListOperator(operator)) {
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isRestrictionValue)
+        || new Set(value.map(parameterType)).size > 1) {
+        throw new Error(`Restriction on "${column}" with ${operator} requires a non-empty list of values of the same type`);
+      }
+    } else if (!isRestrictionValue(value)) {
+      throw new Error(`Invalid value for restriction on "${column}": use a string, number or boolean`);
+    }
+  }
+
+  return restrictions as RowRestriction[];
+}
+
+function boundParameter(restriction: RowRestriction, index: number): BoundParameter {
+  const { value } = restriction;
+  const name = `${SCOPE_PARAM_PREFIX}${index}`;
+  return Array.isArray(value)
+    ? { name, type: parameterType(value[0]), multiple: true, value }
+    : { name, type: parameterType(value), value };
+}
+
+function quoteIdentifier(column: string, dbType: DatabaseType): string {
+  switch (dbType) {
+    case 'mysql':
+    case 'mariadb':
+      return `\`${column.replace(/`/g, '``')}\``;
+    case 'sqlserver':
+      return `[${column.replace(/]/g, ']]')}]`;
+    default:
+      return `"${column.replace(/"/g, '""')}"`;
+  }
+}
+
+// Condizione SQL per una restrizione, con il placeholder del parametro (vedi ./parameters.ts)
+function sqlCondition(restriction: RowRestriction, param: BoundParameter, position: number, dbType: DatabaseType, named: boolean): string {
+  const column = quoteIdentifier(restriction.column, dbType);
+  const { operator } = restriction;
+
+  const placeholder = dbType === 'postgresql' ? `$${position}`
+    : dbType === 'sqlserver' || named ? `@${param.name}`
+    : '?';
+
+  if (!isListOperator(operator)) {
+    return `${column} ${operator === '!=' ? '<>' : operator} ${placeholder}`;
+  }
+
+  const negate = operator === 'not in';
+  switch (dbType) {
+    case 'postgresql':
+      return negate ? `${column} <> ALL(${placeholder})` : `${column} = ANY(${placeholder})`;
+    case 'sqlserver':
+      return `${column} ${negate ? 'NOT IN' : 'IN'} (SELECT value FROM OPENJSON(${placeholder}))`;
+    case 'sqlite':
+      return `${column} ${negate ? 'NOT IN' : 'IN'} (SELECT value FROM json_each(${placeholder}))`;
+    default:
+      return `${column} ${negate ? 'NOT IN' : 'IN'} (${placeholder})`;
+  }
+}
+
+// SQL Server non ammette ORDER BY in una subquery senza TOP/OFFSET: un ORDER BY finale diventa ORDER BY ... OFFSET 0 ROWS
+function sqlServerSubquery(query: string): string {
+  const stripped = stripSqlLiterals(query, 'sqlserver');
+  const orderBy = [...stripped.matchAll(/\border\s+by\b/gi)].pop();
+  if (!orderBy || /\b(offset|top|for\s+xml)\b/i.test(stripped)) return query;
+
+  const tail = stripped.slice(orderBy.index);
+  let depth = 0;
+  for (const char of tail) {
+    if (char === '(') depth++;
+    if (char === ')' && --depth < 0) return query; // ORDER BY dentro una window function o una subquery
+  }
+  return `${query}\nOFFSET 0 ROWS`;
+}
+
+function scopeSqlQuery(
+  query: string,
+  params: BoundParameter[],
+  restrictions: RowRestriction[],
+  dbType: DatabaseType
+): { query: string; params: BoundParameter[] } {
+  if (!isWrappableSelect(query, dbType)) {
+    throw new Error('Row restrictions require a single SELECT query');
+  }
+
+  let inner = trimTrailingSemicolons(query);
+  if (dbType === 'sqlserver') {
+    if (/^\s*with\b/i.test(stripSqlLiterals(inner, dbType))) {
+      throw new Error('Row restrictions are not supported on SQL Server queries with a WITH clause');
+    }
+    inner = sqlServerSubquery(inner);
+  }
+
+  // SQLite: placeholder con nome se la query usa già i nomi dei parametri, altrimenti posizionali
+  const stripped = stripSqlLiterals(inner, dbType);
+  const named = dbType === 'sqlite' && params.some(p => new RegExp(`[@:$]${p.name}\\b`).test(stripped));
+
+  const scopeParams = restrictions.map(boundParameter);
+  const conditions = restrictions.map((restriction, i) =>
+    sqlCondition(restriction, scopeParams[i], params.length + i + 1, dbType, named)
+  );
+
+  return {
+    query: `SELECT * FROM (\n${inner}\n) AS _vetrinae_scope WHERE ${conditions.join(' AND ')}`,
+    params: [...params, ...scopeParams],
+  };
+}
+
+function findUnscopedStage(value: unknown): string | null {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const stage = findUnscopedStage(item);
+      if (stage) return stage;
+    }
+    return null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  for (const [key, child] of Object.entries(value)) {
+    if (MONGO_UNSCOPED_STAGES.has(key)) return key;
+    const stage = findUnscopedStage(child);
+    if (stage) return stage;
+  }
+  return null;
+}
+
+function scopeMongoQuery(
+  query: string,
+  params: BoundParameter[],
+  restrictions: RowRestriction[]
+): { query: string; params: BoundParameter[] } {
+  let parsed: { collection?: unknown; query?: unknown; aggregation?: unknown };
+  try {
+    parsed = JSON.parse(query);
+  } catch {
+    throw new Error('MongoDB query must be valid JSON with "collection" and "query" or "aggregation" fields');
+  }
+
+  const unscopedStage = Array.isArray(parsed.aggregation) ? findUnscopedStage(parsed.aggregation) : null;
+  if (unscopedStage) {
+    throw new Error(`Aggregation stage ${unscopedStage} is not allowed on a link with data restrictions`);
+  }
+
+  const scopeParams = restrictions.map(boundParameter);
+  // Valori come "$$__scope_n": il connector li sostituisce con il valore tipizzato
+  const match = {
+    $and: restrictions.map((restriction, i) => ({
+      [restriction.column]: { [MONGO_OPERATORS[restriction.operator]]: `$$${scopeParams[i].name}` },
+    })),
+  };
+
+  const scoped = Array.isArray(parsed.aggregation)
+    ? { ...parsed, aggregation: [{ $match: match }, ...parsed.aggregation] }
+    : { ...parsed, query: parsed.query ? { $and: [parsed.query, match] } : match };
+
+  return { query: JSON.stringify(scoped), params: [...params, ...scopeParams] };
+}
+
+/**
+ * Query del widget con le restrizioni iniettate e i parametri aggiuntivi. Senza restrizioni la query resta invariata.
+ * Lancia un errore se la query non può essere ristretta (es. più statement)
+ */
+export function applyRowRestrictions(
+  dbType: DatabaseType,
+  query: string,
+  params: BoundParameter[],
+  restrictions: RowRestriction[] = []
+): { query: string; params: BoundParameter[] } {
+  if (restrictions.length === 0) {
+    return { query, params };
+  }
+  return dbType === 'mongodb'
+    ? scopeMongoQuery(query, params, restrictions)
+    : scopeSqlQuery(query, params, restrictions, dbType);
+}
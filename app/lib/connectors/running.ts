@@ -0,0 +1,66 @@
+/**
+ * Registro delle query in esecuzione
+ *
+ * Il client genera un queryId per ogni richiesta a /api/query/execute:
+ * /api/query/cancel lo usa per interrompere la query (es. quando l'utente lascia la dashboard).
+ * Il registro è in memoria, come il pool di connessioni: vale per la singola istanza del server.
+ */
+
+interface RunningQuery {
+  datasourceId: string;
+  controller: AbortController;
+  startedAt: number;
+}
+
+const runningQueries: Map<string, RunningQuery> = new Map();
+
+// Le query sono registrate per utente: un utente non può annullare le query di un altro
+function queryKey(ownerId: string, queryId: string): string {
+  return `${ownerId}:${queryId}`;
+}
+
+/**
+ * Registra una query in esecuzione.
+ * Il signal ritornato scatta quando la query viene annullata o quando scatta parentSignal (es. req.signal)
+ */
+export function trackQuery(
+  ownerId: string,
+  queryId: string,
+  datasourceId: string,
+  parentSignal?: AbortSignal
+): { signal: AbortSignal; untrack: () => void } {
+  const key = queryKey(ownerId, queryId);
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parentSignal?.reason);
+
+  if (parentSignal?.aborted) {
+    controller.abort(parentSignal.reason);
+  } else {
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const entry: RunningQuery = { datasourceId, controller, startedAt: Date.now() };
+  runningQueries.set(key, entry);
+
+  return {
+    signal: controller.signal,
+    untrack: () => {
+      parentSignal?.removeEventListener('abort', onParentAbort);
+      if (runningQueries.get(key) === entry) {
+        runningQueries.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Annulla una query in esecuzione. Ritorna false se la query non esiste (già terminata)
+ */
+export function cancelRunningQuery(ownerId: string, queryId: string): boolean {
+  const entry = runningQueries.get(queryKey(ownerId, queryId));
+  if (!entry) return false;
+
+  console.log(`[CONNECTORS] Cancelling query ${queryId} on data source ${entry.datasourceId} (running for ${Date.now() - entry.startedAt}ms)`);
+  entry.controller.abort(new Error('Query cancelled'));
+  return true;
+}
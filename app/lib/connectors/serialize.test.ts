@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { serializeRows } from './serialize';
+import type { ColumnMetadata } from './types';
+
+const columns: ColumnMetadata[] = [
+  { name: 'id', type: 'integer', nativeType: 'int8' },
+  { name: 'amount', type: 'decimal', nativeType: 'numeric' },
+];
+
+const serialize = (id: unknown, amount: unknown) => serializeRows([{ id, amount }], columns)[0];
+
+describe('serializeRows (numeri)', () => {
+  it('converte in number i valori che un double rappresenta esattamente', () => {
+    expect(serialize('42', '1234.50')).toEqual({ id: 42, amount: 1234.5 });
+    expect(serialize(BigInt(7), '-0.000125')).toEqual({ id: 7, amount: -0.000125 });
+    expect(serialize('9007199254740991', '0.1234567890123456')).toEqual({ id: 9007199254740991, amount: 0.1234567890123456 });
+  });
+
+  it('lascia come stringa i valori che perderebbero cifre', () => {
+    expect(serialize('9007199254740993', '12345678901234567890.12')).toEqual({
+      id: '9007199254740993',
+      amount: '12345678901234567890.12',
+    });
+    expect(serialize(BigInt('-9223372036854775808'), '0.10000000000000000001')).toEqual({
+      id: '-9223372036854775808',
+      amount: '0.10000000000000000001',
+    });
+  });
+});
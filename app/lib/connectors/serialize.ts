@@ -0,0 +1,223 @@
+/**
+ * Serializzazione dei risultati delle query (wire format)
+ *
+ * I driver ritornano gli stessi tipi in forme diverse (numeric come stringa da pg, BIGINT come number
+ * da mysql2, ObjectId e Buffer come oggetti, ...). Prima di uscire da executeQuery ogni valore viene
+ * convertito nella forma JSON del suo tipo logico, uguale per tutti i database:
+ *
+ *   integer    number; stringa di cifre se fuori da ±2^53 (Number.MAX_SAFE_INTEGER)
+ *   decimal    number; stringa se non rappresentabile come double finito (NaN, Infinity, overflow)
+ *              o se il double perderebbe cifre (es. numeric(30,10) di PostgreSQL, Decimal128)
+ *   text       string (ObjectId come hex di 24 caratteri, UUID in forma canonica)
+ *   boolean    true / false (anche TINYINT(1), BIT e 0/1 di SQLite)
+ *   date       "YYYY-MM-DD"
+ *   timestamp  "YYYY-MM-DDTHH:mm:ss.sssZ" in UTC; i timestamp senza fuso orario sono letti come UTC
+ *   json       valore JSON, con gli stessi criteri applicati ai valori annidati
+ *   binary     stringa base64
+ *
+ * Le stringhe restano nelle colonne integer e decimal: il tipo logico della colonna (ColumnMetadata.type)
+ * dice al client che sono numeri. NULL resta null. Valori che non rispettano il tipo della colonna (es. testo in una colonna
+ * INTEGER di SQLite) vengono serializzati secondo il loro tipo JavaScript.
+ */
+
+import type { ColumnMetadata, LogicalType } from './types';
+
+const DATE_ONLY = /^(\d{4}-\d{2}-\d{2})/;
+const NAIVE_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+// Numero decimale scritto come testo: cifre significative ed esponente (123.40 → "1234", -1)
+const DECIMAL_TEXT = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+const MAX_EXACT_DIGITS = 15; // Ogni decimale fino a 15 cifre significative torna identico da un double
+
+function decimalParts(text: string): { negative: boolean; digits: string; exponent: number } | null {
+  const match = text.match(DECIMAL_TEXT);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const fraction = match[3] || '';
+  const significant = `${match[2] || ''}${fraction}`.replace(/^0+/, '');
+  if (significant === '') return { negative: false, digits: '0', exponent: 0 };
+
+  const digits = significant.replace(/0+$/, '');
+  const exponent = Number(match[4] || 0) - fraction.length + (significant.length - digits.length);
+  return { negative: match[1] === '-', digits, exponent };
+}
+
+// Il double n rappresenta esattamente il decimale scritto in text
+function isExactDouble(text: string, n: number): boolean {
+  const exact = decimalParts(text);
+  if (!exact || exact.digits.length <= MAX_EXACT_DIGITS) return true;
+  if (exact.digits.length > 100) return false; // Oltre la precisione di toPrecision
+
+  const converted = decimalParts(n.toPrecision(exact.digits.length));
+  return !!converted && converted.negative === exact.negative
+    && converted.digits === exact.digits && converted.exponent === exact.exponent;
+}
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, '0');
+}
+
+function serializeInteger(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+    return serializeInteger(BigInt(value.trim()));
+  }
+  return serializeDecimal(value);
+}
+
+function serializeDecimal(value: unknown): unknown {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : String(value);
+  }
+  if (typeof value === 'bigint') {
+    return serializeInteger(value);
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value);
+    return Number.isFinite(n) && isExactDouble(value.trim(), n) ? n : value;
+  }
+  return serializeValue(value);
+}
+
+function serializeBoolean(value: unknown): unknown {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number' || typeof value === 'bigint') return Number(value) !== 0;
+  if (value instanceof Uint8Array) return value.some(byte => byte !== 0); // BIT(1) di MySQL
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+    if (['true', 't', '1', 'yes', 'y'].includes(lower)) return true;
+    if (['false', 'f', '0', 'no', 'n'].includes(lower)) return false;
+  }
+  return serializeValue(value);
+}
+
+function serializeDate(value: unknown): unknown {
+  // Date a mezzanotte UTC (mssql): i componenti UTC sono la data del database
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return null;
+    return `${pad(value.getUTCFullYear(), 4)}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+  }
+  if (typeof value === 'string') {
+    return value.match(DATE_ONLY)?.[1] ?? value;
+  }
+  return serializeValue(value);
+}
+
+function serializeTimestamp(value: unknown): unknown {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    // Senza fuso orario (pg timestamp, DATETIME di MySQL, testo di SQLite): UTC
+    const parsed = new Date(NAIVE_TIMESTAMP.test(trimmed) ? `${trimmed.replace(' ', 'T')}Z` : trimmed);
+    return Number.isNaN(parsed.getTime()) ? value : parsed.toISOString();
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    // Epoch (es. INTEGER di SQLite): sotto 10^11 sono secondi, altrimenti millisecondi
+    const epoch = Number(value);
+    const parsed = new Date(Math.abs(epoch) < 1e11 ? epoch * 1000 : epoch);
+    return Number.isNaN(parsed.getTime()) ? serializeValue(value) : parsed.toISOString();
+  }
+  return serializeValue(value);
+}
+
+function serializeJson(value: unknown): unknown {
+  if (typeof value === 'string') {
+    try {
+      return serializeValue(JSON.parse(value));
+    } catch {
+      return value;
+    }
+  }
+  return serializeValue(value);
+}
+
+function serializeBinary(value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64');
+  }
+  return serializeValue(value);
+}
+
+// Tipi BSON di MongoDB, riconosciuti senza importare il driver
+function serializeBson(value: { _bsontype: string } & Record<string, unknown>): unknown {
+  switch (value._bsontype) {
+    case 'ObjectId':
+    case 'ObjectID':
+    case 'UUID':
+      return String((value as { toHexString?: () => string }).toHexString?.() ?? value.toString());
+    case 'Decimal128':
+      return serializeDecimal(value.toString());
+    case 'Long':
+      return serializeInteger(value.toString());
+    case 'Double':
+    case 'Int32':
+      return Number(value);
+    case 'Binary': {
+      // Sottotipo 4 = UUID
+      const binary = value as { sub_type?: number; buffer?: Uint8Array; toUUID?: () => { toHexString(): string } };
+      if (binary.sub_type === 4 && binary.toUUID) return binary.toUUID().toHexString();
+      return binary.buffer ? serializeBinary(binary.buffer) : null;
+    }
+    case 'Timestamp':
+      return serializeInteger(value.toString());
+    default:
+      return value.toString();
+  }
+}
+
+/**
+ * Serializza un valore secondo il suo tipo JavaScript (valori di colonne senza tipo, JSON annidato)
+ */
+export function serializeValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'bigint') return serializeInteger(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? value : String(value);
+  if (typeof value !== 'object') return value;
+  if (value instanceof Date) return serializeTimestamp(value);
+  if (value instanceof Uint8Array) return serializeBinary(value);
+  if ('_bsontype' in value) return serializeBson(value as { _bsontype: string } & Record<string, unknown>);
+  if (Array.isArray(value)) return value.map(serializeValue);
+
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, nested]) => [key, serializeValue(nested)])
+  );
+}
+
+const SERIALIZERS: Record<LogicalType, (value: unknown) => unknown> = {
+  integer: serializeInteger,
+  decimal: serializeDecimal,
+  text: value => (typeof value === 'string' ? value : serializeValue(value)),
+  boolean: serializeBoolean,
+  date: serializeDate,
+  timestamp: serializeTimestamp,
+  json: serializeJson,
+  binary: serializeBinary,
+};
+
+/**
+ * Converte le righe del driver nel wire format, usando il tipo logico di ogni colonna
+ */
+export function serializeRows(rows: unknown[], columns: ColumnMetadata[]): unknown[] {
+  const types = new Map(columns.map(column => [column.name, column.type]));
+
+  return rows.map(row => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      return serializeValue(row);
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(row as Record<string, unknown>)) {
+      const type = types.get(key);
+      out[key] = value === null || value === undefined
+        ? null
+        : type ? SERIALIZERS[type](value) : serializeValue(value);
+    }
+    return out;
+  });
+}
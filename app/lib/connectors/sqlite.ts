@@ -0,0 +1,141 @@
+/**
+ * Connector SQLite (driver: better-sqlite3)
+ *
+ * Il file viene aperto in sola lettura, a meno che la data source non abiliti le scritture.
+ * better-sqlite3 è sincrono: una query in corso non può essere annullata né interrotta da un timeout
+ */
+
+import type BetterSqlite3 from 'better-sqlite3';
+import type { ColumnMetadata, Connector } from './types';
+import { inferColumnsFromRows, logicalTypeFromSqliteDeclared } from './column-types';
+import { formatUtcTimestamp, mapParameterValue, type BoundParameter, type ParameterValue } from './parameters';
+import { stripSqlLiterals } from './utils';
+
+/**
+ * Valori per lo statement: per nome (@nome, :nome, $nome) se la query usa placeholder con nome,
+ * altrimenti posizionali (?) nell'ordine di dichiarazione.
+ * SQLite non ha booleani né date: 1/0 e testo, come li salvano le applicazioni. Le liste passano come JSON (json_each)
+ */
+function bindValues(query: string, params: BoundParameter[] = []): unknown[] {
+  if (params.length === 0) return [];
+
+  const toSqliteValue = (item: ParameterValue) => {
+    if (typeof item === 'boolean') return item ? 1 : 0;
+    if (item instanceof Date) return formatUtcTimestamp(item);
+    return item;
+  };
+  const toSqlite = ({ value }: BoundParameter) => {
+    const converted = mapParameterValue(value, toSqliteValue);
+    return Array.isArray(converted) ? JSON.stringify(converted) : converted;
+  };
+
+  const stripped = stripSqlLiterals(query, 'sqlite');
+  const named = params.some(p => new RegExp(`[@:$]${p.name}\\b`).test(stripped));
+  if (named) {
+    return [Object.fromEntries(params.map(p => [p.name, toSqlite(p)]))];
+  }
+  return params.map(toSqlite);
+}
+
+/**
+ * Metadati delle colonne dallo statement (disponibili anche senza righe).
+ * Le espressioni non hanno un tipo dichiarato: il tipo viene ricavato dai valori
+ */
+function describeColumns(db: BetterSqlite3.Database, stmt: BetterSqlite3.Statement, rows: unknown[]): ColumnMetadata[] {
+  const inferred = new Map(inferColumnsFromRows(rows).map(c => [c.name, c]));
+  const notNullCache = new Map<string, Set<string>>();
+
+  const notNullColumns = (database: string, table: string): Set<string> => {
+    const key = `${database}.${table}`;
+    let columns = notNullCache.get(key);
+    if (!columns) {
+      // INTEGER PRIMARY KEY è l'alias del rowid: non può essere null anche senza NOT NULL
+      const info = db
+        .prepare(`SELECT name FROM pragma_table_info(?, ?) WHERE "notnull" = 1 OR (pk > 0 AND upper(type) = 'INTEGER')`)
+        .all(table, database) as Array<{ name: string }>;
+      columns = new Set(info.map(c => c.name));
+      notNullCache.set(key, columns);
+    }
+    return columns;
+  };
+
+  return stmt.columns().map(column => {
+    if (!column.type) {
+      return inferred.get(column.name) ?? { name: column.name, type: 'text', nativeType: 'null' };
+    }
+    return {
+      name: column.name,
+      type: logicalTypeFromSqliteDeclared(column.type),
+      nativeType: column.type,
+      nullable: column.table && column.column && column.database
+        ? !notNullColumns(column.database, column.table).has(column.column)
+        : undefined,
+    };
+  });
+}
+
+export const sqliteConnector: Connector<BetterSqlite3.Database> = {
+  label: 'SQLite',
+  requiresPassword: false,
+
+  async connect(config) {
+    const Database = (await import('better-sqlite3')).default;
+
+    const filePath = config.filePath as string;
+
+    if (!filePath) {
+      throw new Error('File path is required for SQLite');
+    }
+
+    return new Database(filePath, { readonly: !config.allowWrites });
+  },
+
+  async test(db) {
+    const result = db.prepare('SELECT sqlite_version() as version').get() as { version: string };
+    return `Connected to SQLite ${result.version}`;
+  },
+
+  async execute(db, query, { readOnly, offset, maxRows, signal, params }) {
+    signal?.throwIfAborted();
+
+    const stmt = db.prepare(query);
+    const values = bindValues(query, params);
+    if (readOnly && !stmt.readonly) {
+      throw new Error('Query rejected in read-only mode: statement modifies the database');
+    }
+
+    if (!stmt.reader) {
+      stmt.run(...values);
+      return { data: [], columns: [] };
+    }
+
+    // INTEGER come bigint: oltre 2^53 un number perderebbe cifre (./serialize.ts li riporta a number se sicuri)
+    stmt.safeIntegers(true);
+
+    // Lettura lazy: si ferma dopo maxRows + 1 righe
+    const rows: unknown[] = [];
+    let index = 0;
+    for (const row of stmt.iterate(...values)) {
+      if (index++ < offset) continue;
+      rows.push(row);
+      if (rows.length > maxRows) break;
+    }
+
+    return { data: rows, columns: describeColumns(db, stmt, rows) };
+  },
+
+  async introspect(db) {
+    const tables = db
+      .prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`)
+      .all() as Array<{ name: string }>;
+
+    return tables.map(({ name }) => {
+      const columns = db.prepare('SELECT name, type FROM pragma_table_info(?)').all(name) as Array<{ name: string; type: string }>;
+      return { name, columns };
+    });
+  },
+
+  async close(db) {
+    db.close();
+  },
+};
@@ -0,0 +1,180 @@
+/**
+ * Connector SQL Server (driver: mssql)
+ */
+
+import type * as mssql from 'mssql';
+import type { ColumnMetadata, Connector, QueryResult } from './types';
+import { groupColumnsByTable } from './utils';
+import { logicalTypeFromNative } from './column-types';
+import { mapParameterValue, type BoundParameter } from './parameters';
+
+// Metadati del recordset: il tipo è la factory di mssql (sql.Int, sql.NVarChar, ...) con il nome in declaration
+function describeColumns(metadata: mssql.IColumnMetadata): ColumnMetadata[] {
+  return Object.values(metadata)
+    .sort((a, b) => a.index - b.index)
+    .map(column => {
+      const nativeType = (column.type as { declaration?: string }).declaration ?? 'unknown';
+      return {
+        name: column.name,
+        type: logicalTypeFromNative(nativeType),
+        nativeType,
+        nullable: column.nullable,
+      };
+    });
+}
+
+// Parametri come @nome, con il tipo SQL Server corrispondente al tipo dichiarato
+function withParameters(sql: typeof mssql, request: mssql.Request, params: BoundParameter[] = []): mssql.Request {
+  for (const { name, type, value } of params) {
+    // Le liste passano come JSON, da leggere con OPENJSON(@nome)
+    if (Array.isArray(value)) {
+      const items = mapParameterValue(value, item => (item instanceof Date ? item.toISOString() : item));
+      request.input(name, sql.NVarChar(sql.MAX), JSON.stringify(items));
+      continue;
+    }
+    switch (type) {
+      case 'integer':
+        request.input(name, typeof value === 'string' ? sql.BigInt : sql.Int, value);
+        break;
+      case 'decimal':
+        request.input(name, sql.Float, value);
+        break;
+      case 'boolean':
+        request.input(name, sql.Bit, value);
+        break;
+      case 'date':
+        request.input(name, sql.Date, value);
+        break;
+      case 'timestamp':
+        request.input(name, sql.DateTime2, value);
+        break;
+      default:
+        request.input(name, sql.NVarChar, value);
+    }
+  }
+  return request;
+}
+
+/**
+ * Legge le righe in streaming e annulla la richiesta appena ne ha abbastanza,
+ * così una SELECT senza TOP non trasferisce l'intera tabella
+ */
+function streamRows(
+  request: mssql.Request,
+  query: string,
+  offset: number,
+  maxRows: number,
+  signal?: AbortSignal
+): Promise<QueryResult> {
+  return new Promise((resolve, reject) => {
+    const data: unknown[] = [];
+    let columns: ColumnMetadata[] = [];
+    let index = 0;
+    let cancelled = false;
+
+    request.stream = true;
+
+    // Annullamento dal client: la richiesta viene interrotta sulla stessa connessione (attention packet TDS)
+    const onAbort = () => request.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    request.on('done', () => signal?.removeEventListener('abort', onAbort));
+    request.on('error', () => signal?.removeEventListener('abort', onAbort));
+
+    request.on('recordset', (recordsetColumns: mssql.IColumnMetadata) => {
+      if (columns.length === 0) columns = describeColumns(recordsetColumns);
+    });
+
+    request.on('row', (row: unknown) => {
+      if (cancelled) return;
+      if (index >= offset) data.push(row);
+      index++;
+      if (data.length > maxRows) {
+        cancelled = true;
+        request.cancel();
+      }
+    });
+
+    request.on('error', (err: Error & { code?: string }) => {
+      // L'annullamento volontario genera un errore ECANCEL
+      if (cancelled && err.code === 'ECANCEL') return;
+      reject(err);
+    });
+
+    request.on('done', () => resolve({ data, columns }));
+
+    request.query(query);
+  });
+}
+
+export const sqlserverConnector: Connector<mssql.ConnectionPool> = {
+  label: 'SQL Server',
+  requiresPassword: true,
+
+  async connect(config, password, { connectTimeout, statementTimeout }) {
+    const sql = await import('mssql');
+
+    const sqlConfig: mssql.config = {
+      server: config.host as string,
+      port: config.port as number,
+      database: config.database as string,
+      user: config.username as string,
+      password,
+      options: {
+        encrypt: config.encrypt as boolean ?? true,
+        trustServerCertificate: config.trustServerCertificate as boolean ?? false,
+        instanceName: config.instanceName as string | undefined,
+        // ApplicationIntent=ReadOnly: su un Availability Group instrada verso una replica leggibile
+        readOnlyIntent: !config.allowWrites,
+      },
+      connectionTimeout: connectTimeout,
+      requestTimeout: statementTimeout,
+    };
+
+    // Pool dedicato (non sql.connect, che condivide un pool globale tra data source diverse)
+    const pool = new sql.ConnectionPool(sqlConfig);
+    pool.on('error', (err) => console.error('[CONNECTORS/sqlserver] Connection error:', err.message));
+    try {
+      return await pool.connect();
+    } catch (err) {
+      try { await pool.close(); } catch { /* ignore */ }
+      throw err;
+    }
+  },
+
+  async test(pool) {
+    const result = await pool.request().query('SELECT @@VERSION as version');
+    const version = result.recordset[0]?.version?.split('\n')[0] || 'SQL Server';
+    return `Connected to ${version}`;
+  },
+
+  async execute(pool, query, { readOnly, offset, maxRows, signal, params }) {
+    const sql = await import('mssql');
+
+    if (!readOnly) {
+      return streamRows(withParameters(sql, new sql.Request(pool), params), query, offset, maxRows, signal);
+    }
+
+    // SQL Server non ha transazioni read-only: eseguiamo in una transazione che viene sempre annullata
+    const transaction = new sql.Transaction(pool);
+    await transaction.begin();
+    try {
+      return await streamRows(withParameters(sql, new sql.Request(transaction), params), query, offset, maxRows, signal);
+    } finally {
+      await transaction.rollback().catch(() => { /* transazione già chiusa dal server */ });
+    }
+  },
+
+  async introspect(pool) {
+    const result = await pool.request().query(`
+      SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name,
+             COLUMN_NAME AS column_name, DATA_TYPE AS data_type
+      FROM INFORMATION_SCHEMA.COLUMNS
+      ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION
+    `);
+    return groupColumnsByTable(result.recordset);
+  },
+
+  async close(pool) {
+    await pool.close();
+  },
+};
@@ -0,0 +1,94 @@
+/**
+ * Tipi condivisi dai connector dei database
+ *
+ * Ogni tipo di database supportato implementa l'interfaccia Connector.
+ * Le API routes non parlano mai direttamente con i driver (pg, mysql2, ...):
+ * passano sempre dal registry in ./index.ts
+ */
+
+import type { BoundParameter } from './parameters';
+
+export type DatabaseType = 'postgresql' | 'mysql' | 'mariadb' | 'sqlserver' | 'mongodb' | 'sqlite';
+
+/**
+ * Config della data source così come salvata in data_sources.config
+ * (la password qui è ancora cifrata)
+ */
+export type DataSourceConfig = Record<string, unknown>;
+
+export interface ConnectOptions {
+  connectTimeout: number; // ms
+  statementTimeout: number; // ms, 0 = nessun limite. Applicato dal server a ogni query della sessione
+}
+
+export interface ExecuteOptions {
+  readOnly: boolean; // Esegui dentro una transazione di sola lettura
+  offset: number; // Righe da saltare
+  maxRows: number; // Il connector ritorna al massimo maxRows + 1 righe (la riga in più segnala che ce ne sono altre)
+  signal?: AbortSignal; // Per i driver che sanno annullare la richiesta dalla stessa connessione (mssql, mongodb)
+  params?: BoundParameter[]; // Valori dei placeholder, nell'ordine di dichiarazione (vedi ./parameters.ts)
+}
+
+/**
+ * Tipo logico di una colonna, uguale per tutti i database.
+ * Il tipo nativo resta in ColumnMetadata.nativeType
+ */
+export type LogicalType = 'integer' | 'decimal' | 'text' | 'boolean' | 'date' | 'timestamp' | 'json' | 'binary';
+
+export interface ColumnMetadata {
+  name: string;
+  type: LogicalType;
+  nativeType: string; // Nome del tipo nel database (int4, varchar, datetime2, ...)
+  nullable?: boolean; // Assente se il driver non lo sa (es. espressioni calcolate)
+}
+
+export interface QueryResult {
+  data: unknown[];
+  columns: ColumnMetadata[];
+}
+
+/**
+ * Risultato paginato ritornato da executeQuery
+ *
+ * totalRowsEstimate è esatto se truncated=false, altrimenti è la stima del planner
+ * (dove disponibile) o un limite inferiore
+ */
+export interface PagedQueryResult extends QueryResult {
+  truncated: boolean;
+  totalRowsEstimate: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+export interface IntrospectedColumn {
+  name: string;
+  type: string;
+}
+
+export interface IntrospectedTable {
+  schema?: string;
+  name: string;
+  columns: IntrospectedColumn[];
+}
+
+/**
+ * Connector per un tipo di database
+ *
+ * TClient è l'handle nativo del driver (pg.Client, mysql2 Connection, ...).
+ * Il connector è stateless: chi chiama connect() è responsabile di chiamare close().
+ */
+export interface Connector<TClient = unknown> {
+  label: string;
+  requiresPassword: boolean; // MongoDB e SQLite possono funzionare senza auth
+  connect(config: DataSourceConfig, password: string | undefined, options: ConnectOptions): Promise<TClient>;
+  test(client: TClient): Promise<string>; // Ritorna un messaggio con la versione del server
+  execute(client: TClient, query: string, options: ExecuteOptions): Promise<QueryResult>;
+  introspect(client: TClient): Promise<IntrospectedTable[]>;
+  estimateRowCount?(client: TClient, query: string, params?: BoundParameter[]): Promise<number | undefined>; // Usato solo quando il risultato è troncato
+  /**
+   * Annulla la query in corso su client aprendo una sessione separata (pg_cancel_backend, KILL QUERY).
+   * Solo per i driver che non supportano ExecuteOptions.signal
+   */
+  cancel?(client: TClient, config: DataSourceConfig, password: string | undefined): Promise<void>;
+  close(client: TClient): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { isWrappableSelect, stripSqlLiterals } from './utils';
+import { findWriteStatement } from './readonly';
+
+describe('stripSqlLiterals (PostgreSQL)', () => {
+  it("tratta il backslash come escape nelle stringhe E'...'", () => {
+    // \' non chiude la stringa: tutto fino all'apice finale è testo
+    expect(stripSqlLiterals("SELECT E'it\\'s; DROP TABLE t' AS x", 'postgresql')).toBe("SELECT  ''  AS x");
+    expect(stripSqlLiterals("SELECT e'\\\\' AS x", 'postgresql')).toBe("SELECT  ''  AS x");
+  });
+
+  it('non nasconde gli statement dopo una stringa con escape', () => {
+    const query = "SELECT E'\\''; DELETE FROM t; --'";
+
+    expect(findWriteStatement(query, 'postgresql')).toBe('DELETE statement');
+    expect(isWrappableSelect(query, 'postgresql')).toBe(false);
+  });
+
+  it('lascia le stringhe normali con le regole standard', () => {
+    // Senza E il backslash è un carattere qualunque e l'apice raddoppiato è l'escape
+    expect(stripSqlLiterals("SELECT 'a\\' AS x, name FROM t", 'postgresql')).toBe("SELECT  ''  AS x, name FROM t");
+    expect(stripSqlLiterals("SELECT type'x' FROM t", 'postgresql')).toBe("SELECT type ''  FROM t");
+  });
+});
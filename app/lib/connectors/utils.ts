@@ -0,0 +1,123 @@
+/**
+ * Helper condivisi tra i connector
+ */
+
+import type { DatabaseType, IntrospectedTable } from './types';
+
+interface ColumnRow {
+  table_schema?: string;
+  table_name: string;
+  column_name: string;
+  data_type: string;
+}
+
+// Raggruppa le righe di information_schema.columns per tabella
+export function groupColumnsByTable(rows: ColumnRow[]): IntrospectedTable[] {
+  const tables = new Map<string, IntrospectedTable>();
+
+  for (const row of rows) {
+    const key = `${row.table_schema ?? ''}.${row.table_name}`;
+    let table = tables.get(key);
+    if (!table) {
+      table = { schema: row.table_schema, name: row.table_name, columns: [] };
+      tables.set(key, table);
+    }
+    table.columns.push({ name: row.column_name, type: row.data_type });
+  }
+
+  return [...tables.values()];
+}
+
+/**
+ * Rimuove commenti, stringhe e identificatori quotati per non confonderli con keyword
+ */
+export function stripSqlLiterals(query: string, dbType: DatabaseType): string {
+  const isMySQL = dbType === 'mysql' || dbType === 'mariadb';
+  let out = '';
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query[i];
+    const next = query[i + 1];
+
+    // Commento di riga: -- ... (e # ... su MySQL)
+    if ((ch === '-' && next === '-') || (isMySQL && ch === '#')) {
+      while (i < query.length && query[i] !== '\n') i++;
+      out += ' ';
+      continue;
+    }
+
+    // Commento di blocco: /* ... */
+    if (ch === '/' && next === '*') {
+      const end = query.indexOf('*/', i + 2);
+      i = end === -1 ? query.length : end + 2;
+      out += ' ';
+      continue;
+    }
+
+    // Dollar quoting PostgreSQL: $$...$$ o $tag$...$tag$
+    if (ch === '$' && dbType === 'postgresql') {
+      const tag = query.slice(i).match(/^\$[A-Za-z_]*\$/)?.[0];
+      if (tag) {
+        const end = query.indexOf(tag, i + tag.length);
+        i = end === -1 ? query.length : end + tag.length;
+        out += " '' ";
+        continue;
+      }
+    }
+
+    // Stringhe con escape PostgreSQL: E'...' (il backslash fa da escape, anche davanti a un apice)
+    const isEscapeString = dbType === 'postgresql' && (ch === 'E' || ch === 'e') && next === "'"
+      && !/[A-Za-z0-9_$]/.test(query[i - 1] ?? '');
+    if (isEscapeString) i++;
+
+    // Stringhe e identificatori quotati
+    const quote = query[i];
+    const closing = quote === "'" ? "'" : quote === '"' ? '"' : quote === '`' ? '`' : quote === '[' && dbType === 'sqlserver' ? ']' : null;
+    if (closing) {
+      i++;
+      while (i < query.length) {
+        if ((isMySQL || isEscapeString) && query[i] === '\\') {
+          i += 2;
+          continue;
+        }
+        if (query[i] === closing) {
+          // Quote raddoppiata = escape
+          if (query[i + 1] === closing) {
+            i += 2;
+            continue;
+          }
+          break;
+        }
+        i++;
+      }
+      i++;
+      out += " '' ";
+      continue;
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return out;
+}
+
+/**
+ * True se la query è una singola SELECT (o WITH ... SELECT) che può essere racchiusa in una subquery
+ */
+export function isWrappableSelect(query: string, dbType: DatabaseType): boolean {
+  const statements = stripSqlLiterals(query, dbType)
+    .split(';')
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+  if (statements.length !== 1) return false;
+  const firstKeyword = statements[0].match(/^\(*\s*([A-Za-z]+)/)?.[1]?.toUpperCase();
+  return firstKeyword === 'SELECT' || firstKeyword === 'WITH';
+}
+
+// Rimuove i ; finali (non ammessi dentro una subquery)
+export function trimTrailingSemicolons(query: string): string {
+  return query.replace(/[\s;]+$/, '');
+}
@@ -0,0 +1,259 @@
+/**
+ * Filtri a livello di dashboard
+ *
+ * I filtri sono salvati in dashboards.filters e alimentano i parametri delle query dei widget dinamici
+ * (dataSource.parameters) per nome:
+ *
+ *   text         → parametro <id>                 (testo libero)
+ *   select       → parametro <id>                 (valore scelto tra le opzioni)
+ *   multiSelect  → parametro <id> con multiple=true
+ *   dateRange    → parametri <id>_from e <id>_to  ("YYYY-MM-DD", estremi inclusi)
+ *
+ * Un filtro senza valore non passa il parametro: la query usa il default del widget.
+ * Le opzioni di select/multiSelect vengono da una query: prima colonna = valore, seconda (opzionale) = etichetta.
+ *
+ * Usato dal client (DashboardCanvas, dashare) e dalla route delle dashboard condivise.
+ * In DashboardCanvas i grafici possono anche filtrare gli altri widget (cross-filter, vedi in fondo).
+ */
+
+export type DashboardFilterType = 'dateRange' | 'select' | 'multiSelect' | 'text';
+
+export const DATE_RANGE_PRESETS = {
+  today: 'Today',
+  last7Days: 'Last 7 days',
+  last30Days: 'Last 30 days',
+  thisMonth: 'This month',
+  lastMonth: 'Last month',
+  thisQuarter: 'This quarter',
+  lastQuarter: 'Last quarter',
+  thisYear: 'This year',
+  lastYear: 'Last year',
+} as const;
+
+export type DateRangePreset = keyof typeof DATE_RANGE_PRESETS;
+
+// Periodo relativo (preset, ricalcolato a ogni apertura) oppure date fisse
+export interface DateRangeValue {
+  preset?: DateRangePreset;
+  from?: string;
+  to?: string;
+}
+
+export type DashboardFilterValue = DateRangeValue | string | string[] | null;
+
+export type DashboardFilterValues = Record<string, DashboardFilterValue>;
+
+export interface DashboardFilter {
+  id: string; // Nome del parametro nelle query dei widget
+  label: string;
+  type: DashboardFilterType;
+  default?: DashboardFilterValue;
+  options?: {
+    datasourceId: string;
+    query: string;
+  };
+}
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+const FILTER_ID = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDateRangeValue(value: unknown): value is DateRangeValue {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Date in UTC: il periodo è lo stesso per il browser e per il server
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month, day));
+}
+
+/**
+ * Converte il valore di un filtro dateRange in date "YYYY-MM-DD" (estremi inclusi)
+ */
+export function resolveDateRange(value: DateRangeValue, now: Date = new Date()): { from?: string; to?: string } {
+  if (!value.preset) {
+    return { from: value.from || undefined, to: value.to || undefined };
+  }
+
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+  const quarterStart = month - (month % 3);
+
+  const ranges: Record<DateRangePreset, [Date, Date]> = {
+    today: [utcDate(year, month, day), utcDate(year, month, day)],
+    last7Days: [utcDate(year, month, day - 6), utcDate(year, month, day)],
+    last30Days: [utcDate(year, month, day - 29), utcDate(year, month, day)],
+    thisMonth: [utcDate(year, month, 1), utcDate(year, month + 1, 0)],
+    lastMonth: [utcDate(year, month - 1, 1), utcDate(year, month, 0)],
+    thisQuarter: [utcDate(year, quarterStart, 1), utcDate(year, quarterStart + 3, 0)],
+    lastQuarter: [utcDate(year, quarterStart - 3, 1), utcDate(year, quarterStart, 0)],
+    thisYear: [utcDate(year, 0, 1), utcDate(year, 11, 31)],
+    lastYear: [utcDate(year - 1, 0, 1), utcDate(year - 1, 11, 31)],
+  };
+
+  const range = ranges[value.preset];
+  if (!range) return {};
+  return { from: formatDate(range[0]), to: formatDate(range[1]) };
+}
+
+/**
+ * Valori iniziali dei filtri: i default salvati nella dashboard
+ */
+export function defaultFilterValues(filters: DashboardFilter[] = []): DashboardFilterValues {
+  return Object.fromEntries(filters.map(filter => [filter.id, filter.default ?? null]));
+}
+
+/**
+ * Valori dei parametri delle query per i valori correnti dei filtri.
+ * I filtri vuoti non compaiono: la query usa il default del parametro
+ */
+export function filterParamValues(filters: DashboardFilter[] = [], values: DashboardFilterValues = {}): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+
+  for (const filter of filters) {
+    const value = values[filter.id];
+    if (value === null || value === undefined) continue;
+
+    switch (filter.type) {
+      case 'dateRange': {
+        if (!isDateRangeValue(value)) break;
+        const { from, to } = resolveDateRange(value);
+        if (from) params[`${filter.id}_from`] = from;
+        if (to) params[`${filter.id}_to`] = to;
+        break;
+      }
+      case 'multiSelect':
+        if (Array.isArray(value) && value.length > 0) params[filter.id] = value;
+        break;
+      default:
+        if (typeof value === 'string' && value !== '') params[filter.id] = value;
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Valida le definizioni dei filtri (salvataggio dashboard e tool AI). Lancia un errore con il primo problema
+ */
+export function validateFilters(filters: unknown): DashboardFilter[] {
+  if (!Array.isArray(filters)) {
+    throw new Error('filters must be an array');
+  }
+
+  const seen = new Set<string>();
+
+  for (const filter of filters as DashboardFilter[]) {
+    if (!filter || typeof filter.id !== 'string' || !FILTER_ID.test(filter.id)) {
+      throw new Error(`Invalid filter id "${filter?.id}": use letters, digits and underscores`);
+    }
+    if (seen.has(filter.id)) {
+      throw new Error(`Duplicate filter "${filter.id}"`);
+    }
+    seen.add(filter.id);
+
+    if (typeof filter.label !== 'string' || filter.label.trim() === '') {
+      throw new Error(`Filter "${filter.id}" requires a label`);
+    }
+    if (!['dateRange', 'select', 'multiSelect', 'text'].includes(filter.type)) {
+      throw new Error(`Invalid type for filter "${filter.id}": use dateRange, select, multiSelect or text`);
+    }
+    if ((filter.type === 'select' || filter.type === 'multiSelect')
+      && (!filter.options?.datasourceId || !filter.options?.query)) {
+      throw new Error(`Filter "${filter.id}" requires options with datasourceId and query`);
+    }
+
+    const value = filter.default;
+    if (value === undefined || value === null) continue;
+
+    if (filter.type === 'dateRange') {
+      const valid = isDateRangeValue(value) && (value.preset
+        ? value.preset in DATE_RANGE_PRESETS
+        : [value.from, value.to].every(date => date === undefined || (typeof date === 'string' && DATE_VALUE.test(date))));
+      if (!valid) {
+        throw new Error(`Invalid default for filter "${filter.id}": use { preset } or { from, to } as "YYYY-MM-DD"`);
+      }
+    } else if (filter.type === 'multiSelect') {
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        throw new Error(`Invalid default for filter "${filter.id}": expected an array of strings`);
+      }
+    } else if (typeof value !== 'string') {
+      throw new Error(`Invalid default for filter "${filter.id}": expected a string`);
+    }
+  }
+
+  return filters as DashboardFilter[];
+}
+
+/**
+ * Opzioni di un filtro dalle righe della sua query: prima colonna = valore, seconda = etichetta
+ */
+export function optionsFromRows(rows: Record<string, unknown>[]): FilterOption[] {
+  const seen = new Set<string>();
+  const options: FilterOption[] = [];
+
+  for (const row of rows) {
+    const [value, label] = Object.values(row);
+    if (value === null || value === undefined) continue;
+    const key = String(value);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    options.push({ value: key, label: label !== null && label !== undefined ? String(label) : key });
+  }
+
+  return options;
+}
+
+/**
+ * Cross-filter: valori selezionati in un grafico (click o selezione box/lasso), applicati come parametro
+ * agli altri widget dinamici della dashboard che dichiarano quel parametro
+ */
+export interface CrossFilter {
+  sourceWidgetId: string;
+  parameter: string;
+  values: string[];
+}
+
+interface DeclaredParameter {
+  name: string;
+  multiple?: boolean;
+}
+
+/**
+ * Parametri di un widget con il cross-filter applicato (sostituisce il valore dei filtri della dashboard).
+ * Un parametro singolo accetta solo la selezione di un valore: con più valori il widget resta non filtrato
+ */
+export function applyCrossFilter(
+  widget: { id: string; dataSource?: { parameters?: DeclaredParameter[] } },
+  params: Record<string, unknown>,
+  crossFilter: CrossFilter | null
+): Record<string, unknown> {
+  if (!crossFilter || crossFilter.sourceWidgetId === widget.id) return params;
+
+  const declared = widget.dataSource?.parameters?.find(p => p.name === crossFilter.parameter);
+  if (!declared) return params;
+
+  if (declared.multiple) return { ...params, [declared.name]: crossFilter.values };
+  if (crossFilter.values.length !== 1) return params;
+  return { ...params, [declared.name]: crossFilter.values[0] };
+}
+
+// Il widget viene rieseguito quando cambia il cross-filter?
+export function isCrossFilterTarget(
+  widget: { id: string; isDynamic?: boolean; dataSource?: { parameters?: DeclaredParameter[] } },
+  crossFilter: CrossFilter | null
+): boolean {
+  return !!crossFilter
+    && !!widget.isDynamic
+    && widget.id !== crossFilter.sourceWidgetId
+    && !!widget.dataSource?.parameters?.some(p => p.name === crossFilter.parameter);
+}
@@ -0,0 +1,249 @@
+/**
+ * Layout a griglia delle dashboard
+ *
+ * Ogni widget ha in widget.layout la sua geometria su una griglia di 12 colonne:
+ * x e w in colonne, y e h in righe da GRID_ROW_HEIGHT pixel. I widget senza layout
+ * (dashboard create prima della griglia) vengono messi uno sotto l'altro a tutta larghezza,
+ * nell'ordine di position.
+ *
+ * La griglia ha gravità verso l'alto: dopo ogni modifica i widget salgono finché non toccano
+ * un altro widget. Su schermi stretti il layout viene ricalcolato su meno colonne (solo in lettura).
+ *
+ * Usato da DashboardGrid (DashboardCanvas e dashare), dal tool AI e dalla PUT delle dashboard.
+ */
+
+export const GRID_COLUMNS = 12;
+export const GRID_ROW_HEIGHT = 40; // Pixel per riga
+export const GRID_GAP = 16; // Pixel tra righe e colonne
+
+export interface WidgetLayout {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface LayoutItem {
+  id: string;
+  layout: WidgetLayout;
+}
+
+type LayoutWidgetType = 'chart' | 'table' | 'markdown' | 'query' | 'kpi' | 'pivot';
+
+// Dimensioni di un nuovo widget senza indicazioni
+export const DEFAULT_WIDGET_SIZE: Record<LayoutWidgetType, { w: number; h: number }> = {
+  chart: { w: 12, h: 8 },
+  table: { w: 12, h: 9 },
+  markdown: { w: 12, h: 5 },
+  query: { w: 12, h: 6 },
+  kpi: { w: 3, h: 4 }, // Quattro KPI affiancati
+  pivot: { w: 12, h: 10 },
+};
+
+// Dimensioni minime con il resize
+export const MIN_WIDGET_SIZE = { w: 2, h: 3 };
+
+// Colonne per larghezza del contenitore (px): sotto la prima soglia il layout non è modificabile
+export const GRID_BREAKPOINTS = [
+  { minWidth: 1024, columns: 12 },
+  { minWidth: 640, columns: 6 },
+  { minWidth: 0, columns: 1 },
+];
+
+export function columnsForWidth(width: number): number {
+  return (GRID_BREAKPOINTS.find(b => width >= b.minWidth) ?? GRID_BREAKPOINTS[GRID_BREAKPOINTS.length - 1]).columns;
+}
+
+function collides(a: WidgetLayout, b: WidgetLayout): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+function byPosition(a: LayoutItem, b: LayoutItem): number {
+  return a.layout.y - b.layout.y || a.layout.x - b.layout.x;
+}
+
+function bottom(items: LayoutItem[]): number {
+  return items.reduce((max, item) => Math.max(max, item.layout.y + item.layout.h), 0);
+}
+
+/**
+ * Geometria valida sulla griglia (interi, dentro le colonne)
+ */
+export function normalizeLayout(layout: Partial<WidgetLayout>, columns: number = GRID_COLUMNS): WidgetLayout {
+  const w = Math.min(Math.max(Math.round(layout.w ?? columns), 1), columns);
+  const h = Math.max(Math.round(layout.h ?? 1), 1);
+  const x = Math.min(Math.max(Math.round(layout.x ?? 0), 0), columns - w);
+  const y = Math.max(Math.round(layout.y ?? 0), 0);
+  return { x, y, w, h };
+}
+
+/**
+ * Gravità: ogni widget (dall'alto) sale finché non tocca un altro widget
+ */
+export function compactLayout(items: LayoutItem[]): LayoutItem[] {
+  const placed: LayoutItem[] = [];
+
+  for (const item of [...items].sort(byPosition)) {
+    const layout = { ...item.layout };
+    while (layout.y > 0 && !placed.some(p => collides(p.layout, { ...layout, y: layout.y - 1 }))) {
+      layout.y--;
+    }
+    placed.push({ id: item.id, layout });
+  }
+
+  return placed;
+}
+
+// Sposta in basso l'elemento e, a catena, quelli che urta (tranne fixedId)
+function pushDown(items: LayoutItem[], id: string, y: number, fixedId: string): void {
+  const item = items.find(i => i.id === id)!;
+  item.layout = { ...item.layout, y };
+
+  for (const other of [...items].sort(byPosition)) {
+    if (other.id !== id && other.id !== fixedId && collides(other.layout, item.layout)) {
+      pushDown(items, other.id, item.layout.y + item.layout.h, fixedId);
+    }
+  }
+}
+
+// Mette l'elemento nella geometria indicata e sposta gli altri per fargli posto
+function placeAt(items: LayoutItem[], id: string, layout: WidgetLayout, movedDown: boolean): LayoutItem[] {
+  const result = items.map(item => ({ id: item.id, layout: item.id === id ? layout : { ...item.layout } }));
+
+  for (const other of [...result].sort(byPosition)) {
+    if (other.id === id || !collides(other.layout, layout)) continue;
+
+    // Trascinando verso il basso il widget urtato passa sopra, se lì c'è spazio (scambio di posto)
+    if (movedDown) {
+      const above = { ...other.layout, y: Math.max(layout.y - other.layout.h, 0) };
+      if (!result.some(r => r.id !== other.id && collides(r.layout, above))) {
+        other.layout = above;
+        continue;
+      }
+    }
+    pushDown(result, other.id, layout.y + layout.h, id);
+  }
+
+  return compactLayout(result);
+}
+
+/**
+ * Layout dei widget salvati: usa widget.layout, i widget senza layout vanno sotto a tutta larghezza.
+ * Le sovrapposizioni (es. JSON modificato a mano) vengono risolte spostando in basso
+ */
+export function resolveLayouts(
+  widgets: Array<{ id: string; type: LayoutWidgetType; position: number; layout?: Partial<WidgetLayout> }>
+): LayoutItem[] {
+  const placed: LayoutItem[] = [];
+
+  for (const widget of [...widgets].sort((a, b) => a.position - b.position)) {
+    const layout = widget.layout
+      ? normalizeLayout(widget.layout)
+      : { x: 0, y: bottom(placed), w: GRID_COLUMNS, h: DEFAULT_WIDGET_SIZE[widget.type]?.h ?? DEFAULT_WIDGET_SIZE.chart.h };
+
+    while (placed.some(p => collides(p.layout, layout))) {
+      layout.y = Math.max(...placed.filter(p => collides(p.layout, layout)).map(p => p.layout.y + p.layout.h));
+    }
+    placed.push({ id: widget.id, layout });
+  }
+
+  return compactLayout(placed);
+}
+
+/**
+ * Sposta o ridimensiona un widget (drag e resize nella griglia)
+ */
+export function moveWidget(items: LayoutItem[], id: string, next: WidgetLayout): LayoutItem[] {
+  const current = items.find(item => item.id === id);
+  if (!current) return items;
+
+  const layout = normalizeLayout(next);
+  return placeAt(items, id, layout, layout.y > current.layout.y);
+}
+
+/**
+ * Posizione di un nuovo widget (o di uno esistente con indicazioni del tool AI).
+ * Con x e y il widget va esattamente lì; altrimenti al primo posto libero dall'ultima riga in giù,
+ * cioè accanto all'ultimo widget se c'è spazio, altrimenti sotto
+ */
+export function placeWidget(
+  items: LayoutItem[],
+  id: string,
+  size: { w: number; h: number },
+  hint: Partial<WidgetLayout> = {}
+): LayoutItem[] {
+  const others = items.filter(item => item.id !== id);
+  const { w, h } = normalizeLayout({ w: hint.w ?? size.w, h: hint.h ?? size.h });
+
+  if (hint.x !== undefined && hint.y !== undefined) {
+    return placeAt([...others, { id, layout: { x: 0, y: bottom(others), w, h } }], id, normalizeLayout({ ...hint, w, h }), false);
+  }
+
+  const startY = hint.y ?? (others.length > 0 ? Math.max(...others.map(item => item.layout.y)) : 0);
+  const columns = hint.x !== undefined ? [normalizeLayout({ x: hint.x, w }).x] : Array.from({ length: GRID_COLUMNS - w + 1 }, (_, x) => x);
+
+  for (let y = startY; ; y++) {
+    for (const x of columns) {
+      const layout = { x, y, w, h };
+      if (!others.some(item => collides(item.layout, layout))) {
+        return compactLayout([...others, { id, layout }]);
+      }
+    }
+  }
+}
+
+/**
+ * Layout per una griglia più stretta: larghezze e colonne in proporzione, poi gravità
+ */
+export function layoutForColumns(items: LayoutItem[], columns: number): LayoutItem[] {
+  if (columns >= GRID_COLUMNS) return items;
+
+  const placed: LayoutItem[] = [];
+  for (const item of [...items].sort(byPosition)) {
+    const w = Math.min(Math.max(Math.round(item.layout.w * columns / GRID_COLUMNS), 1), columns);
+    const layout = {
+      x: Math.min(Math.floor(item.layout.x * columns / GRID_COLUMNS), columns - w),
+      y: item.layout.y,
+      w,
+      h: item.layout.h,
+    };
+    while (placed.some(p => collides(p.layout, layout))) {
+      layout.y = Math.max(...placed.filter(p => collides(p.layout, layout)).map(p => p.layout.y + p.layout.h));
+    }
+    placed.push({ id: item.id, layout });
+  }
+
+  return compactLayout(placed);
+}
+
+/**
+ * Salva il layout nei widget: geometria in layout, position = ordine di lettura (dall'alto, da sinistra)
+ */
+export function applyLayouts<W extends { id: string; position: number; layout?: WidgetLayout }>(widgets: W[], items: LayoutItem[]): W[] {
+  const layouts = new Map(items.map(item => [item.id, item.layout]));
+  const order = [...items].sort(byPosition).map(item => item.id);
+
+  return widgets.map(widget => ({
+    ...widget,
+    layout: layouts.get(widget.id) ?? widget.layout,
+    position: order.includes(widget.id) ? order.indexOf(widget.id) : widget.position,
+  }));
+}
+
+/**
+ * Valida la geometria dei widget (salvataggio dashboard). Lancia un errore con il primo problema
+ */
+export function validateWidgetLayouts(widgets: unknown): void {
+  if (!Array.isArray(widgets)) return;
+
+  for (const widget of widgets as Array<{ id?: string; layout?: Partial<WidgetLayout> }>) {
+    if (!widget || widget.layout === undefined) continue;
+
+    const { x, y, w, h } = widget.layout ?? {};
+    const valid = [x, y, w, h].every(n => Number.isInteger(n))
+      && x! >= 0 && y! >= 0 && w! >= 1 && h! >= 1 && x! + w! <= GRID_COLUMNS;
+    if (!valid) {
+      throw new Error(`Invalid layout for widget "${widget.id}": x, y, w, h must be integers with x + w <= ${GRID_COLUMNS}`);
+    }
+  }
+}
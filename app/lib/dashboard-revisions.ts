@@ -0,0 +1,202 @@
+/**
+ * Cronologia delle dashboard
+ *
+ * Ogni salvataggio (utente da canvas/JSON editor, AI dai tool, ripristino) aggiunge una riga immutabile
+ * in dashboard_revisions con lo snapshot completo della dashboard dopo la modifica, l'autore
+ * (user o ai, con la chat da cui è partita la modifica) e un riepilogo generato dal diff.
+ *
+ * Il diff è a livello di widget: aggiunti, rimossi, modificati (con i campi cambiati).
+ * Usato dalle route delle dashboard, dai tool AI e da DashboardHistoryPanel.
+ */
+
+import type { createServiceClient } from './supabase/server';
+
+export type RevisionAuthor = 'user' | 'ai';
+
+// Contenuto della dashboard salvato in ogni revisione
+export interface DashboardSnapshot {
+  name: string;
+  description?: string | null;
+  widgets: SnapshotWidget[];
+  filters?: unknown[];
+  layout_config?: unknown;
+}
+
+interface SnapshotWidget {
+  id: string;
+  title?: string;
+  type?: string;
+  [key: string]: unknown;
+}
+
+export interface DashboardRevision {
+  id: string;
+  dashboard_id: string;
+  author_type: RevisionAuthor;
+  chat_id: string | null;
+  summary: string;
+  created_at: string;
+  snapshot?: DashboardSnapshot; // Solo nel dettaglio della revisione
+}
+
+export interface WidgetChange {
+  widgetId: string;
+  title: string;
+  change: 'added' | 'removed' | 'modified';
+  fields: string[]; // Campi cambiati (solo modified)
+}
+
+export interface DashboardDiff {
+  fields: string[]; // Campi della dashboard cambiati (name, description, filters, layout_config)
+  widgets: WidgetChange[];
+}
+
+// Campi che cambiano a ogni salvataggio senza essere una modifica del widget
+const IGNORED_WIDGET_FIELDS = new Set(['updated_at', 'position']);
+
+const SNAPSHOT_FIELDS = ['name', 'description', 'widgets', 'filters', 'layout_config'] as const;
+
+// Confronto strutturale (ordine delle chiavi irrilevante)
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return (a ?? null) === (b ?? null);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a as object).filter(k => (a as Record<string, unknown>)[k] !== undefined);
+  const keysB = Object.keys(b as object).filter(k => (b as Record<string, unknown>)[k] !== undefined);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(k => sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+/**
+ * Snapshot dei campi versionati di una riga di dashboards
+ */
+export function toSnapshot(dashboard: object): DashboardSnapshot {
+  const row = dashboard as Record<string, unknown>;
+  return Object.fromEntries(
+    SNAPSHOT_FIELDS.map(field => [field, row[field] ?? (field === 'widgets' || field === 'filters' ? [] : null)])
+  ) as unknown as DashboardSnapshot;
+}
+
+/**
+ * Differenze tra due versioni della dashboard (before null = dashboard appena creata)
+ */
+export function diffDashboards(before: DashboardSnapshot | null, after: DashboardSnapshot): DashboardDiff {
+  const fields = before
+    ? (['name', 'description', 'filters', 'layout_config'] as const).filter(field => !sameValue(before[field], after[field]))
+    : [];
+
+  const beforeWidgets = new Map((before?.widgets || []).map(w => [w.id, w]));
+  const afterWidgets = new Map((after.widgets || []).map(w => [w.id, w]));
+  const widgets: WidgetChange[] = [];
+
+  for (const [id, widget] of afterWidgets) {
+    const previous = beforeWidgets.get(id);
+    if (!previous) {
+      widgets.push({ widgetId: id, title: widget.title || id, change: 'added', fields: [] });
+      continue;
+    }
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(widget)]);
+    const changed = [...keys].filter(key => !IGNORED_WIDGET_FIELDS.has(key) && !sameValue(previous[key], widget[key]));
+    if (changed.length > 0) {
+      widgets.push({ widgetId: id, title: widget.title || id, change: 'modified', fields: changed });
+    }
+  }
+
+  for (const [id, widget] of beforeWidgets) {
+    if (!afterWidgets.has(id)) {
+      widgets.push({ widgetId: id, title: widget.title || id, change: 'removed', fields: [] });
+    }
+  }
+
+  return { fields, widgets };
+}
+
+/**
+ * Riepilogo leggibile del diff (es. 'Added "Revenue"; modified "Orders" (template, layout)')
+ */
+export function summarizeDiff(diff: DashboardDiff, created: boolean = false): string {
+  if (created) {
+    return diff.widgets.length > 0 ? `Created dashboard with ${diff.widgets.length} widget(s)` : 'Created dashboard';
+  }
+
+  const parts = [
+    ...diff.fields.map(field => `changed ${field}`),
+    ...diff.widgets.map(w => w.change === 'modified'
+      ? `modified "${w.title}" (${w.fields.join(', ')})`
+      : `${w.change} "${w.title}"`),
+  ];
+  if (parts.length === 0) return 'No changes';
+
+  const summary = parts.join('; ');
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+}
+
+/**
+ * Registra una revisione dopo un salvataggio. Un salvataggio senza modifiche non crea revisioni.
+ * Alla prima revisione di una dashboard già esistente viene salvata anche la versione precedente,
+ * così resta ripristinabile. Gli errori vengono solo loggati: la cronologia non deve far fallire il salvataggio
+ */
+export async function recordRevision(
+  serviceClient: ReturnType<typeof createServiceClient>,
+  {
+    dashboardId,
+    userId,
+    before,
+    after,
+    author,
+    chatId = null,
+    summary,
+  }: {
+    dashboardId: string;
+    userId: string;
+    before: DashboardSnapshot | null; // null = dashboard appena creata
+    after: DashboardSnapshot;
+    author: RevisionAuthor;
+    chatId?: string | null;
+    summary?: string; // Default: generato dal diff
+  }
+): Promise<void> {
+  try {
+    const diff = diffDashboards(before, after);
+    if (before && diff.fields.length === 0 && diff.widgets.length === 0) return;
+
+    if (before) {
+      const { count } = await serviceClient
+        .from('dashboard_revisions')
+        .select('id', { count: 'exact', head: true })
+        .eq('dashboard_id', dashboardId);
+
+      if (count === 0) {
+        await serviceClient.from('dashboard_revisions').insert({
+          dashboard_id: dashboardId,
+          user_id: userId,
+          author_type: 'user',
+          chat_id: null,
+          summary: 'Version before history was enabled',
+          snapshot: before,
+        });
+      }
+    }
+
+    const { error } = await serviceClient
+      .from('dashboard_revisions')
+      .insert({
+        dashboard_id: dashboardId,
+        user_id: userId,
+        author_type: author,
+        chat_id: chatId,
+        summary: summary ?? summarizeDiff(diff, !before),
+        snapshot: after,
+      });
+
+    if (error) {
+      console.error('[DASHBOARD_REVISIONS] Insert error:', error);
+    }
+  } catch (error) {
+    console.error('[DASHBOARD_REVISIONS] Error:', error);
+  }
+}
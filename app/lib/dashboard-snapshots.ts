@@ -0,0 +1,169 @@
+/**
+ * Snapshot delle dashboard condivise
+ *
+ * Uno snapshot congela i dati di una dashboard a un certo istante (es. chiusura del mese): il server esegue
+ * una volta tutti i widget dinamici, con i filtri sui valori di default, e salva i widget già hydratati come
+ * widget statici (tabella dashboard_snapshots). Il viewer (/dashare/snapshot/<token>) riceve solo i dati
+ * salvati: nessuna query, nessuna data source, nessun drill-down o aggiornamento automatico.
+ *
+ * Una dashboard può avere più snapshot storici; come per i link, dashboards.is_shared resta l'interruttore
+ * generale. Eliminare uno snapshot revoca il suo link.
+ *
+ * Usato dalle route /api/dashboards/[id]/snapshots e /api/dashboards/shared/snapshots/[token].
+ */
+
+import { executeSharedQuery, type SharedDashboard } from './shared-query';
+import { hydrateTemplate } from './widget-template';
+import { kpiFromRows, type KpiTemplate } from './kpi';
+import type { PivotConfig } from './pivot';
+import type { createServiceClient } from './supabase/server';
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+type SnapshotSourceWidget = SharedDashboard['widgets'][number] & {
+  type: string;
+  title?: string;
+  template?: { pageSize?: number; kpi?: KpiTemplate; pivot?: PivotConfig } & Record<string, unknown>;
+  data?: unknown;
+};
+
+export interface SnapshotSourceDashboard extends SharedDashboard {
+  id: string;
+  name: string;
+  description?: string | null;
+  widgets: SnapshotSourceWidget[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Dashboard salvata nello snapshot: stessi campi della dashboard condivisa, con i soli widget statici
+export interface SnapshotContent {
+  id: string;
+  name: string;
+  description?: string | null;
+  widgets: Record<string, unknown>[];
+  filters: [];
+  filters_exposed: false;
+  layout_config: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DashboardSnapshot {
+  id: string;
+  dashboard_id: string;
+  name: string;
+  token: string; // Parte finale dell'URL /dashare/snapshot/<token>
+  content: SnapshotContent;
+  captured_at: string;
+  created_at: string;
+}
+
+export type DashboardSnapshotSummary = Omit<DashboardSnapshot, 'content'>;
+
+export const SNAPSHOT_SUMMARY_COLUMNS = 'id, dashboard_id, name, token, captured_at, created_at';
+
+export const SNAPSHOT_SOURCE_COLUMNS = 'id, user_id, name, description, widgets, filters, filters_exposed, layout_config, created_at, updated_at';
+
+export const MAX_SNAPSHOTS_PER_DASHBOARD = 50;
+
+// Righe salvate per le tabelle: lo snapshot non ha paginazione
+const SNAPSHOT_TABLE_ROWS = 1000;
+const MAX_NAME_LENGTH = 100;
+
+// Niente query né configurazione di refresh nello snapshot: il viewer non deve poter risalire alla data source
+const DYNAMIC_WIDGET_FIELDS = new Set(['dataSource', 'drillDown', 'cacheTtl', 'refreshInterval', 'template']);
+const DYNAMIC_LAYOUT_FIELDS = new Set(['refreshInterval']);
+
+function withoutFields(source: Record<string, unknown>, fields: Set<string>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(source).filter(([key]) => !fields.has(key)));
+}
+
+/**
+ * Nome dello snapshot (default: data di acquisizione). Lancia un errore se non è valido
+ */
+export function validateSnapshotName(name: unknown): string | null {
+  if (name === undefined || name === null || name === '') return null;
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('Snapshot name must be a string');
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    throw new Error(`Snapshot name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return name.trim();
+}
+
+// Esegue il widget (livello iniziale, filtri di default) e lo trasforma in un widget statico con i dati
+async function captureWidget(
+  serviceClient: ServiceClient,
+  dashboard: SnapshotSourceDashboard,
+  widget: SnapshotSourceWidget
+): Promise<Record<string, unknown>> {
+  const rest = withoutFields(widget, DYNAMIC_WIDGET_FIELDS);
+  const { template } = widget;
+
+  if (!widget.isDynamic || !widget.dataSource) {
+    return rest;
+  }
+
+  const result = await executeSharedQuery(serviceClient, dashboard, {
+    widgetId: widget.id,
+    limit: widget.type === 'table' ? SNAPSHOT_TABLE_ROWS : undefined,
+  }, { refresh: true });
+
+  if ('status' in result || !result.success || !result.data) {
+    throw new Error(`Widget "${widget.title || widget.id}" failed: ${result.error || 'no data'}`);
+  }
+
+  const rows = result.data as Record<string, unknown>[];
+  const data = widget.type === 'kpi' && template?.kpi
+    ? { kpi: kpiFromRows(template.kpi, rows) }
+    : widget.type === 'pivot' && template?.pivot
+      ? { pivot: { ...template.pivot, records: rows } }
+    : template
+      ? hydrateTemplate(template, rows, widget.type)
+      : widget.data;
+  const executedAt = result.executedAt || new Date().toISOString();
+
+  return {
+    ...rest,
+    isDynamic: false,
+    data,
+    updated_at: executedAt,
+    lastFetched: executedAt,
+    resultColumns: result.columns,
+    page: {
+      offset: 0,
+      truncated: !!result.truncated,
+      totalRowsEstimate: result.totalRowsEstimate ?? rows.length,
+      nextOffset: null,
+    },
+  };
+}
+
+/**
+ * Esegue tutti i widget dinamici della dashboard con la data source del proprietario, ignorando la cache.
+ * Lancia un errore se un widget fallisce: uno snapshot con dati mancanti non viene salvato
+ */
+export async function captureDashboardSnapshot(
+  serviceClient: ServiceClient,
+  dashboard: SnapshotSourceDashboard
+): Promise<{ content: SnapshotContent; captured_at: string }> {
+  const capturedAt = new Date().toISOString();
+  const widgets = await Promise.all((dashboard.widgets || []).map(widget => captureWidget(serviceClient, dashboard, widget)));
+
+  return {
+    captured_at: capturedAt,
+    content: {
+      id: dashboard.id,
+      name: dashboard.name,
+      description: dashboard.description,
+      widgets,
+      filters: [],
+      filters_exposed: false,
+      layout_config: withoutFields(dashboard.layout_config || {}, DYNAMIC_LAYOUT_FIELDS),
+      created_at: dashboard.created_at,
+      updated_at: dashboard.updated_at,
+    },
+  };
+}
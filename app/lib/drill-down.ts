@@ -0,0 +1,98 @@
+/**
+ * Drill-down dei grafici dinamici
+ *
+ * Un chart dinamico può dichiarare in drillDown i livelli sotto la sua query (es. anno → trimestre → mese).
+ * Il click su un punto scende al livello successivo: il valore del punto va nel parametro del livello,
+ * che esegue la sua query (con il suo template, o quello del widget). I valori cliccati si accumulano:
+ * la query del mese riceve sia l'anno che il trimestre, se li dichiara nei suoi parametri.
+ *
+ *   livello 0       dataSource.query                        (nessun valore)
+ *   livello 1       drillDown[0].query   parametri: drillDown[0].parameter
+ *   livello 2       drillDown[1].query   parametri: drillDown[0].parameter, drillDown[1].parameter
+ *
+ * Usato dal client (DashboardCanvas, dashare) e dalla route delle dashboard condivise,
+ * che esegue solo le query salvate nel widget.
+ */
+
+import type { QueryParameter } from './connectors/parameters';
+
+export interface DrillLevel {
+  parameter: string; // Riceve il valore del punto cliccato nel livello precedente
+  label?: string; // Nome del livello (es. "Quarter"), mostrato nel breadcrumb
+  query: string;
+  parameters?: QueryParameter[]; // Parametri della query del livello (il suo parameter e quelli dei livelli sopra)
+  template?: unknown; // Default: template del widget
+  field?: 'x' | 'y' | 'label' | 'customdata'; // Valore del punto cliccato (default: label per pie, altrimenti x)
+}
+
+interface DrillableWidget {
+  dataSource?: {
+    datasourceId: string;
+    query: string;
+    parameters?: QueryParameter[];
+  };
+  template?: unknown;
+  drillDown?: DrillLevel[];
+}
+
+const PARAMETER_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Widget al livello indicato dal percorso (valori cliccati, dal livello 0 in giù) e valori dei parametri di drill.
+ * Il percorso viene tagliato al numero di livelli dichiarati
+ */
+export function drillWidget<W extends DrillableWidget>(
+  widget: W,
+  path: string[] = []
+): { widget: W; params: Record<string, string>; depth: number } {
+  const levels = widget.drillDown || [];
+  const depth = Math.min(path.length, levels.length);
+  if (depth === 0 || !widget.dataSource) {
+    return { widget, params: {}, depth: 0 };
+  }
+
+  const level = levels[depth - 1];
+  const params = Object.fromEntries(
+    levels.slice(0, depth).map((l, i) => [l.parameter, String(path[i])])
+  );
+
+  return {
+    widget: {
+      ...widget,
+      dataSource: { ...widget.dataSource, query: level.query, parameters: level.parameters },
+      template: level.template ?? widget.template,
+    },
+    params,
+    depth,
+  };
+}
+
+/**
+ * Valida i livelli di drill (tool AI). Lancia un errore con il primo problema
+ */
+export function validateDrillDown(levels: unknown): DrillLevel[] {
+  if (!Array.isArray(levels)) {
+    throw new Error('drillDown must be an array');
+  }
+
+  const seen = new Set<string>();
+
+  for (const level of levels as DrillLevel[]) {
+    if (!level || typeof level.parameter !== 'string' || !PARAMETER_NAME.test(level.parameter)) {
+      throw new Error(`Invalid drill parameter "${level?.parameter}": use letters, digits and underscores`);
+    }
+    if (seen.has(level.parameter)) {
+      throw new Error(`Duplicate drill parameter "${level.parameter}"`);
+    }
+    seen.add(level.parameter);
+
+    if (typeof level.query !== 'string' || level.query.trim() === '') {
+      throw new Error(`Drill level "${level.parameter}" requires a query`);
+    }
+    if (!level.parameters?.some(p => p.name === level.parameter)) {
+      throw new Error(`Drill level "${level.parameter}" must declare the parameter "${level.parameter}" in its parameters`);
+    }
+  }
+
+  return levels as DrillLevel[];
+}
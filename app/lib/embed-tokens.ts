@@ -0,0 +1,170 @@
+/**
+ * Token di embed: JWT firmati (HS256) per mostrare una dashboard dentro un'app esterna
+ *
+ * Ogni workspace (utente) ha un segreto di embed (tabella embed_secrets): serve sia come chiave dell'API
+ * server-to-server che emette i token (Authorization: Bearer <segreto>), sia come chiave HMAC dei token.
+ * Il backend dell'app esterna può anche firmare i token da sé con lo stesso segreto.
+ *
+ * Header: { alg: "HS256", typ: "JWT", kid: <id del segreto> }
+ * Payload: { dashboard_id, params, iat, exp } — params sono i parametri bloccati, iniettati in ogni query
+ * dinamica della dashboard (es. { customer_id: 42 }: il cliente vede solo i suoi ordini).
+ *
+ * Ruotare il segreto invalida tutti i token emessi. Usato da /api/embed e /api/settings/embed-secret.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { decryptApiKey } from './crypto';
+import { validateLockedParams, type LockedParams, type LockedParamValue } from './shared-query';
+import type { createServiceClient } from './supabase/server';
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export type EmbedParamValue = LockedParamValue;
+
+export interface EmbedClaims {
+  dashboard_id: string;
+  params: LockedParams;
+  iat: number; // Secondi (come da standard JWT)
+  exp: number;
+}
+
+export const DEFAULT_EMBED_TTL = 60 * 60; // Secondi
+export const MAX_EMBED_TTL = 24 * 60 * 60;
+
+const SECRET_PREFIX = 'vte_';
+
+// --- Segreto del workspace ---
+
+export function generateEmbedSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+// Hash per ritrovare il workspace dall'API key (il segreto in chiaro non viene salvato)
+export function hashEmbedSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+// --- JWT ---
+
+function base64urlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signature(signingInput: string, secret: string): string {
+  return createHmac('sha256', secret).update(signingInput).digest('base64url');
+}
+
+export function signEmbedToken(claims: EmbedClaims, secret: string, keyId: string): string {
+  const signingInput = `${base64urlJson({ alg: 'HS256', typ: 'JWT', kid: keyId })}.${base64urlJson(claims)}`;
+  return `${signingInput}.${signature(signingInput, secret)}`;
+}
+
+function decodePart(part: string | undefined): Record<string, unknown> | null {
+  if (!part) return null;
+  try {
+    const value = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Id del segreto dall'header, prima della verifica: serve solo a sapere quale chiave usare
+export function embedKeyId(token: string): string | null {
+  const header = decodePart(token.split('.')[0]);
+  return header?.alg === 'HS256' && typeof header.kid === 'string' ? header.kid : null;
+}
+
+/**
+ * Verifica firma, scadenza e contenuto del token. Lancia un errore se non è valido
+ */
+export function verifyEmbedToken(token: string, secret: string): EmbedClaims {
+  const [header, payload, signaturePart] = token.split('.');
+  if (!header || !payload || !signaturePart) {
+    throw new Error('Invalid embed token');
+  }
+
+  const expected = Buffer.from(signature(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signaturePart);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error('Invalid embed token');
+  }
+
+  const claims = decodePart(payload);
+  if (!claims || typeof claims.dashboard_id !== 'string' || typeof claims.exp !== 'number') {
+    throw new Error('Invalid embed token');
+  }
+  if (claims.exp * 1000 <= Date.now()) {
+    throw new Error('Embed token expired');
+  }
+
+  return {
+    dashboard_id: claims.dashboard_id,
+    params: validateEmbedParams(claims.params ?? {}),
+    iat: typeof claims.iat === 'number' ? claims.iat : 0,
+    exp: claims.exp,
+  };
+}
+
+// --- Validazione ---
+
+// Stesse regole dei parametri bloccati dei link di condivisione
+export const validateEmbedParams = validateLockedParams;
+
+/**
+ * Durata del token in secondi (default 1 ora, massimo 24 ore). Lancia un errore se non è valida
+ */
+export function validateEmbedTtl(expiresIn: unknown): number {
+  if (expiresIn === undefined || expiresIn === null) return DEFAULT_EMBED_TTL;
+  if (typeof expiresIn !== 'number' || !Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > MAX_EMBED_TTL) {
+    throw new Error(`expires_in must be an integer between 1 and ${MAX_EMBED_TTL} seconds`);
+  }
+  return expiresIn;
+}
+
+// --- Risoluzione ---
+
+/**
+ * Dashboard del token con le colonne richieste (devono includere id), se firma e scadenza sono valide.
+ * La dashboard deve appartenere al workspace del segreto; non serve che sia condivisa
+ */
+export async function resolveEmbedToken<T>(
+  serviceClient: ServiceClient,
+  token: string,
+  columns: string
+): Promise<{ dashboard: T; claims: EmbedClaims } | { error: string; status: number }> {
+  const keyId = embedKeyId(token);
+  if (!keyId) {
+    return { error: 'Invalid embed token', status: 401 };
+  }
+
+  const { data: secretRow } = await serviceClient
+    .from('embed_secrets')
+    .select('user_id, encrypted_secret')
+    .eq('id', keyId)
+    .maybeSingle();
+
+  if (!secretRow) {
+    return { error: 'Invalid embed token', status: 401 };
+  }
+
+  let claims: EmbedClaims;
+  try {
+    claims = verifyEmbedToken(token, decryptApiKey(secretRow.encrypted_secret));
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Invalid embed token', status: 401 };
+  }
+
+  const { data: dashboard } = await serviceClient
+    .from('dashboards')
+    .select(columns)
+    .eq('id', claims.dashboard_id)
+    .eq('user_id', secretRow.user_id)
+    .maybeSingle();
+
+  if (!dashboard) {
+    return { error: 'Dashboard not found', status: 404 };
+  }
+
+  return { dashboard: dashboard as T, claims };
+}
@@ -0,0 +1,432 @@
+/**
+ * Formati dei valori e formattazione condizionale dei widget
+ *
+ * Formati (FormatSpec): numero, valuta, percentuale, compatto, data, data e ora, ora, testo.
+ * Locale di default it-IT; ogni widget può indicarne un altro (formatting.locale).
+ * Senza formato i valori vengono comunque resi leggibili: decimali a 2 cifre, date e timestamp ISO
+ * nel formato del locale, interi lasciati come sono (anni, ID).
+ *
+ * Pattern delle date (FormatSpec.pattern): yyyy yy MMMM MMM MM M dd d EEEE EEE HH H mm ss,
+ * il resto è copiato com'è. Es. "dd/MM/yyyy HH:mm", "MMM yyyy"
+ *
+ * Regole condizionali (valutate al render, sui valori originali):
+ *   threshold → colore/sfondo/icona della cella (o della riga) se il valore soddisfa la condizione
+ *   colorScale → sfondo interpolato tra 2 o 3 colori, da min a max della colonna
+ *   dataBar    → barra proporzionale al valore, da min a max della colonna
+ *   iconSet    → freccia (o semaforo) in base a due soglie
+ *
+ * Usato da TableWidget, KpiWidget e PivotWidget (DashboardCanvas e dashare) e dal tool AI.
+ */
+
+export const DEFAULT_LOCALE = 'it-IT';
+
+export type FormatType = 'number' | 'currency' | 'percent' | 'compact' | 'date' | 'datetime' | 'time' | 'text';
+
+export const FORMAT_TYPES: FormatType[] = ['number', 'currency', 'percent', 'compact', 'date', 'datetime', 'time', 'text'];
+
+export interface FormatSpec {
+  type?: FormatType; // Default: number
+  decimals?: number; // Cifre decimali (default: 2 per number/currency, 1 per percent e compact)
+  currency?: string; // Codice ISO 4217 per type=currency (default EUR)
+  thousands?: boolean; // Separatore delle migliaia (default true)
+  pattern?: string; // Solo date: vedi in alto (default: giorno/mese/anno del locale, es. 31/12/2025)
+  prefix?: string;
+  suffix?: string;
+}
+
+export type RuleIcon = 'up' | 'down' | 'flat' | 'check' | 'warning' | 'cross' | 'dot';
+
+export const RULE_ICONS: RuleIcon[] = ['up', 'down', 'flat', 'check', 'warning', 'cross', 'dot'];
+
+export type RuleOperator = '>' | '>=' | '<' | '<=' | '=' | '!=' | 'between';
+
+export const RULE_OPERATORS: RuleOperator[] = ['>', '>=', '<', '<=', '=', '!=', 'between'];
+
+export type ConditionalRule =
+  | {
+      type: 'threshold';
+      column: string;
+      operator: RuleOperator;
+      value: number | string;
+      value2?: number; // Solo between (estremi inclusi)
+      color?: string;
+      background?: string;
+      icon?: RuleIcon;
+      row?: boolean; // Applica colore e sfondo a tutta la riga
+    }
+  | {
+      type: 'colorScale';
+      column: string;
+      colors: string[]; // 2 o 3 colori esadecimali (#rrggbb): min, [medio,] max
+      min?: number; // Default: minimo della colonna
+      max?: number; // Default: massimo della colonna
+    }
+  | {
+      type: 'dataBar';
+      column: string;
+      color?: string;
+      min?: number; // Default: 0 o il minimo della colonna se negativo
+      max?: number; // Default: massimo della colonna
+    }
+  | {
+      type: 'iconSet';
+      column: string;
+      thresholds: [number, number]; // Sotto la prima: basso, dalla seconda in su: alto
+      style?: 'arrows' | 'traffic'; // Default: arrows
+      higherIsBetter?: boolean; // Default: true (alto = verde)
+    };
+
+export const RULE_TYPES: ConditionalRule['type'][] = ['threshold', 'colorScale', 'dataBar', 'iconSet'];
+
+// Formattazione di un widget tabellare (template.formatting per i dinamici, data.formatting per gli statici)
+export interface WidgetFormatting {
+  locale?: string; // Default: it-IT
+  columns?: Record<string, FormatSpec>; // Intestazione della colonna → formato
+  rules?: ConditionalRule[];
+}
+
+// Stile di una cella risultante dalle regole
+export interface CellStyle {
+  color?: string;
+  background?: string;
+  icon?: { name: RuleIcon; color?: string };
+  bar?: { ratio: number; color: string }; // ratio tra 0 e 1
+}
+
+const GOOD = '#22c55e';
+const BAD = '#ef4444';
+const NEUTRAL = '#f59e0b';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+export function toNumber(value: unknown): number | null {
+  if (isEmpty(value) || typeof value === 'boolean') return null;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// Date: oggetti Date, stringhe ISO e timestamp in millisecondi. Le date senza ora sono in UTC
+function toDate(value: unknown): { date: Date; dateOnly: boolean } | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : { date: value, dateOnly: false };
+  if (typeof value === 'number') return { date: new Date(value), dateOnly: false };
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  if (!ISO_DATE.test(trimmed) && !ISO_TIMESTAMP.test(trimmed)) {
+    const time = Date.parse(trimmed);
+    return Number.isNaN(time) ? null : { date: new Date(time), dateOnly: false };
+  }
+  const date = new Date(ISO_DATE.test(trimmed) ? `${trimmed}T00:00:00Z` : trimmed.replace(' ', 'T'));
+  return Number.isNaN(date.getTime()) ? null : { date, dateOnly: ISO_DATE.test(trimmed) };
+}
+
+const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+function formatDatePattern(date: Date, pattern: string, locale: string, utc: boolean): string {
+  const timeZone = utc ? 'UTC' : undefined;
+  const name = (options: Intl.DateTimeFormatOptions) => new Intl.DateTimeFormat(locale, { ...options, timeZone }).format(date);
+  const parts = utc
+    ? { y: date.getUTCFullYear(), M: date.getUTCMonth() + 1, d: date.getUTCDate(), H: date.getUTCHours(), m: date.getUTCMinutes(), s: date.getUTCSeconds() }
+    : { y: date.getFullYear(), M: date.getMonth() + 1, d: date.getDate(), H: date.getHours(), m: date.getMinutes(), s: date.getSeconds() };
+
+  return pattern.replace(/yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|mm|ss/g, token => {
+    switch (token) {
+      case 'yyyy': return String(parts.y);
+      case 'yy': return pad(parts.y % 100);
+      case 'MMMM': return name({ month: 'long' });
+      case 'MMM': return name({ month: 'short' });
+      case 'MM': return pad(parts.M);
+      case 'M': return String(parts.M);
+      case 'dd': return pad(parts.d);
+      case 'd': return String(parts.d);
+      case 'EEEE': return name({ weekday: 'long' });
+      case 'EEE': return name({ weekday: 'short' });
+      case 'HH': return pad(parts.H);
+      case 'H': return String(parts.H);
+      case 'mm': return pad(parts.m);
+      default: return pad(parts.s);
+    }
+  });
+}
+
+function formatDateValue(value: unknown, spec: FormatSpec, locale: string): string | null {
+  const parsed = toDate(value);
+  if (!parsed) return null;
+
+  const { date, dateOnly } = parsed;
+  if (spec.pattern) return formatDatePattern(date, spec.pattern, locale, dateOnly);
+
+  const timeZone = dateOnly ? 'UTC' : undefined;
+  const type = spec.type === 'datetime' && dateOnly ? 'date' : spec.type;
+  const day: Intl.DateTimeFormatOptions = { day: '2-digit', month: '2-digit', year: 'numeric' };
+  const time: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+  const options: Intl.DateTimeFormatOptions =
+    type === 'time' ? { ...time, timeZone }
+      : type === 'datetime' ? { ...day, ...time, timeZone }
+        : { ...day, timeZone };
+  return new Intl.DateTimeFormat(locale, options).format(date);
+}
+
+function formatNumberValue(value: number, spec: FormatSpec, locale: string): string {
+  const type = spec.type ?? 'number';
+  const decimals = spec.decimals ?? (type === 'percent' || type === 'compact' ? 1 : 2);
+  const options: Intl.NumberFormatOptions = {
+    minimumFractionDigits: type === 'currency' && spec.decimals === undefined ? decimals : 0,
+    maximumFractionDigits: decimals,
+    useGrouping: spec.thousands ?? true,
+  };
+
+  switch (type) {
+    case 'currency':
+      return new Intl.NumberFormat(locale, { ...options, style: 'currency', currency: spec.currency || 'EUR' }).format(value);
+    case 'percent':
+      return new Intl.NumberFormat(locale, { ...options, style: 'percent' }).format(value);
+    case 'compact':
+      return new Intl.NumberFormat(locale, { ...options, notation: 'compact' }).format(value);
+    default:
+      return new Intl.NumberFormat(locale, options).format(value);
+  }
+}
+
+/**
+ * Valore formattato per la visualizzazione. Senza formato: vedi in alto.
+ * Se il valore non è compatibile con il formato (es. testo in una colonna numerica) resta com'è
+ */
+export function formatValue(value: unknown, spec?: FormatSpec, locale: string = DEFAULT_LOCALE): string {
+  if (isEmpty(value)) return '';
+
+  let text: string | null = null;
+
+  if (!spec) {
+    if (typeof value === 'number') {
+      text = Number.isInteger(value) ? String(value) : formatNumberValue(value, {}, locale);
+    } else if (typeof value === 'string' && (ISO_DATE.test(value) || ISO_TIMESTAMP.test(value))) {
+      text = formatDateValue(value, { type: ISO_DATE.test(value) ? 'date' : 'datetime' }, locale);
+    }
+  } else if (spec.type === 'date' || spec.type === 'datetime' || spec.type === 'time') {
+    text = formatDateValue(value, spec, locale);
+  } else if (spec.type !== 'text') {
+    const number = toNumber(value);
+    if (number !== null) text = formatNumberValue(number, spec, locale);
+  }
+
+  if (text === null) {
+    text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  return `${spec?.prefix ?? ''}${text}${spec?.suffix ?? ''}`;
+}
+
+// --- Regole condizionali ---
+
+function matchesThreshold(rule: Extract<ConditionalRule, { type: 'threshold' }>, value: unknown): boolean {
+  if (isEmpty(value)) return false;
+
+  const number = toNumber(value);
+  const target = toNumber(rule.value);
+
+  if (rule.operator === '=' || rule.operator === '!=') {
+    const equal = number !== null && target !== null
+      ? number === target
+      : String(value).toLowerCase() === String(rule.value).toLowerCase();
+    return rule.operator === '=' ? equal : !equal;
+  }
+
+  if (number === null || target === null) return false;
+  switch (rule.operator) {
+    case '>': return number > target;
+    case '>=': return number >= target;
+    case '<': return number < target;
+    case '<=': return number <= target;
+    default: return rule.value2 !== undefined && number >= Math.min(target, rule.value2) && number <= Math.max(target, rule.value2);
+  }
+}
+
+function hexToRgb(hex: string): [number, number, number] | null {
+  const match = hex.match(/^#([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const n = parseInt(match[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+// Colore tra quelli della scala (ratio tra 0 e 1)
+function interpolateColors(colors: string[], ratio: number): string | undefined {
+  const rgb = colors.map(hexToRgb);
+  if (rgb.length < 2 || rgb.some(c => !c)) return undefined;
+
+  const scaled = Math.min(Math.max(ratio, 0), 1) * (rgb.length - 1);
+  const index = Math.min(Math.floor(scaled), rgb.length - 2);
+  const t = scaled - index;
+  const [from, to] = [rgb[index]!, rgb[index + 1]!];
+  const channel = (i: number) => Math.round(from[i] + (to[i] - from[i]) * t);
+  return `rgba(${channel(0)}, ${channel(1)}, ${channel(2)}, 0.35)`;
+}
+
+function iconFor(rule: Extract<ConditionalRule, { type: 'iconSet' }>, number: number): CellStyle['icon'] {
+  const [low, high] = [...rule.thresholds].sort((a, b) => a - b);
+  const level = number < low ? 0 : number >= high ? 2 : 1;
+  const good = rule.higherIsBetter ?? true;
+  const color = level === 1 ? NEUTRAL : (level === 2) === good ? GOOD : BAD;
+
+  if (rule.style === 'traffic') return { name: 'dot', color };
+  return { name: level === 0 ? 'down' : level === 2 ? 'up' : 'flat', color };
+}
+
+function ruleRange(values: number[], min?: number, max?: number): [number, number] {
+  return [
+    min ?? (values.length > 0 ? Math.min(...values) : 0),
+    max ?? (values.length > 0 ? Math.max(...values) : 0),
+  ];
+}
+
+/**
+ * Stile delle celle: prepara le regole sulle righe (min e max delle colonne per scale e barre)
+ * e ritorna la funzione che calcola lo stile di una cella. Le regole successive sovrascrivono le precedenti
+ */
+export function cellStyler(
+  rules: ConditionalRule[] | undefined,
+  columns: string[],
+  rows: unknown[][]
+): (row: unknown[], column: number) => CellStyle | null {
+  if (!rules || rules.length === 0) return () => null;
+
+  const prepared = rules
+    .map(rule => {
+      const index = columns.indexOf(rule.column);
+      if (index === -1) return null;
+
+      if (rule.type === 'colorScale' || rule.type === 'dataBar') {
+        const values = rows.map(row => toNumber(row[index])).filter((n): n is number => n !== null);
+        const [min, max] = ruleRange(values, rule.min, rule.max);
+        // Le barre partono da zero, a meno di valori negativi
+        const barMin = rule.type === 'dataBar' && rule.min === undefined ? Math.min(0, min) : min;
+        return { rule, index, min: barMin, max };
+      }
+      return { rule, index, min: 0, max: 0 };
+    })
+    .filter(p => p !== null);
+
+  return (row, column) => {
+    let style: CellStyle | null = null;
+
+    for (const { rule, index, min, max } of prepared) {
+      const appliesToRow = rule.type === 'threshold' && rule.row;
+      if (index !== column && !appliesToRow) continue;
+
+      const value = row[index];
+      const next: CellStyle = {};
+
+      if (rule.type === 'threshold') {
+        if (!matchesThreshold(rule, value)) continue;
+        if (rule.color) next.color = rule.color;
+        if (rule.background) next.background = rule.background;
+        // L'icona resta sulla cella della colonna della regola
+        if (rule.icon && index === column) next.icon = { name: rule.icon, color: rule.color };
+      } else {
+        const number = toNumber(value);
+        if (number === null) continue;
+        const ratio = max === min ? 1 : (number - min) / (max - min);
+
+        if (rule.type === 'colorScale') {
+          next.background = interpolateColors(rule.colors, ratio);
+        } else if (rule.type === 'dataBar') {
+          next.bar = { ratio: Math.min(Math.max(ratio, 0), 1), color: rule.color || '#3b82f6' };
+        } else {
+          next.icon = iconFor(rule, number);
+        }
+      }
+
+      style = { ...(style ?? {}), ...next };
+    }
+
+    return style;
+  };
+}
+
+/**
+ * Stile di un valore singolo (KPI): solo threshold e iconSet, la colonna viene ignorata
+ */
+export function valueStyle(rules: ConditionalRule[] | undefined, value: unknown): CellStyle | null {
+  const applicable = (rules || []).filter(rule => rule.type === 'threshold' || rule.type === 'iconSet');
+  return cellStyler(applicable.map(rule => ({ ...rule, column: 'value' })), ['value'], [[value]])([value], 0);
+}
+
+// --- Validazione (tool AI) ---
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function validateFormatSpec(spec: FormatSpec, label: string): void {
+  if (spec.type !== undefined && !FORMAT_TYPES.includes(spec.type)) {
+    throw new Error(`${label}: invalid format type "${spec.type}", use ${FORMAT_TYPES.join(', ')}`);
+  }
+  if (spec.currency !== undefined && !/^[A-Z]{3}$/.test(spec.currency)) {
+    throw new Error(`${label}: invalid currency "${spec.currency}", use an ISO 4217 code such as EUR or USD`);
+  }
+  if (spec.decimals !== undefined && (!Number.isInteger(spec.decimals) || spec.decimals < 0 || spec.decimals > 6)) {
+    throw new Error(`${label}: decimals must be an integer between 0 and 6`);
+  }
+}
+
+export function validateLocale(locale: string, label: string): void {
+  try {
+    new Intl.NumberFormat(locale);
+  } catch {
+    throw new Error(`${label}: invalid locale "${locale}", use a BCP 47 tag such as it-IT or en-US`);
+  }
+}
+
+export function validateRules(rules: ConditionalRule[], label: string, columns?: string[]): void {
+  rules.forEach((rule, i) => {
+    const where = `${label}[${i}]`;
+    if (!RULE_TYPES.includes(rule.type)) {
+      throw new Error(`${where}: invalid rule type, use ${RULE_TYPES.join(', ')}`);
+    }
+    if (columns && !columns.includes(rule.column)) {
+      throw new Error(`${where}: column "${rule.column}" is not one of the table columns (${columns.join(', ')})`);
+    }
+
+    switch (rule.type) {
+      case 'threshold':
+        if (!RULE_OPERATORS.includes(rule.operator)) {
+          throw new Error(`${where}: invalid operator "${rule.operator}", use ${RULE_OPERATORS.join(', ')}`);
+        }
+        if (rule.operator === 'between' && (toNumber(rule.value) === null || typeof rule.value2 !== 'number')) {
+          throw new Error(`${where}: between requires numeric value and value2`);
+        }
+        if (rule.icon !== undefined && !RULE_ICONS.includes(rule.icon)) {
+          throw new Error(`${where}: invalid icon "${rule.icon}", use ${RULE_ICONS.join(', ')}`);
+        }
+        break;
+      case 'colorScale':
+        if (!Array.isArray(rule.colors) || rule.colors.length < 2 || rule.colors.length > 3 || !rule.colors.every(c => HEX_COLOR.test(c))) {
+          throw new Error(`${where}: colorScale requires 2 or 3 colors as #rrggbb`);
+        }
+        break;
+      case 'iconSet':
+        if (!Array.isArray(rule.thresholds) || rule.thresholds.length !== 2 || rule.thresholds.some(t => typeof t !== 'number')) {
+          throw new Error(`${where}: iconSet requires two numeric thresholds`);
+        }
+        break;
+    }
+  });
+}
+
+/**
+ * Valida la formattazione di un widget tabellare. columns: intestazioni della tabella, se note
+ */
+export function validateFormatting(formatting: WidgetFormatting, columns?: string[]): void {
+  if (formatting.locale !== undefined) validateLocale(formatting.locale, 'formatting.locale');
+
+  for (const [column, spec] of Object.entries(formatting.columns || {})) {
+    if (columns && !columns.includes(column)) {
+      throw new Error(`formatting.columns: "${column}" is not one of the table columns (${columns.join(', ')})`);
+    }
+    validateFormatSpec(spec, `formatting.columns["${column}"]`);
+  }
+
+  validateRules(formatting.rules || [], 'formatting.rules', columns);
+}
@@ -0,0 +1,141 @@
+/**
+ * Widget KPI (scorecard)
+ *
+ * Un numero grande con, opzionalmente, il confronto con un altro valore (periodo precedente o target)
+ * e una sparkline. Statico: i valori sono in data.kpi. Dinamico: template.kpi indica le colonne del risultato:
+ *
+ *   value        → valore mostrato, dall'ultima riga
+ *   comparison   → valore di confronto, dall'ultima riga
+ *   sparkline    → serie della sparkline, tutte le righe in ordine
+ *
+ * Con una sparkline la query ritorna una riga per periodo, in ordine cronologico: l'ultima riga è il valore attuale.
+ * Il delta è verde quando va nella direzione buona (higherIsBetter, default true), rosso altrimenti.
+ * I valori sono formattati come le celle delle tabelle (lib/formatting, locale it-IT di default);
+ * rules colora il valore e aggiunge un'icona (solo regole threshold e iconSet).
+ *
+ * Usato da KpiWidget, dal client (DashboardCanvas, dashare) e dal tool AI.
+ */
+
+import { DEFAULT_LOCALE, formatValue, validateLocale, validateRules, type ConditionalRule } from './formatting';
+
+export type KpiFormat = 'number' | 'currency' | 'percent' | 'compact';
+
+// Aspetto del KPI (uguale per statici e dinamici)
+export interface KpiConfig {
+  format?: KpiFormat; // Default: number
+  currency?: string; // Codice ISO 4217 per format=currency (default EUR)
+  decimals?: number; // Cifre decimali (default: 0, 1 per percent e compact)
+  comparisonType?: 'previous' | 'target'; // Default: previous
+  comparisonLabel?: string; // Es. "vs last month" (default in base a comparisonType)
+  higherIsBetter?: boolean; // Default: true
+  locale?: string; // Default: it-IT
+  rules?: ConditionalRule[]; // Formattazione condizionale del valore (la colonna è ignorata)
+}
+
+// Template dei KPI dinamici: colonne del risultato della query
+export interface KpiTemplate extends KpiConfig {
+  value: string;
+  comparison?: string;
+  sparkline?: string;
+}
+
+// Valori del KPI (data.kpi)
+export interface KpiData extends KpiConfig {
+  value: number | null;
+  comparison?: number | null;
+  sparkline?: number[];
+}
+
+export interface KpiDelta {
+  difference: number; // value - comparison
+  ratio: number | null; // Variazione relativa (0.12 = +12%), null se il confronto è 0
+  direction: 'up' | 'down' | 'flat';
+  sentiment: 'good' | 'bad' | 'neutral';
+}
+
+export const KPI_FORMATS: KpiFormat[] = ['number', 'currency', 'percent', 'compact'];
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Valori del KPI dalle righe della query (vedi in alto)
+ */
+export function kpiFromRows(template: KpiTemplate, rows: Record<string, unknown>[]): KpiData {
+  const { value, comparison, sparkline, ...config } = template;
+  const last = rows[rows.length - 1];
+
+  return {
+    ...config,
+    value: toNumber(last?.[value]),
+    ...(comparison ? { comparison: toNumber(last?.[comparison]) } : {}),
+    ...(sparkline
+      ? { sparkline: rows.map(row => toNumber(row[sparkline])).filter((n): n is number => n !== null) }
+      : {}),
+  };
+}
+
+/**
+ * Valore formattato (es. "1.234 €", "12,5%", "1,2 Mln" con it-IT). percent si aspetta una frazione: 0.125 → 12,5%
+ */
+export function formatKpiValue(value: number | null | undefined, config: KpiConfig = {}): string {
+  if (value === null || value === undefined) return '—';
+
+  const format = config.format ?? 'number';
+  const decimals = config.decimals ?? (format === 'percent' || format === 'compact' ? 1 : 0);
+
+  return formatValue(value, { type: format, decimals, currency: config.currency }, config.locale ?? DEFAULT_LOCALE);
+}
+
+/**
+ * Delta rispetto al valore di confronto (null se manca uno dei due valori)
+ */
+export function kpiDelta(data: KpiData): KpiDelta | null {
+  const { value, comparison } = data;
+  if (value === null || comparison === null || comparison === undefined) return null;
+
+  const difference = value - comparison;
+  const direction = difference > 0 ? 'up' : difference < 0 ? 'down' : 'flat';
+  const better = (data.higherIsBetter ?? true) ? 'up' : 'down';
+
+  return {
+    difference,
+    ratio: comparison !== 0 ? difference / Math.abs(comparison) : null,
+    direction,
+    sentiment: direction === 'flat' ? 'neutral' : direction === better ? 'good' : 'bad',
+  };
+}
+
+/**
+ * Valida la configurazione di un KPI (tool AI). Lancia un errore con il primo problema
+ */
+export function validateKpi(kpi: Partial<KpiTemplate> | Partial<KpiData> | undefined, dynamic: boolean): void {
+  if (!kpi) {
+    throw new Error(dynamic ? 'Dynamic KPI widgets require template.kpi' : 'Static KPI widgets require data.kpi');
+  }
+  if (dynamic ? typeof kpi.value !== 'string' || kpi.value === '' : kpi.value !== null && typeof kpi.value !== 'number') {
+    throw new Error(dynamic ? 'template.kpi.value must be the name of a result column' : 'data.kpi.value must be a number');
+  }
+  if (kpi.format !== undefined && !KPI_FORMATS.includes(kpi.format)) {
+    throw new Error(`Invalid KPI format "${kpi.format}": use ${KPI_FORMATS.join(', ')}`);
+  }
+  if (kpi.currency !== undefined && !/^[A-Z]{3}$/.test(kpi.currency)) {
+    throw new Error(`Invalid currency "${kpi.currency}": use an ISO 4217 code such as EUR or USD`);
+  }
+  if (kpi.decimals !== undefined && (!Number.isInteger(kpi.decimals) || kpi.decimals < 0 || kpi.decimals > 6)) {
+    throw new Error('KPI decimals must be an integer between 0 and 6');
+  }
+  if (kpi.locale !== undefined) {
+    validateLocale(kpi.locale, 'KPI locale');
+  }
+  if (kpi.rules !== undefined) {
+    const unsupported = kpi.rules.find(rule => rule.type !== 'threshold' && rule.type !== 'iconSet');
+    if (unsupported) {
+      throw new Error(`KPI rules support threshold and iconSet, not ${unsupported.type}`);
+    }
+    validateRules(kpi.rules, 'KPI rules');
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildPivot, pivotTotals, PIVOT_TOTAL_KEY, type PivotConfig } from './pivot';
+
+const config: PivotConfig = {
+  rows: ['category', 'product'],
+  columns: ['month'],
+  measures: [{ field: 'revenue' }],
+};
+
+const records = [
+  { category: 'A', product: 'a1', month: '01', revenue: 10 },
+  { category: 'A', product: 'a2', month: '01', revenue: 5 },
+  { category: 'A', product: 'a1', month: '02', revenue: 7 },
+  { category: 'B', product: 'b1', month: '02', revenue: 3 },
+];
+
+describe('buildPivot', () => {
+  it('aggrega celle, subtotali e totale generale', () => {
+    const { columnKeys, root } = buildPivot(config, records);
+
+    expect(columnKeys).toEqual([['01'], ['02']]);
+    expect(root.cells.get(PIVOT_TOTAL_KEY)).toEqual([25]);
+    expect(root.children[0].cells.get(JSON.stringify(['01']))).toEqual([15]);
+    expect(root.children[0].cells.get(PIVOT_TOTAL_KEY)).toEqual([22]);
+  });
+});
+
+describe('pivotTotals', () => {
+  it('segue la configurazione se il risultato è completo', () => {
+    expect(pivotTotals(config)).toEqual({ subtotals: true, grandTotals: true });
+    expect(pivotTotals({ ...config, subtotals: false }, false)).toEqual({ subtotals: false, grandTotals: true });
+  });
+
+  it('nasconde i totali se il risultato è troncato', () => {
+    // Le prime righe di un risultato tagliato: i totali mancherebbero del resto dei dati
+    const partial = buildPivot(config, records.slice(0, 2));
+    expect(partial.root.cells.get(PIVOT_TOTAL_KEY)).toEqual([15]);
+
+    expect(pivotTotals(config, true)).toEqual({ subtotals: false, grandTotals: false });
+    expect(pivotTotals({ ...config, subtotals: true, grandTotals: true }, true)).toEqual({ subtotals: false, grandTotals: false });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Widget pivot (tabella a doppia entrata)
+ *
+ * Calcolato nel browser sulle righe della query: le dimensioni di riga e di colonna raggruppano le righe,
+ * le misure vengono aggregate (sum, avg, count, min, max) in ogni incrocio. Esempio: fatturato per prodotto × mese
+ *
+ *   rows: ["category", "product"]   columns: ["month"]   measures: [{ field: "revenue" }]
+ *
+ * I gruppi di riga hanno il subtotale (subtotals, default true), la tabella ha i totali generali
+ * di riga e di colonna (grandTotals, default true). Subtotali e totali sono aggregati sulle righe originali:
+ * la media di un gruppo è la media delle sue righe, non la media delle medie.
+ *
+ * Statico: data.pivot con la configurazione e le righe in records. Dinamico: template.pivot con la configurazione,
+ * le righe arrivano dalla query (tutto il risultato, non paginato). Se il risultato è troncato a maxRows
+ * della data source i totali sarebbero calcolati solo su una parte delle righe: vengono nascosti (pivotTotals)
+ * e il widget lo segnala. Per pivot su molte righe conviene aggregare nella query (GROUP BY).
+ *
+ * Usato da PivotWidget, dal client (DashboardCanvas, dashare) e dal tool AI.
+ */
+
+import { validateFormatSpec, validateLocale, type FormatSpec } from './formatting';
+
+export type PivotAggregation = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+export const PIVOT_AGGREGATIONS: PivotAggregation[] = ['sum', 'avg', 'count', 'min', 'max'];
+
+export interface PivotMeasure {
+  field: string; // Colonna del risultato
+  label?: string; // Default: "<aggregazione> of <field>"
+  aggregation?: PivotAggregation; // Default: quella della tabella
+  format?: FormatSpec; // Default: numero con 2 decimali
+}
+
+export interface PivotConfig {
+  rows: string[]; // Dimensioni di riga, dalla più esterna
+  columns: string[]; // Dimensioni di colonna, dalla più esterna (può essere vuoto)
+  measures: PivotMeasure[];
+  aggregation?: PivotAggregation; // Default: sum
+  subtotals?: boolean; // Default: true
+  grandTotals?: boolean; // Default: true
+  locale?: string; // Default: it-IT
+}
+
+// Dati del widget (data.pivot)
+export interface PivotData extends PivotConfig {
+  records: Record<string, unknown>[];
+}
+
+export interface PivotNode {
+  path: string[]; // Valori delle dimensioni di riga fino a questo nodo ([] = totale generale)
+  children: PivotNode[];
+  cells: Map<string, Array<number | null>>; // Chiave di colonna → valore di ogni misura
+}
+
+export interface PivotResult {
+  columnKeys: string[][]; // Valori delle dimensioni di colonna di ogni colonna, in ordine
+  root: PivotNode; // Totale generale; i figli sono i gruppi della prima dimensione di riga
+}
+
+// Chiave della colonna dei totali di riga
+export const PIVOT_TOTAL_KEY = '\u0000total';
+
+interface Accumulator {
+  sum: number;
+  count: number; // Valori numerici
+  rows: number; // Righe (anche con valore vuoto): per count
+  min: number;
+  max: number;
+}
+
+const EMPTY_LABEL = '(empty)';
+
+function dimensionValue(record: Record<string, unknown>, field: string): string {
+  const value = record[field];
+  return value === null || value === undefined || value === '' ? EMPTY_LABEL : String(value);
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function finish(acc: Accumulator | undefined, aggregation: PivotAggregation): number | null {
+  if (!acc) return null;
+  if (aggregation === 'count') return acc.rows;
+  if (acc.count === 0) return null;
+
+  switch (aggregation) {
+    case 'avg': return acc.sum / acc.count;
+    case 'min': return acc.min;
+    case 'max': return acc.max;
+    default: return acc.sum;
+  }
+}
+
+// Ordine naturale: numeri e date come tali, il resto alfabetico
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+function compareKeys(a: string[], b: string[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const diff = collator.compare(a[i], b[i]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function measureLabel(measure: PivotMeasure, config: PivotConfig): string {
+  return measure.label ?? `${measure.aggregation ?? config.aggregation ?? 'sum'} of ${measure.field}`;
+}
+
+/**
+ * Subtotali e totali generali da mostrare. Con il risultato troncato sono sempre nascosti:
+ * mancano le righe oltre il limite e i totali sarebbero sbagliati senza che si veda
+ */
+export function pivotTotals(config: PivotConfig, truncated: boolean = false): { subtotals: boolean; grandTotals: boolean } {
+  if (truncated) return { subtotals: false, grandTotals: false };
+  return { subtotals: config.subtotals ?? true, grandTotals: config.grandTotals ?? true };
+}
+
+/**
+ * Calcola la tabella pivot
+ */
+export function buildPivot(config: PivotConfig, records: Record<string, unknown>[]): PivotResult {
+  const aggregations = config.measures.map(m => m.aggregation ?? config.aggregation ?? 'sum');
+
+  // Accumulatori per percorso di riga (ogni livello, anche il totale) e chiave di colonna (anche il totale)
+  const accumulators = new Map<string, Map<string, Accumulator[]>>();
+  const columnKeys = new Map<string, string[]>();
+  const childPaths = new Map<string, Map<string, string[]>>(); // Percorso → figli (chiave → percorso)
+
+  for (const record of records) {
+    const rowPath = config.rows.map(field => dimensionValue(record, field));
+    const columnPath = config.columns.map(field => dimensionValue(record, field));
+    const columnKey = JSON.stringify(columnPath);
+    columnKeys.set(columnKey, columnPath);
+
+    const values = config.measures.map(m => toNumber(record[m.field]));
+
+    for (let depth = 0; depth <= rowPath.length; depth++) {
+      const path = rowPath.slice(0, depth);
+      const pathKey = JSON.stringify(path);
+
+      if (depth > 0) {
+        const parentKey = JSON.stringify(rowPath.slice(0, depth - 1));
+        if (!childPaths.has(parentKey)) childPaths.set(parentKey, new Map());
+        childPaths.get(parentKey)!.set(pathKey, path);
+      }
+
+      if (!accumulators.has(pathKey)) accumulators.set(pathKey, new Map());
+      const byColumn = accumulators.get(pathKey)!;
+
+      for (const key of [columnKey, PIVOT_TOTAL_KEY]) {
+        if (!byColumn.has(key)) {
+          byColumn.set(key, values.map(() => ({ sum: 0, count: 0, rows: 0, min: Infinity, max: -Infinity })));
+        }
+        byColumn.get(key)!.forEach((acc, i) => {
+          acc.rows++;
+          const value = values[i];
+          if (value === null) return;
+          acc.sum += value;
+          acc.count++;
+          acc.min = Math.min(acc.min, value);
+          acc.max = Math.max(acc.max, value);
+        });
+      }
+    }
+  }
+
+  const buildNode = (path: string[]): PivotNode => {
+    const pathKey = JSON.stringify(path);
+    const byColumn = accumulators.get(pathKey) ?? new Map<string, Accumulator[]>();
+    const cells = new Map<string, Array<number | null>>();
+    for (const [key, accs] of byColumn) {
+      cells.set(key, aggregations.map((aggregation, i) => finish(accs[i], aggregation)));
+    }
+
+    const children = [...(childPaths.get(pathKey)?.values() ?? [])]
+      .sort(compareKeys)
+      .map(buildNode);
+
+    return { path, children, cells };
+  };
+
+  return {
+    columnKeys: [...columnKeys.values()].sort(compareKeys),
+    root: buildNode([]),
+  };
+}
+
+/**
+ * Valida la configurazione (tool AI). Lancia un errore con il primo problema
+ */
+export function validatePivot(config: Partial<PivotData> | undefined, dynamic: boolean): void {
+  if (!config) {
+    throw new Error(dynamic ? 'Dynamic pivot widgets require template.pivot' : 'Static pivot widgets require data.pivot');
+  }
+  if (!dynamic && (!Array.isArray(config.records) || config.records.some(r => !r || typeof r !== 'object' || Array.isArray(r)))) {
+    throw new Error('data.pivot.records must be an array of objects (one per row, keyed by column name)');
+  }
+  if (!Array.isArray(config.rows) || config.rows.length === 0 || config.rows.some(f => typeof f !== 'string' || f === '')) {
+    throw new Error('pivot.rows must list at least one column name');
+  }
+  if (config.columns !== undefined && (!Array.isArray(config.columns) || config.columns.some(f => typeof f !== 'string' || f === ''))) {
+    throw new Error('pivot.columns must be a list of column names');
+  }
+  if (!Array.isArray(config.measures) || config.measures.length === 0 || config.measures.some(m => !m || typeof m.field !== 'string' || m.field === '')) {
+    throw new Error('pivot.measures must list at least one measure with a field');
+  }
+
+  const aggregations = [config.aggregation, ...config.measures.map(m => m.aggregation)].filter(a => a !== undefined);
+  const invalid = aggregations.find(a => !PIVOT_AGGREGATIONS.includes(a!));
+  if (invalid) {
+    throw new Error(`Invalid aggregation "${invalid}": use ${PIVOT_AGGREGATIONS.join(', ')}`);
+  }
+
+  config.measures.forEach((measure, i) => {
+    if (measure.format) validateFormatSpec(measure.format, `pivot.measures[${i}].format`);
+  });
+  if (config.locale !== undefined) validateLocale(config.locale, 'pivot.locale');
+
+  const dimensions = [...config.rows, ...(config.columns || [])];
+  const duplicate = dimensions.find((field, i) => dimensions.indexOf(field) !== i);
+  if (duplicate) {
+    throw new Error(`Dimension "${duplicate}" is used more than once`);
+  }
+}
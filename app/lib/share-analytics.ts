@@ -0,0 +1,261 @@
+/**
+ * Statistiche dei viewer delle dashboard condivise
+ *
+ * Le route pubbliche registrano un evento (tabella share_views) per ogni apertura di un link o di uno snapshot
+ * e per ogni widget caricato o aggiornato automaticamente, dopo aver risposto al viewer (after). Gli aggiornamenti
+ * automatici sono accorpati: al massimo un evento ogni REFRESH_COALESCE_MINUTES per viewer e widget, altrimenti
+ * uno schermo a parete riempirebbe la tabella a ogni ciclo. Nessun dato personale in chiaro:
+ *   - IP → visitor_hash, HMAC per dashboard (conta i visitatori unici, non si può risalire all'IP)
+ *   - user agent e referrer troncati (il referrer è la pagina da cui il viewer ha aperto il link)
+ *
+ * Il proprietario può disattivare la raccolta (dashboards.share_analytics) e scegliere per quanti giorni
+ * conservare gli eventi (dashboards.share_analytics_retention_days): quelli più vecchi vengono cancellati
+ * a ogni apertura. I viewer con Do Not Track o Global Privacy Control attivi non vengono registrati.
+ *
+ * Usato dalle route /api/dashboards/shared e /api/dashboards/[id]/share/analytics.
+ */
+
+import { createHmac } from 'crypto';
+import type { createServiceClient } from './supabase/server';
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export type ShareViewEvent = 'view' | 'widget_load' | 'widget_refresh';
+
+// Impostazioni salvate nella dashboard
+export interface ShareAnalyticsSettings {
+  share_analytics: boolean;
+  share_analytics_retention_days: number;
+}
+
+export const SHARE_ANALYTICS_COLUMNS = 'share_analytics, share_analytics_retention_days';
+
+export const DEFAULT_RETENTION_DAYS = 90;
+export const MAX_RETENTION_DAYS = 365;
+
+// Header con document.referrer del viewer (il Referer della richiesta è la pagina /dashare stessa)
+export const SHARE_REFERRER_HEADER = 'x-share-referrer';
+
+// Sorgente dell'evento: link con nome, link predefinito (entrambi null) o snapshot
+export interface ShareViewSource {
+  dashboardId: string;
+  linkId?: string | null;
+  snapshotId?: string | null;
+}
+
+export interface ShareViewRow {
+  link_id: string | null;
+  snapshot_id: string | null;
+  event: ShareViewEvent;
+  widget_id: string | null;
+  visitor_hash: string;
+  referrer: string | null;
+  created_at: string;
+}
+
+export interface ShareViewSummary {
+  views: number;
+  unique_visitors: number;
+  last_access: string | null;
+  widget_loads: number;
+  widget_refreshes: number; // Accorpati: al massimo uno ogni REFRESH_COALESCE_MINUTES per viewer e widget
+  daily: Array<{ date: string; views: number; unique_visitors: number }>; // Tutti i giorni del periodo, anche vuoti
+  top_widgets: Array<{ widget_id: string; count: number }>;
+  top_referrers: Array<{ referrer: string; count: number }>;
+}
+
+const MAX_USER_AGENT_LENGTH = 300;
+const MAX_REFERRER_LENGTH = 500;
+const TOP_ENTRIES = 5;
+const REFRESH_COALESCE_MINUTES = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// --- Registrazione ---
+
+// Un aggiornamento automatico dello stesso viewer sullo stesso widget è già registrato nella finestra
+async function refreshRecentlyRecorded(
+  serviceClient: ServiceClient,
+  source: ShareViewSource,
+  visitorHash: string,
+  widgetId: string | null
+): Promise<boolean> {
+  let query = serviceClient
+    .from('share_views')
+    .select('id')
+    .eq('dashboard_id', source.dashboardId)
+    .eq('event', 'widget_refresh')
+    .eq('visitor_hash', visitorHash)
+    .gte('created_at', new Date(Date.now() - REFRESH_COALESCE_MINUTES * 60 * 1000).toISOString());
+
+  query = widgetId ? query.eq('widget_id', widgetId) : query.is('widget_id', null);
+  query = source.linkId ? query.eq('link_id', source.linkId) : query.is('link_id', null);
+  query = source.snapshotId ? query.eq('snapshot_id', source.snapshotId) : query.is('snapshot_id', null);
+
+  const { data, error } = await query.limit(1);
+  if (error) {
+    console.error('[SHARE_ANALYTICS] Coalesce check error:', error);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+function clientIp(headers: Headers): string {
+  const forwarded = headers.get('x-forwarded-for');
+  return forwarded?.split(',')[0].trim() || headers.get('x-real-ip') || 'unknown';
+}
+
+function hashVisitor(dashboardId: string, ip: string): string {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+  }
+  return createHmac('sha256', key).update(`${dashboardId}.${ip}`).digest('hex');
+}
+
+// Do Not Track / Global Privacy Control
+function viewerOptedOut(headers: Headers): boolean {
+  return headers.get('dnt') === '1' || headers.get('sec-gpc') === '1';
+}
+
+// Solo referrer esterni: query string e frammento possono contenere token o dati personali
+function normalizeReferrer(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    return `${url.origin}${url.pathname}`.slice(0, MAX_REFERRER_LENGTH);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Registra un evento del viewer, se la dashboard ha le statistiche attive. Non lancia mai:
+ * un errore delle statistiche non deve bloccare la dashboard. Le route la chiamano con after(),
+ * così gli insert non rallentano la risposta
+ */
+export async function recordShareView(
+  serviceClient: ServiceClient,
+  source: ShareViewSource & { settings: Partial<ShareAnalyticsSettings> },
+  event: ShareViewEvent,
+  headers: Headers,
+  widgetId: string | null = null
+): Promise<void> {
+  if (source.settings.share_analytics === false || viewerOptedOut(headers)) {
+    return;
+  }
+
+  try {
+    const visitorHash = hashVisitor(source.dashboardId, clientIp(headers));
+    if (event === 'widget_refresh' && await refreshRecentlyRecorded(serviceClient, source, visitorHash, widgetId)) {
+      return;
+    }
+
+    const { error } = await serviceClient.from('share_views').insert({
+      dashboard_id: source.dashboardId,
+      link_id: source.linkId ?? null,
+      snapshot_id: source.snapshotId ?? null,
+      event,
+      widget_id: widgetId,
+      visitor_hash: visitorHash,
+      user_agent: headers.get('user-agent')?.slice(0, MAX_USER_AGENT_LENGTH) ?? null,
+      referrer: event === 'view' ? normalizeReferrer(headers.get(SHARE_REFERRER_HEADER)) : null,
+    });
+    if (error) {
+      console.error('[SHARE_ANALYTICS] Insert error:', error);
+    }
+
+    // Retention: le aperture sono poche rispetto agli eventi dei widget, basta potare lì
+    if (event === 'view') {
+      await pruneShareViews(serviceClient, source.dashboardId, source.settings.share_analytics_retention_days);
+    }
+  } catch (err) {
+    console.error('[SHARE_ANALYTICS] Error:', err);
+  }
+}
+
+export async function pruneShareViews(
+  serviceClient: ServiceClient,
+  dashboardId: string,
+  retentionDays: number = DEFAULT_RETENTION_DAYS
+): Promise<void> {
+  const { error } = await serviceClient
+    .from('share_views')
+    .delete()
+    .eq('dashboard_id', dashboardId)
+    .lt('created_at', new Date(Date.now() - retentionDays * DAY_MS).toISOString());
+
+  if (error) {
+    console.error('[SHARE_ANALYTICS] Prune error:', error);
+  }
+}
+
+// --- Riepilogo per il proprietario ---
+
+function topEntries<K extends string>(values: string[], key: K): Array<Record<K, string> & { count: number }> {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_ENTRIES)
+    .map(([value, count]) => ({ [key]: value, count } as Record<K, string> & { count: number }));
+}
+
+/**
+ * Riepilogo degli eventi di un link (o snapshot) negli ultimi `days` giorni
+ */
+export function summarizeShareViews(rows: ShareViewRow[], days: number, now: Date = new Date()): ShareViewSummary {
+  const views = rows.filter(row => row.event === 'view');
+
+  const byDay = new Map<string, Set<string>>();
+  const viewCounts = new Map<string, number>();
+  for (const row of views) {
+    const date = row.created_at.slice(0, 10);
+    viewCounts.set(date, (viewCounts.get(date) || 0) + 1);
+    if (!byDay.has(date)) byDay.set(date, new Set());
+    byDay.get(date)!.add(row.visitor_hash);
+  }
+
+  const daily = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(now.getTime() - i * DAY_MS).toISOString().slice(0, 10);
+    daily.push({ date, views: viewCounts.get(date) || 0, unique_visitors: byDay.get(date)?.size || 0 });
+  }
+
+  const widgetEvents = rows.filter(row => row.event !== 'view' && row.widget_id);
+
+  return {
+    views: views.length,
+    unique_visitors: new Set(views.map(row => row.visitor_hash)).size,
+    last_access: rows.reduce<string | null>((last, row) => (!last || row.created_at > last ? row.created_at : last), null),
+    widget_loads: rows.filter(row => row.event === 'widget_load').length,
+    widget_refreshes: rows.filter(row => row.event === 'widget_refresh').length,
+    daily,
+    top_widgets: topEntries(widgetEvents.map(row => row.widget_id!), 'widget_id'),
+    top_referrers: topEntries(views.map(row => row.referrer).filter((r): r is string => !!r), 'referrer'),
+  };
+}
+
+/**
+ * Valida le impostazioni delle statistiche. Lancia un errore con il primo problema
+ */
+export function validateAnalyticsSettings(input: unknown): Partial<ShareAnalyticsSettings> {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Invalid request body');
+  }
+  const { enabled, retention_days } = input as Record<string, unknown>;
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    throw new Error('enabled must be a boolean');
+  }
+  if (retention_days !== undefined) {
+    if (typeof retention_days !== 'number' || !Number.isInteger(retention_days)
+      || retention_days < 1 || retention_days > MAX_RETENTION_DAYS) {
+      throw new Error(`retention_days must be an integer between 1 and ${MAX_RETENTION_DAYS}`);
+    }
+  }
+
+  return {
+    ...(enabled !== undefined ? { share_analytics: enabled as boolean } : {}),
+    ...(retention_days !== undefined ? { share_analytics_retention_days: retention_days as number } : {}),
+  };
+}
@@ -0,0 +1,328 @@
+/**
+ * Link di condivisione delle dashboard
+ *
+ * Ogni dashboard può avere più link con nome (tabella dashboard_share_links), ciascuno con password,
+ * scadenza e numero massimo di aperture opzionali, revocabile singolarmente. Il link storico
+ * (dashboards.sharing_uid) resta valido come "link predefinito" senza regole, finché non viene revocato;
+ * il proprietario può poi generarne uno nuovo (token diverso). dashboards.is_shared resta l'interruttore
+ * generale: spento, nessun link funziona.
+ *
+ * Un link può anche restringere i dati visibili (es. un link per responsabile di area): parametri bloccati,
+ * iniettati come negli embed, e restrizioni di riga sulle colonne del risultato (vedi connectors/restrictions.ts).
+ * Valgono lato server su ogni query dei widget. Finché la dashboard ha un link con restrizioni non revocato,
+ * il link predefinito è disattivato (e non si può rigenerare): vedrebbe tutti i dati e scavalcherebbe lo scoping.
+ *
+ * Ogni apertura della dashboard (GET o sblocco con password) conta un accesso e rilascia un access token
+ * firmato, che il viewer manda con le query dei widget: così password e limite di aperture valgono anche
+ * per la route /query. Il token include l'hash della password: cambiarla invalida le sessioni aperte.
+ *
+ * Usato dalle route /api/dashboards/[id]/share/links e /api/dashboards/shared/[sharing_uid].
+ */
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { validateRowRestrictions, type RowRestriction } from './connectors';
+import { validateLockedParams, type LockedParams, type SharedQueryOptions } from './shared-query';
+import type { createServiceClient } from './supabase/server';
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export interface ShareLink {
+  id: string;
+  dashboard_id: string;
+  name: string;
+  token: string; // Parte finale dell'URL /dashare/<token>
+  password_hash: string | null;
+  expires_at: string | null;
+  max_accesses: number | null;
+  access_count: number;
+  last_accessed_at: string | null;
+  revoked_at: string | null;
+  locked_params: LockedParams;
+  row_restrictions: RowRestriction[];
+  created_at: string;
+}
+
+export type ShareLinkStatus = 'active' | 'revoked' | 'expired' | 'exhausted';
+
+// Link come lo vede il proprietario (senza hash della password)
+export interface ShareLinkSummary extends Omit<ShareLink, 'password_hash'> {
+  has_password: boolean;
+  status: ShareLinkStatus;
+}
+
+export interface ShareLinkInput {
+  name?: string;
+  password?: string | null; // null rimuove la password
+  expires_at?: string | null;
+  max_accesses?: number | null;
+  locked_params?: LockedParams;
+  row_restrictions?: RowRestriction[];
+}
+
+export const SHARE_LINK_COLUMNS = 'id, dashboard_id, name, token, password_hash, expires_at, max_accesses, access_count, last_accessed_at, revoked_at, locked_params, row_restrictions, created_at';
+
+// Header con l'access token rilasciato all'apertura della dashboard
+export const SHARE_ACCESS_HEADER = 'x-share-access';
+
+const ACCESS_TOKEN_TTL = 12 * 60 * 60 * 1000; // Una sessione di visualizzazione
+const MAX_NAME_LENGTH = 100;
+const MIN_PASSWORD_LENGTH = 4;
+const MAX_PASSWORD_LENGTH = 200;
+const MAX_ACCESS_UPDATE_ATTEMPTS = 3;
+const MAX_RESTRICTIONS = 20;
+
+// --- Password ---
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// Formato salvato: scrypt$<salt hex>$<hash hex>
+export async function hashSharePassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifySharePassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// --- Stato ---
+
+export function shareLinkStatus(link: ShareLink, now: Date = new Date()): ShareLinkStatus {
+  if (link.revoked_at) return 'revoked';
+  if (link.expires_at && new Date(link.expires_at) <= now) return 'expired';
+  if (link.max_accesses !== null && link.access_count >= link.max_accesses) return 'exhausted';
+  return 'active';
+}
+
+export function toShareLinkSummary(link: ShareLink): ShareLinkSummary {
+  const { password_hash, ...rest } = link;
+  return { ...rest, has_password: !!password_hash, status: shareLinkStatus(link) };
+}
+
+// Link con parametri bloccati o restrizioni di riga
+export function isScopedLink(link: Pick<ShareLink, 'locked_params' | 'row_restrictions'>): boolean {
+  return Object.keys(link.locked_params || {}).length > 0 || (link.row_restrictions || []).length > 0;
+}
+
+/**
+ * La dashboard ha link con restrizioni non revocati: il link predefinito è disattivato
+ */
+export async function hasScopedShareLinks(serviceClient: ServiceClient, dashboardId: string): Promise<boolean> {
+  const { data, error } = await serviceClient
+    .from('dashboard_share_links')
+    .select('locked_params, row_restrictions')
+    .eq('dashboard_id', dashboardId)
+    .is('revoked_at', null);
+
+  if (error) {
+    throw new Error(`Failed to check share links: ${error.message}`);
+  }
+  return (data as Array<Pick<ShareLink, 'locked_params' | 'row_restrictions'>> || []).some(isScopedLink);
+}
+
+// Scoping dei dati per i viewer del link (nessuno per il link predefinito)
+export function shareLinkScope(link: ShareLink | null): SharedQueryOptions {
+  return link ? { lockedParams: link.locked_params || {}, rowRestrictions: link.row_restrictions || [] } : {};
+}
+
+const STATUS_ERRORS: Record<Exclude<ShareLinkStatus, 'active'>, string> = {
+  revoked: 'This link has been revoked',
+  expired: 'This link has expired',
+  exhausted: 'This link has reached its access limit',
+};
+
+const DEFAULT_LINK_DISABLED_ERROR = 'This link has been disabled by the dashboard owner';
+
+// --- Access token ---
+
+function signingKey(): string {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+  }
+  return key;
+}
+
+function accessSignature(link: ShareLink, expiresAt: number): string {
+  return createHmac('sha256', signingKey())
+    .update(`${link.id}.${expiresAt}.${link.password_hash ?? ''}`)
+    .digest('base64url');
+}
+
+export function issueAccessToken(link: ShareLink): string {
+  const expiresAt = Date.now() + ACCESS_TOKEN_TTL;
+  return `${expiresAt}.${accessSignature(link, expiresAt)}`;
+}
+
+export function verifyAccessToken(link: ShareLink, token: string | null): boolean {
+  if (!token) return false;
+
+  const [expiresPart, signature] = token.split('.');
+  const expiresAt = Number(expiresPart);
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) return false;
+
+  const expected = Buffer.from(accessSignature(link, expiresAt));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// --- Risoluzione del link ---
+
+export type ShareResolution<T> =
+  | { dashboard: T; link: ShareLink | null } // link null: link predefinito (dashboards.sharing_uid)
+  | { error: string; status: number };
+
+/**
+ * Dashboard condivisa dal token dell'URL, con le colonne richieste (devono includere id).
+ * Controlla interruttore generale, revoca e scadenza; il limite di aperture si controlla all'apertura.
+ * Il link predefinito non vale se la dashboard ha link con restrizioni (hasScopedShareLinks)
+ */
+export async function resolveShareLink<T>(
+  serviceClient: ServiceClient,
+  token: string,
+  columns: string
+): Promise<ShareResolution<T>> {
+  const { data: link } = await serviceClient
+    .from('dashboard_share_links')
+    .select(SHARE_LINK_COLUMNS)
+    .eq('token', token)
+    .maybeSingle();
+
+  const query = serviceClient
+    .from('dashboards')
+    .select(columns)
+    .eq('is_shared', true);
+
+  const { data: dashboard } = await (link
+    ? query.eq('id', (link as ShareLink).dashboard_id)
+    : query.eq('sharing_uid', token)
+  ).maybeSingle();
+
+  if (!dashboard) {
+    return { error: 'Dashboard not found or not shared', status: 404 };
+  }
+  if (!link) {
+    if (await hasScopedShareLinks(serviceClient, (dashboard as unknown as { id: string }).id)) {
+      return { error: DEFAULT_LINK_DISABLED_ERROR, status: 410 };
+    }
+    return { dashboard: dashboard as T, link: null };
+  }
+
+  const status = shareLinkStatus(link as ShareLink);
+  if (status === 'revoked' || status === 'expired') {
+    return { error: STATUS_ERRORS[status], status: 410 };
+  }
+
+  return { dashboard: dashboard as T, link: link as ShareLink };
+}
+
+/**
+ * Conta un'apertura del link. L'update è condizionato al contatore letto, così aperture concorrenti
+ * non superano il limite. Ritorna un errore se il limite è già raggiunto
+ */
+export async function recordShareAccess(
+  serviceClient: ServiceClient,
+  link: ShareLink
+): Promise<{ link: ShareLink } | { error: string; status: number }> {
+  let current = link;
+
+  for (let attempt = 0; attempt < MAX_ACCESS_UPDATE_ATTEMPTS; attempt++) {
+    const status = shareLinkStatus(current);
+    if (status !== 'active') {
+      return { error: STATUS_ERRORS[status], status: 410 };
+    }
+
+    const { data: updated } = await serviceClient
+      .from('dashboard_share_links')
+      .update({ access_count: current.access_count + 1, last_accessed_at: new Date().toISOString() })
+      .eq('id', current.id)
+      .eq('access_count', current.access_count)
+      .select(SHARE_LINK_COLUMNS)
+      .maybeSingle();
+
+    if (updated) {
+      return { link: updated as ShareLink };
+    }
+
+    // Un'altra apertura ha aggiornato il contatore: rileggi e riprova
+    const { data: fresh } = await serviceClient
+      .from('dashboard_share_links')
+      .select(SHARE_LINK_COLUMNS)
+      .eq('id', current.id)
+      .maybeSingle();
+
+    if (!fresh) {
+      return { error: 'Dashboard not found or not shared', status: 404 };
+    }
+    current = fresh as ShareLink;
+  }
+
+  return { error: 'Too many concurrent accesses, try again', status: 409 };
+}
+
+// --- Validazione ---
+
+/**
+ * Valida i campi di creazione/modifica di un link. Lancia un errore con il primo problema
+ */
+export function validateShareLinkInput(input: unknown, creating: boolean): ShareLinkInput {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Invalid request body');
+  }
+  const { name, password, expires_at, max_accesses, locked_params, row_restrictions } = input as Record<string, unknown>;
+
+  if (name !== undefined || creating) {
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error('Link name is required');
+    }
+    if (name.trim().length > MAX_NAME_LENGTH) {
+      throw new Error(`Link name must be at most ${MAX_NAME_LENGTH} characters`);
+    }
+  }
+
+  if (password !== undefined && password !== null) {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+      throw new Error(`Password must be between ${MIN_PASSWORD_LENGTH} and ${MAX_PASSWORD_LENGTH} characters`);
+    }
+  }
+
+  if (expires_at !== undefined && expires_at !== null) {
+    if (typeof expires_at !== 'string' || Number.isNaN(Date.parse(expires_at))) {
+      throw new Error('expires_at must be an ISO date');
+    }
+    if (creating && Date.parse(expires_at) <= Date.now()) {
+      throw new Error('expires_at must be in the future');
+    }
+  }
+
+  if (max_accesses !== undefined && max_accesses !== null) {
+    if (typeof max_accesses !== 'number' || !Number.isInteger(max_accesses) || max_accesses < 1) {
+      throw new Error('max_accesses must be a positive integer');
+    }
+  }
+
+  const lockedParams = locked_params !== undefined ? validateLockedParams(locked_params) : undefined;
+  const rowRestrictions = row_restrictions !== undefined ? validateRowRestrictions(row_restrictions) : undefined;
+  if (lockedParams && Object.keys(lockedParams).length > MAX_RESTRICTIONS) {
+    throw new Error(`A link can lock at most ${MAX_RESTRICTIONS} parameters`);
+  }
+  if (rowRestrictions && rowRestrictions.length > MAX_RESTRICTIONS) {
+    throw new Error(`A link can have at most ${MAX_RESTRICTIONS} row restrictions`);
+  }
+
+  return {
+    ...(typeof name === 'string' ? { name: name.trim() } : {}),
+    ...(password !== undefined ? { password: password as string | null } : {}),
+    ...(expires_at !== undefined ? { expires_at: expires_at === null ? null : new Date(expires_at as string).toISOString() } : {}),
+    ...(max_accesses !== undefined ? { max_accesses: max_accesses as number | null } : {}),
+    ...(lockedParams ? { locked_params: lockedParams } : {}),
+    ...(rowRestrictions ? { row_restrictions: rowRestrictions.map(r => ({ ...r, column: r.column.trim() })) } : {}),
+  };
+}
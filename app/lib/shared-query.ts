@@ -0,0 +1,245 @@
+/**
+ * Query dei widget per viewer anonimi (link condivisi ed embed)
+ *
+ * La query è sempre quella salvata nella dashboard: il viewer indica solo quale widget o filtro,
+ * i valori dei filtri (se il proprietario li ha resi modificabili) e il percorso di drill-down.
+ * Lo scoping del viewer viene dal token firmato (embed) o dal link di condivisione:
+ *   - parametri bloccati: vincono su filtri e drill-down, e ogni query dinamica deve dichiararli
+ *     (altrimenti girerebbe senza lo scoping del viewer)
+ *   - restrizioni di riga: iniettate in ogni query dinamica (vedi connectors/restrictions.ts)
+ * Un viewer con scoping ha i filtri bloccati sui default e niente opzioni dei filtri (query senza scoping).
+ *
+ * Usato da /api/dashboards/shared/[sharing_uid]/query e /api/embed/[token]/query.
+ */
+
+import { applyRowRestrictions, bindParameters, executeCachedQuery, resolveCacheTtl, DEFAULT_CACHE_TTL, type CachedQueryResult, type DatabaseType, type PagedQueryResult, type QueryParameter, type RowRestriction } from './connectors';
+import { defaultFilterValues, filterParamValues, type DashboardFilter, type DashboardFilterValues } from './dashboard-filters';
+import { drillWidget, type DrillLevel } from './drill-down';
+import { cacheTtlForInterval, refreshIntervalFor } from './auto-refresh';
+import type { createServiceClient } from './supabase/server';
+
+export interface SharedQueryRequest {
+  widgetId?: string;
+  filterId?: string; // Opzioni di un filtro (solo se i filtri sono modificabili dai viewer)
+  filters?: DashboardFilterValues; // Valori dei filtri scelti dal viewer (ignorati se i filtri sono bloccati)
+  drillPath?: string[]; // Punti cliccati nel chart, dal livello iniziale
+  trigger?: 'load' | 'refresh'; // Aggiornamento automatico o caricamento (solo per le statistiche dei viewer)
+  limit?: number;
+  offset?: number;
+}
+
+export interface SharedDashboard {
+  user_id: string;
+  widgets: Array<{
+    id: string;
+    isDynamic?: boolean;
+    dataSource?: { datasourceId: string; query: string; parameters?: QueryParameter[] };
+    cacheTtl?: number;
+    refreshInterval?: number;
+    drillDown?: DrillLevel[];
+  }>;
+  filters?: DashboardFilter[];
+  filters_exposed?: boolean;
+  layout_config?: { refreshInterval?: number } | null;
+}
+
+export const SHARED_DASHBOARD_COLUMNS = 'id, user_id, widgets, filters, filters_exposed, layout_config';
+
+export type LockedParamValue = string | number | boolean | null;
+
+export type LockedParams = Record<string, LockedParamValue | LockedParamValue[]>;
+
+// Scoping del viewer
+export interface SharedQueryOptions {
+  lockedParams?: LockedParams; // Vincono su filtri e drill-down
+  rowRestrictions?: RowRestriction[];
+}
+
+type QueryTarget = {
+  datasourceId: string;
+  query: string;
+  parameters?: QueryParameter[];
+  params: Record<string, unknown>; // Valori dei parametri dai filtri della dashboard
+  cacheTtl: number;
+};
+
+export type SharedQueryResult = { success: boolean; error?: string; cache?: CachedQueryResult['cache']; executedAt?: string } & Partial<PagedQueryResult>;
+
+const MAX_FILTER_OPTIONS = 1000;
+
+const PARAM_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function isLockedValue(value: unknown): value is LockedParamValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Valida i parametri bloccati: nomi come i parametri delle query, valori scalari o liste di scalari.
+ * Lancia un errore con il primo problema
+ */
+export function validateLockedParams(params: unknown): LockedParams {
+  if (!params || typeof params !== 'object' || Array.isArray(params)) {
+    throw new Error('params must be an object');
+  }
+
+  for (const [name, value] of Object.entries(params)) {
+    if (!PARAM_NAME.test(name)) {
+      throw new Error(`Invalid parameter name "${name}": use letters, digits and underscores`);
+    }
+    if (!isLockedValue(value) && !(Array.isArray(value) && value.every(isLockedValue))) {
+      throw new Error(`Invalid value for parameter "${name}": use a string, number, boolean, null or a list of them`);
+    }
+  }
+
+  return params as LockedParams;
+}
+
+export function isScoped({ lockedParams = {}, rowRestrictions = [] }: SharedQueryOptions): boolean {
+  return Object.keys(lockedParams).length > 0 || rowRestrictions.length > 0;
+}
+
+/**
+ * Dashboard come la vede un viewer con scoping: senza i filtri sostituiti da parametri bloccati
+ * (un dateRange usa <id>_from e <id>_to) e con i filtri bloccati sui default
+ */
+export function viewerDashboard<T extends { filters?: DashboardFilter[]; filters_exposed?: boolean }>(
+  dashboard: T,
+  scope: SharedQueryOptions
+): T {
+  if (!isScoped(scope)) return dashboard;
+
+  const locked = Object.keys(scope.lockedParams || {});
+  const isLocked = (filter: DashboardFilter) =>
+    locked.some(name => name === filter.id || name === `${filter.id}_from` || name === `${filter.id}_to`);
+
+  return {
+    ...dashboard,
+    filters: (dashboard.filters || []).filter(filter => !isLocked(filter)),
+    filters_exposed: false,
+  };
+}
+
+/**
+ * Query da eseguire, sempre presa dalla dashboard salvata: il viewer indica solo quale widget o filtro.
+ * I parametri vengono dai filtri (default o valori del viewer, se i filtri sono modificabili), poi dai default del widget
+ */
+export function resolveSharedTarget(
+  dashboard: SharedDashboard,
+  { widgetId, filterId, filters: requestedFilters, drillPath }: SharedQueryRequest,
+  scope: SharedQueryOptions = {}
+): QueryTarget | { error: string; status: number } {
+  const filters = dashboard.filters || [];
+  const lockedParams = scope.lockedParams || {};
+  const locked = Object.keys(lockedParams);
+  const filtersExposed = !!dashboard.filters_exposed && !isScoped(scope);
+
+  if (filterId) {
+    const filter = filters.find(f => f.id === filterId);
+    if (!filter || !filter.options) {
+      return { error: 'Filter not found', status: 404 };
+    }
+    // Con i filtri bloccati il viewer vede solo il valore di default: le opzioni non servono.
+    // Con uno scoping, poi, la query delle opzioni girerebbe su tutti i dati
+    if (!filtersExposed) {
+      return { error: 'Filters are locked on this dashboard', status: 403 };
+    }
+    return { ...filter.options, params: {}, cacheTtl: DEFAULT_CACHE_TTL };
+  }
+
+  const widget = (dashboard.widgets || []).find(w => w.id === widgetId);
+
+  if (!widget) {
+    return { error: 'Widget not found', status: 404 };
+  }
+
+  if (!widget.isDynamic || !widget.dataSource) {
+    return { error: 'Widget is not dynamic', status: 400 };
+  }
+
+  if (drillPath !== undefined && (!Array.isArray(drillPath) || drillPath.some(value => typeof value !== 'string'))) {
+    return { error: 'Invalid drillPath', status: 400 };
+  }
+
+  // Solo i filtri definiti nella dashboard, e solo se il proprietario li ha resi modificabili
+  const values = defaultFilterValues(filters);
+  if (filtersExposed && requestedFilters && typeof requestedFilters === 'object') {
+    for (const filter of filters) {
+      if (Object.prototype.hasOwnProperty.call(requestedFilters, filter.id)) {
+        values[filter.id] = requestedFilters[filter.id];
+      }
+    }
+  }
+
+  // Le query dei livelli sono quelle salvate: dal viewer arrivano solo i valori, passati come parametri
+  const drill = drillWidget(widget, drillPath);
+  const dataSource = drill.widget.dataSource!;
+
+  const missing = locked.find(name => !(dataSource.parameters || []).some(param => param.name === name));
+  if (missing) {
+    return { error: `Widget query does not declare the locked parameter "${missing}"`, status: 403 };
+  }
+
+  // Widget con aggiornamento automatico: cache limitata all'intervallo (vedi cacheTtlForInterval)
+  const refreshInterval = refreshIntervalFor(widget, dashboard.layout_config?.refreshInterval);
+
+  return {
+    ...dataSource,
+    params: { ...filterParamValues(filters, values), ...drill.params, ...lockedParams },
+    cacheTtl: cacheTtlForInterval(resolveCacheTtl(widget.cacheTtl), refreshInterval),
+  };
+}
+
+/**
+ * Esegue la query del widget o delle opzioni del filtro, con la data source del proprietario della dashboard.
+ * Sempre in sola lettura (le route sono pubbliche). I viewer non possono forzare il refresh:
+ * un link condiviso non deve poter bypassare la cache (refresh solo per gli snapshot, creati dal proprietario)
+ */
+export async function executeSharedQuery(
+  serviceClient: ReturnType<typeof createServiceClient>,
+  dashboard: SharedDashboard,
+  request: SharedQueryRequest,
+  options: SharedQueryOptions & { signal?: AbortSignal; refresh?: boolean } = {}
+): Promise<SharedQueryResult | { error: string; status: number }> {
+  const target = resolveSharedTarget(dashboard, request, options);
+  if ('error' in target) {
+    return target;
+  }
+
+  // Recupera la data source (deve appartenere al proprietario della dashboard)
+  const { data: dataSource, error: dsError } = await serviceClient
+    .from('data_sources')
+    .select('*')
+    .eq('id', target.datasourceId)
+    .eq('user_id', dashboard.user_id)
+    .single();
+
+  if (dsError || !dataSource) {
+    return { error: 'Data source not found', status: 404 };
+  }
+
+  const config = dataSource.config || {};
+  const isFilterOptions = !!request.filterId;
+
+  try {
+    // Le restrizioni di riga cambiano query e parametri: anche la cache resta separata per ogni scoping
+    const scoped = applyRowRestrictions(
+      config.type as DatabaseType,
+      target.query,
+      bindParameters(target.parameters, target.params),
+      options.rowRestrictions
+    );
+    const cached = await executeCachedQuery(target.datasourceId, config, scoped.query, {
+      readOnly: true,
+      limit: isFilterOptions ? MAX_FILTER_OPTIONS : request.limit,
+      offset: isFilterOptions ? 0 : request.offset,
+      signal: options.signal, // Il viewer ha chiuso la pagina: annulla la query
+      params: scoped.params,
+    }, { ttl: target.cacheTtl, refresh: options.refresh });
+    return { success: true, ...cached.result, cache: cached.cache, executedAt: cached.executedAt };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Query execution failed',
+    };
+  }
+}
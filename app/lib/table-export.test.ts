@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv, toXlsx } from './table-export';
+
+// L'archivio XLSX non è compresso: il foglio si legge direttamente nei byte
+const xlsxText = (columns: string[], rows: unknown[][]) => new TextDecoder().decode(toXlsx(columns, rows, 'Test'));
+
+describe('toCsv', () => {
+  it('antepone un apice al testo che inizia come una formula', () => {
+    const csv = toCsv(['a', 'b', 'c'], [['=HYPERLINK("http://x")', '@SUM(A1)', '\tcmd']]);
+    expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""http://x"")",'@SUM(A1),'\tcmd`);
+  });
+
+  it('lascia invariati numeri e stringhe numeriche', () => {
+    expect(toCsv(['n', 's'], [[-3, '-12.5'], [1, '+7']])).toBe('n,s\r\n-3,-12.5\r\n1,+7');
+  });
+});
+
+describe('toXlsx', () => {
+  it('scrive il testo che inizia come una formula come stringa con quotePrefix', () => {
+    const sheet = xlsxText(['=cmd'], [['=1+1'], ['-2+3'], ['testo']]);
+    expect(sheet).not.toContain('<f>');
+    expect(sheet).toContain('<c r="A1" s="3" t="inlineStr"><is><t xml:space="preserve">=cmd</t></is></c>');
+    expect(sheet).toContain('<c r="A2" s="2" t="inlineStr"><is><t xml:space="preserve">=1+1</t></is></c>');
+    expect(sheet).toContain('<c r="A3" s="2" t="inlineStr"><is><t xml:space="preserve">-2+3</t></is></c>');
+    expect(sheet).toContain('<c r="A4" t="inlineStr"><is><t xml:space="preserve">testo</t></is></c>');
+    expect(sheet).toContain('quotePrefix="1"');
+  });
+});
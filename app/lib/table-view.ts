@@ -0,0 +1,150 @@
+/**
+ * Vista di una tabella: ordinamento, filtri per colonna e ricerca
+ *
+ * Tutto nel browser, sulle righe caricate (le tabelle dinamiche sono paginate dal server:
+ * la vista lavora sulla pagina corrente). Non viene salvata: ogni viewer ha la sua.
+ *
+ * Filtri di colonna:
+ *   testo          → la cella contiene il testo (senza distinzione di maiuscole)
+ *   >100, <=5, =0  → confronto numerico (o per data, se il valore e la cella sono date)
+ *   =testo, !=testo → uguale / diverso
+ *
+ * Usato da TableWidget (DashboardCanvas e dashare).
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableSort {
+  column: number;
+  direction: SortDirection;
+}
+
+export interface TableView {
+  sort: TableSort | null;
+  filters: Record<number, string>; // Indice colonna → espressione
+  search: string;
+}
+
+export const EMPTY_TABLE_VIEW: TableView = { sort: null, filters: {}, search: '' };
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+// Testo della cella, come viene mostrato e cercato
+export function cellText(value: unknown): string {
+  if (isEmpty(value)) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Valore confrontabile come numero: numeri, stringhe numeriche e date ISO (timestamp)
+function comparable(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const number = Number(value);
+  if (Number.isFinite(number)) return number;
+  if (ISO_DATE.test(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+// Ordine delle celle: i vuoti in fondo, numeri e date come tali, il resto alfabetico
+export function compareCells(a: unknown, b: unknown): number {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) === isEmpty(b) ? 0 : isEmpty(a) ? 1 : -1;
+
+  const na = comparable(a);
+  const nb = comparable(b);
+  if (na !== null && nb !== null) return na - nb;
+
+  return collator.compare(cellText(a), cellText(b));
+}
+
+const FILTER_OPERATOR = /^(>=|<=|!=|>|<|=)\s*(.*)$/;
+
+/**
+ * Predicato di un filtro di colonna (vedi in alto). Espressione vuota: accetta tutto
+ */
+export function cellFilter(expression: string): (value: unknown) => boolean {
+  const trimmed = expression.trim();
+  if (!trimmed) return () => true;
+
+  const match = trimmed.match(FILTER_OPERATOR);
+  if (!match) {
+    const needle = trimmed.toLowerCase();
+    return value => cellText(value).toLowerCase().includes(needle);
+  }
+
+  const [, operator, operand] = match;
+  const target = comparable(operand);
+
+  if (operator === '=' || operator === '!=') {
+    const equals = (value: unknown) => target !== null && comparable(value) !== null
+      ? comparable(value) === target
+      : cellText(value).toLowerCase() === operand.toLowerCase();
+    return operator === '=' ? equals : value => !equals(value);
+  }
+
+  // Confronto su un valore non numerico: nessuna riga
+  if (target === null) return () => false;
+
+  return value => {
+    const number = comparable(value);
+    if (number === null) return false;
+    switch (operator) {
+      case '>': return number > target;
+      case '>=': return number >= target;
+      case '<': return number < target;
+      default: return number <= target;
+    }
+  };
+}
+
+export function isTableViewActive(view: TableView): boolean {
+  return !!view.sort || !!view.search.trim() || Object.values(view.filters).some(f => f.trim() !== '');
+}
+
+/**
+ * Righe della vista: ricerca (qualsiasi cella), filtri di colonna, ordinamento (stabile)
+ */
+export function applyTableView(rows: unknown[][], view: TableView): unknown[][] {
+  const search = view.search.trim().toLowerCase();
+  const filters = Object.entries(view.filters)
+    .filter(([, expression]) => expression.trim() !== '')
+    .map(([column, expression]) => ({ column: Number(column), test: cellFilter(expression) }));
+
+  const visible = rows.filter(row =>
+    (!search || row.some(cell => cellText(cell).toLowerCase().includes(search))) &&
+    filters.every(({ column, test }) => test(row[column]))
+  );
+
+  if (!view.sort) return visible;
+
+  const { column, direction } = view.sort;
+  const sign = direction === 'asc' ? 1 : -1;
+  return visible
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => {
+      const diff = compareCells(a.row[column], b.row[column]);
+      // I vuoti restano in fondo anche in ordine decrescente
+      if (isEmpty(a.row[column]) || isEmpty(b.row[column])) return diff || a.index - b.index;
+      return diff * sign || a.index - b.index;
+    })
+    .map(({ row }) => row);
+}
+
+/**
+ * Click sull'intestazione: crescente → decrescente → nessun ordinamento
+ */
+export function nextSort(current: TableSort | null, column: number): TableSort | null {
+  if (!current || current.column !== column) return { column, direction: 'asc' };
+  return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect, useRef } from 'react';
+import { nextRefreshDelay } from './auto-refresh';
+
+interface ScheduleEntry {
+  interval: number; // Secondi
+  failures: number; // Errori consecutivi
+  dueAt: number; // Timestamp del prossimo aggiornamento
+}
+
+interface UseAutoRefreshOptions {
+  intervals: Record<string, number>; // Widget ID → intervallo in secondi (0 = nessun aggiornamento)
+  onRefresh: (widgetIds: string[]) => Promise<string[]>; // Aggiorna i widget, ritorna quelli falliti
+  enabled?: boolean;
+}
+
+/**
+ * Scheduler degli aggiornamenti automatici (vedi auto-refresh.ts).
+ * I widget in scadenza nello stesso momento vengono aggiornati insieme; un widget in aggiornamento non riparte.
+ * Con la scheda nascosta non parte nulla: al ritorno si aggiornano subito i widget scaduti
+ */
+export function useAutoRefresh({ intervals, onRefresh, enabled = true }: UseAutoRefreshOptions) {
+  const [isPaused, setIsPaused] = useState(false);
+  const [failingWidgetIds, setFailingWidgetIds] = useState<string[]>([]);
+  const scheduleRef = useRef(new Map<string, ScheduleEntry>());
+  const onRefreshRef = useRef(onRefresh);
+  const [tick, setTick] = useState(0); // Riarma il timer dopo ogni ciclo
+
+  useEffect(() => {
+    onRefreshRef.current = onRefresh;
+  }, [onRefresh]);
+
+  // Allinea la pianificazione agli intervalli correnti (nuovi widget, intervallo cambiato, widget rimossi)
+  const intervalsKey = JSON.stringify(intervals);
+  useEffect(() => {
+    const schedule = scheduleRef.current;
+    const now = Date.now();
+
+    for (const id of [...schedule.keys()]) {
+      if (!intervals[id]) schedule.delete(id);
+    }
+    for (const [id, interval] of Object.entries(intervals)) {
+      if (interval <= 0) continue;
+      const entry = schedule.get(id);
+      if (!entry || entry.interval !== interval) {
+        schedule.set(id, { interval, failures: 0, dueAt: now + interval * 1000 });
+      }
+    }
+    setFailingWidgetIds(prev => prev.filter(id => schedule.has(id)));
+    setTick(t => t + 1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [intervalsKey]);
+
+  // Pausa con la scheda nascosta
+  useEffect(() => {
+    const handleVisibility = () => {
+      setIsPaused(document.hidden);
+      if (!document.hidden) setTick(t => t + 1);
+    };
+
+    handleVisibility();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  useEffect(() => {
+    const schedule = scheduleRef.current;
+    if (!enabled || isPaused || schedule.size === 0) return;
+
+    // Widget in aggiornamento: dueAt = Infinity finché il ciclo non termina
+    const nextDue = Math.min(...[...schedule.values()].map(entry => entry.dueAt));
+    if (!Number.isFinite(nextDue)) return;
+
+    const timer = setTimeout(async () => {
+      const now = Date.now();
+      const due = [...schedule.entries()].filter(([, entry]) => entry.dueAt <= now).map(([id]) => id);
+      if (due.length === 0 || document.hidden) {
+        setTick(t => t + 1);
+        return;
+      }
+      due.forEach(id => { schedule.get(id)!.dueAt = Infinity; });
+
+      let failed: string[];
+      try {
+        failed = await onRefreshRef.current(due);
+      } catch (error) {
+        console.error('[useAutoRefresh] Refresh error:', error);
+        failed = due;
+      }
+
+      const finishedAt = Date.now();
+      for (const id of due) {
+        const entry = schedule.get(id);
+        if (!entry) continue;
+        entry.failures = failed.includes(id) ? entry.failures + 1 : 0;
+        entry.dueAt = finishedAt + nextRefreshDelay(entry.interval, entry.failures) * 1000;
+      }
+      setFailingWidgetIds([...schedule.entries()].filter(([, entry]) => entry.failures > 0).map(([id]) => id));
+      setTick(t => t + 1);
+    }, Math.max(nextDue - Date.now(), 0));
+
+    return () => clearTimeout(timer);
+  }, [enabled, isPaused, tick]);
+
+  return { isPaused, failingWidgetIds };
+}
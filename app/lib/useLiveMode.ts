@@ -0,0 +1,62 @@
+import { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
+
+// ?live=1 nell'URL: letto una volta, nel render (sul server e in idratazione vale false)
+const subscribeToLiveParam = () => () => {};
+const readLiveParam = () => new URLSearchParams(window.location.search).get('live') === '1';
+const readLiveParamOnServer = () => false;
+
+/**
+ * Live mode (schermi a parete): dashboard a schermo intero senza chat, editor e barre dell'app.
+ * Si attiva dal bottone (con fullscreen) o aprendo la pagina con ?live=1 (senza fullscreen:
+ * il browser lo concede solo dopo un'azione dell'utente). Esc o l'uscita dal fullscreen la chiudono
+ */
+export function useLiveMode() {
+  const liveParam = useSyncExternalStore(subscribeToLiveParam, readLiveParam, readLiveParamOnServer);
+  // null finché l'utente non entra o esce: fino ad allora decide ?live=1
+  const [liveModeChoice, setLiveModeChoice] = useState<boolean | null>(null);
+  const isLiveMode = liveModeChoice ?? liveParam;
+  const enteredFullscreenRef = useRef(false);
+
+  const enterLiveMode = useCallback(() => {
+    setLiveModeChoice(true);
+    document.documentElement.requestFullscreen?.()
+      .then(() => { enteredFullscreenRef.current = true; })
+      .catch(() => { /* fullscreen non disponibile: resta la live mode nella finestra */ });
+  }, []);
+
+  const exitLiveMode = useCallback(() => {
+    setLiveModeChoice(false);
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isLiveMode) return;
+
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement && enteredFullscreenRef.current) {
+        enteredFullscreenRef.current = false;
+        setLiveModeChoice(false);
+      }
+    };
+    // In fullscreen Esc è gestito dal browser (fullscreenchange)
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !document.fullscreenElement) setLiveModeChoice(false);
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isLiveMode]);
+
+  return {
+    isLiveMode,
+    enterLiveMode,
+    exitLiveMode,
+    toggleLiveMode: isLiveMode ? exitLiveMode : enterLiveMode,
+  };
+}
@@ -0,0 +1,445 @@
+/**
+ * Linguaggio dei template dei widget dinamici
+ *
+ * Sostituisce i vecchi placeholder ({{column}}, {{*}}) mantenendone il significato:
+ *   chart/table: "{{column}}" da solo in una stringa → array con i valori della colonna in tutte le righe
+ *                "{{*}}" → righe della tabella nell'ordine di template.columns
+ *   markdown:    {{column}} → valore della prima riga
+ *
+ * In più, in ogni stringa del template (markdown, titoli dei chart, ...):
+ *   {{rows.0.name}}                   → indice di riga (anche rows.last), {{rowCount}} → numero di righe
+ *   {{revenue | currency:"EUR"}}      → pipe, anche in catena: {{name | upper | truncate:20}}
+ *   {{#each rows}}...{{else}}...{{/each}} → ciclo (dentro: colonne della riga, this, @index, @number, @first, @last,
+ *                                       ../column per lo scope esterno); {{#each rows limit:10}} per le prime N
+ *   {{#if growth > 0}}...{{else}}...{{/if}}, {{#unless ...}} → condizioni (==, !=, >, >=, <, <= o solo il valore)
+ *
+ * Nessuna espressione JavaScript: solo percorsi, letterali e pipe di TEMPLATE_PIPES.
+ * I valori vengono inseriti come testo (il markdown viene reso senza HTML).
+ *
+ * Usato dal client (DashboardCanvas, dashare) per hydratare i template e dal tool AI per validarli.
+ */
+
+import { DEFAULT_LOCALE, formatValue, toNumber, type FormatSpec } from './formatting';
+
+type Literal = string | number | boolean | null;
+
+type Operand = { kind: 'literal'; value: Literal } | { kind: 'path'; path: string };
+
+interface Pipe {
+  name: string;
+  args: Literal[];
+}
+
+interface Expression {
+  operand: Operand;
+  pipes: Pipe[];
+}
+
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+interface Condition {
+  left: Expression;
+  operator?: ComparisonOperator;
+  right?: Operand;
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; expression: Expression }
+  | { type: 'each'; path: string; limit?: number; body: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'if'; condition: Condition; negate: boolean; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type Scope = Record<string, unknown>;
+
+// --- Pipe ---
+
+const format = (value: unknown, spec: FormatSpec) => formatValue(value, spec, DEFAULT_LOCALE);
+const optionalNumber = (arg: Literal | undefined) => (typeof arg === 'number' ? arg : undefined);
+const text = (value: unknown) => stringify(value);
+
+const PIPE_HANDLERS: Record<string, (value: unknown, args: Literal[]) => unknown> = {
+  number: (value, [decimals]) => format(value, { type: 'number', decimals: optionalNumber(decimals) }),
+  currency: (value, [currency, decimals]) => format(value, {
+    type: 'currency',
+    currency: typeof currency === 'string' ? currency : undefined,
+    decimals: optionalNumber(decimals),
+  }),
+  percent: (value, [decimals]) => format(value, { type: 'percent', decimals: optionalNumber(decimals) }),
+  compact: (value, [decimals]) => format(value, { type: 'compact', decimals: optionalNumber(decimals) }),
+  date: (value, [pattern]) => format(value, { type: 'date', pattern: typeof pattern === 'string' ? pattern : undefined }),
+  datetime: value => format(value, { type: 'datetime' }),
+  time: value => format(value, { type: 'time' }),
+  round: (value, [decimals]) => {
+    const number = toNumber(value);
+    if (number === null) return value;
+    const factor = 10 ** (optionalNumber(decimals) ?? 0);
+    return Math.round(number * factor) / factor;
+  },
+  abs: value => {
+    const number = toNumber(value);
+    return number === null ? value : Math.abs(number);
+  },
+  // "+" davanti ai valori positivi, anche già formattati: {{delta | percent | sign}}
+  sign: value => {
+    const full = text(value);
+    return /[1-9]/.test(full) && !/^[-−+]/.test(full.trim()) ? `+${full}` : value;
+  },
+  upper: value => text(value).toUpperCase(),
+  lower: value => text(value).toLowerCase(),
+  capitalize: value => text(value).charAt(0).toUpperCase() + text(value).slice(1),
+  truncate: (value, [length]) => {
+    const max = optionalNumber(length) ?? 50;
+    const full = text(value);
+    return full.length > max ? `${full.slice(0, max)}…` : full;
+  },
+  default: (value, [fallback]) => (value === null || value === undefined || value === '' ? fallback : value),
+  json: value => JSON.stringify(value),
+};
+
+export const TEMPLATE_PIPES = Object.keys(PIPE_HANDLERS);
+
+// --- Parser ---
+
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Divide su un separatore ignorando quello tra virgolette
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (source.startsWith(separator, i)) {
+      parts.push(current);
+      current = '';
+      i += separator.length - 1;
+      continue;
+    }
+    current += char;
+  }
+
+  if (quote) throw new Error(`Unterminated string in "${source}"`);
+  parts.push(current);
+  return parts;
+}
+
+function parseLiteral(source: string): Literal | undefined {
+  const trimmed = source.trim();
+  const quoted = trimmed.match(/^"([\s\S]*)"$|^'([\s\S]*)'$/);
+  if (quoted) return quoted[1] ?? quoted[2];
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  if (trimmed === 'null') return null;
+  return undefined;
+}
+
+function parseOperand(source: string): Operand {
+  const trimmed = source.trim();
+  if (!trimmed) throw new Error('Missing value in a template tag');
+
+  const literal = parseLiteral(trimmed);
+  if (literal !== undefined) return { kind: 'literal', value: literal };
+  if (/["']/.test(trimmed)) throw new Error(`Invalid value "${trimmed}"`);
+  return { kind: 'path', path: trimmed };
+}
+
+function parseExpression(source: string): Expression {
+  const [operand, ...pipes] = splitOutsideQuotes(source, '|');
+
+  return {
+    operand: parseOperand(operand),
+    pipes: pipes.map(pipe => {
+      const [name, ...rest] = splitOutsideQuotes(pipe.trim(), ':');
+      const pipeName = name.trim();
+      if (!PIPE_HANDLERS[pipeName]) {
+        throw new Error(`Unknown pipe "${pipeName}": use ${TEMPLATE_PIPES.join(', ')}`);
+      }
+      const args = rest.length > 0
+        ? splitOutsideQuotes(rest.join(':'), ',').map(arg => parseLiteral(arg) ?? arg.trim())
+        : [];
+      return { name: pipeName, args };
+    }),
+  };
+}
+
+const COMPARISON = /(==|!=|>=|<=|>|<)/;
+
+function parseCondition(source: string): Condition {
+  // Operatore fuori dalle virgolette
+  const unquoted = source.replace(/"[^"]*"|'[^']*'/g, match => ' '.repeat(match.length));
+  const match = unquoted.match(COMPARISON);
+  if (!match || match.index === undefined) {
+    return { left: parseExpression(source) };
+  }
+
+  const operator = match[1] as ComparisonOperator;
+  return {
+    left: parseExpression(source.slice(0, match.index)),
+    operator,
+    right: parseOperand(source.slice(match.index + operator.length)),
+  };
+}
+
+/**
+ * Albero del template. Lancia un errore se la sintassi non è valida
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Blocchi aperti: dove aggiungere i nodi e il blocco (per else e chiusura)
+  const stack: Array<{ block: Extract<TemplateNode, { type: 'each' | 'if' }> | null; target: TemplateNode[] }> = [
+    { block: null, target: root },
+  ];
+  const current = () => stack[stack.length - 1];
+
+  let position = 0;
+  while (position < source.length) {
+    const open = source.indexOf('{{', position);
+    if (open === -1) {
+      current().target.push({ type: 'text', value: source.slice(position) });
+      break;
+    }
+    if (open > position) {
+      current().target.push({ type: 'text', value: source.slice(position, open) });
+    }
+
+    const close = source.indexOf('}}', open + 2);
+    if (close === -1) throw new Error(`Unclosed tag at "${source.slice(open, open + 20)}"`);
+    const tag = source.slice(open + 2, close).trim();
+    position = close + 2;
+
+    if (tag.startsWith('#each ')) {
+      const [path, ...options] = tag.slice(6).trim().split(/\s+/);
+      const limitOption = options.find(option => option.startsWith('limit:'));
+      const limit = limitOption ? Number(limitOption.slice(6)) : undefined;
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+        throw new Error(`Invalid limit in "{{${tag}}}": use a positive integer`);
+      }
+      const block: TemplateNode = { type: 'each', path, limit, body: [], otherwise: [] };
+      current().target.push(block);
+      stack.push({ block, target: block.body });
+    } else if (tag.startsWith('#if ') || tag.startsWith('#unless ')) {
+      const negate = tag.startsWith('#unless ');
+      const block: TemplateNode = {
+        type: 'if',
+        condition: parseCondition(tag.slice(negate ? 8 : 4)),
+        negate,
+        body: [],
+        otherwise: [],
+      };
+      current().target.push(block);
+      stack.push({ block, target: block.body });
+    } else if (tag === 'else') {
+      const { block } = current();
+      if (!block) throw new Error('{{else}} outside of {{#if}} or {{#each}}');
+      current().target = block.otherwise;
+    } else if (tag === '/each' || tag === '/if' || tag === '/unless') {
+      const { block } = current();
+      const expected = block?.type === 'each' ? '/each' : block?.type === 'if' ? (block.negate ? '/unless' : '/if') : null;
+      if (tag !== expected) {
+        throw new Error(expected ? `{{${tag}}} found, expected {{${expected}}}` : `{{${tag}}} without an opening block`);
+      }
+      stack.pop();
+    } else if (tag.startsWith('#') || tag.startsWith('/')) {
+      throw new Error(`Unknown block "{{${tag}}}": use #each, #if, #unless`);
+    } else {
+      current().target.push({ type: 'value', expression: parseExpression(tag) });
+    }
+  }
+
+  if (stack.length > 1) {
+    const block = current().block!;
+    throw new Error(`Missing {{/${block.type === 'each' ? 'each' : block.negate ? 'unless' : 'if'}}}`);
+  }
+  return root;
+}
+
+// --- Render ---
+
+// Valore di un percorso: cerca dallo scope più interno (../ sale di uno scope)
+function resolvePath(path: string, scopes: Scope[]): unknown {
+  let depth = scopes.length - 1;
+  let rest = path;
+  while (rest.startsWith('../')) {
+    depth = Math.max(0, depth - 1);
+    rest = rest.slice(3);
+  }
+  if (rest === 'this') return scopes[depth].this;
+
+  for (let i = depth; i >= 0; i--) {
+    const scope = scopes[i];
+    // Nomi di colonna con il punto: prima la chiave intera
+    if (Object.prototype.hasOwnProperty.call(scope, rest)) return scope[rest];
+
+    const [head, ...segments] = rest.split('.');
+    const start = head === 'this' ? scope.this : scope[head];
+    if (!Object.prototype.hasOwnProperty.call(scope, head) && head !== 'this') continue;
+
+    return segments.reduce<unknown>((value, segment) => {
+      if (value === null || value === undefined) return undefined;
+      if (Array.isArray(value) && segment === 'last') return value[value.length - 1];
+      if (typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, segment)) return undefined;
+      return (value as Record<string, unknown>)[segment];
+    }, start);
+  }
+  return undefined;
+}
+
+function evaluateOperand(operand: Operand, scopes: Scope[]): unknown {
+  return operand.kind === 'literal' ? operand.value : resolvePath(operand.path, scopes);
+}
+
+function evaluate(expression: Expression, scopes: Scope[]): unknown {
+  return expression.pipes.reduce(
+    (value, pipe) => PIPE_HANDLERS[pipe.name](value, pipe.args),
+    evaluateOperand(expression.operand, scopes)
+  );
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== null && value !== undefined && value !== '' && value !== false && value !== 0;
+}
+
+function compare(left: unknown, operator: ComparisonOperator, right: unknown): boolean {
+  const a = toNumber(left);
+  const b = toNumber(right);
+  const numeric = a !== null && b !== null;
+
+  switch (operator) {
+    case '==': return numeric ? a === b : stringify(left) === stringify(right);
+    case '!=': return numeric ? a !== b : stringify(left) !== stringify(right);
+    default: {
+      const diff = numeric ? a - b : stringify(left).localeCompare(stringify(right));
+      if (operator === '>') return diff > 0;
+      if (operator === '>=') return diff >= 0;
+      if (operator === '<') return diff < 0;
+      return diff <= 0;
+    }
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'value':
+        output += stringify(evaluate(node.expression, scopes));
+        break;
+      case 'if': {
+        const { left, operator, right } = node.condition;
+        const value = evaluate(left, scopes);
+        const matches = operator && right ? compare(value, operator, evaluateOperand(right, scopes)) : isTruthy(value);
+        output += renderNodes(matches !== node.negate ? node.body : node.otherwise, scopes);
+        break;
+      }
+      case 'each': {
+        const list = resolvePath(node.path, scopes);
+        const items = Array.isArray(list) ? list.slice(0, node.limit) : [];
+        if (items.length === 0) {
+          output += renderNodes(node.otherwise, scopes);
+          break;
+        }
+        items.forEach((item, index) => {
+          const scope: Scope = {
+            ...(item && typeof item === 'object' && !Array.isArray(item) ? item : {}),
+            this: item,
+            '@index': index,
+            '@number': index + 1,
+            '@first': index === 0,
+            '@last': index === items.length - 1,
+          };
+          output += renderNodes(node.body, [...scopes, scope]);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+// Scope di partenza: colonne della prima riga, rows e rowCount
+function rootScope(rows: Record<string, unknown>[]): Scope {
+  return { ...(rows[0] || {}), rows, rowCount: rows.length, this: rows[0] };
+}
+
+/**
+ * Rende una stringa del template con le righe della query
+ */
+export function renderTemplate(source: string, rows: Record<string, unknown>[]): string {
+  return renderNodes(parseTemplate(source), [rootScope(rows)]);
+}
+
+// --- Hydration dei widget ---
+
+const ROOT_KEYS = new Set(['rows', 'rowCount', 'this']);
+
+// "{{column}}" o "{{column | pipe}}" da solo: per chart e table diventa la colonna intera
+function columnTag(source: string): Expression | null {
+  if (!/^\{\{[^{}]*\}\}$/.test(source.trim())) return null;
+  const [node] = parseTemplate(source.trim());
+  if (node?.type !== 'value' || node.expression.operand.kind !== 'path') return null;
+  const path = node.expression.operand.path;
+  return ROOT_KEYS.has(path.split('.')[0]) || path.startsWith('@') || path.startsWith('../') ? null : node.expression;
+}
+
+/**
+ * Sostituisce i tag del template con i dati (vedi in alto). Lancia un errore se un template non è valido
+ */
+export function hydrateTemplate(template: unknown, rows: Record<string, unknown>[], widgetType: string): unknown {
+  // {{*}}: righe della tabella nell'ordine delle colonne
+  const templateObj = template as { columns?: string[]; rows?: unknown };
+  if (widgetType !== 'markdown' && templateObj && templateObj.rows === '{{*}}') {
+    const columns = templateObj.columns || Object.keys(rows[0] || {});
+    return { ...templateObj, columns, rows: rows.map(row => columns.map(col => row[col])) };
+  }
+
+  const root = [rootScope(rows)];
+
+  const walk = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(walk);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item)]));
+    }
+    if (typeof value !== 'string' || !value.includes('{{')) return value;
+
+    if (widgetType !== 'markdown') {
+      const column = columnTag(value);
+      if (column) return rows.map(row => evaluate(column, [...root, { ...row, this: row }]));
+    }
+    return renderNodes(parseTemplate(value), root);
+  };
+
+  return walk(template);
+}
+
+/**
+ * Valida tutte le stringhe di un template (tool AI). Lancia un errore con il percorso della prima non valida
+ */
+export function validateWidgetTemplate(template: unknown, path: string = 'template'): void {
+  if (Array.isArray(template)) {
+    template.forEach((item, i) => validateWidgetTemplate(item, `${path}[${i}]`));
+  } else if (template && typeof template === 'object') {
+    for (const [key, item] of Object.entries(template)) validateWidgetTemplate(item, `${path}.${key}`);
+  } else if (typeof template === 'string' && template.includes('{{')) {
+    try {
+      parseTemplate(template);
+    } catch (err) {
+      throw new Error(`${path}: ${err instanceof Error ? err.message : 'invalid template'}`);
+    }
+  }
+}
@@ -5,6 +5,8 @@ import TopBar from './components/TopBar';
 import ChatPanel from './components/ChatPanel';
 import DashboardCanvas, { Dashboard } from './components/DashboardCanvas';
 import JSONEditorPanel from './components/JSONEditorPanel';
+import DashboardHistoryPanel from './components/DashboardHistoryPanel';
+import { useLiveMode } from './lib/useLiveMode';
 
 export default function Home() {
   // Usa sempre il default per evitare hydration mismatch
@@ -18,8 +20,12 @@ export default function Home() {
   // JSON Editor Panel
   const [isJsonEditorOpen, setIsJsonEditorOpen] = useState(false);
   const [jsonEditorWidth, setJsonEditorWidth] = useState(500);
+  // Cronologia della dashboard (stessa larghezza del JSON editor)
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [selectedDashboard, setSelectedDashboard] = useState<Dashboard | null>(null);
   const [dashboardVersion, setDashboardVersion] = useState(0);
+  // Live mode: solo la dashboard, a schermo intero
+  const { isLiveMode, toggleLiveMode } = useLiveMode();
 
   // Carica da localStorage solo dopo hydration (lato client)
   useEffect(() => {
@@ -69,7 +75,7 @@ export default function Home() {
   return (
     <div className="flex flex-col h-screen overflow-hidden">
       {/* Top Bar */}
-      <TopBar />
+      {!isLiveMode && <TopBar />}
 
       {/* Main Content Area */}
       <div className="flex flex-1 overflow-hidden">
@@ -78,19 +84,30 @@ export default function Home() {
           isChatOpen={isChatOpen}
           onToggleChat={() => {
             if (!isChatOpen) {
-              // Se apriamo la chat, chiudiamo il JSON editor
+              // Se apriamo la chat, chiudiamo il JSON editor e la cronologia
               setIsJsonEditorOpen(false);
+              setIsHistoryOpen(false);
             }
             setIsChatOpen(!isChatOpen);
           }}
           isJsonEditorOpen={isJsonEditorOpen}
           onToggleJsonEditor={() => {
             if (!isJsonEditorOpen) {
-              // Se apriamo il JSON editor, chiudiamo la chat
+              // Se apriamo il JSON editor, chiudiamo la chat e la cronologia
               setIsChatOpen(false);
+              setIsHistoryOpen(false);
             }
             setIsJsonEditorOpen(!isJsonEditorOpen);
           }}
+          isHistoryOpen={isHistoryOpen}
+          onToggleHistory={() => {
+            if (!isHistoryOpen) {
+              // Se apriamo la cronologia, chiudiamo la chat e il JSON editor
+              setIsChatOpen(false);
+              setIsJsonEditorOpen(false);
+            }
+            setIsHistoryOpen(!isHistoryOpen);
+          }}
           modifiedDashboardId={modifiedDashboardId}
           modifiedDashboardName={modifiedDashboardName}
           onNotificationDismiss={() => {
@@ -99,10 +116,12 @@ export default function Home() {
           }}
           onSelectedDashboardChange={setSelectedDashboard}
           dashboardVersion={dashboardVersion}
+          isLiveMode={isLiveMode}
+          onToggleLiveMode={toggleLiveMode}
         />
 
         {/* JSON Editor Panel - sempre montato, nascosto con CSS */}
-        <div style={{ display: isJsonEditorOpen ? 'flex' : 'none' }}>
+        <div style={{ display: isJsonEditorOpen && !isLiveMode ? 'flex' : 'none' }}>
           <JSONEditorPanel
             width={jsonEditorWidth}
             onWidthChange={setJsonEditorWidth}
@@ -116,8 +135,21 @@ export default function Home() {
           />
         </div>
 
+        {/* History Panel - montato solo quando aperto (ricarica le revisioni a ogni apertura) */}
+        {isHistoryOpen && !isLiveMode && (
+          <DashboardHistoryPanel
+            width={jsonEditorWidth}
+            onWidthChange={setJsonEditorWidth}
+            minWidth={400}
+            maxWidth={maxChatWidth}
+            dashboard={selectedDashboard}
+            dashboardVersion={dashboardVersion}
+            onRestore={() => setDashboardVersion(prev => prev + 1)}
+          />
+        )}
+
         {/* Chat Panel - sempre montato, nascosto con CSS */}
-        <div style={{ display: isChatOpen ? 'flex' : 'none' }}>
+        <div style={{ display: isChatOpen && !isLiveMode ? 'flex' : 'none' }}>
           <ChatPanel 
             width={chatWidth}
             onWidthChange={setChatWidth}
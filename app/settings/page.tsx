@@ -1,17 +1,18 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import TopBar from '../components/TopBar';
-import { User, Bot, ChevronRight, Eye, EyeOff, ChevronDown, Check, CheckCircle, Loader2, Trash2, AlertCircle } from 'lucide-react';
+import { User, Bot, Code2, ChevronRight, Eye, EyeOff, ChevronDown, Check, CheckCircle, Copy, Loader2, Trash2, AlertCircle, RefreshCw } from 'lucide-react';
 import { useAI } from '../lib/ai';
 import { useAuth } from '../lib/auth';
 import Link from 'next/link';
 
-type SettingsSection = 'profile' | 'ai-connection';
+type SettingsSection = 'profile' | 'ai-connection' | 'embedding';
 
 const menuItems: { id: SettingsSection; label: string; icon: React.ReactNode }[] = [
   { id: 'profile', label: 'profile', icon: <User size={18} /> },
   { id: 'ai-connection', label: 'AI connection', icon: <Bot size={18} /> },
+  { id: 'embedding', label: 'embedding', icon: <Code2 size={18} /> },
 ];
 
 export default function SettingsPage() {
@@ -76,6 +77,7 @@ export default function SettingsPage() {
           <div className="max-w-2xl mx-auto px-8 py-8">
             {activeSection === 'profile' && <ProfileSection />}
             {activeSection === 'ai-connection' && <AIConnectionSection />}
+            {activeSection === 'embedding' && <EmbeddingSection />}
           </div>
         </div>
       </div>
@@ -602,3 +604,247 @@ function AIConnectionSection() {
     </div>
   );
 }
+
+// Embedding Section: segreto del workspace per i token di embed firmati
+function EmbeddingSection() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [configuredAt, setConfiguredAt] = useState<string | null>(null);
+  const [newSecret, setNewSecret] = useState<string | null>(null); // Mostrato una sola volta
+  const [isCopied, setIsCopied] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmRotate, setConfirmRotate] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        const response = await fetch('/api/settings/embed-secret');
+        if (response.ok) {
+          const data = await response.json();
+          setConfiguredAt(data.configured ? data.created_at : null);
+        }
+      } catch (err) {
+        console.error('Failed to fetch embed secret status:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchStatus();
+  }, []);
+
+  const handleGenerate = async () => {
+    // Ruotare invalida gli embed in uso: chiedi conferma
+    if (configuredAt && !confirmRotate) {
+      setConfirmRotate(true);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/settings/embed-secret', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to generate secret');
+        return;
+      }
+      setNewSecret(data.secret);
+      setConfiguredAt(data.created_at);
+    } catch (err) {
+      console.error('Failed to generate embed secret:', err);
+      setError('Failed to generate secret');
+    } finally {
+      setIsSaving(false);
+      setConfirmRotate(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/settings/embed-secret', { method: 'DELETE' });
+      if (response.ok) {
+        setConfiguredAt(null);
+        setNewSecret(null);
+      } else {
+        setError('Failed to delete secret');
+      }
+    } catch (err) {
+      console.error('Failed to delete embed secret:', err);
+      setError('Failed to delete secret');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copySecret = async () => {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+    }
+  };
+
+  const exampleRequest = `curl -X POST ${typeof window !== 'undefined' ? window.location.origin : ''}/api/embed/tokens \\
+  -H "Authorization: Bearer <embed secret>" \\
+  -H "Content-Type: application/json" \\
+  -d '{"dashboard_id": "<dashboard id>", "params": {"customer_id": 42}, "expires_in": 3600}'`;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 
+          className="text-xl font-semibold mb-1"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          embedding
+        </h1>
+        <p 
+          className="text-sm"
+          style={{ color: 'var(--text-secondary)' }}
+        >
+          embed dashboards in your own apps with signed, short-lived tokens
+        </p>
+      </div>
+
+      {/* Error message */}
+      {error && (
+        <div 
+          className="mb-6 p-3 rounded-lg flex items-center gap-2"
+          style={{ 
+            background: 'rgba(239, 68, 68, 0.1)',
+            border: '1px solid rgba(239, 68, 68, 0.3)'
+          }}
+        >
+          <AlertCircle size={16} style={{ color: '#ef4444' }} />
+          <span className="text-sm" style={{ color: '#ef4444' }}>
+            {error}
+          </span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 size={24} className="animate-spin" style={{ color: 'var(--text-muted)' }} />
+        </div>
+      ) : (
+        <div 
+          className="rounded-xl p-4 mb-6"
+          style={{ 
+            background: 'var(--bg-secondary)',
+            border: '1px solid var(--border-subtle)'
+          }}
+        >
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 
+                className="text-sm font-medium mb-1"
+                style={{ color: 'var(--text-primary)' }}
+              >
+                embed secret
+              </h3>
+              <p 
+                className="text-xs"
+                style={{ color: 'var(--text-muted)' }}
+              >
+                {configuredAt
+                  ? `generated ${new Date(configuredAt).toLocaleDateString()}. rotating it invalidates every embed token issued so far`
+                  : 'generate a secret to start issuing embed tokens from your backend'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {configuredAt && (
+                <button
+                  onClick={handleDelete}
+                  disabled={isSaving}
+                  className="flex items-center gap-1.5 px-2 py-1 rounded text-xs transition-colors"
+                  style={{ color: 'var(--text-muted)' }}
+                >
+                  <Trash2 size={12} />
+                  Remove
+                </button>
+              )}
+              <button
+                onClick={handleGenerate}
+                disabled={isSaving}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors"
+                style={{ 
+                  background: confirmRotate ? '#ef4444' : 'var(--accent-primary)',
+                  color: 'white'
+                }}
+              >
+                {isSaving ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                {confirmRotate ? 'Confirm rotation' : configuredAt ? 'Rotate' : 'Generate'}
+              </button>
+            </div>
+          </div>
+
+          {/* Segreto appena generato: non viene più mostrato */}
+          {newSecret && (
+            <div className="mt-4">
+              <div 
+                className="flex items-center gap-2 p-2 rounded-lg"
+                style={{ 
+                  background: 'var(--bg-tertiary)',
+                  border: '1px solid var(--border-subtle)'
+                }}
+              >
+                <input
+                  type="text"
+                  value={newSecret}
+                  readOnly
+                  className="flex-1 bg-transparent text-sm font-mono outline-none"
+                  style={{ color: 'var(--text-primary)' }}
+                />
+                <button
+                  onClick={copySecret}
+                  className="p-1.5 rounded transition-colors"
+                  style={{ color: isCopied ? '#22c55e' : 'var(--text-muted)' }}
+                >
+                  {isCopied ? <Check size={16} /> : <Copy size={16} />}
+                </button>
+              </div>
+              <p 
+                className="text-xs mt-1.5"
+                style={{ color: '#eab308' }}
+              >
+                Copy it now and store it on your server: it won&apos;t be shown again.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Come emettere un token */}
+      <div className="mb-6">
+        <h3 
+          className="text-sm font-medium mb-1"
+          style={{ color: 'var(--text-primary)' }}
+        >
+          issuing tokens
+        </h3>
+        <p 
+          className="text-xs mb-2"
+          style={{ color: 'var(--text-muted)' }}
+        >
+          from your backend, request a token and load the returned url in an iframe. params are locked: every dynamic
+          widget query must declare them, and viewers cannot change them
+        </p>
+        <pre 
+          className="p-3 rounded-lg text-xs overflow-x-auto"
+          style={{ 
+            background: 'var(--bg-tertiary)',
+            border: '1px solid var(--border-subtle)',
+            color: 'var(--text-secondary)'
+          }}
+        >
+          {exampleRequest}
+        </pre>
+      </div>
+    </div>
+  );
+}
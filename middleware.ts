@@ -9,6 +9,7 @@ const publicRoutes = [
   '/terms',
   '/privacy',
   '/dashare',
+  '/embed',
   '/partner',
   '/ita_partners',
 ];